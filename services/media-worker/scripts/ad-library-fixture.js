@@ -0,0 +1,74 @@
+// Local stand-in for the Meta Ad Library listing pages, for testing
+// competitor watchlists without hitting facebook.com.
+//
+//   npm run fixture:ad-library            # serves fixtures/ad-library.json on :4010
+//   AD_LIBRARY_BASE_URL=http://localhost:4010/ads/library/ npm start
+//
+// Pages are matched by view_all_page_id, keyword searches (q=) by ad body.
+// The fixture file is re-read on every request, so editing it between polls
+// simulates ads starting and stopping.
+import fs from 'node:fs/promises'
+import http from 'node:http'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const PORT = Number(process.env.PORT || 4010)
+const FIXTURE_PATH =
+  process.env.AD_LIBRARY_FIXTURE ||
+  path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'ad-library.json')
+
+function escapeHtml(value) {
+  return String(value || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+function renderListing(ads) {
+  const cards = ads
+    .map(
+      (ad) => `
+      <div class="ad-card">
+        <span>Active</span>
+        <div>Library ID: ${escapeHtml(ad.id)}</div>
+        <div>Started running on ${escapeHtml(ad.started)}</div>
+        <div>${escapeHtml(ad.pageName)}</div>
+        <p>${escapeHtml(ad.body)}</p>
+      </div>`
+    )
+    .join('\n')
+  return `<!doctype html><html><head><title>Ad Library fixture</title></head><body>
+    <h1>${ads.length} results</h1>
+    ${cards || '<p>No ads match your search.</p>'}
+  </body></html>`
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`)
+  try {
+    const fixture = JSON.parse(await fs.readFile(FIXTURE_PATH, 'utf8'))
+    const pages = fixture.pages || {}
+    const all = Object.entries(pages).flatMap(([pageId, page]) =>
+      (page.ads || []).map((ad) => ({ ...ad, pageId, pageName: page.name }))
+    )
+
+    const pageId = url.searchParams.get('view_all_page_id')
+    const query = String(url.searchParams.get('q') || '').toLowerCase()
+    const ads = pageId
+      ? all.filter((ad) => ad.pageId === pageId)
+      : query
+        ? all.filter((ad) => `${ad.pageName} ${ad.body}`.toLowerCase().includes(query))
+        : []
+
+    res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' })
+    res.end(renderListing(ads))
+    console.log(new Date().toISOString(), req.method, url.pathname + url.search, '->', ads.length, 'ads')
+  } catch (err) {
+    res.writeHead(500, { 'content-type': 'text/plain' })
+    res.end(`Fixture error: ${err?.message || err}`)
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`Ad Library fixture on http://localhost:${PORT}/ads/library/ (${FIXTURE_PATH})`)
+})
@@ -0,0 +1,88 @@
+// Meta Ad Library helpers for competitor watchlists.
+// Shared by the Next app (src/lib/ad-library.ts) and the media worker.
+// Keep this file dependency-free: it ships inside the worker image on its own.
+
+export const AD_LIBRARY_DEFAULT_BASE_URL = 'https://www.facebook.com/ads/library/'
+
+export const WATCHLIST_KINDS = ['page', 'search']
+
+/**
+ * Accepts a bare page id or an Ad Library / Facebook URL that carries one
+ * (view_all_page_id=..., id=... on a page URL). Returns null when none found.
+ */
+export function normalizeAdLibraryPageId(value) {
+  const raw = String(value || '').trim()
+  if (/^\d{5,25}$/.test(raw)) return raw
+  try {
+    const url = new URL(raw)
+    const fromParams = url.searchParams.get('view_all_page_id') || url.searchParams.get('page_id')
+    if (fromParams && /^\d{5,25}$/.test(fromParams)) return fromParams
+    const fromPath = url.pathname.match(/\/(\d{5,25})\/?$/)
+    return fromPath ? fromPath[1] : null
+  } catch {
+    return null
+  }
+}
+
+// Listing of a watchlist's currently active ads. baseUrl is swappable so the
+// worker can be pointed at a local fixture server.
+export function buildAdLibraryListingUrl(watchlist, baseUrl = AD_LIBRARY_DEFAULT_BASE_URL) {
+  const url = new URL(baseUrl)
+  url.searchParams.set('active_status', 'active')
+  url.searchParams.set('ad_type', 'all')
+  url.searchParams.set('country', String(watchlist.country || 'ALL').toUpperCase())
+  url.searchParams.set('media_type', 'all')
+  if (watchlist.kind === 'page') {
+    url.searchParams.set('search_type', 'page')
+    url.searchParams.set('view_all_page_id', String(watchlist.page_id || ''))
+  } else {
+    url.searchParams.set('search_type', 'keyword_unordered')
+    url.searchParams.set('q', String(watchlist.search_terms || ''))
+  }
+  return url.toString()
+}
+
+// Canonical swipe URL for an ad. Always the public Ad Library so the swipe
+// dedups on (product_id, source, source_url) no matter where it was discovered.
+export function adLibraryAdUrl(adArchiveId) {
+  return `${AD_LIBRARY_DEFAULT_BASE_URL}?id=${encodeURIComponent(String(adArchiveId))}`
+}
+
+const MONTHS = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+}
+
+// "Started running on 3 Jan 2025" / "Started running on Jan 3, 2025" -> 2025-01-03
+function parseStartedOn(value) {
+  const text = String(value || '').trim()
+  const dayFirst = text.match(/^(\d{1,2}) ([A-Za-z]{3})[a-z]* (\d{4})/)
+  const monthFirst = text.match(/^([A-Za-z]{3})[a-z]* (\d{1,2}),? (\d{4})/)
+  const [day, month, year] = dayFirst
+    ? [dayFirst[1], dayFirst[2], dayFirst[3]]
+    : monthFirst
+      ? [monthFirst[2], monthFirst[1], monthFirst[3]]
+      : []
+  const monthIndex = MONTHS[String(month || '').toLowerCase()]
+  if (monthIndex === undefined) return null
+  const date = new Date(Date.UTC(Number(year), monthIndex, Number(day)))
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10)
+}
+
+/**
+ * Ads on an Ad Library listing page. Reads the visible card text
+ * ("Library ID: 123 ... Started running on ...") and falls back to the
+ * ad_archive_id fields embedded in the page's JSON payloads.
+ */
+export function parseAdLibraryListing({ text = '', html = '' }) {
+  const ads = new Map()
+  const cardPattern = /Library ID:?\s*(\d{6,25})((?:(?!Library ID)[\s\S]){0,240}?Started running on\s+([^\n\u00b7]+))?/gi
+  for (const match of String(text).matchAll(cardPattern)) {
+    const id = match[1]
+    if (!ads.has(id)) ads.set(id, { ad_archive_id: id, started_running_on: parseStartedOn(match[3]) })
+  }
+  for (const match of String(html).matchAll(/"ad_archive_id"\s*:\s*"?(\d{6,25})/g)) {
+    const id = match[1]
+    if (!ads.has(id)) ads.set(id, { ad_archive_id: id, started_running_on: null })
+  }
+  return Array.from(ads.values())
+}
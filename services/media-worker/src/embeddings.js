@@ -0,0 +1,104 @@
+// Embedding helpers.
+// Shared by the Next app (src/lib/embeddings.ts), which embeds search queries,
+// and the media worker, which indexes content in `sync_product_embeddings`
+// jobs. Both sides must produce identical local vectors and subject text.
+// Keep this file dependency-free: it ships inside the worker image on its own.
+
+export const EMBEDDING_SUBJECT_TYPES = ['research_item', 'swipe', 'avatar']
+
+export const DEFAULT_OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small'
+export const OPENAI_EMBEDDING_BATCH_SIZE = 96
+export const LOCAL_EMBEDDING_DIMS = 512
+export const EMBED_TEXT_MAX_CHARS = 8000
+
+export function openAiEmbeddingDims(model) {
+  return model === 'text-embedding-3-large' ? 3072 : 1536
+}
+
+export function localEmbeddingModel(dims = LOCAL_EMBEDDING_DIMS) {
+  return `hash-bow-${dims}`
+}
+
+export function joinEmbeddingText(parts) {
+  return parts
+    .map((p) => String(p || '').trim())
+    .filter(Boolean)
+    .join('\n\n')
+    .slice(0, EMBED_TEXT_MAX_CHARS)
+}
+
+// Review quotes imported onto a research item (metadata.quotes) are searchable too
+function reviewQuoteText(metadata) {
+  const quotes = metadata?.quotes
+  if (!Array.isArray(quotes)) return ''
+  return quotes
+    .filter((q) => q && typeof q.quote === 'string')
+    .map((q) => q.quote)
+    .join('\n')
+}
+
+/** The text embedded for one subject row, as selected by the indexer. */
+export function embeddingSubjectText(type, row) {
+  if (type === 'research_item') {
+    return joinEmbeddingText([row.title, row.summary, reviewQuoteText(row.metadata), row.content])
+  }
+  if (type === 'swipe') {
+    return joinEmbeddingText([row.title, row.summary, row.headline, row.ad_copy, row.transcript])
+  }
+  return joinEmbeddingText([row.name, row.content])
+}
+
+const STOPWORDS = new Set(
+  'a an and are as at be but by for from had has have he her his i in is it its me my of on or our she so that the their them they this to was we were what when where which who will with you your'.split(
+    ' '
+  )
+)
+
+function fnv1a(value) {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function stem(token) {
+  if (token.length > 5 && token.endsWith('ing')) return token.slice(0, -3)
+  if (token.length > 4 && token.endsWith('ed')) return token.slice(0, -2)
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1)
+  return token
+}
+
+/**
+ * Deterministic feature-hashing embedding (unigrams + bigrams). No network and
+ * no model, so it works offline and in dev; quality is keyword-level.
+ */
+export function embedTextLocally(text, dims = LOCAL_EMBEDDING_DIMS) {
+  const vector = new Array(dims).fill(0)
+  const tokens = (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [])
+    .map((t) => t.replace(/'/g, ''))
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t))
+    .map(stem)
+  const features = tokens.map((t) => [t, 1])
+  for (let i = 0; i < tokens.length - 1; i += 1) {
+    features.push([`${tokens[i]} ${tokens[i + 1]}`, 0.5])
+  }
+  for (const [feature, weight] of features) {
+    const hash = fnv1a(feature)
+    vector[hash % dims] += hash & 0x80000000 ? -weight : weight
+  }
+  // Sublinear term frequency, then L2 normalize so cosine distance is meaningful
+  let norm = 0
+  for (let i = 0; i < dims; i += 1) {
+    const v = vector[i]
+    vector[i] = Math.sign(v) * Math.log1p(Math.abs(v))
+    norm += vector[i] * vector[i]
+  }
+  norm = Math.sqrt(norm) || 1
+  return vector.map((v) => Math.round((v / norm) * 1e6) / 1e6)
+}
+
+export function toVectorLiteral(vector) {
+  return `[${vector.join(',')}]`
+}
@@ -2,17 +2,41 @@ import fs from 'node:fs'
 import fsp from 'node:fs/promises'
 import os from 'node:os'
 import path from 'node:path'
-import { Readable } from 'node:stream'
 import { spawn } from 'node:child_process'
 import crypto from 'node:crypto'
 
 import { Pool } from 'pg'
 import { chromium } from 'playwright'
-import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3'
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3'
 import OpenAI from 'openai'
 import Anthropic from '@anthropic-ai/sdk'
 import pdfParse from 'pdf-parse'
 import mammoth from 'mammoth'
+import * as XLSX from 'xlsx'
+import JSZip from 'jszip'
+
+import { classifySwipeUrl } from './swipe-sources.js'
+import { describeSwipeTaxonomy, normalizeSwipeTags } from './swipe-taxonomy.js'
+import {
+  AD_LIBRARY_DEFAULT_BASE_URL,
+  adLibraryAdUrl,
+  buildAdLibraryListingUrl,
+  parseAdLibraryListing,
+} from './ad-library.js'
+import { getResearchFileType } from './research-file-types.js'
+import { budgetStatus, estimateLlmCostUsd } from './llm-pricing.js'
+import { resolveAgentModel } from './model-registry.js'
+import { assertPublicUrl, fetchPublicUrl } from './url-safety.js'
+import {
+  DEFAULT_OPENAI_EMBEDDING_MODEL,
+  EMBEDDING_SUBJECT_TYPES,
+  LOCAL_EMBEDDING_DIMS,
+  OPENAI_EMBEDDING_BATCH_SIZE,
+  embedTextLocally,
+  embeddingSubjectText,
+  localEmbeddingModel,
+  toVectorLiteral,
+} from './embeddings.js'
 
 const WORKER_ID = process.env.WORKER_ID || os.hostname()
 
@@ -38,16 +62,20 @@ const r2 = new S3Client({
   forcePathStyle: true,
 })
 
-const SUMMARIZE_MODEL = process.env.ANTHROPIC_SUMMARIZE_MODEL || 'claude-3-5-haiku-latest'
-
 const openaiClientCache = new Map()
 const anthropicClientCache = new Map()
 const orgIdCache = new Map()
+// Org model settings change rarely; a short cache saves a query per job
+const modelSettingsCache = new Map()
+const MODEL_SETTINGS_TTL_MS = 60 * 1000
 
 const DEFAULT_PROMPT_BLOCKS = {
   swipe_summarizer_system:
     'You create short swipe titles and high-signal summaries for ad/transcript libraries. Output ONLY JSON.',
-  swipe_summarizer_prompt: `Return JSON with keys: title, summary.
+  swipe_summarizer_prompt: `Return JSON with keys: title, summary, tags.
+
+tags is an object with one value per dimension below. Use only the listed values and omit any dimension you cannot judge.
+{{tag_options}}
 
 URL: {{url}}
 
@@ -60,6 +88,33 @@ Title: {{title}}
 
 Text:
 {{text}}`,
+  research_image_ocr_system:
+    'You transcribe screenshots for a research library. Output only the text visible in the image, nothing else.',
+  research_image_ocr_prompt: `Transcribe all readable text in this screenshot (comments, DMs, reviews, captions).
+
+Rules:
+- Copy text verbatim, keeping spelling, emoji and punctuation.
+- Keep one message/comment per paragraph, prefixed with the author's name or handle when visible.
+- Include star ratings, like counts and dates as they appear.
+- Skip app chrome (buttons, navigation, timestamps in the status bar).`,
+  research_organizer_system: 'You are a precise organizer. Output strict JSON only, no extra commentary.',
+  research_organizer_prompt: `You are organizing research for a copywriting studio.
+Return JSON with:
+- categories: [{ name, description }] (only categories you are adding)
+- assignments: [{ item_id, category_name }]
+
+Rules:
+- Reuse an existing category, spelled exactly as listed, whenever an item fits it.
+- Only add a category when nothing existing fits. Keep the total to 2-8 categories.
+- Use short names.
+- Map every item.
+- Output ONLY JSON.
+
+Existing categories:
+{{categories}}
+
+Items:
+{{items}}`,
 }
 
 function sleep(ms) {
@@ -127,6 +182,30 @@ async function getOrgIdForProduct(productId) {
   return orgId
 }
 
+// Model for a worker agent, honoring the org's overrides from /studio/agents
+async function getAgentModel(orgId, agentId) {
+  let settings = null
+  if (orgId) {
+    const cached = modelSettingsCache.get(orgId)
+    if (cached && Date.now() - cached.at < MODEL_SETTINGS_TTL_MS) {
+      settings = cached.settings
+    } else {
+      const { rows } = await pool.query(
+        `
+        SELECT default_model, agent_models, skill_models
+        FROM organization_model_settings
+        WHERE organization_id = $1
+        LIMIT 1
+      `,
+        [orgId]
+      )
+      settings = rows?.[0] || null
+      modelSettingsCache.set(orgId, { at: Date.now(), settings })
+    }
+  }
+  return resolveAgentModel({ agentId, settings, env: process.env }).model
+}
+
 async function getOrgApiKey(provider, orgId) {
   let key = null
   if (orgId) {
@@ -153,24 +232,167 @@ async function getOrgApiKey(provider, orgId) {
   return key
 }
 
-async function getOpenAiClient(orgId) {
+// LLM usage ledger: the same llm_usage_events rows the Next app writes
+// (src/lib/llm-usage.ts). Metering is best-effort and never fails a job.
+async function recordLlmUsage({ orgId, usageContext, provider, model, usage, requestId }) {
+  try {
+    await pool.query(
+      `
+      INSERT INTO llm_usage_events (
+        organization_id, user_id, product_id, feature, provider, model,
+        input_tokens, output_tokens, cache_creation_input_tokens, cache_read_input_tokens,
+        cost_usd, request_id, metadata
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+    `,
+      [
+        orgId || null,
+        usageContext.userId || null,
+        usageContext.productId || null,
+        usageContext.feature,
+        provider,
+        model,
+        Number(usage?.input_tokens || 0),
+        Number(usage?.output_tokens || 0),
+        Number(usage?.cache_creation_input_tokens || 0),
+        Number(usage?.cache_read_input_tokens || 0),
+        estimateLlmCostUsd(model, usage || {}),
+        requestId || null,
+        {
+          job_id: usageContext.jobId || null,
+          ...(usage?.audio_seconds ? { audio_seconds: usage.audio_seconds } : {}),
+        },
+      ]
+    )
+  } catch (err) {
+    log('Failed to record LLM usage:', err?.message || err)
+  }
+}
+
+// Throws when the org's monthly budget is spent and set to hard-stop, so the
+// job fails with a clear message instead of running up the bill.
+async function assertLlmBudget(orgId) {
+  if (!orgId) return
+  const { rows } = await pool.query(
+    `
+    SELECT
+      organization_llm_budgets.monthly_budget_usd,
+      organization_llm_budgets.warn_at_percent,
+      organization_llm_budgets.hard_stop,
+      (
+        SELECT COALESCE(SUM(cost_usd), 0)
+        FROM llm_usage_events
+        WHERE organization_id = $1
+          AND created_at >= date_trunc('month', NOW())
+      ) AS spent_usd
+    FROM organization_llm_budgets
+    WHERE organization_id = $1
+    LIMIT 1
+  `,
+    [orgId]
+  )
+  const row = rows?.[0]
+  if (!row || row.hard_stop === false) return
+  const spentUsd = Number(row.spent_usd || 0)
+  const budgetUsd = row.monthly_budget_usd === null ? null : Number(row.monthly_budget_usd)
+  const status = budgetStatus({ spentUsd, budgetUsd, warnAtPercent: Number(row.warn_at_percent || 80) })
+  if (status === 'exceeded') {
+    throw new Error(
+      `budget_exceeded: monthly AI budget reached ($${spentUsd.toFixed(2)} of $${budgetUsd.toFixed(2)})`
+    )
+  }
+}
+
+// Only the SDK methods the worker calls are wrapped.
+function meterOpenAiClient(client, orgId, usageContext) {
+  return {
+    audio: {
+      transcriptions: {
+        async create(params, options) {
+          const res = await client.audio.transcriptions.create(params, options)
+          await recordLlmUsage({
+            orgId,
+            usageContext,
+            provider: 'openai',
+            model: params.model,
+            usage: { audio_seconds: Number(res?.duration || 0) },
+            requestId: null,
+          })
+          return res
+        },
+      },
+    },
+    embeddings: {
+      async create(params, options) {
+        const res = await client.embeddings.create(params, options)
+        await recordLlmUsage({
+          orgId,
+          usageContext,
+          provider: 'openai',
+          model: res?.model || params.model,
+          usage: { input_tokens: Number(res?.usage?.prompt_tokens || 0) },
+          requestId: null,
+        })
+        return res
+      },
+    },
+  }
+}
+
+function meterAnthropicClient(client, orgId, usageContext) {
+  return {
+    messages: {
+      async create(params, options) {
+        const message = await client.messages.create(params, options)
+        await recordLlmUsage({
+          orgId,
+          usageContext,
+          provider: 'anthropic',
+          model: message?.model || params.model,
+          usage: message?.usage,
+          requestId: message?.id,
+        })
+        return message
+      },
+    },
+  }
+}
+
+// usageContext ({ feature, jobId, productId, userId }) meters every call on the
+// returned client and checks the org's budget first.
+async function getOpenAiClient(orgId, usageContext = null) {
   const key = await getOrgApiKey('openai', orgId)
   if (!key) throw new Error('OPENAI_API_KEY is not set')
+  if (usageContext) await assertLlmBudget(orgId)
   const cacheKey = `openai:${orgId || 'env'}:${key}`
-  if (openaiClientCache.has(cacheKey)) return openaiClientCache.get(cacheKey)
-  const client = new OpenAI({ apiKey: key })
-  openaiClientCache.set(cacheKey, client)
-  return client
+  let client = openaiClientCache.get(cacheKey)
+  if (!client) {
+    client = new OpenAI({ apiKey: key })
+    openaiClientCache.set(cacheKey, client)
+  }
+  return usageContext ? meterOpenAiClient(client, orgId, usageContext) : client
 }
 
-async function getAnthropicClient(orgId) {
+async function getAnthropicClient(orgId, usageContext = null) {
   const key = await getOrgApiKey('anthropic', orgId)
   if (!key) throw new Error('ANTHROPIC_API_KEY is not set')
+  if (usageContext) await assertLlmBudget(orgId)
   const cacheKey = `anthropic:${orgId || 'env'}:${key}`
-  if (anthropicClientCache.has(cacheKey)) return anthropicClientCache.get(cacheKey)
-  const client = new Anthropic({ apiKey: key })
-  anthropicClientCache.set(cacheKey, client)
-  return client
+  let client = anthropicClientCache.get(cacheKey)
+  if (!client) {
+    client = new Anthropic({ apiKey: key })
+    anthropicClientCache.set(cacheKey, client)
+  }
+  return usageContext ? meterAnthropicClient(client, orgId, usageContext) : client
+}
+
+function jobUsageContext(job, productId) {
+  return {
+    feature: job.type,
+    jobId: job.id,
+    productId: productId || null,
+    userId: job.input?.user_id || null,
+  }
 }
 
 async function loadGlobalPromptBlocks() {
@@ -220,13 +442,14 @@ async function claimNextJob() {
       `
       SELECT *
       FROM media_jobs
-      WHERE type IN ('ingest_meta_ad', 'ingest_research_file')
+      WHERE type = ANY($1::text[])
         AND status = 'queued'
         AND run_after <= NOW()
       ORDER BY run_after ASC
       FOR UPDATE SKIP LOCKED
       LIMIT 1
-    `
+    `,
+      [Object.keys(JOB_HANDLERS)]
     )
     if (rows.length === 0) {
       await client.query('COMMIT')
@@ -261,11 +484,13 @@ async function claimNextJob() {
 async function runCommand(cmd, args, opts = {}) {
   return new Promise((resolve, reject) => {
     const child = spawn(cmd, args, { ...opts, stdio: ['ignore', 'pipe', 'pipe'] })
+    let stdout = ''
     let stderr = ''
+    child.stdout.on('data', (d) => (stdout += d.toString('utf8')))
     child.stderr.on('data', (d) => (stderr += d.toString('utf8')))
     child.on('error', reject)
     child.on('close', (code) => {
-      if (code === 0) return resolve()
+      if (code === 0) return resolve(stdout)
       reject(new Error(`${cmd} failed (${code}): ${stderr.slice(0, 1200)}`))
     })
   })
@@ -282,19 +507,6 @@ function decodeEscapedUrl(value) {
     .replace(/\\u002f/gi, '/')
 }
 
-function classifySwipeUrl(url) {
-  try {
-    const u = new URL(url)
-    if (!u.hostname.includes('facebook.com')) return null
-    if (u.pathname.includes('/ads/library')) return 'ad_library'
-    if (u.pathname.includes('/reel/')) return 'fb_reel'
-    if (u.pathname.includes('/posts/') || u.pathname.includes('/permalink/')) return 'fb_post'
-    return null
-  } catch {
-    return null
-  }
-}
-
 const FB_USER_AGENT =
   'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36'
 
@@ -947,34 +1159,412 @@ async function scrapeMetaAdVideo(url) {
   }
 }
 
+const YT_DLP_BIN = process.env.YT_DLP_BIN || 'yt-dlp'
+
+// Progressive MP4 with audio+video first; Whisper needs the audio track.
+const YT_DLP_FORMAT = 'b[ext=mp4][vcodec!=none][acodec!=none]/b[vcodec!=none][acodec!=none]/b'
+
+async function resolveWithYtDlp(url) {
+  const stdout = await runCommand(YT_DLP_BIN, [
+    '--dump-single-json',
+    '--no-playlist',
+    '--no-warnings',
+    '-f', YT_DLP_FORMAT,
+    url,
+  ])
+  const info = JSON.parse(stdout)
+  const format = Array.isArray(info.requested_formats) ? null : info
+  const videoUrl = String(format?.url || info.requested_downloads?.[0]?.url || '').trim()
+  if (!videoUrl) throw new Error('yt-dlp returned no downloadable format')
+
+  const requestHeaders = { ...(info.http_headers || {}) }
+  if (typeof info.cookies === 'string' && info.cookies.trim()) {
+    // yt-dlp reports cookies as "name=value; Domain=...; ..." segments
+    requestHeaders.cookie = info.cookies
+      .split(/;\s*/)
+      .filter((part) => part.includes('=') && !/^(domain|path|expires|secure|httponly)=/i.test(part))
+      .join('; ')
+  }
+
+  return {
+    videoUrl,
+    kind: /m3u8/i.test(String(info.protocol || '')) ? 'hls' : 'mp4',
+    requestHeaders,
+    info,
+  }
+}
+
+async function scrapeYouTubeShort(url) {
+  log('Resolving YouTube Short via yt-dlp...', url)
+  const { videoUrl, kind, requestHeaders, info } = await resolveWithYtDlp(url)
+  return {
+    videoUrl,
+    imageUrl: null,
+    kind,
+    title: info.title || null,
+    adCopy: info.description || null,
+    headline: info.title || null,
+    cta: null,
+    mediaType: 'video',
+    requestHeaders,
+    meta: {
+      video_id: info.id || null,
+      channel: info.channel || info.uploader || null,
+      duration_seconds: info.duration ?? null,
+      view_count: info.view_count ?? null,
+      thumbnail_url: info.thumbnail || null,
+      selected_source: 'yt-dlp',
+    },
+  }
+}
+
+async function scrapeTikTokVideo(url) {
+  log('Resolving TikTok video via yt-dlp...', url)
+  try {
+    const { videoUrl, kind, requestHeaders, info } = await resolveWithYtDlp(url)
+    return {
+      videoUrl,
+      imageUrl: null,
+      kind,
+      title: info.title || null,
+      adCopy: info.description || null,
+      headline: null,
+      cta: null,
+      mediaType: 'video',
+      requestHeaders,
+      meta: {
+        video_id: info.id || null,
+        creator: info.uploader || info.creator || null,
+        duration_seconds: info.duration ?? null,
+        view_count: info.view_count ?? null,
+        thumbnail_url: info.thumbnail || null,
+        selected_source: 'yt-dlp',
+      },
+    }
+  } catch (err) {
+    log('yt-dlp failed, falling back to Playwright...', err?.message || err)
+    return scrapeTikTokPage(url)
+  }
+}
+
+const TIKTOK_VIDEO_JSON_KEYS = /(playAddr|downloadAddr|video_url|videoUrl|play_url)/
+
+async function scrapeTikTokPage(url) {
+  log('Scraping TikTok page via Playwright...', url)
+  const userAgent = FB_USER_AGENT
+  const browser = await chromium.launch({
+    headless: true,
+    args: ['--no-sandbox', '--disable-dev-shm-usage'],
+  })
+
+  const page = await browser.newPage({
+    userAgent,
+    viewport: { width: 1360, height: 768 },
+    locale: 'en-US',
+  })
+
+  const candidates = []
+  const seen = new Set()
+  const pushCandidate = (candidate) => {
+    const normalizedUrl = decodeEscapedUrl(candidate?.url || '').trim()
+    if (!normalizedUrl || seen.has(normalizedUrl)) return
+    if (!/^https?:\/\//i.test(normalizedUrl)) return
+    seen.add(normalizedUrl)
+    const kind = /\.m3u8(\?|$)/i.test(normalizedUrl) ? 'hls' : 'mp4'
+    const next = {
+      url: normalizedUrl,
+      source: candidate?.source || 'unknown',
+      contentType: candidate?.contentType || '',
+      contentLength: Number(candidate?.contentLength || 0) || 0,
+      kind,
+    }
+    next.score = scoreVideoCandidate(next)
+    candidates.push(next)
+  }
+
+  // TikTok CDN URLs rarely end in .mp4, so trust the response content type
+  page.on('response', async (res) => {
+    try {
+      const headers = res.headers()
+      const ct = headers['content-type'] || ''
+      if (!ct.startsWith('video/') && !ct.includes('mpegurl')) return
+      const len = Number(headers['content-length'] || 0) || 0
+      pushCandidate({ url: res.url(), source: 'network', contentType: ct, contentLength: len })
+    } catch { /* ignore */ }
+  })
+
+  try {
+    await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 60_000 })
+    await page.waitForTimeout(2_000)
+
+    // Cookie banners and login prompts block playback on first load
+    await page.locator('button:has-text("Accept all"), button:has-text("Allow all")').first().click({ timeout: 1500 }).catch(() => {})
+    await page.locator('[data-e2e="modal-close-inner-button"]').first().click({ timeout: 1500 }).catch(() => {})
+
+    const video = page.locator('video').first()
+    if ((await video.count()) > 0) {
+      await video.click({ timeout: 2_000 }).catch(() => {})
+    }
+    await page.waitForTimeout(6_000)
+
+    const domSources = await page.$$eval('video', (nodes) => {
+      const urls = []
+      for (const node of nodes) {
+        if (node.currentSrc) urls.push(node.currentSrc)
+        if (node.src) urls.push(node.src)
+        for (const child of node.querySelectorAll('source')) {
+          if (child.src) urls.push(child.src)
+        }
+      }
+      return Array.from(new Set(urls.filter(Boolean)))
+    })
+    for (const src of domSources) {
+      if (!src.startsWith('blob:')) pushCandidate({ url: src, source: 'dom' })
+    }
+
+    // Rehydration JSON (video pages) and Creative Center payloads
+    const html = await page.content()
+    const keyPattern = new RegExp(`"(${TIKTOK_VIDEO_JSON_KEYS.source})"\\s*:\\s*"([^"]+)"`, 'gi')
+    for (const match of html.matchAll(keyPattern)) {
+      pushCandidate({ url: match[2], source: match[1] })
+    }
+
+    candidates.sort((a, b) => b.score - a.score)
+    const best = candidates[0] || null
+
+    log(`TikTok scrape: ${candidates.length} candidates found (best: ${best?.source || 'none'})`)
+
+    const title = await page.title().catch(() => null)
+    const cookieHeader = (await page.context().cookies())
+      .map((c) => `${c.name}=${c.value}`)
+      .join('; ')
+
+    const adCopy = await page.evaluate(() => {
+      const selectors = [
+        '[data-e2e="browse-video-desc"]',
+        '[data-e2e="video-desc"]',
+        '[class*="adDesc"]',
+        '[class*="caption"]',
+      ]
+      for (const sel of selectors) {
+        const text = (document.querySelector(sel)?.textContent || '').trim()
+        if (text.length > 0) return text
+      }
+      const og = document.querySelector('meta[property="og:description"]')
+      return og?.getAttribute('content') || null
+    }).catch(() => null)
+
+    const imageUrl = best
+      ? null
+      : await page
+          .evaluate(() => document.querySelector('meta[property="og:image"]')?.getAttribute('content') || null)
+          .catch(() => null)
+
+    return {
+      videoUrl: best?.url || null,
+      imageUrl,
+      kind: best?.kind || null,
+      title,
+      adCopy,
+      headline: null,
+      cta: null,
+      mediaType: best ? 'video' : imageUrl ? 'image' : 'video',
+      requestHeaders: {
+        'user-agent': userAgent,
+        referer: url,
+        ...(cookieHeader ? { cookie: cookieHeader } : {}),
+      },
+      meta: { page_title: title, candidate_count: candidates.length, selected_source: best?.source || null },
+    }
+  } finally {
+    await page.close().catch(() => {})
+    await browser.close().catch(() => {})
+  }
+}
+
+// Keyed by swipes.source (see ./swipe-sources.js)
+const SWIPE_SCRAPERS = {
+  meta_ad_library: scrapeMetaAdVideo,
+  facebook_reel: scrapeFacebookReel,
+  facebook_post: scrapeFacebookPost,
+  tiktok_ad: scrapeTikTokPage,
+  tiktok_video: scrapeTikTokVideo,
+  youtube_short: scrapeYouTubeShort,
+}
+
+// Old Reddit renders threads server-side and without login walls
+function readablePageUrl(url) {
+  try {
+    const u = new URL(url)
+    if (/(^|\.)reddit\.com$/i.test(u.hostname) && u.hostname !== 'old.reddit.com') {
+      u.hostname = 'old.reddit.com'
+      return u.toString()
+    }
+  } catch {
+    // fall through
+  }
+  return url
+}
+
+const READABLE_TEXT_MAX_CHARS = 200_000
+
+function cleanReadableText(value) {
+  const lines = []
+  for (const raw of String(value || '').split('\n')) {
+    const line = raw.replace(/[ \t\u00a0]+/g, ' ').trim()
+    if (!line) {
+      if (lines.length && lines[lines.length - 1] !== '') lines.push('')
+      continue
+    }
+    if (line === lines[lines.length - 1]) continue
+    lines.push(line)
+  }
+  return lines.join('\n').trim().slice(0, READABLE_TEXT_MAX_CHARS)
+}
+
+/**
+ * Loads a web page and returns its main text with navigation, ads and other
+ * boilerplate stripped. Runs in Chromium so client-rendered pages work too.
+ */
+async function fetchReadablePage(url) {
+  log('Fetching web page via Playwright...', url)
+  const targetUrl = readablePageUrl(url)
+  await assertPublicUrl(targetUrl)
+  const browser = await chromium.launch({
+    headless: true,
+    args: ['--no-sandbox', '--disable-dev-shm-usage'],
+  })
+
+  try {
+    const page = await browser.newPage({
+      userAgent: FB_USER_AGENT,
+      viewport: { width: 1360, height: 900 },
+      locale: 'en-US',
+    })
+
+    // The page and everything it loads stay off private networks. Requests are
+    // fetched here without following redirects; a 3xx handed back to Chromium
+    // comes through this handler again, so every hop is checked.
+    await page.route('**/*', async (route) => {
+      const requestUrl = route.request().url()
+      if (/^(data|blob):/i.test(requestUrl)) return route.continue()
+      try {
+        await assertPublicUrl(requestUrl)
+      } catch (err) {
+        log('Blocked page request:', err?.message || err)
+        return route.abort('blockedbyclient')
+      }
+      try {
+        const response = await route.fetch({ maxRedirects: 0 })
+        return route.fulfill({ response })
+      } catch {
+        return route.abort('failed')
+      }
+    })
+
+    const res = await page.goto(targetUrl, { waitUntil: 'domcontentloaded', timeout: 60_000 })
+    if (res && res.status() >= 400) {
+      throw new Error(`Page returned HTTP ${res.status()}`)
+    }
+    await page.waitForLoadState('networkidle', { timeout: 10_000 }).catch(() => {})
+
+    const extracted = await page.evaluate(() => {
+      const meta = (selector) => document.querySelector(selector)?.getAttribute('content')?.trim() || ''
+      const title =
+        meta('meta[property="og:title"]') ||
+        document.title?.trim() ||
+        document.querySelector('h1')?.textContent?.trim() ||
+        ''
+      const siteName = meta('meta[property="og:site_name"]')
+
+      const BOILERPLATE_SELECTORS = [
+        'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'form', 'button',
+        'nav', 'header', 'footer', 'aside',
+        '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+        '[role="dialog"]', '[aria-hidden="true"]', '[hidden]',
+      ]
+      const BOILERPLATE_NAME =
+        /(cookie|consent|gdpr|newsletter|subscribe|signup|sidebar|share|social|related|recommend|promo|advert|sponsor|popup|modal|breadcrumb|menu|navbar|masthead|footer)/i
+
+      for (const el of Array.from(document.querySelectorAll(BOILERPLATE_SELECTORS.join(',')))) {
+        el.remove()
+      }
+      for (const el of Array.from(document.querySelectorAll('[class],[id]'))) {
+        if (el === document.body || el.closest('article, main')) continue
+        const name = `${el.getAttribute('class') || ''} ${el.getAttribute('id') || ''}`
+        if (BOILERPLATE_NAME.test(name)) el.remove()
+      }
+
+      // Link farms (menus, tag clouds, "more stories") are mostly anchor text
+      for (const el of Array.from(document.querySelectorAll('ul, ol, div, section'))) {
+        const textLen = (el.textContent || '').trim().length
+        if (!textLen || textLen > 1500) continue
+        const linkLen = Array.from(el.querySelectorAll('a')).reduce(
+          (sum, a) => sum + (a.textContent || '').trim().length,
+          0
+        )
+        if (linkLen / textLen > 0.7) el.remove()
+      }
+
+      const candidates = Array.from(document.querySelectorAll('article, main, [role="main"], #content, .content'))
+      const textOf = (el) => (el instanceof HTMLElement ? el.innerText : el.textContent) || ''
+      let root = document.body
+      let best = 0
+      for (const el of candidates) {
+        const len = textOf(el).trim().length
+        if (len > best) {
+          best = len
+          root = el
+        }
+      }
+      if (best < 500) root = document.body
+
+      return { title, siteName, text: root ? textOf(root) : '' }
+    })
+
+    return {
+      title: String(extracted?.title || '').slice(0, 300) || null,
+      siteName: String(extracted?.siteName || '') || null,
+      text: cleanReadableText(extracted?.text),
+      finalUrl: page.url(),
+    }
+  } finally {
+    await browser.close().catch(() => {})
+  }
+}
+
+// Media URLs come from users or scraped pages, so every hop must be a public host
 async function downloadToFile(url, filePath, maxBytes, requestHeaders = {}) {
-  const res = await fetch(url, { redirect: 'follow', headers: requestHeaders })
-  if (!res.ok) throw new Error(`Download failed: ${res.status} ${res.statusText}`)
+  const res = await fetchPublicUrl(url, { headers: requestHeaders })
+  if (res.statusCode < 200 || res.statusCode >= 300) {
+    res.resume()
+    throw new Error(`Download failed: ${res.statusCode} ${res.statusMessage}`)
+  }
 
-  const lenHeader = res.headers.get('content-length')
+  const lenHeader = res.headers['content-length']
   if (lenHeader) {
     const n = Number(lenHeader)
-    if (Number.isFinite(n) && n > maxBytes) throw new Error(`Video too large (${n} bytes)`)
+    if (Number.isFinite(n) && n > maxBytes) {
+      res.destroy()
+      throw new Error(`Video too large (${n} bytes)`)
+    }
   }
 
-  if (!res.body) throw new Error('No response body')
-
-  const nodeStream = Readable.fromWeb(res.body)
   const file = fs.createWriteStream(filePath)
 
   let downloaded = 0
-  nodeStream.on('data', (chunk) => {
+  res.on('data', (chunk) => {
     downloaded += chunk.length
     if (downloaded > maxBytes) {
-      nodeStream.destroy(new Error('Video exceeded max size'))
+      res.destroy(new Error('Video exceeded max size'))
     }
   })
 
   await new Promise((resolve, reject) => {
     file.on('finish', resolve)
     file.on('error', reject)
-    nodeStream.on('error', reject)
-    nodeStream.pipe(file)
+    res.on('error', reject)
+    res.pipe(file)
   })
 }
 
@@ -1006,30 +1596,424 @@ async function downloadFromR2(key, filePath) {
   })
 }
 
-async function extractTextFromFile(filePath, mime, filename) {
-  const lower = filename.toLowerCase()
-  if (mime?.includes('pdf') || lower.endsWith('.pdf')) {
-    const data = await pdfParse(await fsp.readFile(filePath))
-    return data.text || ''
-  }
-  if (mime?.includes('word') || lower.endsWith('.docx')) {
-    const result = await mammoth.extractRawText({ path: filePath })
-    return result.value || ''
-  }
-  if (mime?.includes('text') || lower.endsWith('.txt')) {
-    return await fsp.readFile(filePath, 'utf8')
-  }
-  return ''
+async function deleteFromR2(key) {
+  await r2.send(
+    new DeleteObjectCommand({
+      Bucket: r2Bucket,
+      Key: key,
+    })
+  )
 }
 
-async function transcribeWhisper(openaiClient, audioPath) {
-  const res = await openaiClient.audio.transcriptions.create({
-    file: fs.createReadStream(audioPath),
-    model: 'whisper-1',
-    response_format: 'text',
-  })
+// Per-format text extractors for research uploads. The accepted types live in
+// research-file-types.js so the upload API rejects anything without one here.
+const SPREADSHEET_MAX_RECORDS = 2000
+
+async function readTextFile(filePath) {
+  return (await fsp.readFile(filePath, 'utf8')).replace(/^\uFEFF/, '')
+}
+
+const HTML_ENTITIES = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  mdash: '\u2014',
+  ndash: '\u2013',
+  hellip: '\u2026',
+  rsquo: '\u2019',
+  lsquo: '\u2018',
+  rdquo: '\u201D',
+  ldquo: '\u201C',
+}
+
+function decodeHtmlEntities(value) {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+function htmlToText(html) {
+  const body = String(html || '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|svg|head|template)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|header|footer|main|aside|nav|h[1-6]|ul|ol|tr|table|blockquote|pre|figure|figcaption|dl|dt|dd)\b[^>]*>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, ' | ')
+    .replace(/<[^>]+>/g, '')
+  return cleanReadableText(decodeHtmlEntities(body).replace(/\s*\|\s*$/gm, ''))
+}
+
+// Keeps the prose and list structure, drops markup the summarizer does not need
+function markdownToText(markdown) {
+  return cleanReadableText(
+    String(markdown || '')
+      .replace(/^---\n[\s\S]*?\n---\n/, '')
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/<[^>]+>/g, '')
+      .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+      .replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, '')
+      .replace(/(\*\*|__)(.+?)\1/g, '$2')
+      .replace(/`{3}[^\n]*\n?/g, '')
+  )
+}
+
+/**
+ * Spreadsheets become one readable record per row, keyed by the header row,
+ * so the summarizer sees "Column: value" pairs instead of a bare grid.
+ */
+async function spreadsheetToText(filePath) {
+  const workbook = XLSX.read(await fsp.readFile(filePath), { type: 'buffer' })
+  const sections = []
+  let records = 0
+  for (const sheetName of workbook.SheetNames) {
+    const rows = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { defval: '', raw: false })
+    if (rows.length === 0) continue
+    const lines = [`Sheet: ${sheetName}`]
+    for (const row of rows) {
+      if (records >= SPREADSHEET_MAX_RECORDS) break
+      const fields = Object.entries(row)
+        .map(([header, value]) => [String(header).trim(), String(value ?? '').trim()])
+        .filter(([header, value]) => value && !/^__EMPTY/.test(header))
+      if (fields.length === 0) continue
+      records += 1
+      lines.push('', `Record ${records}`, ...fields.map(([header, value]) => `- ${header}: ${value}`))
+    }
+    sections.push(lines.join('\n'))
+  }
+  return sections.join('\n\n')
+}
+
+const SUBTITLE_TIMING = /^(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3}\s*-->\s*(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3}/
+
+function normalizeSubtitleTime(value) {
+  const time = value.trim().replace(',', '.')
+  return time.split(':').length === 2 ? `00:${time}` : time
+}
+
+/**
+ * SRT/VTT cues as "[start --> end] text" lines. Timestamps are kept so quotes
+ * can be traced back to the moment in the video.
+ */
+function subtitlesToText(raw) {
+  const blocks = String(raw || '')
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+  const cues = []
+  for (const block of blocks) {
+    const lines = block.split('\n').map((line) => line.trim()).filter(Boolean)
+    const timingIndex = lines.findIndex((line) => SUBTITLE_TIMING.test(line))
+    if (timingIndex < 0) continue
+    const [start, end] = lines[timingIndex].split('-->')
+    const text = lines
+      .slice(timingIndex + 1)
+      .join(' ')
+      .replace(/<v(?:\.[^\s>]+)?\s+([^>]+)>/gi, '$1: ')
+      .replace(/<[^>]+>/g, '')
+      .replace(/\{\\[^}]*\}/g, '')
+    const cleaned = decodeHtmlEntities(text).replace(/\s+/g, ' ').trim()
+    if (!cleaned) continue
+    const endTime = end.trim().split(/\s+/)[0]
+    cues.push(`[${normalizeSubtitleTime(start)} --> ${normalizeSubtitleTime(endTime)}] ${cleaned}`)
+  }
+  return cues.join('\n').slice(0, READABLE_TEXT_MAX_CHARS)
+}
+
+function resolveZipPath(baseDir, href) {
+  const parts = `${baseDir}${decodeURIComponent(href.split('#')[0])}`.split('/')
+  const resolved = []
+  for (const part of parts) {
+    if (part === '..') resolved.pop()
+    else if (part && part !== '.') resolved.push(part)
+  }
+  return resolved.join('/')
+}
+
+// EPUB: container.xml -> OPF package -> spine order -> XHTML chapters
+async function epubToText(filePath) {
+  const zip = await JSZip.loadAsync(await fsp.readFile(filePath))
+  const container = await zip.file('META-INF/container.xml')?.async('string')
+  const opfPath = container?.match(/full-path="([^"]+)"/)?.[1]
+  const opf = opfPath ? await zip.file(opfPath)?.async('string') : null
+  if (!opfPath || !opf) throw new Error('missing EPUB package document')
+
+  const baseDir = opfPath.includes('/') ? opfPath.slice(0, opfPath.lastIndexOf('/') + 1) : ''
+  const manifest = new Map()
+  for (const tag of opf.match(/<item\b[^>]*>/gi) || []) {
+    const id = tag.match(/\bid="([^"]+)"/)?.[1]
+    const href = tag.match(/\bhref="([^"]+)"/)?.[1]
+    if (id && href) manifest.set(id, href)
+  }
+  const spine = (opf.match(/<itemref\b[^>]*>/gi) || [])
+    .map((tag) => tag.match(/\bidref="([^"]+)"/)?.[1])
+    .filter(Boolean)
+
+  const chapters = []
+  let length = 0
+  for (const idref of spine) {
+    const href = manifest.get(idref)
+    const chapter = href ? await zip.file(resolveZipPath(baseDir, href))?.async('string') : null
+    if (!chapter) continue
+    const text = htmlToText(chapter)
+    if (!text) continue
+    chapters.push(text)
+    length += text.length
+    if (length >= READABLE_TEXT_MAX_CHARS) break
+  }
+  return chapters.join('\n\n').slice(0, READABLE_TEXT_MAX_CHARS)
+}
+
+async function extractTextFromFile(filePath, kind) {
+  switch (kind) {
+    case 'pdf': {
+      const data = await pdfParse(await fsp.readFile(filePath))
+      return data.text || ''
+    }
+    case 'docx': {
+      const result = await mammoth.extractRawText({ path: filePath })
+      return result.value || ''
+    }
+    case 'spreadsheet':
+      return await spreadsheetToText(filePath)
+    case 'markdown':
+      return markdownToText(await readTextFile(filePath))
+    case 'html':
+      return htmlToText(await readTextFile(filePath))
+    case 'subtitles':
+      return subtitlesToText(await readTextFile(filePath))
+    case 'epub':
+      return await epubToText(filePath)
+    case 'text':
+      return await readTextFile(filePath)
+    default:
+      return ''
+  }
+}
+
+// research image OCR: tesseract locally, or Claude vision when an Anthropic key
+// is configured (RESEARCH_OCR_MODE=auto|local|vision, default auto)
+const RESEARCH_OCR_MODE = (process.env.RESEARCH_OCR_MODE || 'auto').trim().toLowerCase()
+const TESSERACT_BIN = process.env.TESSERACT_BIN || 'tesseract'
+const TESSERACT_LANGS = process.env.TESSERACT_LANGS || 'eng'
+const VISION_IMAGE_MAX_BYTES = 5 * 1024 * 1024
+const VISION_MEDIA_TYPES = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+}
+const TESSERACT_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.tif', '.tiff', '.bmp'])
+
+function cleanOcrText(value) {
+  return String(value || '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+const HEIF_EXTENSIONS = new Set(['.heic', '.heif'])
+
+// ffmpeg re-encodes formats the OCR engines do not read (HEIC, oversized files).
+// The image's ffmpeg cannot decode HEIC, so libheif's heif-convert turns it
+// into a PNG first.
+async function convertImage(inputPath, outputPath, maxWidth = 2400) {
+  let source = inputPath
+  if (HEIF_EXTENSIONS.has(path.extname(inputPath).toLowerCase())) {
+    source = path.join(path.dirname(outputPath), 'heif-decoded.png')
+    await runCommand('heif-convert', [inputPath, source])
+  }
+  await runCommand('ffmpeg', ['-y', '-i', source, '-vf', `scale='min(${maxWidth},iw)':-2`, '-frames:v', '1', outputPath])
+  return outputPath
+}
+
+async function ocrImageLocal({ imagePath, filename, tmpDir }) {
+  const ext = path.extname(filename || imagePath).toLowerCase()
+  const source = TESSERACT_EXTENSIONS.has(ext) ? imagePath : await convertImage(imagePath, path.join(tmpDir, 'ocr.png'))
+  const text = await runCommand(TESSERACT_BIN, [source, 'stdout', '-l', TESSERACT_LANGS, '--psm', '3'])
+  return cleanOcrText(text)
+}
+
+async function ocrImageWithVision({ anthropicClient, model, promptBlocks, imagePath, mime, filename, tmpDir }) {
+  const ext = path.extname(filename || imagePath).toLowerCase()
+  let mediaType = Object.values(VISION_MEDIA_TYPES).includes(mime) ? mime : VISION_MEDIA_TYPES[ext]
+  let source = imagePath
+  const { size } = await fsp.stat(imagePath)
+  if (!mediaType || size > VISION_IMAGE_MAX_BYTES) {
+    source = await convertImage(imagePath, path.join(tmpDir, 'vision.jpg'), 2000)
+    mediaType = 'image/jpeg'
+  }
+
+  const message = await anthropicClient.messages.create({
+    model,
+    max_tokens: 4000,
+    system: getPromptBlockContent(promptBlocks, 'research_image_ocr_system') || undefined,
+    messages: [
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'image',
+            source: { type: 'base64', media_type: mediaType, data: (await fsp.readFile(source)).toString('base64') },
+          },
+          { type: 'text', text: getPromptBlockContent(promptBlocks, 'research_image_ocr_prompt') },
+        ],
+      },
+    ],
+  })
+  return cleanOcrText(message.content.find((c) => c.type === 'text')?.text || '')
+}
+
+/**
+ * Returns the text in a research screenshot and which engine produced it.
+ * In auto mode a vision failure falls back to local OCR.
+ */
+async function extractTextFromImage({ anthropicClient, visionModel, promptBlocks, imagePath, mime, filename, tmpDir }) {
+  const useVision = Boolean(anthropicClient) && RESEARCH_OCR_MODE !== 'local'
+  if (useVision) {
+    try {
+      log('Reading image with Claude vision...')
+      const text = await ocrImageWithVision({
+        anthropicClient,
+        model: visionModel,
+        promptBlocks,
+        imagePath,
+        mime,
+        filename,
+        tmpDir,
+      })
+      if (text) return { text, method: 'claude_vision', model: visionModel }
+    } catch (err) {
+      if (RESEARCH_OCR_MODE === 'vision') throw err
+      log('Vision OCR failed, falling back to tesseract:', err?.message || err)
+    }
+  }
+  if (RESEARCH_OCR_MODE === 'vision') throw new Error('Claude vision OCR requires an Anthropic API key')
+
+  log('Running tesseract OCR...')
+  const text = await ocrImageLocal({ imagePath, filename, tmpDir })
+  return { text, method: 'tesseract', model: null }
+}
+
+async function transcribeWhisper(openaiClient, audioPath) {
+  const res = await openaiClient.audio.transcriptions.create({
+    file: fs.createReadStream(audioPath),
+    model: 'whisper-1',
+    response_format: 'verbose_json',
+    timestamp_granularities: ['segment'],
+  })
   const text = typeof res === 'string' ? res : typeof res.text === 'string' ? res.text : ''
-  return { text }
+  const segments = (Array.isArray(res?.segments) ? res.segments : [])
+    .map((segment) => ({
+      start: roundSeconds(segment.start),
+      end: roundSeconds(segment.end),
+      text: String(segment.text || '').trim(),
+    }))
+    .filter((segment) => segment.text)
+  return { text: text.trim(), segments }
+}
+
+// Scene detection for video swipes: ffmpeg's scene score marks hard cuts, each
+// scene gets a keyframe in R2 and the Whisper segments spoken during it.
+const SCENE_CUT_THRESHOLD = Number(process.env.SWIPE_SCENE_THRESHOLD || 0.3)
+const SCENE_MIN_SECONDS = 0.8
+const SCENE_MAX_COUNT = 60
+
+function roundSeconds(value) {
+  return Math.round(Number(value || 0) * 100) / 100
+}
+
+async function probeDurationSeconds(videoPath) {
+  const out = await runCommand('ffprobe', [
+    '-v', 'error',
+    '-show_entries', 'format=duration',
+    '-of', 'default=noprint_wrappers=1:nokey=1',
+    videoPath,
+  ])
+  const value = Number(String(out).trim())
+  return Number.isFinite(value) && value > 0 ? value : 0
+}
+
+async function detectSceneCuts(videoPath, tmpDir) {
+  const scoresPath = path.join(tmpDir, 'scenes.txt')
+  await runCommand('ffmpeg', [
+    '-hide_banner',
+    '-i', videoPath,
+    '-an',
+    '-vf', `select='gt(scene,${SCENE_CUT_THRESHOLD})',metadata=print:file=${scoresPath}`,
+    '-f', 'null',
+    '-',
+  ])
+  const raw = await fsp.readFile(scoresPath, 'utf8').catch(() => '')
+  return Array.from(raw.matchAll(/pts_time:([\d.]+)/g))
+    .map((match) => Number(match[1]))
+    .filter((value) => Number.isFinite(value))
+    .sort((a, b) => a - b)
+}
+
+function buildScenes(cuts, duration) {
+  const starts = [0]
+  for (const cut of cuts) {
+    if (cut - starts[starts.length - 1] < SCENE_MIN_SECONDS) continue
+    if (duration && duration - cut < SCENE_MIN_SECONDS / 2) continue
+    starts.push(cut)
+  }
+  // Fast-cut edits: keep evenly spaced scene starts so the list stays readable
+  const kept =
+    starts.length > SCENE_MAX_COUNT
+      ? Array.from({ length: SCENE_MAX_COUNT }, (_, i) => starts[Math.floor((i * starts.length) / SCENE_MAX_COUNT)])
+      : starts
+  const end = duration || kept[kept.length - 1] + SCENE_MIN_SECONDS
+  return kept.map((start, i) => ({ start, end: i + 1 < kept.length ? kept[i + 1] : end }))
+}
+
+// A segment belongs to the scene containing its midpoint
+function buildShotList(scenes, segments) {
+  return scenes.map((scene, index) => {
+    const isLast = index === scenes.length - 1
+    const text = segments
+      .filter((segment) => {
+        const mid = (segment.start + segment.end) / 2
+        return mid >= scene.start && (mid < scene.end || isLast)
+      })
+      .map((segment) => segment.text)
+      .join(' ')
+      .trim()
+    return { index, start: roundSeconds(scene.start), end: roundSeconds(scene.end), frame_key: null, text }
+  })
+}
+
+async function storeSceneFrames({ videoPath, tmpDir, shots, r2Prefix }) {
+  for (const shot of shots) {
+    const at = shot.start + Math.min((shot.end - shot.start) / 2, 1.5)
+    const framePath = path.join(tmpDir, `scene-${shot.index}.jpg`)
+    const key = `${r2Prefix}/scenes/${String(shot.index).padStart(3, '0')}.jpg`
+    try {
+      await runCommand('ffmpeg', ['-y', '-ss', at.toFixed(2), '-i', videoPath, '-frames:v', '1', '-vf', 'scale=480:-2', '-q:v', '4', framePath])
+      await uploadToR2(key, framePath, 'image/jpeg')
+      shot.frame_key = key
+    } catch (err) {
+      log('Keyframe extraction failed for scene', shot.index, err?.message || err)
+    }
+  }
+}
+
+async function buildSwipeShots({ videoPath, tmpDir, segments, r2Prefix }) {
+  const duration = await probeDurationSeconds(videoPath)
+  const cuts = await detectSceneCuts(videoPath, tmpDir)
+  const shots = buildShotList(buildScenes(cuts, duration), segments)
+  await storeSceneFrames({ videoPath, tmpDir, shots, r2Prefix })
+  return shots
 }
 
 async function compressAudioForWhisper(inputPath, outputPath) {
@@ -1045,10 +2029,10 @@ async function compressAudioForWhisper(inputPath, outputPath) {
   ])
 }
 
-async function summarizeSwipe({ anthropicClient, system, prompt }) {
+async function summarizeSwipe({ anthropicClient, model, system, prompt }) {
   const message = await anthropicClient.messages.create({
-    model: SUMMARIZE_MODEL,
-    max_tokens: 350,
+    model,
+    max_tokens: 600,
     system,
     messages: [{ role: 'user', content: prompt }],
   })
@@ -1059,18 +2043,20 @@ async function summarizeSwipe({ anthropicClient, system, prompt }) {
     return {
       title: typeof parsed.title === 'string' ? parsed.title.slice(0, 140) : null,
       summary: typeof parsed.summary === 'string' ? parsed.summary : null,
+      tags: normalizeSwipeTags(parsed.tags),
     }
   } catch {
     return {
       title: null,
       summary: cleaned.slice(0, 800),
+      tags: {},
     }
   }
 }
 
-async function summarizeResearch({ anthropicClient, system, prompt }) {
+async function summarizeResearch({ anthropicClient, model, system, prompt }) {
   const message = await anthropicClient.messages.create({
-    model: SUMMARIZE_MODEL,
+    model,
     max_tokens: 350,
     system,
     messages: [{ role: 'user', content: prompt }],
@@ -1093,25 +2079,30 @@ async function summarizeResearch({ anthropicClient, system, prompt }) {
   }
 }
 
-async function markSwipeJobFailed({ jobId, swipeId, errorMessage, attempts }) {
-  const backoffSeconds = attempts === 1 ? 60 : attempts === 2 ? 5 * 60 : 20 * 60
-  const willRetry = attempts < 3
+// Retry policy per job type. The delay doubles per attempt (base, 2x, 4x...) up to maxSeconds;
+// once attempts reach maxAttempts the job moves to `dead` and is only retried by hand.
+const JOB_RETRY_POLICIES = {
+  ingest_meta_ad: { maxAttempts: 3, baseSeconds: 60, maxSeconds: 20 * 60 },
+  ingest_swipe_upload: { maxAttempts: 3, baseSeconds: 30, maxSeconds: 10 * 60 },
+  ingest_research_file: { maxAttempts: 4, baseSeconds: 30, maxSeconds: 15 * 60 },
+  ingest_research_url: { maxAttempts: 3, baseSeconds: 60, maxSeconds: 15 * 60 },
+  organize_research_inbox: { maxAttempts: 2, baseSeconds: 60, maxSeconds: 5 * 60 },
+  poll_competitor_watchlist: { maxAttempts: 2, baseSeconds: 5 * 60, maxSeconds: 30 * 60 },
+  backfill_swipe_tags: { maxAttempts: 2, baseSeconds: 5 * 60, maxSeconds: 30 * 60 },
+  sync_product_embeddings: { maxAttempts: 3, baseSeconds: 60, maxSeconds: 15 * 60 },
+}
+
+const DEFAULT_RETRY_POLICY = { maxAttempts: 3, baseSeconds: 60, maxSeconds: 20 * 60 }
+
+function retryDelaySeconds(policy, attempts) {
+  const exponent = Math.max(0, attempts - 1)
+  return Math.min(policy.maxSeconds, policy.baseSeconds * 2 ** exponent)
+}
 
+async function markSwipeFailed({ swipeId, errorMessage, willRetry }) {
+  if (!swipeId) return
   if (willRetry) {
-    await pool.query(
-      `
-      UPDATE media_jobs
-      SET status = 'queued',
-          run_after = NOW() + ($2::text || ' seconds')::interval,
-          error_message = $3,
-          locked_at = NULL,
-          locked_by = NULL,
-          updated_at = NOW()
-      WHERE id = $1
-    `,
-      [jobId, String(backoffSeconds), errorMessage]
-    )
-    // Keep swipe in processing; surface latest error in metadata only.
+    // Keep swipe in processing; the job row carries the latest error.
     await pool.query(
       `
       UPDATE swipes
@@ -1127,274 +2118,758 @@ async function markSwipeJobFailed({ jobId, swipeId, errorMessage, attempts }) {
 
   await pool.query(
     `
-    UPDATE media_jobs
+    UPDATE swipes
     SET status = 'failed',
         error_message = $2,
         updated_at = NOW()
     WHERE id = $1
   `,
-    [jobId, errorMessage]
+    [swipeId, errorMessage]
   )
+}
 
+async function markResearchItemFailed({ itemId, errorMessage, willRetry }) {
+  if (!itemId) return
   await pool.query(
     `
-    UPDATE swipes
-    SET status = 'failed',
-        error_message = $2,
+    UPDATE research_items
+    SET status = $3,
+        metadata = metadata || $2::jsonb,
         updated_at = NOW()
     WHERE id = $1
   `,
-    [swipeId, errorMessage]
+    [itemId, JSON.stringify({ error: errorMessage }), willRetry ? 'processing' : 'failed']
   )
 }
 
-async function markResearchJobFailed({ jobId, itemId, errorMessage, attempts }) {
-  const backoffSeconds = attempts === 1 ? 60 : attempts === 2 ? 5 * 60 : 20 * 60
-  const willRetry = attempts < 3
+/**
+ * Requeues a failed job with backoff, or dead-letters it after the last attempt.
+ * Guarded on locked_by/attempts so a worker whose lock was reaped cannot
+ * overwrite the state of the attempt that replaced it.
+ */
+// Retrying cannot fix these: a spent budget stays spent until the month rolls
+// over or an admin raises it, so the job fails on the first attempt.
+function isNonRetryableError(errorMessage) {
+  return String(errorMessage || '').startsWith('budget_exceeded:')
+}
 
-  if (willRetry) {
-    await pool.query(
-      `
-      UPDATE media_jobs
-      SET status = 'queued',
-          run_after = NOW() + ($2::text || ' seconds')::interval,
-          error_message = $3,
-          locked_at = NULL,
-          locked_by = NULL,
-          updated_at = NOW()
-      WHERE id = $1
-    `,
-      [jobId, String(backoffSeconds), errorMessage]
-    )
-    await pool.query(
-      `
-      UPDATE research_items
-      SET status = 'processing',
-          metadata = metadata || $2::jsonb,
-          updated_at = NOW()
-      WHERE id = $1
-    `,
-      [itemId, JSON.stringify({ error: errorMessage })]
-    )
+async function failJob(job, errorMessage) {
+  const policy = JOB_RETRY_POLICIES[job.type] || DEFAULT_RETRY_POLICY
+  const attempts = Number(job.attempts || 1)
+  const nonRetryable = isNonRetryableError(errorMessage)
+  const willRetry = !nonRetryable && attempts < policy.maxAttempts
+
+  const { rowCount } = willRetry
+    ? await pool.query(
+        `
+        UPDATE media_jobs
+        SET status = 'queued',
+            run_after = NOW() + ($4::text || ' seconds')::interval,
+            error_message = $5,
+            locked_at = NULL,
+            locked_by = NULL,
+            updated_at = NOW()
+        WHERE id = $1
+          AND status = 'running'
+          AND locked_by IS NOT DISTINCT FROM $2
+          AND attempts = $3
+      `,
+        [job.id, job.locked_by ?? null, attempts, String(retryDelaySeconds(policy, attempts)), errorMessage]
+      )
+    : await pool.query(
+        `
+        UPDATE media_jobs
+        SET status = 'dead',
+            error_message = $4,
+            locked_at = NULL,
+            locked_by = NULL,
+            updated_at = NOW()
+        WHERE id = $1
+          AND status = 'running'
+          AND locked_by IS NOT DISTINCT FROM $2
+          AND attempts = $3
+      `,
+        [job.id, job.locked_by ?? null, attempts, errorMessage]
+      )
+
+  if (!rowCount) {
+    log('Job state changed elsewhere, skipping failure bookkeeping', job.id)
     return
   }
+  if (nonRetryable) log('Job dead without retry', job.id)
+  else if (!willRetry) log('Job dead after', attempts, 'attempts', job.id)
 
-  await pool.query(
+  const input = job.input || {}
+  if (job.type === 'ingest_meta_ad' || job.type === 'ingest_swipe_upload') {
+    await markSwipeFailed({ swipeId: String(input.swipe_id || ''), errorMessage, willRetry })
+  } else if (job.type === 'ingest_research_file' || job.type === 'ingest_research_url') {
+    await markResearchItemFailed({ itemId: String(input.research_item_id || ''), errorMessage, willRetry })
+  }
+}
+
+const JOB_LOCK_TIMEOUT_SECONDS = Number(process.env.JOB_LOCK_TIMEOUT_SECONDS || 10 * 60)
+const JOB_HEARTBEAT_MS = 60_000
+const REAP_INTERVAL_MS = 60_000
+
+// Refreshes locked_at while a job runs so only crashed workers look stale.
+function startJobHeartbeat(job) {
+  const timer = setInterval(() => {
+    pool
+      .query(
+        `UPDATE media_jobs SET locked_at = NOW() WHERE id = $1 AND status = 'running' AND locked_by = $2`,
+        [job.id, WORKER_ID]
+      )
+      .catch((err) => log('Heartbeat failed:', err?.message || err))
+  }, JOB_HEARTBEAT_MS)
+  return () => clearInterval(timer)
+}
+
+/**
+ * Marks a job completed, but only while this worker still holds its lock, the
+ * same guard the heartbeat uses. A job the reaper requeued or an admin
+ * cancelled mid-run keeps its new state instead of being flipped back.
+ */
+async function completeJob(job, output) {
+  const { rowCount } = await pool.query(
     `
     UPDATE media_jobs
-    SET status = 'failed',
-        error_message = $2,
+    SET status = 'completed',
+        output = $2,
+        error_message = NULL,
         updated_at = NOW()
     WHERE id = $1
+      AND status = 'running'
+      AND locked_by = $3
   `,
-    [jobId, errorMessage]
+    [job.id, output, WORKER_ID]
   )
+  if (!rowCount) log('Job state changed elsewhere, not marking completed', job.id)
+  return rowCount > 0
+}
 
-  await pool.query(
+/**
+ * Running jobs whose lock has not been refreshed within the timeout belong to a
+ * worker that died mid-job. Each one counts as a failed attempt.
+ */
+async function reapStaleJobs() {
+  const { rows } = await pool.query(
     `
-    UPDATE research_items
-    SET status = 'failed',
-        metadata = metadata || $2::jsonb,
-        updated_at = NOW()
-    WHERE id = $1
+    SELECT *
+    FROM media_jobs
+    WHERE status = 'running'
+      AND locked_at < NOW() - ($1::text || ' seconds')::interval
+    ORDER BY locked_at ASC
+    LIMIT 25
   `,
-    [itemId, JSON.stringify({ error: errorMessage })]
+    [String(JOB_LOCK_TIMEOUT_SECONDS)]
   )
+
+  for (const job of rows) {
+    log('Reaping stale job', job.id, 'type', job.type, 'locked by', job.locked_by)
+    await failJob(job, `Lock expired: worker ${job.locked_by || 'unknown'} stopped responding`).catch((err) =>
+      log('Failed to reap job:', err?.message || err)
+    )
+  }
 }
 
-async function processIngestMetaAd(job) {
-  const input = job.input || {}
-  const swipeId = String(input.swipe_id || '').trim()
-  const productId = String(input.product_id || '').trim()
-  const url = String(input.url || '').trim()
+const SWIPE_TAG_INSTRUCTIONS =
+  'tags is an object with one value per dimension below. Use only the listed values and omit any dimension you cannot judge.'
 
-  if (!swipeId || !productId || !url) {
-    throw new Error('Invalid job input (missing swipe_id/product_id/url)')
+function buildSwipeTranscriptPrompt(promptBlocks, { url, transcript }) {
+  let template = getPromptBlockContent(promptBlocks, 'swipe_summarizer_prompt')
+  // Custom prompt blocks saved before swipe tags existed still get the taxonomy
+  if (!/{{\s*tag_options\s*}}/i.test(template)) {
+    template = `${SWIPE_TAG_INSTRUCTIONS}\n{{tag_options}}\n\n${template}`
   }
+  return applyTemplate(template, {
+    url,
+    transcript: String(transcript || '').slice(0, 12000),
+    tag_options: describeSwipeTaxonomy(),
+  })
+}
 
-  const orgId = await getOrgIdForProduct(productId)
-  const anthropicClient = await getAnthropicClient(orgId)
-  const promptBlocks = await loadGlobalPromptBlocks()
+function buildSwipeAdCopyPrompt({ url, adText }) {
+  return [
+    'Return JSON with keys: title, summary, tags.',
+    `${SWIPE_TAG_INSTRUCTIONS}\n${describeSwipeTaxonomy()}`,
+    `URL: ${url}`,
+    `Ad copy:\n${adText.slice(0, 6000)}`,
+  ].join('\n\n')
+}
 
-  // Classify URL and route to appropriate scraper
-  const urlType = classifySwipeUrl(url) || 'ad_library'
-  log('Scraping URL...', url, 'type:', urlType)
+async function storeSwipeVideo({ job, swipeId, productId, orgId, anthropicClient, promptBlocks, tmpDir, mp4Path, url, scraped, meta }) {
+  const openaiClient = await getOpenAiClient(orgId, jobUsageContext(job, productId))
+  const audioPath = path.join(tmpDir, 'audio.mp3')
 
-  let scraped
-  if (urlType === 'fb_post') {
-    scraped = await scrapeFacebookPost(url)
-  } else if (urlType === 'fb_reel') {
-    scraped = await scrapeFacebookReel(url)
-  } else {
-    scraped = await scrapeMetaAdVideo(url)
-  }
+  const r2Key = `products/${productId}/swipes/${swipeId}/source.mp4`
+  log('Uploading video to R2...', r2Key)
+  await uploadToR2(r2Key, mp4Path, 'video/mp4')
 
-  const hasVideo = Boolean(scraped.videoUrl)
-  const hasImage = Boolean(scraped.imageUrl)
+  log('Extracting audio...')
+  await runCommand('ffmpeg', ['-y', '-i', mp4Path, '-vn', '-acodec', 'mp3', '-b:a', '128k', audioPath], {
+    cwd: tmpDir,
+  })
 
-  if (!hasVideo && !hasImage) {
-    throw new Error('No video or image found on page')
+  const audioStat = await fsp.stat(audioPath)
+  const WHISPER_MAX = 25 * 1024 * 1024
+  let whisperPath = audioPath
+  if (audioStat.size > WHISPER_MAX) {
+    log('Audio too large for Whisper, compressing...')
+    const compressedPath = path.join(tmpDir, 'audio_compressed.mp3')
+    await compressAudioForWhisper(mp4Path, compressedPath)
+    whisperPath = compressedPath
   }
 
-  const tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'brandlab-swipe-'))
+  log('Transcribing (Whisper)...')
+  const transcript = await transcribeWhisper(openaiClient, whisperPath)
 
+  // The shot list is a nice-to-have: a failed scene pass still stores the swipe
+  log('Detecting scenes...')
+  let shots = null
   try {
-    if (hasVideo) {
-      // ---- VIDEO PATH ----
-      const openaiClient = await getOpenAiClient(orgId)
-      const mp4Path = path.join(tmpDir, 'source.mp4')
-      const audioPath = path.join(tmpDir, 'audio.mp3')
-      const maxBytes = 250 * 1024 * 1024
-
-      const looksHls =
-        scraped.kind === 'hls' || /\.m3u8(\?|$)/i.test(String(scraped.videoUrl || ''))
+    shots = await buildSwipeShots({
+      videoPath: mp4Path,
+      tmpDir,
+      segments: transcript.segments,
+      r2Prefix: `products/${productId}/swipes/${swipeId}`,
+    })
+  } catch (err) {
+    log('Scene detection failed:', err?.message || err)
+  }
+  const previousShots = await pool.query('SELECT shots FROM swipes WHERE id = $1', [swipeId])
+
+  log('Summarizing...')
+  const swipeSystem = getPromptBlockContent(promptBlocks, 'swipe_summarizer_system')
+  const swipePrompt = buildSwipeTranscriptPrompt(promptBlocks, { url, transcript: transcript.text })
+  const summary = await summarizeSwipe({
+    anthropicClient,
+    model: await getAgentModel(orgId, 'swipe_summarizer'),
+    system: swipeSystem,
+    prompt: swipePrompt,
+  })
 
-      if (looksHls) {
-        log('Downloading HLS stream via ffmpeg...')
-        const headerLines = Object.entries(scraped.requestHeaders || {})
-          .map(([k, v]) => `${k}: ${v}\r\n`)
-          .join('')
-        const ffmpegArgs = ['-y']
-        if (headerLines) ffmpegArgs.push('-headers', headerLines)
-        ffmpegArgs.push(
-          '-i', scraped.videoUrl,
-          '-c:v', 'libx264', '-preset', 'veryfast',
-          '-c:a', 'aac', '-movflags', '+faststart',
-          mp4Path
-        )
-        await runCommand('ffmpeg', ffmpegArgs, { cwd: tmpDir })
-      } else {
-        log('Downloading MP4...')
-        await downloadToFile(scraped.videoUrl, mp4Path, maxBytes, scraped.requestHeaders || {})
-      }
+  await pool.query(
+    `
+    UPDATE swipes
+    SET status = 'ready',
+        r2_video_key = $2,
+        transcript = $3,
+        title = COALESCE($4, title),
+        summary = COALESCE($5, summary),
+        headline = COALESCE($6, headline),
+        ad_copy = COALESCE($7, ad_copy),
+        cta = COALESCE($8, cta),
+        media_type = COALESCE($9, media_type),
+        metadata = metadata || $10::jsonb,
+        tags = tags || $11::jsonb,
+        transcript_segments = $12::jsonb,
+        shots = $13::jsonb,
+        error_message = NULL,
+        updated_at = NOW()
+    WHERE id = $1
+  `,
+    [swipeId, r2Key, transcript.text, summary.title, summary.summary,
+     scraped.headline || null, scraped.adCopy || null, scraped.cta || null,
+     scraped.mediaType || 'video', JSON.stringify(meta), JSON.stringify(summary.tags),
+     JSON.stringify(transcript.segments), shots ? JSON.stringify(shots) : null]
+  )
 
-      const downloaded = await fsp.stat(mp4Path)
-      if (downloaded.size > maxBytes) {
-        throw new Error(`Video too large after download (${downloaded.size} bytes)`)
-      }
+  // A re-run can detect fewer scenes; drop keyframes the new list no longer uses
+  const keptFrames = new Set((shots || []).map((shot) => shot.frame_key).filter(Boolean))
+  for (const shot of previousShots.rows[0]?.shots || []) {
+    if (!shot?.frame_key || keptFrames.has(shot.frame_key)) continue
+    await deleteFromR2(shot.frame_key).catch((err) => log('Failed to delete stale keyframe:', err?.message || err))
+  }
 
-      const r2Key = `products/${productId}/swipes/${swipeId}/source.mp4`
-      log('Uploading video to R2...', r2Key)
-      await uploadToR2(r2Key, mp4Path, 'video/mp4')
+  await completeJob(job, { swipe_id: swipeId, r2_video_key: r2Key, transcript_len: transcript.text.length, shots: shots?.length || 0, title: summary.title })
+  await queueEmbeddingSync(productId)
+}
 
-      log('Extracting audio...')
-      await runCommand('ffmpeg', ['-y', '-i', mp4Path, '-vn', '-acodec', 'mp3', '-b:a', '128k', audioPath], {
-        cwd: tmpDir,
-      })
+async function storeSwipeImage({ job, swipeId, productId, anthropicClient, promptBlocks, imagePath, ext, mime, url, scraped, meta }) {
+  const r2ImageKey = `products/${productId}/swipes/${swipeId}/source.${ext}`
+  log('Uploading image to R2...', r2ImageKey)
+  await uploadToR2(r2ImageKey, imagePath, mime)
+
+  // Summarize from ad copy text (no transcript for images)
+  let summary = { title: null, summary: null, tags: {} }
+  const adText = [scraped.headline, scraped.adCopy, scraped.cta].filter(Boolean).join('\n')
+  if (adText.length > 10) {
+    log('Summarizing from ad copy...')
+    const swipeSystem = getPromptBlockContent(promptBlocks, 'swipe_summarizer_system')
+    const swipePrompt = buildSwipeAdCopyPrompt({ url, adText })
+    summary = await summarizeSwipe({
+      anthropicClient,
+      model: await getAgentModel(await getOrgIdForProduct(productId), 'swipe_summarizer'),
+      system: swipeSystem,
+      prompt: swipePrompt,
+    })
+  } else if (scraped.title) {
+    summary = { title: scraped.title.slice(0, 140), summary: null, tags: {} }
+  }
 
-      const audioStat = await fsp.stat(audioPath)
-      const WHISPER_MAX = 25 * 1024 * 1024
-      let whisperPath = audioPath
-      if (audioStat.size > WHISPER_MAX) {
-        log('Audio too large for Whisper, compressing...')
-        const compressedPath = path.join(tmpDir, 'audio_compressed.mp3')
-        await compressAudioForWhisper(mp4Path, compressedPath)
-        whisperPath = compressedPath
-      }
+  await pool.query(
+    `
+    UPDATE swipes
+    SET status = 'ready',
+        r2_image_key = $2,
+        r2_image_mime = $3,
+        title = COALESCE($4, title),
+        summary = COALESCE($5, summary),
+        headline = COALESCE($6, headline),
+        ad_copy = COALESCE($7, ad_copy),
+        cta = COALESCE($8, cta),
+        media_type = 'image',
+        metadata = metadata || $9::jsonb,
+        tags = tags || $10::jsonb,
+        error_message = NULL,
+        updated_at = NOW()
+    WHERE id = $1
+  `,
+    [swipeId, r2ImageKey, mime, summary.title, summary.summary,
+     scraped.headline || null, scraped.adCopy || null, scraped.cta || null,
+     JSON.stringify(meta), JSON.stringify(summary.tags)]
+  )
 
-      log('Transcribing (Whisper)...')
-      const transcript = await transcribeWhisper(openaiClient, whisperPath)
+  await completeJob(job, { swipe_id: swipeId, r2_image_key: r2ImageKey, title: summary.title })
+  await queueEmbeddingSync(productId)
+}
 
-      log('Summarizing...')
-      const swipeSystem = getPromptBlockContent(promptBlocks, 'swipe_summarizer_system')
-      const swipePromptTemplate = getPromptBlockContent(promptBlocks, 'swipe_summarizer_prompt')
-      const swipePrompt = applyTemplate(swipePromptTemplate, {
-        url,
-        transcript: transcript.text.slice(0, 12000),
-      })
-      const summary = await summarizeSwipe({ anthropicClient, system: swipeSystem, prompt: swipePrompt })
+// ----------------------------------------------------------------------------
+// Embeddings
+// Search only reads the `embeddings` table; these jobs keep it current. The app
+// queues one whenever a product's research, swipes or avatars change.
+// ----------------------------------------------------------------------------
 
-      const meta = {
-        ...(scraped.meta || {}),
-        video_url: scraped.videoUrl,
-        video_kind: scraped.kind || null,
-        url_type: urlType,
-      }
+const OPENAI_EMBEDDING_MODEL = process.env.OPENAI_EMBEDDING_MODEL || DEFAULT_OPENAI_EMBEDDING_MODEL
 
-      await pool.query(
-        `
-        UPDATE swipes
-        SET status = 'ready',
-            r2_video_key = $2,
-            transcript = $3,
-            title = COALESCE($4, title),
-            summary = COALESCE($5, summary),
-            headline = COALESCE($6, headline),
-            ad_copy = COALESCE($7, ad_copy),
-            cta = COALESCE($8, cta),
-            media_type = COALESCE($9, media_type),
-            metadata = metadata || $10::jsonb,
-            error_message = NULL,
-            updated_at = NOW()
-        WHERE id = $1
-      `,
-        [swipeId, r2Key, transcript.text, summary.title, summary.summary,
-         scraped.headline || null, scraped.adCopy || null, scraped.cta || null,
-         scraped.mediaType || 'video', JSON.stringify(meta)]
+/** Queues an index refresh unless one is already waiting for the product. */
+async function queueEmbeddingSync(productId) {
+  if (!productId) return
+  await pool
+    .query(
+      `
+      INSERT INTO media_jobs (type, status, input)
+      SELECT 'sync_product_embeddings', 'queued', jsonb_build_object('product_id', $1::text)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM media_jobs
+        WHERE type = 'sync_product_embeddings'
+          AND status = 'queued'
+          AND input->>'product_id' = $1::text
       )
+    `,
+      [String(productId)]
+    )
+    .catch((err) => log('Failed to queue embedding sync:', err?.message || err))
+}
 
-      await pool.query(
-        `UPDATE media_jobs SET status = 'completed', output = $2, error_message = NULL, updated_at = NOW() WHERE id = $1`,
-        [job.id, { swipe_id: swipeId, r2_video_key: r2Key, transcript_len: transcript.text.length, title: summary.title }]
-      )
-    } else {
-      // ---- IMAGE PATH ----
-      log('Processing image swipe...')
-      const imageUrl = scraped.imageUrl
-      const ext = /\.(png|gif|webp)/i.test(imageUrl) ? imageUrl.match(/\.(png|gif|webp)/i)[1].toLowerCase() : 'jpg'
-      const mime = ext === 'png' ? 'image/png' : ext === 'gif' ? 'image/gif' : ext === 'webp' ? 'image/webp' : 'image/jpeg'
-      const imagePath = path.join(tmpDir, `source.${ext}`)
+function createLocalEmbedder() {
+  return {
+    id: 'local',
+    model: localEmbeddingModel(LOCAL_EMBEDDING_DIMS),
+    async embed(texts) {
+      return texts.map((text) => embedTextLocally(text, LOCAL_EMBEDDING_DIMS))
+    },
+  }
+}
 
-      log('Downloading image...')
-      await downloadToFile(imageUrl, imagePath, 50 * 1024 * 1024, scraped.requestHeaders || {})
-
-      const r2ImageKey = `products/${productId}/swipes/${swipeId}/source.${ext}`
-      log('Uploading image to R2...', r2ImageKey)
-      await uploadToR2(r2ImageKey, imagePath, mime)
-
-      // Summarize from ad copy text (no transcript for images)
-      let summary = { title: null, summary: null }
-      const adText = [scraped.headline, scraped.adCopy, scraped.cta].filter(Boolean).join('\n')
-      if (adText.length > 10) {
-        log('Summarizing from ad copy...')
-        const swipeSystem = getPromptBlockContent(promptBlocks, 'swipe_summarizer_system')
-        const swipePrompt = `Return JSON with keys: title, summary.\n\nURL: ${url}\n\nAd copy:\n${adText.slice(0, 6000)}`
-        summary = await summarizeSwipe({ anthropicClient, system: swipeSystem, prompt: swipePrompt })
-      } else if (scraped.title) {
-        summary = { title: scraped.title.slice(0, 140), summary: null }
+/**
+ * EMBEDDINGS_PROVIDER=local forces the offline provider; otherwise OpenAI is
+ * used when the org (or env) has a key. Matches getEmbeddingProvider in the app
+ * so search queries land in the same vector space.
+ */
+async function getEmbedder(orgId, usageContext) {
+  const preferred = (process.env.EMBEDDINGS_PROVIDER || '').trim().toLowerCase()
+  if (preferred === 'local') return createLocalEmbedder()
+  const key = await getOrgApiKey('openai', orgId)
+  if (!key) return createLocalEmbedder()
+  const client = await getOpenAiClient(orgId, usageContext)
+  return {
+    id: 'openai',
+    model: OPENAI_EMBEDDING_MODEL,
+    async embed(texts) {
+      const vectors = []
+      for (let i = 0; i < texts.length; i += OPENAI_EMBEDDING_BATCH_SIZE) {
+        const res = await client.embeddings.create({
+          model: OPENAI_EMBEDDING_MODEL,
+          input: texts.slice(i, i + OPENAI_EMBEDDING_BATCH_SIZE),
+        })
+        vectors.push(...[...res.data].sort((a, b) => a.index - b.index).map((row) => row.embedding))
       }
+      return vectors
+    },
+  }
+}
 
-      const meta = {
-        ...(scraped.meta || {}),
-        image_url: imageUrl,
-        url_type: urlType,
+async function loadEmbeddingSubjects(productId, type) {
+  const queries = {
+    research_item: `SELECT id, title, summary, content, metadata FROM research_items WHERE product_id = $1 AND status <> 'failed'`,
+    swipe: `SELECT id, title, summary, headline, ad_copy, transcript FROM swipes WHERE product_id = $1 AND status = 'ready'`,
+    avatar: `SELECT id, name, content FROM avatars WHERE product_id = $1`,
+  }
+  const { rows } = await pool.query(queries[type], [productId])
+  return rows
+    .map((row) => ({ id: String(row.id), text: embeddingSubjectText(type, row) }))
+    .filter((subject) => subject.text)
+}
+
+/**
+ * Embeds rows whose text changed since they were last embedded with this
+ * provider/model, and drops vectors for rows that no longer exist.
+ */
+async function syncProductEmbeddings(productId, embedder) {
+  let embedded = 0
+  for (const type of EMBEDDING_SUBJECT_TYPES) {
+    const subjects = await loadEmbeddingSubjects(productId, type)
+    const { rows: existingRows } = await pool.query(
+      `
+      SELECT subject_id, content_hash
+      FROM embeddings
+      WHERE product_id = $1
+        AND subject_type = $2
+        AND provider = $3
+        AND model = $4
+    `,
+      [productId, type, embedder.id, embedder.model]
+    )
+    const existing = new Map(existingRows.map((row) => [String(row.subject_id), String(row.content_hash)]))
+    const stale = subjects
+      .map((s) => ({ ...s, hash: crypto.createHash('sha256').update(s.text).digest('hex') }))
+      .filter((s) => existing.get(s.id) !== s.hash)
+
+    if (stale.length > 0) {
+      const vectors = await embedder.embed(stale.map((s) => s.text))
+      for (const [idx, subject] of stale.entries()) {
+        const vector = vectors[idx]
+        if (!vector) continue
+        await pool.query(
+          `
+          INSERT INTO embeddings (
+            product_id, subject_type, subject_id, provider, model, dims, content_hash, embedding
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8::vector)
+          ON CONFLICT (subject_type, subject_id, provider, model) DO UPDATE SET
+            dims = EXCLUDED.dims,
+            content_hash = EXCLUDED.content_hash,
+            embedding = EXCLUDED.embedding,
+            updated_at = NOW()
+        `,
+          [productId, type, subject.id, embedder.id, embedder.model, vector.length, subject.hash, toVectorLiteral(vector)]
+        )
+        embedded += 1
       }
+    }
+
+    await pool.query(
+      `
+      DELETE FROM embeddings
+      WHERE product_id = $1
+        AND subject_type = $2
+        AND NOT (subject_id = ANY($3::uuid[]))
+    `,
+      [productId, type, subjects.map((s) => s.id)]
+    )
+  }
+  return embedded
+}
 
+async function processSyncProductEmbeddings(job) {
+  const input = job.input || {}
+  const productId = String(input.product_id || '').trim()
+  if (!productId) {
+    throw new Error('Invalid job input (missing product_id)')
+  }
+
+  const orgId = await getOrgIdForProduct(productId)
+  let embedder = createLocalEmbedder()
+  let embedded = 0
+  let fallbackReason = null
+  try {
+    embedder = await getEmbedder(orgId, jobUsageContext(job, productId))
+    embedded = await syncProductEmbeddings(productId, embedder)
+  } catch (err) {
+    // A spent budget or an OpenAI outage still leaves a keyword-level index,
+    // which search falls back to as well
+    if (embedder.id === 'local') throw err
+    fallbackReason = err?.message || String(err)
+    log('OpenAI embeddings failed, indexing locally:', fallbackReason)
+    embedder = createLocalEmbedder()
+    embedded = await syncProductEmbeddings(productId, embedder)
+  }
+
+  await completeJob(job, { product_id: productId, provider: embedder.id, model: embedder.model, embedded, fallback_reason: fallbackReason })
+  log('Embeddings synced.', productId, embedder.id, 'embedded', embedded)
+}
+
+const SWIPE_TAG_BACKFILL_BATCH = 25
+
+/**
+ * Tags ready swipes that were summarized before the taxonomy existed. Pages by
+ * id so swipes the model could not tag are not retried forever, and queues the
+ * next page as a fresh job. Only `tags` is written; titles and summaries stay.
+ */
+async function processBackfillSwipeTags(job) {
+  const input = job.input || {}
+  const afterId = input.after_id ? String(input.after_id) : null
+
+  const { rows: swipes } = await pool.query(
+    `
+    SELECT id, product_id, source_url, transcript, headline, ad_copy, cta
+    FROM swipes
+    WHERE status = 'ready'
+      AND tags = '{}'::jsonb
+      AND (NULLIF(transcript, '') IS NOT NULL OR NULLIF(ad_copy, '') IS NOT NULL OR NULLIF(headline, '') IS NOT NULL)
+      AND ($1::uuid IS NULL OR id > $1::uuid)
+    ORDER BY id ASC
+    LIMIT $2
+  `,
+    [afterId, SWIPE_TAG_BACKFILL_BATCH]
+  )
+
+  const promptBlocks = await loadGlobalPromptBlocks()
+  const swipeSystem = getPromptBlockContent(promptBlocks, 'swipe_summarizer_system')
+  let tagged = 0
+  let skipped = 0
+  for (const swipe of swipes) {
+    const url = swipe.source_url || ''
+    const adText = [swipe.headline, swipe.ad_copy, swipe.cta].filter(Boolean).join('\n')
+    const prompt = swipe.transcript
+      ? buildSwipeTranscriptPrompt(promptBlocks, { url, transcript: swipe.transcript })
+      : buildSwipeAdCopyPrompt({ url, adText })
+
+    // One org over budget or one bad reply should not stop the rest of the page
+    try {
+      const orgId = await getOrgIdForProduct(swipe.product_id)
+      const anthropicClient = await getAnthropicClient(orgId, jobUsageContext(job, swipe.product_id))
+      const summary = await summarizeSwipe({
+        anthropicClient,
+        model: await getAgentModel(orgId, 'swipe_summarizer'),
+        system: swipeSystem,
+        prompt,
+      })
+      if (Object.keys(summary.tags).length === 0) {
+        skipped += 1
+        continue
+      }
       await pool.query(
-        `
-        UPDATE swipes
-        SET status = 'ready',
-            r2_image_key = $2,
-            r2_image_mime = $3,
-            title = COALESCE($4, title),
-            summary = COALESCE($5, summary),
-            headline = COALESCE($6, headline),
-            ad_copy = COALESCE($7, ad_copy),
-            cta = COALESCE($8, cta),
-            media_type = 'image',
-            metadata = metadata || $9::jsonb,
-            error_message = NULL,
-            updated_at = NOW()
-        WHERE id = $1
-      `,
-        [swipeId, r2ImageKey, mime, summary.title, summary.summary,
-         scraped.headline || null, scraped.adCopy || null, scraped.cta || null,
-         JSON.stringify(meta)]
+        `UPDATE swipes SET tags = tags || $2::jsonb, updated_at = NOW() WHERE id = $1`,
+        [swipe.id, JSON.stringify(summary.tags)]
       )
+      tagged += 1
+    } catch (err) {
+      log('Swipe tag backfill failed for', swipe.id, err?.message || err)
+      skipped += 1
+    }
+  }
+
+  const lastId = swipes.length ? swipes[swipes.length - 1].id : null
+  let nextJobId = null
+  if (swipes.length === SWIPE_TAG_BACKFILL_BATCH) {
+    const { rows } = await pool.query(
+      `INSERT INTO media_jobs (type, status, input) VALUES ('backfill_swipe_tags', 'queued', $1) RETURNING id`,
+      [{ after_id: lastId }]
+    )
+    nextJobId = rows[0]?.id || null
+  }
+
+  await completeJob(job, { tagged, skipped, last_id: lastId, next_job_id: nextJobId })
+  log('Swipe tag backfill page done.', 'tagged', tagged, 'skipped', skipped)
+}
+
+function imageTypeFor(nameOrUrl, mime = '') {
+  const fromMime = String(mime).match(/^image\/(png|gif|webp)/i)
+  const fromName = String(nameOrUrl || '').match(/\.(png|gif|webp)/i)
+  const ext = (fromMime?.[1] || fromName?.[1] || 'jpg').toLowerCase()
+  const type = ext === 'png' ? 'image/png' : ext === 'gif' ? 'image/gif' : ext === 'webp' ? 'image/webp' : 'image/jpeg'
+  return { ext, mime: type }
+}
+
+const SWIPE_VIDEO_MAX_BYTES = 250 * 1024 * 1024
+
+async function processIngestMetaAd(job) {
+  const input = job.input || {}
+  const swipeId = String(input.swipe_id || '').trim()
+  const productId = String(input.product_id || '').trim()
+  const url = String(input.url || '').trim()
+
+  if (!swipeId || !productId || !url) {
+    throw new Error('Invalid job input (missing swipe_id/product_id/url)')
+  }
+
+  const orgId = await getOrgIdForProduct(productId)
+  const anthropicClient = await getAnthropicClient(orgId, jobUsageContext(job, productId))
+  const promptBlocks = await loadGlobalPromptBlocks()
+
+  // Jobs enqueued before `source` was part of the input fall back to classifying the URL
+  const urlType = String(input.source || '').trim() || classifySwipeUrl(url).source || 'meta_ad_library'
+  const scrape = SWIPE_SCRAPERS[urlType]
+  if (!scrape) throw new Error(`Unsupported swipe source: ${urlType}`)
+  log('Scraping URL...', url, 'type:', urlType)
+
+  const scraped = await scrape(url)
+
+  const hasVideo = Boolean(scraped.videoUrl)
+  const hasImage = Boolean(scraped.imageUrl)
+
+  if (!hasVideo && !hasImage) {
+    throw new Error('No video or image found on page')
+  }
+
+  const tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'brandlab-swipe-'))
+
+  try {
+    if (hasVideo) {
+      // ---- VIDEO PATH ----
+      const mp4Path = path.join(tmpDir, 'source.mp4')
+
+      const looksHls =
+        scraped.kind === 'hls' || /\.m3u8(\?|$)/i.test(String(scraped.videoUrl || ''))
+
+      if (looksHls) {
+        log('Downloading HLS stream via ffmpeg...')
+        const headerLines = Object.entries(scraped.requestHeaders || {})
+          .map(([k, v]) => `${k}: ${v}\r\n`)
+          .join('')
+        const ffmpegArgs = ['-y']
+        if (headerLines) ffmpegArgs.push('-headers', headerLines)
+        ffmpegArgs.push(
+          '-i', scraped.videoUrl,
+          '-c:v', 'libx264', '-preset', 'veryfast',
+          '-c:a', 'aac', '-movflags', '+faststart',
+          mp4Path
+        )
+        await runCommand('ffmpeg', ffmpegArgs, { cwd: tmpDir })
+      } else {
+        log('Downloading MP4...')
+        await downloadToFile(scraped.videoUrl, mp4Path, SWIPE_VIDEO_MAX_BYTES, scraped.requestHeaders || {})
+      }
+
+      const downloaded = await fsp.stat(mp4Path)
+      if (downloaded.size > SWIPE_VIDEO_MAX_BYTES) {
+        throw new Error(`Video too large after download (${downloaded.size} bytes)`)
+      }
+
+      await storeSwipeVideo({
+        job, swipeId, productId, orgId, anthropicClient, promptBlocks, tmpDir, mp4Path, url, scraped,
+        meta: {
+          ...(scraped.meta || {}),
+          video_url: scraped.videoUrl,
+          video_kind: scraped.kind || null,
+          url_type: urlType,
+        },
+      })
+    } else {
+      // ---- IMAGE PATH ----
+      log('Processing image swipe...')
+      const imageUrl = scraped.imageUrl
+      const { ext, mime } = imageTypeFor(imageUrl)
+      const imagePath = path.join(tmpDir, `source.${ext}`)
+
+      log('Downloading image...')
+      await downloadToFile(imageUrl, imagePath, 50 * 1024 * 1024, scraped.requestHeaders || {})
+
+      await storeSwipeImage({
+        job, swipeId, productId, anthropicClient, promptBlocks, imagePath, ext, mime, url, scraped,
+        meta: {
+          ...(scraped.meta || {}),
+          image_url: imageUrl,
+          url_type: urlType,
+        },
+      })
+    }
+
+    log('Done.', swipeId)
+  } finally {
+    await fsp.rm(tmpDir, { recursive: true, force: true }).catch(() => {})
+  }
+}
+
+async function probeContentType(url) {
+  const res = await fetchPublicUrl(url, { method: 'HEAD' }).catch(() => null)
+  if (!res) return ''
+  res.resume()
+  const ok = res.statusCode >= 200 && res.statusCode < 300
+  return ok ? String(res.headers['content-type'] || '').split(';')[0].trim() : ''
+}
+
+// Uploaded files and direct media URLs skip scraping entirely.
+async function processIngestSwipeUpload(job) {
+  const input = job.input || {}
+  const swipeId = String(input.swipe_id || '').trim()
+  const productId = String(input.product_id || '').trim()
+  const r2Key = String(input.r2_key || '').trim()
+  const mediaUrl = String(input.media_url || '').trim()
+  const filename = String(input.filename || '').trim()
+
+  if (!swipeId || !productId || (!r2Key && !mediaUrl)) {
+    throw new Error('Invalid job input (missing swipe_id/product_id/r2_key or media_url)')
+  }
 
+  const orgId = await getOrgIdForProduct(productId)
+  const anthropicClient = await getAnthropicClient(orgId, jobUsageContext(job, productId))
+  const promptBlocks = await loadGlobalPromptBlocks()
+
+  const label = mediaUrl || filename || r2Key
+  let mime = String(input.mime || '').trim()
+  if (!mime && mediaUrl) mime = await probeContentType(mediaUrl)
+  const isImage =
+    mime.startsWith('image/') || (!mime.startsWith('video/') && /\.(png|gif|webp|jpe?g)(\?|$)/i.test(label))
+
+  const tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'brandlab-swipe-'))
+
+  try {
+    const sourcePath = path.join(tmpDir, 'upload.bin')
+    if (r2Key) {
+      log('Downloading upload from R2...', r2Key)
+      await downloadFromR2(r2Key, sourcePath)
+    } else {
+      log('Downloading media URL...', mediaUrl)
+      await downloadToFile(mediaUrl, sourcePath, isImage ? 50 * 1024 * 1024 : SWIPE_VIDEO_MAX_BYTES)
+    }
+
+    const uploaded = await fsp.stat(sourcePath)
+    if (uploaded.size > SWIPE_VIDEO_MAX_BYTES) {
+      throw new Error(`Upload too large (${uploaded.size} bytes)`)
+    }
+
+    const scraped = { title: filename ? filename.replace(/\.[a-z0-9]+$/i, '') : null }
+    const meta = {
+      url_type: 'upload',
+      ...(mediaUrl ? { media_url: mediaUrl } : {}),
+      ...(filename ? { filename } : {}),
+    }
+
+    if (isImage) {
+      const { ext, mime: imageMime } = imageTypeFor(label, mime)
+      const imagePath = path.join(tmpDir, `source.${ext}`)
+      await fsp.rename(sourcePath, imagePath)
+      await storeSwipeImage({
+        job, swipeId, productId, anthropicClient, promptBlocks, imagePath, ext, mime: imageMime, url: label, scraped, meta,
+      })
+    } else {
+      const mp4Path = path.join(tmpDir, 'source.mp4')
+      if (mime === 'video/mp4' || /\.mp4(\?|$)/i.test(label)) {
+        await fsp.rename(sourcePath, mp4Path)
+      } else {
+        // MOV/WebM/etc. are normalized so playback matches scraped swipes
+        log('Transcoding upload to MP4...')
+        await runCommand('ffmpeg', [
+          '-y', '-i', sourcePath,
+          '-c:v', 'libx264', '-preset', 'veryfast',
+          '-c:a', 'aac', '-movflags', '+faststart',
+          mp4Path,
+        ], { cwd: tmpDir })
+      }
+      await storeSwipeVideo({
+        job, swipeId, productId, orgId, anthropicClient, promptBlocks, tmpDir, mp4Path, url: label, scraped, meta,
+      })
+    }
+
+    // The swipe now owns its canonical copy; drop the staged upload
+    if (r2Key) {
+      await deleteFromR2(r2Key).catch((err) => log('Failed to delete staged upload:', err?.message || err))
       await pool.query(
-        `UPDATE media_jobs SET status = 'completed', output = $2, error_message = NULL, updated_at = NOW() WHERE id = $1`,
-        [job.id, { swipe_id: swipeId, r2_image_key: r2ImageKey, title: summary.title }]
+        `UPDATE swipes SET metadata = metadata #- '{upload,r2_key}' WHERE id = $1`,
+        [swipeId]
       )
     }
 
@@ -1404,6 +2879,50 @@ async function processIngestMetaAd(job) {
   }
 }
 
+/**
+ * Runs the research_summarizer_* prompt blocks over extracted text and moves
+ * the item into the inbox with its title, summary, content and keywords.
+ */
+async function summarizeResearchItem({ anthropicClient, model, promptBlocks, itemId, title, text, metadata = {} }) {
+  log('Summarizing research...')
+  const researchSystem = getPromptBlockContent(promptBlocks, 'research_summarizer_system')
+  const researchPromptTemplate = getPromptBlockContent(promptBlocks, 'research_summarizer_prompt')
+  const researchPrompt = applyTemplate(researchPromptTemplate, {
+    title,
+    text: text.slice(0, 14000),
+  })
+  const summary = await summarizeResearch({
+    anthropicClient,
+    model,
+    system: researchSystem,
+    prompt: researchPrompt,
+  })
+
+  const { rows } = await pool.query(
+    `
+    UPDATE research_items
+    SET status = 'inbox',
+        title = COALESCE($2, title),
+        summary = COALESCE($3, summary),
+        content = $4,
+        metadata = (metadata - 'error') || $5::jsonb,
+        updated_at = NOW()
+    WHERE id = $1
+    RETURNING product_id
+  `,
+    [
+      itemId,
+      summary.title,
+      summary.summary,
+      text,
+      JSON.stringify({ ...metadata, keywords: summary.keywords }),
+    ]
+  )
+  if (rows[0]) await queueEmbeddingSync(rows[0].product_id)
+
+  return summary
+}
+
 async function processIngestResearchFile(job) {
   const input = job.input || {}
   const itemId = String(input.research_item_id || '').trim()
@@ -1418,7 +2937,7 @@ async function processIngestResearchFile(job) {
   }
 
   const orgId = await getOrgIdForProduct(productId)
-  const anthropicClient = await getAnthropicClient(orgId)
+  const anthropicClient = await getAnthropicClient(orgId, jobUsageContext(job, productId))
   const promptBlocks = await loadGlobalPromptBlocks()
 
   const tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'brandlab-research-'))
@@ -1428,81 +2947,585 @@ async function processIngestResearchFile(job) {
     log('Downloading research file...', r2Key)
     await downloadFromR2(r2Key, filePath)
 
-    log('Extracting text...')
-    const text = await extractTextFromFile(filePath, mime, filename)
-    if (!text || text.trim().length < 20) {
-      throw new Error('No extractable text found in file')
+    const fileType = getResearchFileType(filename, mime)
+    if (!fileType) {
+      throw new Error(`Unsupported research file type: ${filename || mime || 'unknown'}`)
     }
 
-    log('Summarizing research...')
-    const researchSystem = getPromptBlockContent(promptBlocks, 'research_summarizer_system')
-    const researchPromptTemplate = getPromptBlockContent(promptBlocks, 'research_summarizer_prompt')
-    const researchPrompt = applyTemplate(researchPromptTemplate, {
-      title: filename,
-      text: text.slice(0, 14000),
-    })
-    const summary = await summarizeResearch({
+    let text = ''
+    let metadata = { file_kind: fileType.kind }
+    if (fileType.kind === 'image') {
+      const ocr = await extractTextFromImage({
+        anthropicClient,
+        visionModel: await getAgentModel(orgId, 'image_ocr'),
+        promptBlocks,
+        imagePath: filePath,
+        mime,
+        filename,
+        tmpDir,
+      })
+      text = ocr.text
+      metadata = { ...metadata, ocr: { method: ocr.method, model: ocr.model, chars: text.length } }
+      if (!text || text.trim().length < 5) {
+        throw new Error('No readable text found in image')
+      }
+    } else {
+      log('Extracting text...', fileType.kind)
+      try {
+        text = await extractTextFromFile(filePath, fileType.kind)
+      } catch (err) {
+        throw new Error(`${fileType.label} extraction failed: ${err?.message || err}`)
+      }
+      if (!text || text.trim().length < 20) {
+        throw new Error(`No extractable text found in ${fileType.label} file`)
+      }
+    }
+
+    const summary = await summarizeResearchItem({
       anthropicClient,
-      system: researchSystem,
-      prompt: researchPrompt,
+      model: await getAgentModel(orgId, 'research_summarizer'),
+      promptBlocks,
+      itemId,
+      title: filename,
+      text,
+      metadata,
     })
 
     await pool.query(
       `
-      UPDATE research_items
-      SET status = 'inbox',
-          title = COALESCE($2, title),
-          summary = COALESCE($3, summary),
-          content = $4,
-          metadata = metadata || $5::jsonb,
+      UPDATE research_files
+      SET status = 'processed',
           updated_at = NOW()
       WHERE id = $1
     `,
-      [
-        itemId,
-        summary.title,
-        summary.summary,
-        text,
-        JSON.stringify({ keywords: summary.keywords }),
-      ]
+      [fileId]
     )
 
+    await completeJob(job, {
+      research_item_id: itemId,
+      file_id: fileId,
+      text_len: text.length,
+      title: summary.title,
+    })
+
+    log('Research processed.', itemId)
+  } finally {
+    await fsp.rm(tmpDir, { recursive: true, force: true }).catch(() => {})
+  }
+}
+
+async function processIngestResearchUrl(job) {
+  const input = job.input || {}
+  const itemId = String(input.research_item_id || '').trim()
+  const productId = String(input.product_id || '').trim()
+  const url = String(input.url || '').trim()
+
+  if (!itemId || !productId || !url) {
+    throw new Error('Invalid job input (missing research_item_id/product_id/url)')
+  }
+
+  const orgId = await getOrgIdForProduct(productId)
+  const anthropicClient = await getAnthropicClient(orgId, jobUsageContext(job, productId))
+  const promptBlocks = await loadGlobalPromptBlocks()
+
+  const page = await fetchReadablePage(url)
+  if (!page.text || page.text.length < 100) {
+    throw new Error('No readable text found on page')
+  }
+
+  // Keep the page's own title when the summarizer does not produce one
+  if (page.title) {
     await pool.query(
       `
-      UPDATE research_files
-      SET status = 'processed',
-          updated_at = NOW()
+      UPDATE research_items
+      SET title = $2, updated_at = NOW()
       WHERE id = $1
     `,
-      [fileId]
+      [itemId, page.title.slice(0, 140)]
     )
+  }
+
+  const summary = await summarizeResearchItem({
+    anthropicClient,
+    model: await getAgentModel(orgId, 'research_summarizer'),
+    promptBlocks,
+    itemId,
+    title: page.title || url,
+    text: page.text,
+    metadata: {
+      page: {
+        title: page.title,
+        site_name: page.siteName,
+        final_url: page.finalUrl,
+        fetched_at: new Date().toISOString(),
+      },
+    },
+  })
+
+  await completeJob(job, {
+    research_item_id: itemId,
+    url,
+    final_url: page.finalUrl,
+    text_len: page.text.length,
+    title: summary.title || page.title,
+  })
+
+  log('Research URL processed.', itemId)
+}
+
+const ORGANIZE_BATCH_SIZE = 25
+const ORGANIZE_MAX_ITEMS = 2000
+
+function parseJsonPayload(text) {
+  const cleaned = (text.match(/```json\s*([\s\S]*?)\s*```/) || [null, text])[1].trim()
+  try {
+    return JSON.parse(cleaned)
+  } catch {
+    return null
+  }
+}
 
+/**
+ * Writes the plan so far into the job output. Returns false once the job is no
+ * longer running (cancelled from the admin queue), which stops the run.
+ */
+async function saveOrganizeProgress(job, output) {
+  const { rowCount } = await pool.query(
+    `
+    UPDATE media_jobs
+    SET output = $2,
+        updated_at = NOW()
+    WHERE id = $1
+      AND status = 'running'
+      AND locked_by IS NOT DISTINCT FROM $3
+  `,
+    [job.id, output, job.locked_by ?? null]
+  )
+  return rowCount > 0
+}
+
+// Pages through the product's whole inbox in batches, merging each batch's
+// proposal into one plan. Items are only moved when the user applies it.
+async function processOrganizeResearchInbox(job) {
+  const input = job.input || {}
+  const productId = String(input.product_id || '').trim()
+  const itemIds = Array.isArray(input.item_ids) ? input.item_ids.map(String) : null
+
+  if (!productId) {
+    throw new Error('Invalid job input (missing product_id)')
+  }
+
+  const orgId = await getOrgIdForProduct(productId)
+  const anthropicClient = await getAnthropicClient(orgId, jobUsageContext(job, productId))
+  const organizeModel = await getAgentModel(orgId, 'research_organizer')
+  const promptBlocks = await loadGlobalPromptBlocks()
+  const system = getPromptBlockContent(promptBlocks, 'research_organizer_system')
+  let template = getPromptBlockContent(promptBlocks, 'research_organizer_prompt')
+  // Custom prompt blocks saved before categories were passed in still get them
+  if (!/{{\s*categories\s*}}/i.test(template)) {
+    template = `Existing categories:\n{{categories}}\n\n${template}`
+  }
+
+  const { rows: existingRows } = await pool.query(
+    `
+    SELECT id, name, description
+    FROM research_categories
+    WHERE product_id = $1
+    ORDER BY created_at ASC
+  `,
+    [productId]
+  )
+  // Keyed by lower-cased name so the model's casing never forks a category
+  const categories = new Map()
+  for (const row of existingRows) {
+    categories.set(String(row.name).toLowerCase(), {
+      name: row.name,
+      description: row.description || null,
+      category_id: row.id,
+    })
+  }
+
+  const { rows: countRows } = await pool.query(
+    `
+    SELECT COUNT(*)::int AS total
+    FROM research_items
+    WHERE product_id = $1
+      AND status = 'inbox'
+      AND ($2::uuid[] IS NULL OR id = ANY($2::uuid[]))
+  `,
+    [productId, itemIds]
+  )
+  const total = Math.min(ORGANIZE_MAX_ITEMS, Number(countRows[0]?.total || 0))
+
+  const assignments = []
+  let unassigned = 0
+  let processed = 0
+  let batchesDone = 0
+  let cursor = null
+
+  const buildOutput = () => ({
+    progress: { processed, total, batches_done: batchesDone },
+    categories: Array.from(categories.values()),
+    assignments,
+    unassigned_count: unassigned,
+  })
+
+  if (!(await saveOrganizeProgress(job, buildOutput()))) return
+
+  while (processed < total) {
+    // Keyset pagination over a stable order; items stay in the inbox until
+    // the plan is applied, so offsets would not be safe either way
+    const { rows: items } = await pool.query(
+      `
+      SELECT id, title, summary, content, created_at::text AS cursor_at
+      FROM research_items
+      WHERE product_id = $1
+        AND status = 'inbox'
+        AND ($2::uuid[] IS NULL OR id = ANY($2::uuid[]))
+        AND ($3::timestamptz IS NULL OR (created_at, id) > ($3::timestamptz, $4::uuid))
+      ORDER BY created_at ASC, id ASC
+      LIMIT $5
+    `,
+      [productId, itemIds, cursor?.createdAt ?? null, cursor?.id ?? null, Math.min(ORGANIZE_BATCH_SIZE, total - processed)]
+    )
+    if (items.length === 0) break
+    const last = items[items.length - 1]
+    // Text keeps microseconds; a JS Date would truncate and re-read the last row
+    cursor = { createdAt: last.cursor_at, id: last.id }
+
+    const categoriesText =
+      Array.from(categories.values())
+        .map((cat) => `- ${cat.name}${cat.description ? `: ${cat.description}` : ''}`)
+        .join('\n') || '(none yet)'
+    const itemsText = items
+      .map(
+        (item, idx) =>
+          `${idx + 1}. ID: ${item.id}\nTitle: ${item.title || '(none)'}\nSummary: ${
+            item.summary || ''
+          }\nExcerpt: ${(item.content || '').slice(0, 600)}\n`
+      )
+      .join('\n')
+
+    log('Organizing batch', batchesDone + 1, 'items', items.length)
+    const message = await anthropicClient.messages.create({
+      model: organizeModel,
+      max_tokens: 1500,
+      system: system || undefined,
+      messages: [
+        { role: 'user', content: applyTemplate(template, { categories: categoriesText, items: itemsText }) },
+      ],
+    })
+    const text = message.content.find((c) => c.type === 'text')?.text || ''
+    const parsed = parseJsonPayload(text)
+    if (!parsed) throw new Error(`Failed to parse organizer output for batch ${batchesDone + 1}`)
+
+    for (const cat of Array.isArray(parsed.categories) ? parsed.categories : []) {
+      const name = String(cat?.name || '').trim().slice(0, 80)
+      if (!name || categories.has(name.toLowerCase())) continue
+      categories.set(name.toLowerCase(), {
+        name,
+        description: String(cat?.description || '').trim() || null,
+        category_id: null,
+      })
+    }
+
+    const byId = new Map(items.map((item) => [String(item.id), item]))
+    const assignedIds = new Set()
+    for (const assignment of Array.isArray(parsed.assignments) ? parsed.assignments : []) {
+      const item = byId.get(String(assignment?.item_id || '').trim())
+      const name = String(assignment?.category_name || '').trim().slice(0, 80)
+      if (!item || !name || assignedIds.has(String(item.id))) continue
+      if (!categories.has(name.toLowerCase())) {
+        categories.set(name.toLowerCase(), { name, description: null, category_id: null })
+      }
+      assignedIds.add(String(item.id))
+      assignments.push({
+        item_id: String(item.id),
+        category_name: categories.get(name.toLowerCase()).name,
+        title: item.title || (item.summary || '').slice(0, 80) || null,
+      })
+    }
+
+    unassigned += items.length - assignedIds.size
+    processed += items.length
+    batchesDone += 1
+    if (!(await saveOrganizeProgress(job, buildOutput()))) {
+      log('Organize job no longer running, stopping.', job.id)
+      return
+    }
+  }
+
+  await completeJob(job, buildOutput())
+
+  log('Research inbox organized.', productId, 'items', processed, 'assigned', assignments.length)
+}
+
+// Competitor watchlists: the main loop enqueues a poll job for each due
+// watchlist; a poll scrapes the advertiser's active ads from the Ad Library,
+// tracks first/last seen per ad and turns new ads into swipes.
+// AD_LIBRARY_BASE_URL points discovery at a local fixture server for testing
+// (npm run fixture:ad-library).
+const AD_LIBRARY_BASE_URL = process.env.AD_LIBRARY_BASE_URL || AD_LIBRARY_DEFAULT_BASE_URL
+const WATCHLIST_SCHEDULE_INTERVAL_MS = 60_000
+const WATCHLIST_MAX_ADS_PER_RUN = Number(process.env.WATCHLIST_MAX_ADS_PER_RUN || 100)
+const WATCHLIST_MAX_NEW_SWIPES_PER_RUN = Number(process.env.WATCHLIST_MAX_NEW_SWIPES_PER_RUN || 20)
+
+async function scrapeAdLibraryListing(url) {
+  const browser = await chromium.launch({
+    headless: true,
+    args: ['--no-sandbox', '--disable-dev-shm-usage'],
+  })
+  const page = await browser.newPage({
+    userAgent: FB_USER_AGENT,
+    viewport: { width: 1360, height: 900 },
+    locale: 'en-US',
+  })
+
+  try {
+    await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 60_000 })
+    await page.waitForTimeout(3_000)
+
+    // The listing loads more cards on scroll; stop once a scroll adds nothing.
+    // `settled` tells the caller whether it saw the whole listing: hitting the
+    // ad cap or the scroll limit leaves a partial list.
+    let ads = []
+    let settled = false
+    for (let i = 0; i < 10; i += 1) {
+      const text = await page.evaluate(() => document.body?.innerText || '').catch(() => '')
+      const html = await page.content()
+      const next = parseAdLibraryListing({ text, html })
+      settled = i > 0 && next.length === ads.length
+      ads = next
+      if (ads.length >= WATCHLIST_MAX_ADS_PER_RUN) {
+        settled = false
+        break
+      }
+      if (settled) break
+      await page.mouse.wheel(0, 4000)
+      await page.waitForTimeout(2_000)
+    }
+    return { ads: ads.slice(0, WATCHLIST_MAX_ADS_PER_RUN), settled }
+  } finally {
+    await page.close().catch(() => {})
+    await browser.close().catch(() => {})
+  }
+}
+
+/**
+ * Enqueues a poll job for every due watchlist. next_poll_at moves forward in
+ * the same statement, so concurrent workers never schedule a watchlist twice.
+ */
+async function scheduleCompetitorWatchlists() {
+  const { rows } = await pool.query(
+    `
+    WITH due AS (
+      SELECT id
+      FROM competitor_watchlists
+      WHERE is_active = true
+        AND next_poll_at <= NOW()
+      ORDER BY next_poll_at ASC
+      LIMIT 20
+      FOR UPDATE SKIP LOCKED
+    )
+    UPDATE competitor_watchlists
+    SET next_poll_at = NOW() + make_interval(hours => competitor_watchlists.poll_interval_hours),
+        updated_at = NOW()
+    FROM due
+    WHERE competitor_watchlists.id = due.id
+    RETURNING competitor_watchlists.id, competitor_watchlists.product_id
+  `
+  )
+
+  for (const row of rows) {
     await pool.query(
       `
-      UPDATE media_jobs
+      INSERT INTO media_jobs (type, status, input)
+      SELECT 'poll_competitor_watchlist', 'queued', $1::jsonb
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM media_jobs
+        WHERE type = 'poll_competitor_watchlist'
+          AND status IN ('queued', 'running')
+          AND input->>'watchlist_id' = $2
+      )
+    `,
+      [JSON.stringify({ watchlist_id: row.id, product_id: row.product_id, trigger: 'schedule' }), row.id]
+    )
+  }
+  if (rows.length > 0) log('Scheduled watchlist polls:', rows.length)
+}
+
+// Creates (or links) the swipe for a discovered ad; new swipes go through the
+// same ingest_meta_ad job as pasted Ad Library URLs.
+async function createWatchlistSwipe({ watchlist, ad }) {
+  const sourceUrl = adLibraryAdUrl(ad.ad_archive_id)
+  const { rows } = await pool.query(
+    `
+    INSERT INTO swipes (product_id, source, source_url, status, metadata, created_by)
+    VALUES ($1, 'meta_ad_library', $2, 'processing', $3::jsonb, $4)
+    ON CONFLICT (product_id, source, source_url) DO UPDATE SET
+      updated_at = swipes.updated_at
+    RETURNING id, status, (xmax = 0) AS inserted
+  `,
+    [
+      watchlist.product_id,
+      sourceUrl,
+      JSON.stringify({ watchlist_id: watchlist.id, ad_archive_id: ad.ad_archive_id }),
+      watchlist.created_by || null,
+    ]
+  )
+  const swipe = rows[0]
+  if (!swipe.inserted) return swipe.id
+
+  await pool.query(
+    `
+    INSERT INTO media_jobs (type, status, input)
+    VALUES ('ingest_meta_ad', 'queued', $1::jsonb)
+  `,
+    [
+      JSON.stringify({
+        swipe_id: swipe.id,
+        product_id: watchlist.product_id,
+        url: sourceUrl,
+        source: 'meta_ad_library',
+        user_id: watchlist.created_by || null,
+        watchlist_id: watchlist.id,
+      }),
+    ]
+  )
+  return swipe.id
+}
+
+async function processPollCompetitorWatchlist(job) {
+  const input = job.input || {}
+  const watchlistId = String(input.watchlist_id || '').trim()
+  if (!watchlistId) throw new Error('Invalid job input (missing watchlist_id)')
+
+  const { rows } = await pool.query('SELECT * FROM competitor_watchlists WHERE id = $1', [watchlistId])
+  const watchlist = rows[0]
+  if (!watchlist || !watchlist.is_active) {
+    await completeJob(job, { watchlist_id: watchlistId, skipped: watchlist ? 'inactive' : 'deleted' })
+    return
+  }
+
+  const runRows = await pool.query(
+    'INSERT INTO competitor_watch_runs (watchlist_id, job_id) VALUES ($1, $2) RETURNING id',
+    [watchlist.id, job.id]
+  )
+  const runId = runRows.rows[0].id
+
+  try {
+    const listingUrl = buildAdLibraryListingUrl(watchlist, AD_LIBRARY_BASE_URL)
+    log('Polling watchlist...', watchlist.name, listingUrl)
+    const { ads, settled } = await scrapeAdLibraryListing(listingUrl)
+
+    let newAds = 0
+    let swipesCreated = 0
+    for (const ad of ads) {
+      const { rows: adRows } = await pool.query(
+        `
+        INSERT INTO competitor_ads (
+          watchlist_id, product_id, ad_archive_id, source_url, started_running_on,
+          first_seen_run_id, last_seen_run_id
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $6)
+        ON CONFLICT (watchlist_id, ad_archive_id) DO UPDATE SET
+          is_active = true,
+          last_seen_at = NOW(),
+          last_seen_run_id = EXCLUDED.last_seen_run_id,
+          started_running_on = COALESCE(competitor_ads.started_running_on, EXCLUDED.started_running_on)
+        RETURNING id, swipe_id, (xmax = 0) AS inserted
+      `,
+        [
+          watchlist.id,
+          watchlist.product_id,
+          ad.ad_archive_id,
+          adLibraryAdUrl(ad.ad_archive_id),
+          ad.started_running_on,
+          runId,
+        ]
+      )
+      const tracked = adRows[0]
+      if (tracked.inserted) newAds += 1
+      // Ads past the per-run cap keep swipe_id NULL and are picked up next run
+      if (!tracked.swipe_id && swipesCreated < WATCHLIST_MAX_NEW_SWIPES_PER_RUN) {
+        const swipeId = await createWatchlistSwipe({ watchlist, ad })
+        await pool.query('UPDATE competitor_ads SET swipe_id = $2 WHERE id = $1', [tracked.id, swipeId])
+        swipesCreated += 1
+      }
+    }
+
+    // An empty listing is more likely a blocked scrape than every ad stopping
+    // at once, and a capped or unsettled scrape never reached the older ads,
+    // so only a complete, non-empty run retires ads it did not see.
+    let adsStopped = 0
+    if (ads.length > 0 && settled) {
+      const stopped = await pool.query(
+        `
+        UPDATE competitor_ads
+        SET is_active = false
+        WHERE watchlist_id = $1
+          AND is_active = true
+          AND last_seen_run_id IS DISTINCT FROM $2
+      `,
+        [watchlist.id, runId]
+      )
+      adsStopped = stopped.rowCount || 0
+    }
+
+    await pool.query(
+      `
+      UPDATE competitor_watch_runs
       SET status = 'completed',
-          output = $2,
-          error_message = NULL,
+          ads_seen = $2,
+          new_ads = $3,
+          ads_stopped = $4,
+          finished_at = NOW()
+      WHERE id = $1
+    `,
+      [runId, ads.length, newAds, adsStopped]
+    )
+    await pool.query(
+      `
+      UPDATE competitor_watchlists
+      SET last_polled_at = NOW(),
+          last_error = NULL,
+          next_poll_at = NOW() + make_interval(hours => poll_interval_hours),
           updated_at = NOW()
       WHERE id = $1
     `,
-      [
-        job.id,
-        {
-          research_item_id: itemId,
-          file_id: fileId,
-          text_len: text.length,
-          title: summary.title,
-        },
-      ]
+      [watchlist.id]
     )
+    await completeJob(job, { watchlist_id: watchlist.id, run_id: runId, ads_seen: ads.length, settled, new_ads: newAds, ads_stopped: adsStopped, swipes_created: swipesCreated })
 
-    log('Research processed.', itemId)
-  } finally {
-    await fsp.rm(tmpDir, { recursive: true, force: true }).catch(() => {})
+    log('Watchlist polled.', watchlist.name, 'ads', ads.length, 'settled', settled, 'new', newAds, 'stopped', adsStopped)
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    await pool.query(
+      `UPDATE competitor_watch_runs SET status = 'failed', error_message = $2, finished_at = NOW() WHERE id = $1`,
+      [runId, message]
+    )
+    await pool.query(
+      'UPDATE competitor_watchlists SET last_error = $2, updated_at = NOW() WHERE id = $1',
+      [watchlist.id, message]
+    )
+    throw err
   }
 }
 
+// The worker only claims job types listed here, so a new type needs just an
+// entry (and usually a JOB_RETRY_POLICIES row) to be picked up.
+const JOB_HANDLERS = {
+  ingest_meta_ad: processIngestMetaAd,
+  ingest_swipe_upload: processIngestSwipeUpload,
+  ingest_research_file: processIngestResearchFile,
+  ingest_research_url: processIngestResearchUrl,
+  organize_research_inbox: processOrganizeResearchInbox,
+  poll_competitor_watchlist: processPollCompetitorWatchlist,
+  backfill_swipe_tags: processBackfillSwipeTags,
+  sync_product_embeddings: processSyncProductEmbeddings,
+}
+
 async function main() {
   log('Worker online.')
   // Ensure schema migrations exist (not applied here, but helps first-time boot debugging).
@@ -1511,8 +3534,21 @@ async function main() {
     process.exit(1)
   })
 
+  let lastReapAt = 0
+  let lastWatchlistScheduleAt = 0
+
   // eslint-disable-next-line no-constant-condition
   while (true) {
+    if (Date.now() - lastReapAt > REAP_INTERVAL_MS) {
+      lastReapAt = Date.now()
+      await reapStaleJobs().catch((err) => log('Reap error:', err?.message || err))
+    }
+
+    if (Date.now() - lastWatchlistScheduleAt > WATCHLIST_SCHEDULE_INTERVAL_MS) {
+      lastWatchlistScheduleAt = Date.now()
+      await scheduleCompetitorWatchlists().catch((err) => log('Watchlist schedule error:', err?.message || err))
+    }
+
     const job = await claimNextJob().catch((err) => {
       log('Claim error:', err?.message || err)
       return null
@@ -1523,36 +3559,19 @@ async function main() {
       continue
     }
 
-    const swipeId = String(job.input?.swipe_id || '')
-    const researchItemId = String(job.input?.research_item_id || '')
     log('Claimed job', job.id, 'attempt', job.attempts, 'type', job.type)
+    const stopHeartbeat = startJobHeartbeat(job)
 
     try {
-      if (job.type === 'ingest_meta_ad') {
-        await processIngestMetaAd(job)
-      } else if (job.type === 'ingest_research_file') {
-        await processIngestResearchFile(job)
-      } else {
-        throw new Error(`Unsupported job type: ${job.type}`)
-      }
+      const handler = JOB_HANDLERS[job.type]
+      if (!handler) throw new Error(`Unsupported job type: ${job.type}`)
+      await handler(job)
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err)
       log('Job failed', job.id, msg)
-      if (job.type === 'ingest_meta_ad') {
-        await markSwipeJobFailed({
-          jobId: job.id,
-          swipeId,
-          errorMessage: msg,
-          attempts: Number(job.attempts || 1),
-        }).catch((e) => log('Failed to mark job failed:', e?.message || e))
-      } else if (job.type === 'ingest_research_file') {
-        await markResearchJobFailed({
-          jobId: job.id,
-          itemId: researchItemId,
-          errorMessage: msg,
-          attempts: Number(job.attempts || 1),
-        }).catch((e) => log('Failed to mark job failed:', e?.message || e))
-      }
+      await failJob(job, msg).catch((e) => log('Failed to mark job failed:', e?.message || e))
+    } finally {
+      stopHeartbeat()
     }
   }
 }
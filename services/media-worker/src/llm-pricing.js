@@ -0,0 +1,79 @@
+// LLM pricing used to cost the usage ledger (llm_usage_events).
+// Shared by the Next app (src/lib/llm-pricing.ts) and the media worker.
+// Keep this file dependency-free: it ships inside the worker image on its own.
+
+// USD per million tokens. Matched by model prefix, longest first, so dated
+// model ids ("claude-sonnet-4-20250514") and "-latest" aliases resolve.
+// Cache writes bill at 1.25x input and cache reads at 0.1x input.
+export const LLM_TOKEN_PRICING = [
+  { prefix: 'claude-opus-4-6', input: 5, output: 25 },
+  { prefix: 'claude-opus-4-5', input: 5, output: 25 },
+  { prefix: 'claude-opus-4', input: 15, output: 75 },
+  { prefix: 'claude-sonnet-4', input: 3, output: 15 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-haiku-4', input: 1, output: 5 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'claude-3-haiku', input: 0.25, output: 1.25 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1-nano', input: 0.1, output: 0.4 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'text-embedding-3-small', input: 0.02, output: 0 },
+  { prefix: 'text-embedding-3-large', input: 0.13, output: 0 },
+]
+
+// USD per audio minute
+export const LLM_AUDIO_PRICING = {
+  'whisper-1': 0.006,
+}
+
+const CACHE_WRITE_MULTIPLIER = 1.25
+const CACHE_READ_MULTIPLIER = 0.1
+
+export function findTokenPricing(model) {
+  const id = String(model || '').toLowerCase()
+  let best = null
+  for (const entry of LLM_TOKEN_PRICING) {
+    if (id.startsWith(entry.prefix) && (!best || entry.prefix.length > best.prefix.length)) best = entry
+  }
+  return best
+}
+
+/**
+ * Estimated USD cost of one call. usage uses the Anthropic field names;
+ * audio_seconds prices transcription models. Unknown models cost 0.
+ */
+export function estimateLlmCostUsd(model, usage = {}) {
+  const audioRate = LLM_AUDIO_PRICING[String(model || '').toLowerCase()]
+  if (audioRate !== undefined) {
+    return roundUsd((Number(usage.audio_seconds || 0) / 60) * audioRate)
+  }
+
+  const pricing = findTokenPricing(model)
+  if (!pricing) return 0
+  const input = Number(usage.input_tokens || 0)
+  const output = Number(usage.output_tokens || 0)
+  const cacheWrite = Number(usage.cache_creation_input_tokens || 0)
+  const cacheRead = Number(usage.cache_read_input_tokens || 0)
+  const cost =
+    input * pricing.input +
+    cacheWrite * pricing.input * CACHE_WRITE_MULTIPLIER +
+    cacheRead * pricing.input * CACHE_READ_MULTIPLIER +
+    output * pricing.output
+  return roundUsd(cost / 1_000_000)
+}
+
+function roundUsd(value) {
+  return Math.round(value * 1_000_000) / 1_000_000
+}
+
+// "warning" once spend reaches warn_at_percent of the budget, "exceeded" at 100%
+export function budgetStatus({ spentUsd, budgetUsd, warnAtPercent = 80 }) {
+  if (budgetUsd === null || budgetUsd === undefined || !Number.isFinite(Number(budgetUsd))) return 'none'
+  const budget = Number(budgetUsd)
+  if (budget <= 0 || Number(spentUsd) >= budget) return 'exceeded'
+  if ((Number(spentUsd) / budget) * 100 >= Number(warnAtPercent || 80)) return 'warning'
+  return 'ok'
+}
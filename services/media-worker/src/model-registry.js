@@ -0,0 +1,191 @@
+// Model registry.
+// Shared by the Next app (src/lib/model-registry.ts) and the media worker so
+// both resolve the same model for an agent. Organizations can set a default
+// model plus per-agent and per-skill overrides (organization_model_settings).
+// Keep this file dependency-free: it ships inside the worker image on its own.
+
+export const LLM_PROVIDERS = ['anthropic', 'openai']
+
+export const LLM_MODELS = [
+  { id: 'claude-opus-4-6', label: 'Claude Opus 4.6', tier: 'large', provider: 'anthropic' },
+  { id: 'claude-opus-4-5', label: 'Claude Opus 4.5', tier: 'large', provider: 'anthropic' },
+  { id: 'claude-sonnet-4-5', label: 'Claude Sonnet 4.5', tier: 'medium', provider: 'anthropic' },
+  { id: 'claude-sonnet-4-20250514', label: 'Claude Sonnet 4', tier: 'medium', provider: 'anthropic' },
+  { id: 'claude-haiku-4-5', label: 'Claude Haiku 4.5', tier: 'small', provider: 'anthropic' },
+  { id: 'claude-3-5-haiku-latest', label: 'Claude 3.5 Haiku', tier: 'small', provider: 'anthropic' },
+  { id: 'gpt-4.1', label: 'GPT-4.1', tier: 'large', provider: 'openai' },
+  { id: 'gpt-4.1-mini', label: 'GPT-4.1 mini', tier: 'medium', provider: 'openai' },
+  { id: 'gpt-4o-mini', label: 'GPT-4o mini', tier: 'small', provider: 'openai' },
+]
+
+// Every LLM call site is one agent. `env` lists deployment-wide overrides
+// checked in order before the built-in default. `skills: true` marks agents
+// whose model can be overridden per skill. `providers` lists the providers the
+// call site can talk to: app routes go through src/lib/llm-client.ts, the
+// worker still calls Anthropic directly.
+export const LLM_AGENTS = [
+  {
+    id: 'writer',
+    label: 'Writer Agent',
+    description: 'Studio chat that drafts copy on the canvas.',
+    default_model: 'claude-opus-4-6',
+    env: [],
+    skills: true,
+    providers: ['anthropic', 'openai'],
+  },
+  {
+    id: 'generate',
+    label: 'Concept Generator',
+    description: 'Structured concept cards from /api/generate.',
+    default_model: 'claude-opus-4-6',
+    env: [],
+    skills: true,
+    providers: ['anthropic', 'openai'],
+  },
+  {
+    id: 'edit_content',
+    label: 'Inline Editor',
+    description: 'Rewrites a selected passage on the canvas.',
+    default_model: 'claude-sonnet-4-20250514',
+    env: [],
+    skills: false,
+    providers: ['anthropic', 'openai'],
+  },
+  {
+    id: 'swipe_namer',
+    label: 'Swipe Namer',
+    description: 'Short slug titles for manual swipes.',
+    default_model: 'claude-haiku-4-5',
+    env: [],
+    skills: false,
+    providers: ['anthropic', 'openai'],
+  },
+  {
+    id: 'avatar_namer',
+    label: 'Avatar Namer',
+    description: 'Short descriptive names for new avatars.',
+    default_model: 'claude-sonnet-4-20250514',
+    env: [],
+    skills: false,
+    providers: ['anthropic', 'openai'],
+  },
+  {
+    id: 'research_synthesis',
+    label: 'Research Synthesizer',
+    description: 'Avatars, angles, quotes and insights from research.',
+    default_model: 'claude-3-5-haiku-latest',
+    env: ['ANTHROPIC_SYNTHESIZE_MODEL', 'ANTHROPIC_ORGANIZE_MODEL'],
+    skills: false,
+    providers: ['anthropic', 'openai'],
+  },
+  {
+    id: 'review_importer',
+    label: 'Review Importer',
+    description: 'Clusters imported reviews into themes.',
+    default_model: 'claude-3-5-haiku-latest',
+    env: ['ANTHROPIC_ORGANIZE_MODEL'],
+    skills: false,
+    providers: ['anthropic', 'openai'],
+  },
+  {
+    id: 'swipe_summarizer',
+    label: 'Swipe Summarizer',
+    description: 'Worker: titles, summaries and tags for ingested swipes.',
+    default_model: 'claude-3-5-haiku-latest',
+    env: ['ANTHROPIC_SUMMARIZE_MODEL'],
+    skills: false,
+    providers: ['anthropic'],
+  },
+  {
+    id: 'research_summarizer',
+    label: 'Research Summarizer',
+    description: 'Worker: briefs for uploaded research files and URLs.',
+    default_model: 'claude-3-5-haiku-latest',
+    env: ['ANTHROPIC_SUMMARIZE_MODEL'],
+    skills: false,
+    providers: ['anthropic'],
+  },
+  {
+    id: 'research_organizer',
+    label: 'Research Organizer',
+    description: 'Worker: proposes categories for the research inbox.',
+    default_model: 'claude-3-5-haiku-latest',
+    env: ['ANTHROPIC_ORGANIZE_MODEL'],
+    skills: false,
+    providers: ['anthropic'],
+  },
+  {
+    id: 'image_ocr',
+    label: 'Screenshot Reader',
+    description: 'Worker: transcribes screenshots with vision.',
+    default_model: 'claude-sonnet-4-5',
+    env: ['ANTHROPIC_VISION_MODEL'],
+    skills: false,
+    providers: ['anthropic'],
+  },
+]
+
+export const LLM_AGENT_IDS = LLM_AGENTS.map((agent) => agent.id)
+
+export function isKnownModel(model) {
+  return LLM_MODELS.some((entry) => entry.id === model)
+}
+
+export function getLlmAgent(agentId) {
+  return LLM_AGENTS.find((agent) => agent.id === agentId) || null
+}
+
+/**
+ * Provider for a model id. Ids outside the registry (env overrides, dated
+ * snapshots) are routed by name: OpenAI's gpt-/o-series, otherwise Anthropic.
+ */
+export function modelProvider(model) {
+  const known = LLM_MODELS.find((entry) => entry.id === model)
+  if (known) return known.provider
+  return /^(gpt-|chatgpt-|o\d)/i.test(String(model || '')) ? 'openai' : 'anthropic'
+}
+
+export function agentSupportsModel(agentId, model) {
+  const agent = getLlmAgent(agentId)
+  return Boolean(agent) && agent.providers.includes(modelProvider(model))
+}
+
+/** The deployment default for an agent: its env overrides, then the registry default. */
+export function builtInAgentModel(agentId, env = {}) {
+  const agent = getLlmAgent(agentId)
+  if (!agent) throw new Error(`Unknown LLM agent: ${agentId}`)
+  for (const name of agent.env) {
+    const value = typeof env[name] === 'string' ? env[name].trim() : ''
+    if (value) return value
+  }
+  return agent.default_model
+}
+
+/**
+ * Picks the model for one call. Most specific wins: the first skill with an
+ * override, then the agent override, then the org default, then the
+ * deployment default. `source` says which level decided, for debug traces.
+ * An org default from a provider the agent cannot call is skipped.
+ *
+ * @param {{ agentId: string, skills?: string[], settings?: object | null, env?: Record<string, string | undefined> }} args
+ */
+export function resolveAgentModel({ agentId, skills = [], settings = null, env = {} }) {
+  const agent = getLlmAgent(agentId)
+  if (!agent) throw new Error(`Unknown LLM agent: ${agentId}`)
+
+  if (settings) {
+    if (agent.skills) {
+      for (const skill of skills) {
+        const model = settings.skill_models?.[skill]
+        if (model) return { model, source: 'skill', agent: agentId, skill }
+      }
+    }
+    const agentModel = settings.agent_models?.[agentId]
+    if (agentModel) return { model: agentModel, source: 'agent', agent: agentId, skill: null }
+    if (settings.default_model && agentSupportsModel(agentId, settings.default_model)) {
+      return { model: settings.default_model, source: 'organization', agent: agentId, skill: null }
+    }
+  }
+
+  return { model: builtInAgentModel(agentId, env), source: 'default', agent: agentId, skill: null }
+}
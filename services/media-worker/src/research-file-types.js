@@ -0,0 +1,103 @@
+// Research upload file types.
+// Shared by the Next app (src/lib/research-file-types.ts) and the media worker so
+// the upload API only accepts files the worker has an extractor for.
+// Keep this file dependency-free: it ships inside the worker image on its own.
+
+// Order matters: the first matching rule wins. Extensions are checked before
+// mime types because browsers report many of these as application/octet-stream
+// (or CSV as application/vnd.ms-excel).
+export const RESEARCH_FILE_TYPES = [
+  {
+    kind: 'pdf',
+    label: 'PDF',
+    extensions: ['.pdf'],
+    mimes: ['application/pdf'],
+  },
+  {
+    kind: 'docx',
+    label: 'Word',
+    extensions: ['.docx'],
+    mimes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  },
+  {
+    kind: 'spreadsheet',
+    label: 'Spreadsheet',
+    extensions: ['.xlsx', '.xls', '.ods', '.csv', '.tsv'],
+    mimes: [
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-excel',
+      'application/vnd.oasis.opendocument.spreadsheet',
+      'text/csv',
+      'text/tab-separated-values',
+    ],
+  },
+  {
+    kind: 'markdown',
+    label: 'Markdown',
+    extensions: ['.md', '.markdown'],
+    mimes: ['text/markdown', 'text/x-markdown'],
+  },
+  {
+    kind: 'html',
+    label: 'HTML',
+    extensions: ['.html', '.htm', '.xhtml'],
+    mimes: ['text/html', 'application/xhtml+xml'],
+  },
+  {
+    kind: 'subtitles',
+    label: 'Subtitles',
+    extensions: ['.srt', '.vtt'],
+    mimes: ['application/x-subrip', 'text/vtt'],
+  },
+  {
+    kind: 'epub',
+    label: 'EPUB',
+    extensions: ['.epub'],
+    mimes: ['application/epub+zip'],
+  },
+  {
+    kind: 'image',
+    label: 'Screenshot',
+    extensions: ['.png', '.jpg', '.jpeg', '.webp', '.gif', '.bmp', '.tif', '.tiff', '.heic', '.heif'],
+    mimes: ['image/'],
+  },
+  {
+    kind: 'text',
+    label: 'Text',
+    extensions: ['.txt', '.text', '.log'],
+    mimes: ['text/plain'],
+  },
+]
+
+export const RESEARCH_FILE_KINDS = RESEARCH_FILE_TYPES.map((type) => type.kind)
+
+// Value for <input type="file" accept="...">
+export const RESEARCH_FILE_ACCEPT = RESEARCH_FILE_TYPES.flatMap((type) => type.extensions).join(',')
+
+export const SUPPORTED_RESEARCH_FILES_LABEL = RESEARCH_FILE_TYPES.map(
+  (type) => `${type.label} (${type.extensions.join(', ')})`
+).join('; ')
+
+function extensionOf(filename) {
+  const match = String(filename || '').toLowerCase().match(/\.[a-z0-9]+$/)
+  return match ? match[0] : ''
+}
+
+export function getResearchFileType(filename, mime) {
+  const ext = extensionOf(filename)
+  if (ext) {
+    const byExtension = RESEARCH_FILE_TYPES.find((type) => type.extensions.includes(ext))
+    if (byExtension) return byExtension
+  }
+  const normalized = String(mime || '').toLowerCase().split(';')[0].trim()
+  if (!normalized || normalized === 'application/octet-stream') return null
+  return (
+    RESEARCH_FILE_TYPES.find((type) =>
+      type.mimes.some((candidate) => (candidate.endsWith('/') ? normalized.startsWith(candidate) : normalized === candidate))
+    ) || null
+  )
+}
+
+export function detectResearchFileKind(filename, mime) {
+  return getResearchFileType(filename, mime)?.kind || null
+}
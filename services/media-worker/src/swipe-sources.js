@@ -0,0 +1,74 @@
+// Swipe URL classification.
+// Shared by the Next app (src/lib/swipe-sources.ts) and the media worker so the
+// accepted URLs and the stored swipes.source values cannot drift apart.
+// Keep this file dependency-free: it ships inside the worker image on its own.
+
+function hostMatches(hostname, domain) {
+  return hostname === domain || hostname.endsWith(`.${domain}`)
+}
+
+// Order matters: the first matching rule wins.
+export const SWIPE_URL_RULES = [
+  {
+    source: 'meta_ad_library',
+    label: 'Meta Ad Library',
+    match: (u) => hostMatches(u.hostname, 'facebook.com') && u.pathname.includes('/ads/library'),
+  },
+  {
+    source: 'facebook_reel',
+    label: 'Facebook reels',
+    match: (u) => hostMatches(u.hostname, 'facebook.com') && u.pathname.includes('/reel/'),
+  },
+  {
+    source: 'facebook_post',
+    label: 'Facebook posts',
+    match: (u) =>
+      hostMatches(u.hostname, 'facebook.com') &&
+      (u.pathname.includes('/posts/') || u.pathname.includes('/permalink/')),
+  },
+  {
+    source: 'tiktok_ad',
+    label: 'TikTok Creative Center / Ad Library',
+    match: (u) =>
+      (hostMatches(u.hostname, 'ads.tiktok.com') && u.pathname.includes('/creativecenter/')) ||
+      (hostMatches(u.hostname, 'library.tiktok.com') && u.pathname.includes('/ads')),
+  },
+  {
+    source: 'tiktok_video',
+    label: 'TikTok videos',
+    match: (u) =>
+      (hostMatches(u.hostname, 'tiktok.com') && /\/@[^/]+\/video\/\d+/.test(u.pathname)) ||
+      ((u.hostname === 'vm.tiktok.com' || u.hostname === 'vt.tiktok.com') && u.pathname.length > 1),
+  },
+  {
+    source: 'youtube_short',
+    label: 'YouTube Shorts',
+    match: (u) => hostMatches(u.hostname, 'youtube.com') && /^\/shorts\/[\w-]+/.test(u.pathname),
+  },
+]
+
+export const SWIPE_SOURCES = SWIPE_URL_RULES.map((rule) => rule.source)
+
+export const SUPPORTED_SWIPE_URLS_LABEL = SWIPE_URL_RULES.map((rule) => rule.label).join(', ')
+
+export function classifySwipeUrl(url) {
+  try {
+    const u = new URL(String(url || '').trim())
+    if (u.protocol !== 'https:' && u.protocol !== 'http:') return { supported: false, source: '' }
+    const rule = SWIPE_URL_RULES.find((candidate) => candidate.match(u))
+    return rule ? { supported: true, source: rule.source } : { supported: false, source: '' }
+  } catch {
+    return { supported: false, source: '' }
+  }
+}
+
+export function isSupportedSwipeUrl(url) {
+  return classifySwipeUrl(url).supported
+}
+
+export function extractSwipeUrls(text) {
+  const matches = String(text || '').match(/https?:\/\/[^\s<>"']+/gi) || []
+  return matches
+    .map((match) => match.replace(/[),.;!?]+$/g, ''))
+    .filter((url) => isSupportedSwipeUrl(url))
+}
@@ -0,0 +1,169 @@
+// Swipe tag taxonomy.
+// Shared by the Next app (src/lib/swipe-taxonomy.ts) and the media worker so the
+// summarizer, the swipes API filters and the agent's list_swipes tool all use
+// the same dimensions and values.
+// Keep this file dependency-free: it ships inside the worker image on its own.
+
+function option(value, label) {
+  return { value, label }
+}
+
+// `options: null` marks a free-form dimension (angles are product-specific).
+export const SWIPE_TAG_DIMENSIONS = [
+  {
+    key: 'hook_type',
+    label: 'Hook',
+    description: 'How the first seconds grab attention',
+    options: [
+      option('question', 'Question'),
+      option('bold_claim', 'Bold claim'),
+      option('problem_callout', 'Problem callout'),
+      option('story', 'Story'),
+      option('statistic', 'Statistic'),
+      option('demonstration', 'Demonstration'),
+      option('testimonial', 'Testimonial'),
+      option('controversy', 'Controversy'),
+      option('curiosity_gap', 'Curiosity gap'),
+      option('pattern_interrupt', 'Pattern interrupt'),
+      option('before_after', 'Before / after'),
+    ],
+  },
+  {
+    key: 'angle',
+    label: 'Angle',
+    description: 'The core selling idea in 2-5 words, e.g. "natural sleep without pills"',
+    options: null,
+  },
+  {
+    key: 'format',
+    label: 'Format',
+    description: 'How the creative is produced',
+    options: [
+      option('talking_head', 'Talking head'),
+      option('green_screen', 'Green screen'),
+      option('demo', 'Demo'),
+      option('ugc_testimonial', 'UGC testimonial'),
+      option('voiceover_broll', 'Voiceover + B-roll'),
+      option('street_interview', 'Street interview'),
+      option('skit', 'Skit'),
+      option('unboxing', 'Unboxing'),
+      option('slideshow', 'Slideshow'),
+      option('animation', 'Animation'),
+      option('static_image', 'Static image'),
+    ],
+  },
+  {
+    key: 'awareness_level',
+    label: 'Awareness',
+    description: 'Prospect awareness the ad is written for, per Schwartz',
+    options: [
+      option('unaware', 'Unaware'),
+      option('problem_aware', 'Problem aware'),
+      option('solution_aware', 'Solution aware'),
+      option('product_aware', 'Product aware'),
+      option('most_aware', 'Most aware'),
+    ],
+  },
+  {
+    key: 'sophistication_stage',
+    label: 'Sophistication',
+    description: 'Market sophistication stage the claim is pitched at, per Schwartz',
+    options: [
+      option('stage_1', 'Stage 1: first claim'),
+      option('stage_2', 'Stage 2: bigger claim'),
+      option('stage_3', 'Stage 3: new mechanism'),
+      option('stage_4', 'Stage 4: better mechanism'),
+      option('stage_5', 'Stage 5: identification'),
+    ],
+  },
+  {
+    key: 'emotional_driver',
+    label: 'Emotion',
+    description: 'Dominant emotion the ad leans on',
+    options: [
+      option('fear', 'Fear'),
+      option('frustration', 'Frustration'),
+      option('shame', 'Shame'),
+      option('hope', 'Hope'),
+      option('desire', 'Desire'),
+      option('pride', 'Pride'),
+      option('curiosity', 'Curiosity'),
+      option('belonging', 'Belonging'),
+      option('relief', 'Relief'),
+      option('urgency', 'Urgency'),
+    ],
+  },
+  {
+    key: 'cta_style',
+    label: 'CTA',
+    description: 'How the ad asks for the click',
+    options: [
+      option('direct_buy', 'Direct buy'),
+      option('discount_offer', 'Discount offer'),
+      option('scarcity', 'Scarcity / deadline'),
+      option('free_trial', 'Free trial'),
+      option('learn_more', 'Learn more'),
+      option('lead_magnet', 'Lead magnet'),
+      option('quiz', 'Quiz'),
+      option('soft', 'Soft / no CTA'),
+    ],
+  },
+]
+
+export const SWIPE_TAG_KEYS = SWIPE_TAG_DIMENSIONS.map((dimension) => dimension.key)
+
+const FREE_FORM_MAX_CHARS = 60
+
+function slug(value) {
+  return String(value || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
+
+function normalizeTagValue(dimension, raw) {
+  if (typeof raw !== 'string' && typeof raw !== 'number') return null
+  if (!dimension.options) {
+    const text = String(raw).replace(/\s+/g, ' ').trim().toLowerCase().slice(0, FREE_FORM_MAX_CHARS)
+    return text || null
+  }
+  const key = slug(raw)
+  if (!key) return null
+  // Accept the value or its label; sophistication also accepts a bare 1-5
+  const match = dimension.options.find(
+    (candidate) =>
+      candidate.value === key || slug(candidate.label) === key || candidate.value === `stage_${key}`
+  )
+  return match ? match.value : null
+}
+
+/**
+ * Keeps known dimensions with valid values. Used on summarizer output and on
+ * filter input (query params, tool arguments), so both end up in the stored
+ * { dimension: value } shape.
+ */
+export function normalizeSwipeTags(raw) {
+  const tags = {}
+  if (!raw || typeof raw !== 'object') return tags
+  for (const dimension of SWIPE_TAG_DIMENSIONS) {
+    const value = normalizeTagValue(dimension, raw[dimension.key])
+    if (value) tags[dimension.key] = value
+  }
+  return tags
+}
+
+export function swipeTagLabel(key, value) {
+  const dimension = SWIPE_TAG_DIMENSIONS.find((candidate) => candidate.key === key)
+  const match = dimension?.options?.find((candidate) => candidate.value === value)
+  return match ? match.label : String(value || '')
+}
+
+// Prompt text listing every dimension and its allowed values
+export function describeSwipeTaxonomy() {
+  return SWIPE_TAG_DIMENSIONS.map((dimension) => {
+    const values = dimension.options
+      ? dimension.options.map((candidate) => candidate.value).join(' | ')
+      : 'short free-text phrase'
+    return `- ${dimension.key} (${dimension.description}): ${values}`
+  }).join('\n')
+}
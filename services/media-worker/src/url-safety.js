@@ -0,0 +1,129 @@
+// Outbound URL checks for user-supplied URLs (media URLs, research pages).
+// Every hop of a fetch, redirects included, must resolve only to public
+// addresses, so a URL cannot reach the worker's own network, the database or
+// the cloud metadata service.
+
+import dns from 'node:dns/promises'
+import http from 'node:http'
+import https from 'node:https'
+import net from 'node:net'
+
+const BLOCKED_HOSTNAMES = new Set(['localhost', 'metadata', 'metadata.google.internal'])
+
+const blockedAddresses = new net.BlockList()
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // RFC 1918
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, incl. 169.254.169.254 metadata
+  ['172.16.0.0', 12], // RFC 1918
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // RFC 1918
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, incl. broadcast
+]) {
+  blockedAddresses.addSubnet(address, prefix, 'ipv4')
+}
+for (const [address, prefix] of [
+  ['::', 128], // unspecified
+  ['::1', 128], // loopback
+  ['64:ff9b::', 96], // NAT64 onto IPv4
+  ['fc00::', 7], // unique local, incl. fd00:ec2::254 metadata
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+]) {
+  blockedAddresses.addSubnet(address, prefix, 'ipv6')
+}
+
+export function isPublicAddress(address) {
+  const family = net.isIP(address)
+  if (!family) return false
+  // BlockList also matches IPv4-mapped IPv6 (::ffff:a.b.c.d) against the IPv4 rules
+  return !blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * Throws unless `url` is http(s) and its host resolves only to public
+ * addresses. Returns the parsed URL.
+ */
+export async function assertPublicUrl(url) {
+  let parsed
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new Error(`Invalid URL: ${url}`)
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Blocked URL scheme: ${parsed.protocol}`)
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (BLOCKED_HOSTNAMES.has(hostname) || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+    throw new Error(`Blocked host: ${hostname}`)
+  }
+
+  if (net.isIP(hostname)) {
+    if (!isPublicAddress(hostname)) throw new Error(`Blocked private address: ${hostname}`)
+  } else {
+    await resolvePublicAddresses(hostname)
+  }
+  return parsed
+}
+
+async function resolvePublicAddresses(hostname) {
+  const entries = await dns.lookup(hostname, { all: true, verbatim: true })
+  if (entries.length === 0) throw new Error(`Could not resolve ${hostname}`)
+  const blocked = entries.find((entry) => !isPublicAddress(entry.address))
+  if (blocked) throw new Error(`Blocked private address for ${hostname}: ${blocked.address}`)
+  return entries
+}
+
+// Socket `lookup` for outbound requests. The connection goes to an address
+// that passed the same check, so a DNS answer that changes between
+// assertPublicUrl and the connect (DNS rebinding) cannot reach a private host.
+function publicLookup(hostname, options, callback) {
+  resolvePublicAddresses(hostname)
+    .then((entries) => {
+      const matching = options.family ? entries.filter((entry) => entry.family === options.family) : entries
+      if (matching.length === 0) throw new Error(`Could not resolve ${hostname}`)
+      return matching
+    })
+    .then(
+      (entries) =>
+        options.all ? callback(null, entries) : callback(null, entries[0].address, entries[0].family),
+      (err) => callback(err)
+    )
+}
+
+const MAX_REDIRECTS = 5
+const REQUEST_IDLE_TIMEOUT_MS = 300_000
+
+function requestOnce(url, { method = 'GET', headers = {} }) {
+  const client = url.protocol === 'https:' ? https : http
+  return new Promise((resolve, reject) => {
+    const req = client.request(url, { method, headers, lookup: publicLookup }, resolve)
+    req.setTimeout(REQUEST_IDLE_TIMEOUT_MS, () => req.destroy(new Error(`Request timed out: ${url}`)))
+    req.on('error', reject)
+    req.end()
+  })
+}
+
+/**
+ * GET/HEAD that follows redirects by hand so each hop goes through
+ * assertPublicUrl, and connects through publicLookup so the socket uses an
+ * address that passed the check. Resolves to the final http.IncomingMessage;
+ * the caller must read or destroy its body.
+ */
+export async function fetchPublicUrl(url, init = {}) {
+  let current = url
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+    const res = await requestOnce(await assertPublicUrl(current), init)
+    const location = res.headers.location
+    if (res.statusCode < 300 || res.statusCode >= 400 || !location) return res
+    res.resume()
+    current = new URL(location, current).toString()
+  }
+  throw new Error(`Too many redirects: ${url}`)
+}
@@ -18,15 +18,17 @@ interface Avatar {
 }
 
 interface CopyVariant {
-  hook: string
+  headline?: string
+  hook?: string
   body: string
-  cta: string
+  cta?: string
 }
 
 interface ConceptCard {
   concept_name: string
-  image_description: string
-  image_prompt: string
+  headline: string
+  body: string
+  cta: string
   copy_variants: CopyVariant[]
 }
 
@@ -260,8 +262,6 @@ export default function GeneratePage() {
 }
 
 function ConceptCardDisplay({ concept, index }: { concept: ConceptCard; index: number }) {
-  const [showImagePrompt, setShowImagePrompt] = useState(false)
-
   return (
     <div className="bg-zinc-900 rounded-lg border border-zinc-800 overflow-hidden">
       {/* Header */}
@@ -272,25 +272,6 @@ function ConceptCardDisplay({ concept, index }: { concept: ConceptCard; index: n
       </div>
 
       <div className="p-6 space-y-6">
-        {/* Image Description */}
-        <div>
-          <h4 className="text-sm font-medium text-zinc-400 mb-2">Image Description</h4>
-          <p className="text-zinc-200">{concept.image_description}</p>
-
-          <button
-            onClick={() => setShowImagePrompt(!showImagePrompt)}
-            className="text-sm text-zinc-500 hover:text-zinc-300 mt-2"
-          >
-            {showImagePrompt ? 'Hide' : 'Show'} Image Prompt
-          </button>
-
-          {showImagePrompt && (
-            <pre className="mt-2 p-3 bg-zinc-800 rounded text-xs text-zinc-400 overflow-x-auto">
-              {concept.image_prompt}
-            </pre>
-          )}
-        </div>
-
         {/* Copy Variants */}
         <div>
           <h4 className="text-sm font-medium text-zinc-400 mb-3">Copy Variants</h4>
@@ -299,8 +280,8 @@ function ConceptCardDisplay({ concept, index }: { concept: ConceptCard; index: n
               <div key={vi} className="p-4 bg-zinc-800/50 rounded-lg border border-zinc-700">
                 <div className="space-y-2">
                   <div>
-                    <span className="text-xs text-zinc-500 uppercase">Hook</span>
-                    <p className="text-white font-medium">{variant.hook}</p>
+                    <span className="text-xs text-zinc-500 uppercase">{variant.hook ? 'Hook' : 'Headline'}</span>
+                    <p className="text-white font-medium">{variant.hook || variant.headline}</p>
                   </div>
                   <div>
                     <span className="text-xs text-zinc-500 uppercase">Body</span>
@@ -308,7 +289,7 @@ function ConceptCardDisplay({ concept, index }: { concept: ConceptCard; index: n
                   </div>
                   <div>
                     <span className="text-xs text-zinc-500 uppercase">CTA</span>
-                    <p className="text-zinc-400">{variant.cta}</p>
+                    <p className="text-zinc-400">{variant.cta || '—'}</p>
                   </div>
                 </div>
               </div>
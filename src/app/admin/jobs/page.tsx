@@ -0,0 +1,361 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+
+interface MediaJob {
+  id: string
+  type: string
+  status: string
+  input: Record<string, unknown>
+  output: Record<string, unknown> | null
+  attempts: number
+  run_after: string
+  locked_at: string | null
+  locked_by: string | null
+  error_message: string | null
+  created_at: string
+  updated_at: string
+  subject_title?: string | null
+  subject_status?: string | null
+  product_name?: string | null
+}
+
+interface QueueSummary {
+  counts: Array<{ type: string; status: string; count: number }>
+  stale_running: number
+  next_retry_at: string | null
+}
+
+const PAGE_SIZE = 50
+
+const JOB_TYPES = [
+  'ingest_meta_ad',
+  'ingest_swipe_upload',
+  'ingest_research_file',
+  'ingest_research_url',
+  'organize_research_inbox',
+  'poll_competitor_watchlist',
+  'backfill_swipe_tags',
+  'sync_product_embeddings',
+]
+const JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'dead', 'cancelled']
+
+const CANCELLABLE = new Set(['queued', 'running'])
+const REQUEUEABLE = new Set(['failed', 'dead', 'cancelled', 'completed'])
+
+const statusColors: Record<string, string> = {
+  queued: 'bg-yellow-900/30 text-yellow-400',
+  running: 'bg-blue-900/30 text-blue-400',
+  completed: 'bg-green-900/30 text-green-400',
+  failed: 'bg-orange-900/30 text-orange-400',
+  dead: 'bg-red-900/30 text-red-400',
+  cancelled: 'bg-zinc-800 text-zinc-400',
+}
+
+function formatTime(value: string | null) {
+  return value ? new Date(value).toLocaleString() : '—'
+}
+
+export default function MediaJobsPage() {
+  const [jobs, setJobs] = useState<MediaJob[]>([])
+  const [total, setTotal] = useState(0)
+  const [summary, setSummary] = useState<QueueSummary | null>(null)
+  const [typeFilter, setTypeFilter] = useState('')
+  const [statusFilter, setStatusFilter] = useState('')
+  const [offset, setOffset] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [busy, setBusy] = useState(false)
+
+  const fetchJobs = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) })
+      if (typeFilter) params.set('type', typeFilter)
+      if (statusFilter) params.set('status', statusFilter)
+
+      const [jobsRes, summaryRes] = await Promise.all([
+        fetch(`/api/admin/media-jobs?${params.toString()}`),
+        fetch('/api/admin/media-jobs/summary'),
+      ])
+      const jobsData = await jobsRes.json()
+      if (!jobsRes.ok) throw new Error(jobsData?.error || 'Failed to load jobs')
+      setJobs(Array.isArray(jobsData.jobs) ? jobsData.jobs : [])
+      setTotal(Number(jobsData.total || 0))
+      if (summaryRes.ok) setSummary(await summaryRes.json())
+      setSelected(new Set())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load jobs')
+    } finally {
+      setLoading(false)
+    }
+  }, [offset, statusFilter, typeFilter])
+
+  useEffect(() => {
+    fetchJobs()
+  }, [fetchJobs])
+
+  const statusTotals = useMemo(() => {
+    const totals: Record<string, number> = {}
+    for (const row of summary?.counts || []) {
+      if (typeFilter && row.type !== typeFilter) continue
+      totals[row.status] = (totals[row.status] || 0) + row.count
+    }
+    return totals
+  }, [summary, typeFilter])
+
+  async function runAction(url: string, body?: unknown) {
+    setBusy(true)
+    setNotice(null)
+    setError(null)
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data?.error || 'Action failed')
+      if (typeof data.requeued === 'number') {
+        setNotice(`Requeued ${data.requeued} job(s)${data.skipped ? `, skipped ${data.skipped}` : ''}.`)
+      }
+      await fetchJobs()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function toggleSelected(id: string) {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-zinc-100">
+      <div className="max-w-6xl mx-auto px-6 py-8">
+        <Link href="/admin" className="text-zinc-500 hover:text-zinc-300 text-sm mb-4 block">
+          ← Back to Admin
+        </Link>
+
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold">Media Jobs</h1>
+          <button
+            onClick={fetchJobs}
+            disabled={loading}
+            className="text-sm px-3 py-1 bg-zinc-800 hover:bg-zinc-700 rounded disabled:opacity-50"
+          >
+            Refresh
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {JOB_STATUSES.map((status) => (
+            <button
+              key={status}
+              onClick={() => {
+                setOffset(0)
+                setStatusFilter(statusFilter === status ? '' : status)
+              }}
+              className={`px-2 py-1 rounded text-xs border ${
+                statusFilter === status ? 'border-zinc-400' : 'border-transparent'
+              } ${statusColors[status] || 'bg-zinc-800'}`}
+            >
+              {status} · {statusTotals[status] || 0}
+            </button>
+          ))}
+          {summary && summary.stale_running > 0 && (
+            <span className="px-2 py-1 rounded text-xs bg-red-900/30 text-red-300">
+              {summary.stale_running} running job(s) with expired locks
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <select
+            value={typeFilter}
+            onChange={(e) => {
+              setOffset(0)
+              setTypeFilter(e.target.value)
+            }}
+            className="bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm"
+          >
+            <option value="">All types</option>
+            {JOB_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setOffset(0)
+              setStatusFilter(e.target.value)
+            }}
+            className="bg-zinc-900 border border-zinc-800 rounded px-3 py-2 text-sm"
+          >
+            <option value="">All statuses</option>
+            {JOB_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+          <div className="flex-1" />
+          <button
+            onClick={() => runAction('/api/admin/media-jobs/retry', { ids: Array.from(selected) })}
+            disabled={busy || selected.size === 0}
+            className="text-sm px-3 py-2 bg-zinc-800 hover:bg-zinc-700 rounded disabled:opacity-50"
+          >
+            Retry selected ({selected.size})
+          </button>
+          <button
+            onClick={() =>
+              runAction('/api/admin/media-jobs/retry', {
+                status: 'dead',
+                ...(typeFilter ? { type: typeFilter } : {}),
+              })
+            }
+            disabled={busy || !statusTotals.dead}
+            className="text-sm px-3 py-2 bg-red-900/40 hover:bg-red-900/60 text-red-200 rounded disabled:opacity-50"
+          >
+            Retry all dead
+          </button>
+        </div>
+
+        {notice && <p className="text-green-400 text-sm mb-4">{notice}</p>}
+        {error && <p className="text-red-400 text-sm mb-4">Error: {error}</p>}
+
+        {loading && jobs.length === 0 ? (
+          <p className="text-zinc-400">Loading...</p>
+        ) : jobs.length === 0 ? (
+          <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-8 text-center">
+            <p className="text-zinc-400">No jobs match these filters</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {jobs.map((job) => {
+              const expanded = expandedId === job.id
+              return (
+                <div key={job.id} className="bg-zinc-900 rounded-lg border border-zinc-800 p-4">
+                  <div className="flex items-start gap-3">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(job.id)}
+                      disabled={!REQUEUEABLE.has(job.status)}
+                      onChange={() => toggleSelected(job.id)}
+                      className="mt-1"
+                    />
+                    <button
+                      onClick={() => setExpandedId(expanded ? null : job.id)}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{job.type}</span>
+                        <span className={`px-2 py-0.5 rounded text-xs ${statusColors[job.status] || 'bg-zinc-800'}`}>
+                          {job.status}
+                        </span>
+                        <span className="text-zinc-500 text-xs">attempt {job.attempts}</span>
+                      </div>
+                      <p className="text-zinc-400 text-sm mt-1 truncate">
+                        {job.subject_title || '(untitled)'}
+                        {job.product_name && <span className="text-zinc-500"> • {job.product_name}</span>}
+                        {job.subject_status && <span className="text-zinc-600"> • {job.subject_status}</span>}
+                      </p>
+                      {job.error_message && (
+                        <p className="text-red-400/80 text-xs mt-1 truncate">{job.error_message}</p>
+                      )}
+                      <p className="text-zinc-600 text-xs mt-1">
+                        Created {formatTime(job.created_at)} · Updated {formatTime(job.updated_at)}
+                        {job.status === 'queued' && ` · Runs after ${formatTime(job.run_after)}`}
+                        {job.locked_by && ` · Worker ${job.locked_by} (locked ${formatTime(job.locked_at)})`}
+                      </p>
+                    </button>
+                    <div className="flex gap-2 shrink-0">
+                      {CANCELLABLE.has(job.status) && (
+                        <button
+                          onClick={() => runAction(`/api/admin/media-jobs/${job.id}/cancel`)}
+                          disabled={busy}
+                          className="text-xs px-2 py-1 bg-zinc-800 hover:bg-zinc-700 rounded disabled:opacity-50"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                      {REQUEUEABLE.has(job.status) && (
+                        <button
+                          onClick={() => runAction(`/api/admin/media-jobs/${job.id}/requeue`)}
+                          disabled={busy}
+                          className="text-xs px-2 py-1 bg-zinc-800 hover:bg-zinc-700 rounded disabled:opacity-50"
+                        >
+                          Requeue
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {expanded && (
+                    <div className="mt-4 grid gap-3 md:grid-cols-2">
+                      <div>
+                        <p className="text-xs uppercase text-zinc-500 mb-1">Input</p>
+                        <pre className="text-xs bg-zinc-950 border border-zinc-800 rounded p-3 overflow-auto max-h-64">
+                          {JSON.stringify(job.input, null, 2)}
+                        </pre>
+                      </div>
+                      <div>
+                        <p className="text-xs uppercase text-zinc-500 mb-1">Output</p>
+                        <pre className="text-xs bg-zinc-950 border border-zinc-800 rounded p-3 overflow-auto max-h-64">
+                          {job.output ? JSON.stringify(job.output, null, 2) : '—'}
+                        </pre>
+                      </div>
+                      {job.error_message && (
+                        <div className="md:col-span-2">
+                          <p className="text-xs uppercase text-zinc-500 mb-1">Error</p>
+                          <pre className="text-xs bg-zinc-950 border border-zinc-800 rounded p-3 whitespace-pre-wrap text-red-300">
+                            {job.error_message}
+                          </pre>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-between mt-6 text-sm text-zinc-400">
+            <button
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={offset === 0 || loading}
+              className="px-3 py-1 bg-zinc-800 hover:bg-zinc-700 rounded disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span>
+              {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+            </span>
+            <button
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= total || loading}
+              className="px-3 py-1 bg-zinc-800 hover:bg-zinc-700 rounded disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
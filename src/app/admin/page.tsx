@@ -213,6 +213,13 @@ export default function AdminDashboard() {
             <h3 className="font-semibold">Generation Runs</h3>
             <p className="text-zinc-500 text-sm">History of generation requests</p>
           </Link>
+          <Link
+            href="/admin/jobs"
+            className="p-4 bg-zinc-900 rounded-lg border border-zinc-800 hover:border-zinc-700 transition-colors"
+          >
+            <h3 className="font-semibold">Media Jobs</h3>
+            <p className="text-zinc-500 text-sm">Ingestion queue: retry, requeue & cancel</p>
+          </Link>
           <div className="p-4 bg-zinc-900/50 rounded-lg border border-zinc-800/50">
             <h3 className="font-semibold text-zinc-500">API Tester</h3>
             <p className="text-zinc-600 text-sm">Coming soon</p>
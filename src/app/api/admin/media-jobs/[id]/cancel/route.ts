@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/require-auth'
+import { forbiddenResponse, isSuperAdmin } from '@/lib/access'
+import { cancelMediaJob } from '@/lib/media-jobs'
+
+type Params = { params: Promise<{ id: string }> }
+
+export async function POST(_request: Request, { params }: Params) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!isSuperAdmin(user)) return forbiddenResponse()
+
+  const { id } = await params
+
+  try {
+    const result = await cancelMediaJob(id)
+    if ('error' in result) return NextResponse.json({ error: result.error }, { status: result.status })
+    return NextResponse.json(result.job)
+  } catch (error) {
+    console.error('Cancel media job error:', error)
+    return NextResponse.json({ error: 'Failed to cancel media job' }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/require-auth'
+import { forbiddenResponse, isSuperAdmin } from '@/lib/access'
+import { getMediaJob, requeueMediaJobs } from '@/lib/media-jobs'
+
+type Params = { params: Promise<{ id: string }> }
+
+export async function POST(_request: Request, { params }: Params) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!isSuperAdmin(user)) return forbiddenResponse()
+
+  const { id } = await params
+
+  try {
+    const [job] = await requeueMediaJobs([id])
+    if (!job) {
+      const existing = await getMediaJob(id)
+      if (!existing) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+      return NextResponse.json({ error: `Cannot requeue a ${existing.status} job` }, { status: 409 })
+    }
+    return NextResponse.json(job)
+  } catch (error) {
+    console.error('Requeue media job error:', error)
+    return NextResponse.json({ error: 'Failed to requeue media job' }, { status: 500 })
+  }
+}
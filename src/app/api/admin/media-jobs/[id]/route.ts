@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/require-auth'
+import { forbiddenResponse, isSuperAdmin } from '@/lib/access'
+import { getMediaJob } from '@/lib/media-jobs'
+
+type Params = { params: Promise<{ id: string }> }
+
+export async function GET(_request: Request, { params }: Params) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!isSuperAdmin(user)) return forbiddenResponse()
+
+  const { id } = await params
+
+  try {
+    const job = await getMediaJob(id)
+    if (!job) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    return NextResponse.json(job)
+  } catch (error) {
+    console.error('Get media job error:', error)
+    return NextResponse.json({ error: 'Failed to fetch media job' }, { status: 500 })
+  }
+}
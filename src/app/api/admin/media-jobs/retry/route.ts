@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { sql } from '@/lib/db'
+import { requireAuth } from '@/lib/require-auth'
+import { forbiddenResponse, isSuperAdmin } from '@/lib/access'
+import { MEDIA_JOB_TYPES, requeueMediaJobs } from '@/lib/media-jobs'
+
+const BULK_RETRY_LIMIT = 500
+
+// Either explicit ids, or every job in a terminal status (optionally of one type)
+const bulkRetrySchema = z.union([
+  z.object({ ids: z.array(z.string().uuid()).min(1).max(BULK_RETRY_LIMIT) }),
+  z.object({
+    status: z.enum(['failed', 'dead', 'cancelled']),
+    type: z.enum(MEDIA_JOB_TYPES).optional(),
+  }),
+])
+
+export async function POST(request: NextRequest) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!isSuperAdmin(user)) return forbiddenResponse()
+
+  try {
+    const body = await request.json()
+    const validated = bulkRetrySchema.safeParse(body)
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    let ids: string[]
+    if ('ids' in validated.data) {
+      ids = validated.data.ids
+    } else {
+      const type = validated.data.type ?? null
+      const rows = await sql`
+        SELECT id
+        FROM media_jobs
+        WHERE status = ${validated.data.status}
+          AND (${type}::text IS NULL OR type = ${type})
+        ORDER BY created_at ASC
+        LIMIT ${BULK_RETRY_LIMIT}
+      `
+      ids = rows.map((row) => String(row.id))
+    }
+
+    const requeued = await requeueMediaJobs(ids)
+    return NextResponse.json({
+      requeued: requeued.length,
+      skipped: ids.length - requeued.length,
+      ids: requeued.map((job) => job.id),
+    })
+  } catch (error) {
+    console.error('Bulk retry media jobs error:', error)
+    return NextResponse.json({ error: 'Failed to retry media jobs' }, { status: 500 })
+  }
+}
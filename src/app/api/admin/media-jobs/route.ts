@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sql } from '@/lib/db'
+import { requireAuth } from '@/lib/require-auth'
+import { forbiddenResponse, isSuperAdmin } from '@/lib/access'
+import { isMediaJobStatus, isMediaJobType } from '@/lib/media-jobs'
+
+export async function GET(request: NextRequest) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!isSuperAdmin(user)) return forbiddenResponse()
+
+  const { searchParams } = new URL(request.url)
+  const typeParam = String(searchParams.get('type') || '').trim()
+  const statusParam = String(searchParams.get('status') || '').trim()
+  const limit = Math.min(Math.max(Number(searchParams.get('limit') || 50) || 50, 1), 200)
+  const offset = Math.max(Number(searchParams.get('offset') || 0) || 0, 0)
+
+  if (typeParam && !isMediaJobType(typeParam)) {
+    return NextResponse.json({ error: 'Invalid type' }, { status: 400 })
+  }
+  if (statusParam && !isMediaJobStatus(statusParam)) {
+    return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+  }
+
+  const type = typeParam || null
+  const status = statusParam || null
+
+  try {
+    const rows = await sql`
+      SELECT
+        media_jobs.*,
+        COALESCE(swipes.title, research_items.title) AS subject_title,
+        COALESCE(swipes.status, research_items.status) AS subject_status,
+        products.name AS product_name
+      FROM media_jobs
+      LEFT JOIN swipes ON swipes.id::text = media_jobs.input->>'swipe_id'
+      LEFT JOIN research_items ON research_items.id::text = media_jobs.input->>'research_item_id'
+      LEFT JOIN products ON products.id::text = media_jobs.input->>'product_id'
+      WHERE (${type}::text IS NULL OR media_jobs.type = ${type})
+        AND (${status}::text IS NULL OR media_jobs.status = ${status})
+      ORDER BY media_jobs.created_at DESC
+      LIMIT ${limit}
+      OFFSET ${offset}
+    `
+
+    const totalRows = await sql`
+      SELECT COUNT(*)::int AS count
+      FROM media_jobs
+      WHERE (${type}::text IS NULL OR type = ${type})
+        AND (${status}::text IS NULL OR status = ${status})
+    `
+
+    return NextResponse.json({ jobs: rows, total: totalRows[0]?.count ?? 0, limit, offset })
+  } catch (error) {
+    console.error('List media jobs error:', error)
+    return NextResponse.json({ error: 'Failed to list media jobs' }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { sql } from '@/lib/db'
+import { requireAuth } from '@/lib/require-auth'
+import { forbiddenResponse, isSuperAdmin } from '@/lib/access'
+
+// Matches JOB_LOCK_TIMEOUT_SECONDS in the media worker
+const LOCK_TIMEOUT_SECONDS = Number(process.env.JOB_LOCK_TIMEOUT_SECONDS || 10 * 60)
+
+export async function GET() {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  if (!isSuperAdmin(user)) return forbiddenResponse()
+
+  try {
+    const counts = await sql`
+      SELECT type, status, COUNT(*)::int AS count
+      FROM media_jobs
+      GROUP BY type, status
+      ORDER BY type, status
+    `
+
+    const staleRows = await sql`
+      SELECT COUNT(*)::int AS count
+      FROM media_jobs
+      WHERE status = 'running'
+        AND locked_at < NOW() - (${String(LOCK_TIMEOUT_SECONDS)}::text || ' seconds')::interval
+    `
+
+    const retryRows = await sql`
+      SELECT MIN(run_after) AS next_retry_at
+      FROM media_jobs
+      WHERE status = 'queued'
+        AND attempts > 0
+    `
+
+    return NextResponse.json({
+      counts,
+      stale_running: staleRows[0]?.count ?? 0,
+      next_retry_at: retryRows[0]?.next_retry_at ?? null,
+      lock_timeout_seconds: LOCK_TIMEOUT_SECONDS,
+    })
+  } catch (error) {
+    console.error('Media job summary error:', error)
+    return NextResponse.json({ error: 'Failed to load media job summary' }, { status: 500 })
+  }
+}
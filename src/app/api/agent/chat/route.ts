@@ -1,22 +1,63 @@
 import crypto from 'node:crypto'
 
 import { NextRequest, NextResponse } from 'next/server'
-import Anthropic from '@anthropic-ai/sdk'
 
 import { sql } from '@/lib/db'
 import { requireAuth } from '@/lib/require-auth'
-import { getOrgApiKey } from '@/lib/api-keys'
+import { canAccessProduct, canAccessResource, resolveProductOrganizationId } from '@/lib/access'
+import {
+  getLlmClient,
+  LLM_PROVIDER_LABELS,
+  LlmProviderError,
+  llmProviderFor,
+  missingLlmKeyMessage,
+  type LlmContentBlock,
+  type LlmMessage,
+  type LlmResponse,
+  type LlmToolResultBlock,
+} from '@/lib/llm-client'
+import { resolveModel } from '@/lib/model-settings'
+import {
+  addUsage,
+  assertLlmBudget,
+  emptyUsage,
+  isLlmBudgetExceededError,
+  recordLlmUsage,
+} from '@/lib/llm-usage'
 import { signR2GetObjectUrl } from '@/lib/r2'
 import {
   AGENT_CONTEXT_DEFAULTS,
   buildAgentContextMessages,
   buildSystemPrompt,
-  loadGlobalPromptBlocks,
+  loadPromptBlocks,
   type ThreadContext,
 } from '@/lib/agent/compiled-context'
+import { createAgentProposal, type AgentProposal, type ProposalKind } from '@/lib/agent/proposals'
+import { EMBEDDING_SUBJECT_TYPES, isEmbeddingSubjectType, semanticSearch } from '@/lib/embeddings'
+import {
+  classifySwipeUrl,
+  extractSwipeUrls,
+  isSupportedSwipeUrl,
+  SUPPORTED_SWIPE_URLS_LABEL,
+} from '@/lib/swipe-sources'
+import { normalizeSwipeTags, SWIPE_TAG_DIMENSIONS } from '@/lib/swipe-taxonomy'
+import { formatShotList, formatTimestamp, getSwipeShots } from '@/lib/swipe-shots'
 
 export const maxDuration = 300
 
+// Keyframes attached to the prompt for a video active swipe
+const SWIPE_SHOT_FRAMES_MAX = 12
+
+// list_swipes filter arguments, one per taxonomy dimension
+const SWIPE_TAG_TOOL_PROPERTIES = Object.fromEntries(
+  SWIPE_TAG_DIMENSIONS.map((dimension) => [
+    dimension.key,
+    dimension.options
+      ? { type: 'string', enum: dimension.options.map((option) => option.value), description: dimension.description }
+      : { type: 'string', description: `${dimension.description}. Matched exactly (lowercase).` },
+  ])
+)
+
 type ToolUseBlock = {
   type: 'tool_use'
   id: string
@@ -49,12 +90,13 @@ function boolFromEnv(name: string, fallback: boolean): boolean {
   return fallback
 }
 
-const AGENT_MODEL = 'claude-opus-4-6'
 const AGENT_MAX_STEPS = positiveIntFromEnv('AGENT_MAX_STEPS', 3)
 const AGENT_TEXT_MAX_STEPS = positiveIntFromEnv('AGENT_TEXT_MAX_STEPS', 3)
 const AGENT_MAX_TOKENS = positiveIntFromEnv('AGENT_MAX_TOKENS', 16000)
 const AGENT_LOOP_BUDGET_MS = positiveIntFromEnv('AGENT_LOOP_BUDGET_MS', 90_000)
 const AGENT_HISTORY_LIMIT = positiveIntFromEnv('AGENT_HISTORY_LIMIT', 120)
+const RESEARCH_TOOL_EXCERPT_CHARS = 280
+const RESEARCH_TOOL_CONTENT_CHARS = positiveIntFromEnv('RESEARCH_TOOL_CONTENT_CHARS', 12_000)
 
 const AGENT_CONTEXT_MAX_MESSAGES = positiveIntFromEnv(
   'AGENT_CONTEXT_MAX_MESSAGES',
@@ -89,40 +131,6 @@ function isToolUseBlock(block: unknown): block is ToolUseBlock {
   )
 }
 
-function extractFacebookUrls(text: string): string[] {
-  const regex = /(https?:\/\/[^\s]+?facebook\.com\/[^\s]*)/gi
-  const matches = text.match(regex) || []
-  return matches
-    .map((match) => match.replace(/[),.;!?]+$/g, ''))
-    .filter((url) => isSupportedSwipeUrl(url))
-}
-
-function isSupportedSwipeUrl(url: string) {
-  try {
-    const parsed = new URL(url)
-    if (parsed.hostname !== 'facebook.com' && !parsed.hostname.endsWith('.facebook.com')) return false
-    return (
-      parsed.pathname.includes('/ads/library') ||
-      parsed.pathname.includes('/reel/') ||
-      parsed.pathname.includes('/posts/') ||
-      parsed.pathname.includes('/permalink/')
-    )
-  } catch {
-    return false
-  }
-}
-
-function classifySwipeSource(url: string): string {
-  try {
-    const parsed = new URL(url)
-    if (parsed.pathname.includes('/ads/library')) return 'meta_ad_library'
-    if (parsed.pathname.includes('/reel/')) return 'facebook_reel'
-    return 'facebook_post'
-  } catch {
-    return 'facebook_post'
-  }
-}
-
 function deriveThreadTitle(message: string) {
   const clean = message.replace(/\s+/g, ' ').trim()
   if (!clean) return null
@@ -136,8 +144,7 @@ function shouldEnableTools(messageText: string, threadContext: ThreadContext) {
   if (Array.isArray(threadContext.research_ids) && threadContext.research_ids.length > 0) return true
 
   const text = messageText.toLowerCase()
-  if (text.includes('facebook.com/ads/library')) return true
-  if (text.includes('facebook.com') && (text.includes('/posts/') || text.includes('/reel/') || text.includes('/permalink/'))) return true
+  if (extractSwipeUrls(messageText).length > 0) return true
 
   return (
     text.includes('ingest meta') ||
@@ -146,7 +153,17 @@ function shouldEnableTools(messageText: string, threadContext: ThreadContext) {
     text.includes('get swipe') ||
     text.includes('show swipe') ||
     text.includes('transcript') ||
-    text.includes('ingest')
+    text.includes('ingest') ||
+    text.includes('research') ||
+    text.includes('search') ||
+    text.includes('find') ||
+    text.includes('quote') ||
+    text.includes('review') ||
+    text.includes('insight') ||
+    text.includes('avatar') ||
+    text.includes('positioning') ||
+    text.includes('pitch') ||
+    text.includes('angle')
   )
 }
 
@@ -533,12 +550,10 @@ function estimateInputTokens(systemPrompt: string, messages: Array<{ role: strin
   return Math.ceil(chars / 4)
 }
 
-function buildAnthropicRequestOptions(useContext1M: boolean) {
+function buildAnthropicRequestHeaders(useContext1M: boolean) {
   if (!useContext1M || !ANTHROPIC_CONTEXT_1M_BETA) return undefined
   return {
-    headers: {
-      'anthropic-beta': ANTHROPIC_CONTEXT_1M_BETA,
-    },
+    'anthropic-beta': ANTHROPIC_CONTEXT_1M_BETA,
   }
 }
 
@@ -555,6 +570,13 @@ function isContext1MBetaError(error: unknown): boolean {
 }
 
 function describeAgentError(error: unknown): { status: number; code: string; message: string } {
+  if (isLlmBudgetExceededError(error)) {
+    return { status: error.status, code: error.code, message: error.message }
+  }
+
+  // SDK errors come from Anthropic; fetch-based providers throw LlmProviderError
+  const provider = error instanceof LlmProviderError ? LLM_PROVIDER_LABELS[error.provider] : 'Anthropic'
+
   const status = typeof (error as any)?.status === 'number' ? Number((error as any).status) : 0
   const name = typeof (error as any)?.name === 'string' ? String((error as any).name) : ''
   const message = typeof (error as any)?.message === 'string' ? String((error as any).message) : ''
@@ -571,7 +593,7 @@ function describeAgentError(error: unknown): { status: number; code: string; mes
     return {
       status: 429,
       code: 'rate_limited',
-      message: 'Anthropic rate limit reached. Please retry in a moment.',
+      message: `${provider} rate limit reached. Please retry in a moment.`,
     }
   }
 
@@ -579,7 +601,7 @@ function describeAgentError(error: unknown): { status: number; code: string; mes
     return {
       status: 502,
       code: 'provider_auth',
-      message: 'Anthropic authentication failed. Check your API key settings.',
+      message: `${provider} authentication failed. Check your API key settings.`,
     }
   }
 
@@ -603,7 +625,7 @@ function describeAgentError(error: unknown): { status: number; code: string; mes
     return {
       status: 502,
       code: 'provider_error',
-      message: 'Anthropic provider error. Please retry.',
+      message: `${provider} provider error. Please retry.`,
     }
   }
 
@@ -623,9 +645,17 @@ function writeSseEvent(
   controller.enqueue(encoder.encode(chunk))
 }
 
+function sseHeaders(responseHeaders: Headers) {
+  const headers = new Headers(responseHeaders)
+  headers.set('Content-Type', 'text/event-stream; charset=utf-8')
+  headers.set('Cache-Control', 'no-cache, no-transform')
+  headers.set('Connection', 'keep-alive')
+  return headers
+}
+
 async function ingestMetaSwipe(args: { productId: string; url: string; userId: string }) {
   const { productId, url, userId } = args
-  const source = classifySwipeSource(url)
+  const { source } = classifySwipeUrl(url)
 
   const swipeRows = await sql`
     INSERT INTO swipes (product_id, source, source_url, status, created_by)
@@ -664,6 +694,7 @@ async function ingestMetaSwipe(args: { productId: string; url: string; userId: s
         swipe_id: swipe.id,
         product_id: productId,
         url,
+        source,
         user_id: userId,
       }}
     )
@@ -728,6 +759,41 @@ export async function POST(request: NextRequest) {
         { status: 404, headers: responseHeaders }
       )
     }
+    if (!(await canAccessProduct(authedUser, thread.product_id))) {
+      return NextResponse.json(
+        { error: 'Forbidden', code: 'forbidden', request_id: requestId },
+        { status: 403, headers: responseHeaders }
+      )
+    }
+
+    // Checked before the user message is stored so a hard stop leaves the thread untouched
+    const organizationId = await resolveProductOrganizationId(thread.product_id)
+    let budget: Awaited<ReturnType<typeof assertLlmBudget>> = null
+    try {
+      budget = await assertLlmBudget(organizationId)
+    } catch (error) {
+      if (!isLlmBudgetExceededError(error) || mode === 'json') throw error
+      console.warn('agent_chat_budget_exceeded', {
+        request_id: requestId,
+        thread_id: threadId,
+        organization_id: organizationId,
+        spent_usd: error.budget.spent_usd,
+      })
+      const encoder = new TextEncoder()
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          writeSseEvent(controller, encoder, {
+            type: 'error',
+            request_id: requestId,
+            code: error.code,
+            error: error.message,
+            budget: error.budget,
+          })
+          controller.close()
+        },
+      })
+      return new Response(stream, { status: 200, headers: sseHeaders(responseHeaders) })
+    }
 
     const threadContext: ThreadContext = (thread.context || {}) as ThreadContext
 
@@ -747,7 +813,7 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const urls = extractFacebookUrls(messageText)
+    const urls = extractSwipeUrls(messageText)
     let maybeSwipe: any = null
     if (urls.length > 0) {
       const url = urls[0]
@@ -797,6 +863,8 @@ export async function POST(request: NextRequest) {
       ? threadContext.skills.map(String)
       : null
     const skill = String(threadContext.skill || (skills ? skills[0] : 'ugc_video_scripts'))
+    const modelChoice = await resolveModel({ organizationId, agent: 'writer', skills: skills || [skill] })
+    const agentModel = modelChoice.model
     const versions = Math.min(6, Math.max(1, Number(threadContext.versions || 1)))
     const preferredVersions = sanitizePreferredVersions(body.target_versions, versions)
 
@@ -829,7 +897,7 @@ export async function POST(request: NextRequest) {
     let swipe: any = null
     if (threadContext.active_swipe_id) {
       const rows = await sql`
-        SELECT id, status, title, transcript, source_url, r2_image_key, media_type
+        SELECT id, status, title, transcript, source_url, r2_image_key, media_type, shots
         FROM swipes
         WHERE id = ${threadContext.active_swipe_id}
           AND product_id = ${thread.product_id}
@@ -843,22 +911,23 @@ export async function POST(request: NextRequest) {
       title?: string | null
       summary?: string | null
       content?: string | null
+      metadata?: unknown
     }> = []
     const researchIds = Array.isArray(threadContext.research_ids) ? threadContext.research_ids : []
     if (researchIds.length > 0) {
       const rows = (await sql`
-        SELECT id, title, summary, content
+        SELECT id, title, summary, content, metadata
         FROM research_items
         WHERE id = ANY(${researchIds})
           AND product_id = ${thread.product_id}
-      `) as Array<{ id: string; title?: string | null; summary?: string | null; content?: string | null }>
+      `) as Array<{ id: string; title?: string | null; summary?: string | null; content?: string | null; metadata?: unknown }>
       const order = new Map(researchIds.map((id, idx) => [id, idx]))
       research = (rows || []).sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0))
     }
 
     const promptCompileStartedAt = Date.now()
 
-    const blocks = await loadGlobalPromptBlocks(user.id)
+    const blocks = await loadPromptBlocks({ userId: user.id, productId: thread.product_id })
     const systemBuild = buildSystemPrompt({
       skill,
       skills: skills || undefined,
@@ -922,27 +991,29 @@ export async function POST(request: NextRequest) {
     const promptCompileMs = Date.now() - promptCompileStartedAt
     const dbLoadMs = Date.now() - dbLoadStartedAt
 
-    const anthropicKey = await getOrgApiKey('anthropic', productRow.organization_id || null)
-    if (!anthropicKey) {
+    const llm = await getLlmClient({
+      organizationId: productRow.organization_id || null,
+      model: agentModel,
+      agent: 'writer',
+      timeoutMs: ANTHROPIC_TIMEOUT_MS,
+      maxRetries: ANTHROPIC_MAX_RETRIES,
+    })
+    if (!llm) {
       return NextResponse.json(
         {
-          error: 'ANTHROPIC_API_KEY is not set',
-          code: 'missing_anthropic_key',
+          error: missingLlmKeyMessage(agentModel),
+          code: `missing_${llmProviderFor(agentModel)}_key`,
           request_id: requestId,
         },
         { status: 500, headers: responseHeaders }
       )
     }
 
-    const anthropic = new Anthropic({
-      apiKey: anthropicKey,
-      timeout: ANTHROPIC_TIMEOUT_MS,
-      maxRetries: ANTHROPIC_MAX_RETRIES,
-    })
-
     const estimatedInputTokens = estimateInputTokens(systemBuild.prompt, contextMessages)
 
+    // The 1M context window is an Anthropic beta
     const context1MRequested =
+      llm.provider === 'anthropic' &&
       ANTHROPIC_ENABLE_CONTEXT_1M &&
       Boolean(ANTHROPIC_CONTEXT_1M_BETA) &&
       estimatedInputTokens >= ANTHROPIC_CONTEXT_1M_MIN_INPUT_TOKENS
@@ -954,7 +1025,7 @@ export async function POST(request: NextRequest) {
       {
         name: 'ingest_meta_ad_url',
         description:
-          'Ingest a Facebook URL (Ad Library, post, or reel): create a swipe record and enqueue processing. Returns swipe_id and status.',
+          `Ingest an ad/video URL (${SUPPORTED_SWIPE_URLS_LABEL}): create a swipe record and enqueue processing. Returns swipe_id and status.`,
         input_schema: {
           type: 'object',
           properties: {
@@ -966,19 +1037,21 @@ export async function POST(request: NextRequest) {
       },
       {
         name: 'list_swipes',
-        description: 'List swipes for the current product (optionally filter by query).',
+        description:
+          'List swipes for the current product with their taxonomy tags. Optionally filter by text query and by tags (hook type, angle, format, awareness level, sophistication stage, emotional driver, CTA style); tag filters combine with AND.',
         input_schema: {
           type: 'object',
           properties: {
             product_id: { type: 'string' },
             query: { type: 'string' },
+            ...SWIPE_TAG_TOOL_PROPERTIES,
           },
           required: ['product_id'],
         },
       },
       {
         name: 'get_swipe',
-        description: 'Fetch a swipe by id. Optionally include transcript.',
+        description: 'Fetch a swipe by id, with its shot list (timestamp + spoken line per scene) for videos. Optionally include transcript.',
         input_schema: {
           type: 'object',
           properties: {
@@ -988,16 +1061,111 @@ export async function POST(request: NextRequest) {
           required: ['swipe_id'],
         },
       },
+      {
+        name: 'list_research_categories',
+        description: 'List research categories for the current product with item counts.',
+        input_schema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'search_research',
+        description:
+          'Search research items (customer quotes, reviews, findings) for the current product. Returns ids, titles, summaries and a short excerpt.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            query: { type: 'string' },
+            category: { type: 'string', description: 'Category id or name' },
+            limit: { type: 'number' },
+          },
+        },
+      },
+      {
+        name: 'semantic_search',
+        description:
+          'Search research items, swipes and avatars for the current product by meaning rather than exact words (e.g. "the swipe where the mom talks about bedtime"). Returns ranked ids, titles and snippets; use get_swipe or get_research_item for full content.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            query: { type: 'string' },
+            types: {
+              type: 'array',
+              items: { type: 'string', enum: [...EMBEDDING_SUBJECT_TYPES] },
+              description: 'Limit to these kinds; defaults to all',
+            },
+            limit: { type: 'number' },
+          },
+          required: ['query'],
+        },
+      },
+      {
+        name: 'get_research_item',
+        description: 'Fetch a research item by id, including its full content.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            research_item_id: { type: 'string' },
+          },
+          required: ['research_item_id'],
+        },
+      },
+      {
+        name: 'attach_research_to_thread',
+        description:
+          'Attach research items to this thread so they are included in context for the rest of the conversation.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            research_item_ids: { type: 'array', items: { type: 'string' } },
+          },
+          required: ['research_item_ids'],
+        },
+      },
+      {
+        name: 'propose_avatar',
+        description:
+          'Propose saving a new avatar, or an edit to an existing one when avatar_id is given. Nothing is written until the user confirms the proposal in the UI.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            avatar_id: { type: 'string', description: 'Existing avatar to edit; omit to create a new one' },
+            name: { type: 'string' },
+            content: { type: 'string' },
+            rationale: { type: 'string', description: 'One sentence on why this is worth saving' },
+          },
+        },
+      },
+      {
+        name: 'propose_positioning',
+        description:
+          'Propose saving a new positioning (pitch/angle), or an edit to an existing one when pitch_id is given. Nothing is written until the user confirms the proposal in the UI.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            pitch_id: { type: 'string', description: 'Existing positioning to edit; omit to create a new one' },
+            name: { type: 'string' },
+            content: { type: 'string' },
+            type: { type: 'string' },
+            rationale: { type: 'string', description: 'One sentence on why this is worth saving' },
+          },
+        },
+      },
     ]
 
-    async function runTool(toolUse: ToolUseBlock) {
+    async function runTool(
+      toolUse: ToolUseBlock,
+      onProposal?: (proposal: AgentProposal) => void
+    ) {
       if (!toolUse?.name) throw new Error('Invalid tool use')
+      const input = (toolUse.input ?? {}) as Record<string, unknown>
 
       if (toolUse.name === 'ingest_meta_ad_url') {
         const url = String((toolUse.input as any)?.url || '').trim()
         const productId = thread.product_id
         if (!url || !isSupportedSwipeUrl(url)) {
-          return { error: 'Invalid URL. Supported: Meta Ad Library, Facebook posts, Facebook reels.' }
+          return { error: `Invalid URL. Supported: ${SUPPORTED_SWIPE_URLS_LABEL}.` }
         }
 
         const ingest = await ingestMetaSwipe({ productId, url, userId: authedUser.id })
@@ -1019,12 +1187,14 @@ export async function POST(request: NextRequest) {
       if (toolUse.name === 'list_swipes') {
         const productId = thread.product_id
         const query = String((toolUse.input as any)?.query || '').trim()
+        const tagFilter = normalizeSwipeTags(toolUse.input)
         if (query) {
           const like = `%${query}%`
           const rows = await sql`
-            SELECT id, status, title, summary, source_url, created_at
+            SELECT id, status, title, summary, tags, source_url, created_at
             FROM swipes
             WHERE product_id = ${productId}
+              AND tags @> ${tagFilter}::jsonb
               AND (
                 title ILIKE ${like}
                 OR summary ILIKE ${like}
@@ -1037,9 +1207,10 @@ export async function POST(request: NextRequest) {
         }
 
         const rows = await sql`
-          SELECT id, status, title, summary, source_url, created_at
+          SELECT id, status, title, summary, tags, source_url, created_at
           FROM swipes
           WHERE product_id = ${productId}
+            AND tags @> ${tagFilter}::jsonb
           ORDER BY created_at DESC
           LIMIT 50
         `
@@ -1050,9 +1221,10 @@ export async function POST(request: NextRequest) {
         const swipeId = String((toolUse.input as any)?.swipe_id || '').trim()
         const includeTranscript = Boolean((toolUse.input as any)?.include_transcript)
         if (!swipeId) return { error: 'swipe_id is required' }
+        if (!(await canAccessResource(authedUser, 'swipe', swipeId))) return { error: 'Forbidden' }
 
         const rows = await sql`
-          SELECT id, product_id, status, title, summary, transcript, source_url, metadata, created_at
+          SELECT id, product_id, status, title, summary, tags, transcript, shots, source_url, metadata, created_at
           FROM swipes
           WHERE id = ${swipeId}
           LIMIT 1
@@ -1065,9 +1237,185 @@ export async function POST(request: NextRequest) {
           delete row.transcript
         }
 
+        const shots = getSwipeShots(row.shots)
+        delete row.shots
+        if (shots.length > 0) row.shot_list = formatShotList(shots)
+
         return row
       }
 
+      if (toolUse.name === 'list_research_categories') {
+        const rows = await sql`
+          SELECT
+            research_categories.id,
+            research_categories.name,
+            research_categories.description,
+            COUNT(research_items.id)::int AS item_count
+          FROM research_categories
+          LEFT JOIN research_items ON research_items.category_id = research_categories.id
+          WHERE research_categories.product_id = ${thread.product_id}
+          GROUP BY research_categories.id
+          ORDER BY research_categories.sort_order ASC, research_categories.created_at ASC
+        `
+        return { categories: rows }
+      }
+
+      if (toolUse.name === 'search_research') {
+        const query = String(input.query || '').trim()
+        const category = String(input.category || '').trim()
+        const limit = Math.min(25, Math.max(1, Number(input.limit) || 10))
+        const like = query ? `%${query}%` : null
+        const categoryLike = category ? `%${category}%` : null
+
+        const rows = await sql`
+          SELECT
+            research_items.id,
+            research_items.type,
+            research_items.status,
+            research_items.title,
+            research_items.summary,
+            LEFT(research_items.content, ${RESEARCH_TOOL_EXCERPT_CHARS}) AS excerpt,
+            research_items.category_id,
+            research_categories.name AS category_name,
+            research_items.created_at
+          FROM research_items
+          LEFT JOIN research_categories ON research_categories.id = research_items.category_id
+          WHERE research_items.product_id = ${thread.product_id}
+            AND research_items.status <> 'failed'
+            AND (
+              ${like}::text IS NULL
+              OR research_items.title ILIKE ${like}
+              OR research_items.summary ILIKE ${like}
+              OR research_items.content ILIKE ${like}
+            )
+            AND (
+              ${categoryLike}::text IS NULL
+              OR research_items.category_id::text = ${category}
+              OR research_categories.name ILIKE ${categoryLike}
+            )
+          ORDER BY research_items.created_at DESC
+          LIMIT ${limit}
+        `
+        const attached = new Set(Array.isArray(threadContext.research_ids) ? threadContext.research_ids : [])
+        return {
+          items: rows.map((row) => ({ ...row, attached: attached.has(String(row.id)) })),
+        }
+      }
+
+      if (toolUse.name === 'semantic_search') {
+        const query = String(input.query || '').trim()
+        if (!query) return { error: 'query is required' }
+        const types = Array.isArray(input.types)
+          ? input.types.map((t) => String(t)).filter(isEmbeddingSubjectType)
+          : []
+        const result = await semanticSearch({
+          productId: thread.product_id,
+          orgId: productRow.organization_id || null,
+          userId: authedUser.id,
+          query,
+          types,
+          limit: Math.min(20, Math.max(1, Number(input.limit) || 8)),
+        })
+        return { results: result.results }
+      }
+
+      if (toolUse.name === 'get_research_item') {
+        const itemId = String(input.research_item_id || '').trim()
+        if (!itemId) return { error: 'research_item_id is required' }
+        if (!(await canAccessResource(authedUser, 'research_item', itemId))) return { error: 'Forbidden' }
+
+        const rows = await sql`
+          SELECT
+            research_items.id,
+            research_items.product_id,
+            research_items.type,
+            research_items.status,
+            research_items.title,
+            research_items.summary,
+            research_items.content,
+            research_items.source_url,
+            research_items.metadata,
+            research_categories.name AS category_name,
+            research_items.created_at
+          FROM research_items
+          LEFT JOIN research_categories ON research_categories.id = research_items.category_id
+          WHERE research_items.id = ${itemId}
+          LIMIT 1
+        `
+        const row = rows[0]
+        if (!row) return { error: 'Not found' }
+        if (row.product_id !== thread.product_id) return { error: 'Forbidden' }
+
+        const content = String(row.content || '')
+        if (content.length > RESEARCH_TOOL_CONTENT_CHARS) {
+          row.content = `${content.slice(0, RESEARCH_TOOL_CONTENT_CHARS)}\n[truncated]`
+        }
+        return row
+      }
+
+      if (toolUse.name === 'attach_research_to_thread') {
+        const rawIds = input.research_item_ids
+        const requestedIds: string[] = Array.isArray(rawIds)
+          ? Array.from(new Set(rawIds.map((id: unknown) => String(id || '').trim()).filter(Boolean)))
+          : []
+        if (requestedIds.length === 0) return { error: 'research_item_ids is required' }
+
+        const rows = await sql`
+          SELECT id
+          FROM research_items
+          WHERE id::text = ANY(${requestedIds})
+            AND product_id = ${thread.product_id}
+        `
+        const validIds = new Set(rows.map((row) => String(row.id)))
+        const existing = Array.isArray(threadContext.research_ids) ? threadContext.research_ids : []
+        const added = requestedIds.filter((id) => validIds.has(id) && !existing.includes(id))
+
+        if (added.length > 0) {
+          threadContext.research_ids = [...existing, ...added]
+          await sql`
+            UPDATE agent_threads
+            SET context = ${threadContext}, updated_at = NOW()
+            WHERE id = ${threadId}
+          `
+        }
+
+        return {
+          attached_ids: added,
+          not_found_ids: requestedIds.filter((id) => !validIds.has(id)),
+          research_ids: threadContext.research_ids || existing,
+        }
+      }
+
+      if (toolUse.name === 'propose_avatar' || toolUse.name === 'propose_positioning') {
+        const kind: ProposalKind = toolUse.name === 'propose_avatar' ? 'avatar' : 'pitch'
+        const targetId = String((kind === 'avatar' ? input.avatar_id : input.pitch_id) || '').trim()
+        const optionalString = (value: unknown) =>
+          typeof value === 'string' && value.trim() ? value.trim() : undefined
+
+        const created = await createAgentProposal({
+          threadId,
+          productId: thread.product_id,
+          userId: authedUser.id,
+          kind,
+          action: targetId ? 'update' : 'create',
+          targetId: targetId || null,
+          payload: {
+            name: optionalString(input.name),
+            content: optionalString(input.content),
+            type: kind === 'pitch' ? optionalString(input.type) : undefined,
+          },
+          rationale: optionalString(input.rationale) || null,
+        })
+        if ('error' in created) return created
+
+        onProposal?.(created.proposal)
+        return {
+          proposal_id: created.proposal.id,
+          status: 'awaiting_user_confirmation',
+          note: 'Not saved yet. The user will confirm or dismiss this proposal in the UI.',
+        }
+      }
+
       return { error: `Unknown tool: ${toolUse.name}` }
     }
 
@@ -1078,11 +1426,22 @@ export async function POST(request: NextRequest) {
 
     const baseMeta = {
       request_id: requestId,
-      model: AGENT_MODEL,
+      model: agentModel,
+      model_provider: llm.provider,
+      model_source: modelChoice.source,
+      model_skill: modelChoice.skill,
       compact_mode: compactMode,
       estimated_input_tokens: estimatedInputTokens,
       context_1m_requested: context1MRequested,
       max_steps: maxSteps,
+      budget: budget
+        ? {
+            status: budget.status,
+            percent_used: budget.percent_used,
+            spent_usd: budget.spent_usd,
+            monthly_budget_usd: budget.monthly_budget_usd,
+          }
+        : null,
       deployment: {
         client_build_id: clientBuildId,
         server_build_id: serverBuildId,
@@ -1090,14 +1449,36 @@ export async function POST(request: NextRequest) {
       },
     }
 
-    const runAgent = async (onDelta?: (delta: string) => void) => {
+    // Token usage across every model call in this request, including steps of a run that later fails
+    const usage = emptyUsage()
+    let modelCalls = 0
+    const recordChatUsage = async () => {
+      if (modelCalls === 0) return
+      await recordLlmUsage({
+        organizationId,
+        userId: authedUser.id,
+        productId: thread.product_id,
+        feature: 'agent_chat',
+        provider: llm.provider,
+        model: agentModel,
+        usage,
+        requestId,
+        metadata: { thread_id: threadId, model_calls: modelCalls, mode, compact_mode: compactMode },
+      })
+    }
+
+    const runAgent = async (
+      onDelta?: (delta: string) => void,
+      onProposal?: (proposal: AgentProposal) => void
+    ) => {
       const loopStartedAt = Date.now()
       let modelWaitMs = 0
       let toolSteps = 0
       let textContinuationSteps = 0
       let providerRequestId: string | null = null
       let assistantText = ''
-      let workingMessages: any[] = [...contextMessages]
+      let workingMessages: LlmMessage[] = [...contextMessages]
+      const proposals: AgentProposal[] = []
 
       // Inject swipe image into last user message for Claude vision
       if (swipe?.r2_image_key && swipe.status === 'ready') {
@@ -1120,28 +1501,58 @@ export async function POST(request: NextRequest) {
         }
       }
 
+      // Video swipes: attach sampled shot keyframes so the model can see each shot
+      const swipeShots = swipe?.status === 'ready' ? getSwipeShots(swipe.shots).filter((shot) => shot.frame_key) : []
+      if (swipeShots.length > 0) {
+        try {
+          const step = Math.max(1, swipeShots.length / SWIPE_SHOT_FRAMES_MAX)
+          const sampled = Array.from(
+            { length: Math.min(swipeShots.length, SWIPE_SHOT_FRAMES_MAX) },
+            (_, i) => swipeShots[Math.floor(i * step)]
+          )
+          const frameBlocks: LlmContentBlock[] = []
+          for (const shot of sampled) {
+            const frameUrl = await signR2GetObjectUrl(shot.frame_key as string, 300)
+            frameBlocks.push(
+              { type: 'text', text: `Shot ${shot.index + 1} (${formatTimestamp(shot.start)}):` },
+              { type: 'image', source: { type: 'url', url: frameUrl } }
+            )
+          }
+          const lastUserIdx = workingMessages.findLastIndex((m) => m.role === 'user')
+          if (lastUserIdx >= 0) {
+            const msg = workingMessages[lastUserIdx]
+            const textContent = typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content)
+            workingMessages[lastUserIdx] = {
+              role: 'user',
+              content: [...frameBlocks, { type: 'text', text: textContent }],
+            }
+          }
+        } catch (frameErr) {
+          console.warn('Failed to inject swipe shot frames:', frameErr)
+        }
+      }
+
       const runSingleStep = async (useContext1M: boolean) => {
         const stepStartedAt = Date.now()
         let streamedText = ''
 
-        const stream = anthropic.messages.stream(
+        const finalMessage = await llm.stream(
           {
-            model: AGENT_MODEL,
+            model: agentModel,
             max_tokens: maxTokens,
             system: systemBuild.prompt,
             messages: workingMessages,
             ...(activeTools ? { tools: activeTools } : {}),
+            headers: buildAnthropicRequestHeaders(useContext1M),
           },
-          buildAnthropicRequestOptions(useContext1M)
+          (delta) => {
+            streamedText += delta
+            if (delta && onDelta) onDelta(delta)
+          }
         )
-
-        stream.on('text', (delta) => {
-          streamedText += delta
-          if (delta && onDelta) onDelta(delta)
-        })
-
-        const finalMessage = await stream.finalMessage()
-        providerRequestId = stream.request_id || providerRequestId
+        providerRequestId = finalMessage.request_id || providerRequestId
+        addUsage(usage, finalMessage.usage)
+        modelCalls += 1
         modelWaitMs += Date.now() - stepStartedAt
 
         return { finalMessage, streamedText }
@@ -1153,12 +1564,12 @@ export async function POST(request: NextRequest) {
             request_id: requestId,
             thread_id: threadId,
             step,
-            model: AGENT_MODEL,
+            model: agentModel,
           })
           break
         }
 
-        let stepResult: { finalMessage: any; streamedText: string }
+        let stepResult: { finalMessage: LlmResponse; streamedText: string }
 
         try {
           stepResult = await runSingleStep(context1MActive)
@@ -1215,19 +1626,31 @@ export async function POST(request: NextRequest) {
 
         for (const toolUse of toolUses) {
           toolSteps += 1
-          const result = await runTool(toolUse)
-          workingMessages = workingMessages.concat([
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'tool_result',
-                  tool_use_id: toolUse.id,
-                  content: JSON.stringify(result),
-                },
-              ],
-            },
-          ])
+          // A failing tool becomes an error result so the model can recover instead of ending the turn
+          let toolResult: LlmToolResultBlock
+          try {
+            const result = await runTool(toolUse, (proposal) => {
+              proposals.push(proposal)
+              if (onProposal) onProposal(proposal)
+            })
+            toolResult = { type: 'tool_result', tool_use_id: toolUse.id, content: JSON.stringify(result) }
+          } catch (toolError) {
+            console.warn('agent_tool_failed', {
+              request_id: requestId,
+              thread_id: threadId,
+              tool: toolUse.name,
+              error: toolError instanceof Error ? toolError.message : String(toolError),
+            })
+            toolResult = {
+              type: 'tool_result',
+              tool_use_id: toolUse.id,
+              is_error: true,
+              content: JSON.stringify({
+                error: `${toolUse.name} failed: ${toolError instanceof Error ? toolError.message : 'unknown error'}`,
+              }),
+            }
+          }
+          workingMessages = workingMessages.concat([{ role: 'user', content: [toolResult] }])
         }
       }
 
@@ -1270,6 +1693,7 @@ export async function POST(request: NextRequest) {
         tool_steps: toolSteps,
         text_continuation_steps: textContinuationSteps,
         compact_mode: compactMode,
+        token_usage: { ...usage },
         prompt_blocks: systemBuild.promptBlocks.map(({ content, ...rest }) => rest),
         prompt_sections: systemBuild.sections,
         context_window: contextWindow.debug,
@@ -1291,7 +1715,7 @@ export async function POST(request: NextRequest) {
         request_id: requestId,
         thread_id: threadId,
         mode,
-        model: AGENT_MODEL,
+        model: agentModel,
         status: 200,
         compact_mode: compactMode,
         context_1m_requested: context1MRequested,
@@ -1314,12 +1738,13 @@ export async function POST(request: NextRequest) {
         maybe_swipe_status: maybeSwipe
           ? { swipe_id: maybeSwipe.id, status: maybeSwipe.status }
           : null,
+        proposals,
         runtime,
       }
     }
 
     if (mode === 'json') {
-      const result = await runAgent()
+      const result = await runAgent().finally(recordChatUsage)
       return NextResponse.json(
         {
           ...result,
@@ -1336,12 +1761,20 @@ export async function POST(request: NextRequest) {
           writeSseEvent(controller, encoder, { type: 'meta', ...baseMeta })
 
           try {
-            const result = await runAgent((delta) => {
-              writeSseEvent(controller, encoder, {
-                type: 'delta',
-                delta,
-              })
-            })
+            const result = await runAgent(
+              (delta) => {
+                writeSseEvent(controller, encoder, {
+                  type: 'delta',
+                  delta,
+                })
+              },
+              (proposal) => {
+                writeSseEvent(controller, encoder, {
+                  type: 'proposal',
+                  proposal,
+                })
+              }
+            )
 
             writeSseEvent(controller, encoder, {
               type: 'final',
@@ -1368,20 +1801,16 @@ export async function POST(request: NextRequest) {
               error: described.message,
             })
           } finally {
+            await recordChatUsage()
             controller.close()
           }
         })()
       },
     })
 
-    const streamHeaders = new Headers(responseHeaders)
-    streamHeaders.set('Content-Type', 'text/event-stream; charset=utf-8')
-    streamHeaders.set('Cache-Control', 'no-cache, no-transform')
-    streamHeaders.set('Connection', 'keep-alive')
-
     return new Response(stream, {
       status: 200,
-      headers: streamHeaders,
+      headers: sseHeaders(responseHeaders),
     })
   } catch (error) {
     const described = describeAgentError(error)
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
 
 export async function GET(request: NextRequest) {
   const user = await requireAuth()
@@ -12,13 +13,14 @@ export async function GET(request: NextRequest) {
 
   try {
     const threadRows = await sql`
-      SELECT id
+      SELECT id, product_id
       FROM agent_threads
       WHERE id = ${threadId}
         AND user_id = ${user.id}
       LIMIT 1
     `
     if (!threadRows[0]) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    if (!(await canAccessProduct(user, threadRows[0].product_id))) return forbiddenResponse()
 
     const rows = await sql`
       SELECT id, role, content, created_at
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sql } from '@/lib/db'
+import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
+import {
+  applyAgentProposal,
+  rejectAgentProposal,
+  type AgentProposal,
+  type ProposalPayload,
+} from '@/lib/agent/proposals'
+
+type Params = { params: Promise<{ id: string }> }
+
+// POST /api/agent/proposals/[id] - Confirm or reject an agent proposal
+export async function POST(request: NextRequest, { params }: Params) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { id } = await params
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const decision = String(body?.decision || '').trim()
+    if (decision !== 'confirm' && decision !== 'reject') {
+      return NextResponse.json({ error: "decision must be 'confirm' or 'reject'" }, { status: 400 })
+    }
+
+    const rows = await sql`
+      SELECT *
+      FROM agent_proposals
+      WHERE id = ${id}
+        AND user_id = ${user.id}
+      LIMIT 1
+    `
+    const proposal = rows[0] as AgentProposal | undefined
+    if (!proposal) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    if (!(await canAccessProduct(user, proposal.product_id))) return forbiddenResponse()
+    if (proposal.status !== 'pending') {
+      return NextResponse.json({ error: `Proposal already ${proposal.status}` }, { status: 409 })
+    }
+
+    if (decision === 'reject') {
+      await rejectAgentProposal(proposal.id)
+      return NextResponse.json({ success: true, status: 'rejected' })
+    }
+
+    const edits =
+      body?.payload && typeof body.payload === 'object' ? (body.payload as ProposalPayload) : null
+    const applied = await applyAgentProposal(proposal, edits)
+    if ('error' in applied) {
+      return NextResponse.json({ error: applied.error }, { status: applied.status })
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: 'confirmed',
+      kind: proposal.kind,
+      record: applied.record,
+    })
+  } catch (error) {
+    console.error('Resolve proposal error:', error)
+    return NextResponse.json({ error: 'Failed to resolve proposal' }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sql } from '@/lib/db'
+import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
+import { listPendingProposals } from '@/lib/agent/proposals'
+
+export async function GET(request: NextRequest) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { searchParams } = new URL(request.url)
+  const threadId = String(searchParams.get('thread_id') || '').trim()
+  if (!threadId) return NextResponse.json({ error: 'thread_id is required' }, { status: 400 })
+
+  try {
+    const threadRows = await sql`
+      SELECT id, product_id
+      FROM agent_threads
+      WHERE id = ${threadId}
+        AND user_id = ${user.id}
+      LIMIT 1
+    `
+    if (!threadRows[0]) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    if (!(await canAccessProduct(user, threadRows[0].product_id))) return forbiddenResponse()
+
+    const proposals = await listPendingProposals(threadId)
+    return NextResponse.json(proposals)
+  } catch (error) {
+    console.error('List proposals error:', error)
+    return NextResponse.json({ error: 'Failed to list proposals' }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/require-auth'
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
+import { branchThread } from '@/lib/agent-branches'
+
+// POST /api/agent/threads/[id]/branch - Fork the thread at { message_id }
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { id } = await context.params
+
+  try {
+    if (!(await canAccessResource(user, 'agent_thread', id))) return forbiddenResponse()
+
+    const body = await request.json().catch(() => ({}))
+    const messageId = String(body?.message_id || '').trim()
+    if (!messageId) {
+      return NextResponse.json({ error: 'message_id is required' }, { status: 400 })
+    }
+
+    const thread = await branchThread({ threadId: id, messageId, userId: user.id })
+    if (!thread) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+    return NextResponse.json(thread, { status: 201 })
+  } catch (error) {
+    console.error('Branch thread error:', error)
+    return NextResponse.json({ error: 'Failed to branch thread' }, { status: 500 })
+  }
+}
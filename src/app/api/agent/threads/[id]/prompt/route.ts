@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
+import { llmProviderFor } from '@/lib/llm-client'
+import { resolveModel } from '@/lib/model-settings'
 import {
   AGENT_CONTEXT_DEFAULTS,
   buildAgentContextMessages,
   buildSystemPrompt,
-  loadGlobalPromptBlocks,
+  loadPromptBlocks,
   type ThreadContext,
 } from '@/lib/agent/compiled-context'
 
@@ -56,6 +59,7 @@ export async function GET(request: NextRequest, ctx: { params: Promise<{ id: str
   `
   const thread = threadRows[0]
   if (!thread) return NextResponse.json({ error: 'Thread not found' }, { status: 404 })
+  if (!(await canAccessProduct(user, thread.product_id))) return forbiddenResponse()
 
   const threadContext: ThreadContext = (thread.context || {}) as ThreadContext
 
@@ -108,7 +112,7 @@ export async function GET(request: NextRequest, ctx: { params: Promise<{ id: str
   let swipe: any = null
   if (threadContext.active_swipe_id) {
     const rows = await sql`
-      SELECT id, status, title, summary, transcript, source_url
+      SELECT id, status, title, summary, transcript, source_url, shots
       FROM swipes
       WHERE id = ${threadContext.active_swipe_id}
         AND product_id = ${thread.product_id}
@@ -117,15 +121,15 @@ export async function GET(request: NextRequest, ctx: { params: Promise<{ id: str
     swipe = rows[0] ?? null
   }
 
-  let research: Array<{ id: string; title?: string | null; summary?: string | null; content?: string | null }> = []
+  let research: Array<{ id: string; title?: string | null; summary?: string | null; content?: string | null; metadata?: unknown }> = []
   const researchIds = Array.isArray(threadContext.research_ids) ? threadContext.research_ids : []
   if (researchIds.length > 0) {
     const rows = (await sql`
-      SELECT id, title, summary, content
+      SELECT id, title, summary, content, metadata
       FROM research_items
       WHERE id = ANY(${researchIds})
         AND product_id = ${thread.product_id}
-    `) as Array<{ id: string; title?: string | null; summary?: string | null; content?: string | null }>
+    `) as Array<{ id: string; title?: string | null; summary?: string | null; content?: string | null; metadata?: unknown }>
     const order = new Map(researchIds.map((id, idx) => [id, idx]))
     research = (rows || []).sort((a: any, b: any) => {
       const ai = order.get(a.id) ?? 0
@@ -134,7 +138,7 @@ export async function GET(request: NextRequest, ctx: { params: Promise<{ id: str
     })
   }
 
-  const blocks = await loadGlobalPromptBlocks(user.id)
+  const blocks = await loadPromptBlocks({ userId: user.id, productId: thread.product_id })
   const systemBuild = buildSystemPrompt({
     skill,
     skills: skills || undefined,
@@ -182,8 +186,14 @@ export async function GET(request: NextRequest, ctx: { params: Promise<{ id: str
       }
     )
 
+    const modelChoice = await resolveModel({
+      organizationId: productRow.organization_id || null,
+      agent: 'writer',
+      skills: skills || [skill],
+    })
     payload.debug = {
       thread_context: threadContext,
+      model: { ...modelChoice, provider: llmProviderFor(modelChoice.model) },
       prompt_blocks: systemBuild.promptBlocks,
       prompt_sections: systemBuild.sections,
       context_window: contextWindow.debug,
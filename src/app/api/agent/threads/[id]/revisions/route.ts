@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sql } from '@/lib/db'
+import { requireAuth } from '@/lib/require-auth'
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
+import { listDraftRevisions } from '@/lib/draft-revisions'
+
+// GET /api/agent/threads/[id]/revisions?tab= - Canvas revision timeline, newest
+// first. Restoring happens client-side: the restored text is saved as a new
+// 'restore' revision through the regular draft PATCH.
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { id } = await context.params
+  const { searchParams } = new URL(request.url)
+  const tabParam = searchParams.get('tab')
+  const tabIndex = tabParam === null || tabParam === '' ? null : Number(tabParam)
+  if (tabIndex !== null && (!Number.isInteger(tabIndex) || tabIndex < 0)) {
+    return NextResponse.json({ error: 'tab must be a non-negative integer' }, { status: 400 })
+  }
+
+  try {
+    if (!(await canAccessResource(user, 'agent_thread', id))) return forbiddenResponse()
+
+    const rows = await sql`
+      SELECT id
+      FROM agent_threads
+      WHERE id = ${id}
+        AND user_id = ${user.id}
+      LIMIT 1
+    `
+    if (!rows[0]) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+    const revisions = await listDraftRevisions(id, tabIndex)
+    return NextResponse.json({ revisions })
+  } catch (error) {
+    console.error('List draft revisions error:', error)
+    return NextResponse.json({ error: 'Failed to list revisions' }, { status: 500 })
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
+import { recordDraftRevisions } from '@/lib/draft-revisions'
 
 export async function GET(_request: NextRequest, context: { params: Promise<{ id: string }> }) {
   const user = await requireAuth()
@@ -9,6 +11,8 @@ export async function GET(_request: NextRequest, context: { params: Promise<{ id
   const { id } = await context.params
 
   try {
+    if (!(await canAccessResource(user, 'agent_thread', id))) return forbiddenResponse()
+
     const rows = await sql`
       SELECT *
       FROM agent_threads
@@ -32,14 +36,19 @@ export async function PATCH(request: NextRequest, context: { params: Promise<{ i
   const { id } = await context.params
 
   try {
+    if (!(await canAccessResource(user, 'agent_thread', id))) return forbiddenResponse()
+
     const body = await request.json()
     const nextContext = body.context && typeof body.context === 'object' ? body.context : null
     const nextTitle = typeof body.title === 'string' ? body.title : undefined
     const nextDraftTitle = typeof body.draft_title === 'string' ? body.draft_title : undefined
     const nextDraftContent = typeof body.draft_content === 'string' ? body.draft_content : undefined
+    // { [tabIndex]: 'user_edit' | 'ai_draft' | 'inline_edit' | 'restore' } for the changed tabs
+    const draftSources =
+      body.draft_sources && typeof body.draft_sources === 'object' ? (body.draft_sources as Record<string, unknown>) : null
 
     const rows = await sql`
-      SELECT id, context, title, draft_title, draft_content
+      SELECT id, context, title, draft_title, draft_content, updated_at
       FROM agent_threads
       WHERE id = ${id}
         AND user_id = ${user.id}
@@ -63,6 +72,23 @@ export async function PATCH(request: NextRequest, context: { params: Promise<{ i
       WHERE id = ${id}
       RETURNING *
     `
+
+    if (nextDraftContent !== undefined && nextDraftContent !== thread.draft_content) {
+      try {
+        await recordDraftRevisions({
+          threadId: id,
+          previous: thread.draft_content,
+          next: nextDraftContent,
+          sources: draftSources,
+          userId: user.id,
+          previousUpdatedAt: thread.updated_at ? new Date(thread.updated_at).toISOString() : null,
+        })
+      } catch (revisionError) {
+        // The draft itself is saved; history is best-effort
+        console.error('Record draft revisions error:', revisionError)
+      }
+    }
+
     return NextResponse.json(updatedRows[0])
   } catch (error) {
     console.error('Patch thread error:', error)
@@ -77,6 +103,8 @@ export async function DELETE(_request: NextRequest, context: { params: Promise<{
   const { id } = await context.params
 
   try {
+    if (!(await canAccessResource(user, 'agent_thread', id))) return forbiddenResponse()
+
     const rows = await sql`
       DELETE FROM agent_threads
       WHERE id = ${id}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
 
 const DEFAULT_THREAD_CONTEXT = {
   skill: 'ugc_video_scripts',
@@ -25,8 +26,10 @@ export async function GET(request: NextRequest) {
   }
 
   try {
+    if (!(await canAccessProduct(user, productId))) return forbiddenResponse()
+
     const rows = await sql`
-      SELECT id, title, draft_title, draft_content, context, updated_at, created_at
+      SELECT id, title, draft_title, draft_content, context, parent_thread_id, branched_from_message_id, updated_at, created_at
       FROM agent_threads
       WHERE product_id = ${productId}
         AND user_id = ${user.id}
@@ -53,6 +56,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'product_id is required' }, { status: 400 })
     }
 
+    if (!(await canAccessProduct(user, productId))) return forbiddenResponse()
+
     if (reuseLatest) {
       const existingRows = await sql`
         SELECT *
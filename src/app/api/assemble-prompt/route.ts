@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { promptAssembler } from '@/lib/services/prompt-assembler'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
 
 // POST /api/assemble-prompt - Get the assembled prompt for preview
 export async function POST(request: NextRequest) {
@@ -17,8 +18,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!(await canAccessProduct(user, product_id))) return forbiddenResponse()
+
     const assembled = await promptAssembler.assemble({
       productId: product_id,
+      userId: user.id,
       avatarIds: avatar_ids,
       pitchId: pitch_id,
       contentType: content_type,
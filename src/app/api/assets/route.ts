@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { createAssetSchema } from '@/lib/validations'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
 
 // GET /api/assets - List assets (filtered by generation run)
 export async function GET(request: NextRequest) {
@@ -19,6 +20,10 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    if (!(await canAccessResource(user, 'generation_run', generationRunId))) {
+      return forbiddenResponse()
+    }
+
     let rows = await sql`
       SELECT *
       FROM assets
@@ -51,6 +56,10 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!(await canAccessResource(user, 'generation_run', validated.data.generation_run_id))) {
+      return forbiddenResponse()
+    }
+
     try {
       const rows = await sql`
         INSERT INTO assets (generation_run_id, type, content, metadata)
@@ -103,6 +112,11 @@ export async function PUT(request: NextRequest) {
       validatedAssets.push(validated.data)
     }
 
+    const runIds = Array.from(new Set(validatedAssets.map((asset) => asset.generation_run_id)))
+    for (const runId of runIds) {
+      if (!(await canAccessResource(user, 'generation_run', runId))) return forbiddenResponse()
+    }
+
     const inserted = []
     for (const asset of validatedAssets) {
       const rows = await sql`
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/require-auth'
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
+import { getProvenance } from '@/lib/research-provenance'
+
+type Params = { params: Promise<{ id: string }> }
+
+// GET /api/avatars/[id]/evidence - Research items this avatar was synthesized from
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const user = await requireAuth()
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const { id } = await params
+    if (!(await canAccessResource(user, 'avatar', id))) return forbiddenResponse()
+
+    const items = await getProvenance('avatar', id)
+    return NextResponse.json({ items })
+  } catch (error) {
+    console.error('Avatar evidence error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
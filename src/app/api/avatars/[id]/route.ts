@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { updateAvatarSchema } from '@/lib/validations'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
+import { deleteProvenance } from '@/lib/research-provenance'
+import { queueEmbeddingSync } from '@/lib/embeddings'
 
 type Params = { params: Promise<{ id: string }> }
 
@@ -11,6 +14,7 @@ export async function GET(request: NextRequest, { params }: Params) {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const { id } = await params
+    if (!(await canAccessResource(user, 'avatar', id))) return forbiddenResponse()
     const rows = await sql`
       SELECT
         avatars.*,
@@ -48,6 +52,7 @@ export async function PATCH(request: NextRequest, { params }: Params) {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const { id } = await params
+    if (!(await canAccessResource(user, 'avatar', id))) return forbiddenResponse()
     const body = await request.json()
     const validated = updateAvatarSchema.safeParse(body)
 
@@ -76,6 +81,7 @@ export async function PATCH(request: NextRequest, { params }: Params) {
     if (!rows[0]) {
       return NextResponse.json({ error: 'Avatar not found' }, { status: 404 })
     }
+    if (name !== null || content !== null) await queueEmbeddingSync(rows[0].product_id)
 
     return NextResponse.json(rows[0])
   } catch (error) {
@@ -89,6 +95,7 @@ export async function DELETE(request: NextRequest, { params }: Params) {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const { id } = await params
+    if (!(await canAccessResource(user, 'avatar', id))) return forbiddenResponse()
     const rows = await sql`
       DELETE FROM avatars
       WHERE id = ${id}
@@ -99,6 +106,8 @@ export async function DELETE(request: NextRequest, { params }: Params) {
       return NextResponse.json({ error: 'Avatar not found' }, { status: 404 })
     }
 
+    await deleteProvenance('avatar', id)
+
     return NextResponse.json({ success: true })
   } catch (error) {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
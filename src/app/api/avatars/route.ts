@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { createAvatarSchema } from '@/lib/validations'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse, getAccessibleOrganizationIds } from '@/lib/access'
+import { queueEmbeddingSync } from '@/lib/embeddings'
 
 // GET /api/avatars - List all avatars (optionally filtered by product)
 export async function GET(request: NextRequest) {
@@ -11,14 +13,24 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const productId = searchParams.get('product_id')
     const activeOnly = searchParams.get('active_only') === 'true'
+    if (productId && !(await canAccessProduct(user, productId))) return forbiddenResponse()
+    const orgIds = await getAccessibleOrganizationIds(user)
 
     const rows = await sql`
       SELECT
         avatars.*,
-        jsonb_build_object('name', products.name, 'slug', products.slug, 'brand_id', products.brand_id) AS products
+        jsonb_build_object('name', products.name, 'slug', products.slug, 'brand_id', products.brand_id) AS products,
+        (
+          SELECT COUNT(DISTINCT research_provenance.research_item_id)::int
+          FROM research_provenance
+          WHERE research_provenance.target_type = 'avatar'
+            AND research_provenance.target_id = avatars.id
+        ) AS evidence_count
       FROM avatars
       JOIN products ON products.id = avatars.product_id
+      JOIN brands ON brands.id = products.brand_id
       WHERE (${productId}::uuid IS NULL OR avatars.product_id = ${productId}::uuid)
+        AND (${orgIds}::uuid[] IS NULL OR brands.organization_id = ANY(${orgIds}::uuid[]))
         AND (${!activeOnly} OR avatars.is_active = true)
       ORDER BY avatars.created_at DESC
     `
@@ -44,6 +56,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!(await canAccessProduct(user, validated.data.product_id))) return forbiddenResponse()
+
     try {
       const rows = await sql`
         INSERT INTO avatars (product_id, name, content, is_active)
@@ -55,6 +69,7 @@ export async function POST(request: NextRequest) {
         )
         RETURNING *
       `
+      await queueEmbeddingSync(validated.data.product_id)
 
       return NextResponse.json(rows[0], { status: 201 })
     } catch (error: any) {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { updateBrandSchema } from '@/lib/validations'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
 
 type Params = { params: Promise<{ id: string }> }
 
@@ -11,6 +12,7 @@ export async function GET(request: NextRequest, { params }: Params) {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const { id } = await params
+    if (!(await canAccessResource(user, 'brand', id))) return forbiddenResponse()
     const rows = await sql`
       SELECT
         brands.*,
@@ -45,6 +47,7 @@ export async function PATCH(request: NextRequest, { params }: Params) {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const { id } = await params
+    if (!(await canAccessResource(user, 'brand', id))) return forbiddenResponse()
     const body = await request.json()
     const validated = updateBrandSchema.safeParse(body)
 
@@ -90,6 +93,7 @@ export async function DELETE(request: NextRequest, { params }: Params) {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const { id } = await params
+    if (!(await canAccessResource(user, 'brand', id))) return forbiddenResponse()
     const rows = await sql`
       DELETE FROM brands
       WHERE id = ${id}
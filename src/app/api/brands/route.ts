@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { createBrandSchema } from '@/lib/validations'
 import { requireAuth } from '@/lib/require-auth'
+import {
+  canAccessOrganization,
+  forbiddenResponse,
+  getAccessibleOrganizationIds,
+} from '@/lib/access'
 
 // GET /api/brands - List all brands (optionally filtered by organization)
 export async function GET(request: NextRequest) {
@@ -10,6 +15,10 @@ export async function GET(request: NextRequest) {
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const { searchParams } = new URL(request.url)
     const organizationId = searchParams.get('organization_id')
+    if (organizationId && !(await canAccessOrganization(user, organizationId))) {
+      return forbiddenResponse()
+    }
+    const orgIds = await getAccessibleOrganizationIds(user)
 
     const rows = organizationId
       ? await sql`
@@ -27,6 +36,7 @@ export async function GET(request: NextRequest) {
             jsonb_build_object('name', organizations.name, 'slug', organizations.slug) AS organizations
           FROM brands
           JOIN organizations ON organizations.id = brands.organization_id
+          WHERE (${orgIds}::uuid[] IS NULL OR brands.organization_id = ANY(${orgIds}::uuid[]))
           ORDER BY brands.created_at DESC
         `
 
@@ -51,6 +61,10 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!(await canAccessOrganization(user, validated.data.organization_id))) {
+      return forbiddenResponse()
+    }
+
     try {
       const rows = await sql`
         INSERT INTO brands (organization_id, name, slug, voice_guidelines, logo_url, metadata)
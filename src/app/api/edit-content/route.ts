@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
-import Anthropic from '@anthropic-ai/sdk'
 import { requireAuth } from '@/lib/require-auth'
-
-const anthropic = new Anthropic()
+import { canAccessProduct, forbiddenResponse, resolveProductOrganizationId } from '@/lib/access'
+import { getLlmClient, missingLlmKeyMessage, responseText } from '@/lib/llm-client'
+import { resolveModel } from '@/lib/model-settings'
 
 // POST /api/edit-content - Edit a specific piece of text with AI
 export async function POST(request: NextRequest) {
@@ -10,7 +10,7 @@ export async function POST(request: NextRequest) {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const body = await request.json()
-    const { original_text, edit_instruction, context } = body
+    const { original_text, edit_instruction, context, product_id } = body
 
     if (!original_text || !edit_instruction) {
       return NextResponse.json(
@@ -19,6 +19,18 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Optional: with a product the org's model settings apply
+    let orgId: string | null = null
+    if (product_id) {
+      if (!(await canAccessProduct(user, product_id))) return forbiddenResponse()
+      orgId = await resolveProductOrganizationId(product_id)
+    }
+    const { model } = await resolveModel({ organizationId: orgId, agent: 'edit_content' })
+    const llm = await getLlmClient({ organizationId: orgId, model, agent: 'edit_content' })
+    if (!llm) {
+      return NextResponse.json({ error: missingLlmKeyMessage(model) }, { status: 500 })
+    }
+
     const systemPrompt = `You are an expert copywriter helping edit ad copy.
 Your job is to edit ONLY the specific text provided, following the user's instruction.
 
@@ -38,18 +50,14 @@ Edit instruction: ${edit_instruction}
 
 Provide the edited text:`
 
-    const message = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
+    const message = await llm.create({
+      model,
       max_tokens: 500,
       system: systemPrompt,
       messages: [{ role: 'user', content: userPrompt }],
     })
 
-    const responseText = message.content[0].type === 'text'
-      ? message.content[0].text.trim()
-      : ''
-
-    return NextResponse.json({ edited_text: responseText })
+    return NextResponse.json({ edited_text: responseText(message).trim() })
   } catch (error) {
     console.error('Edit content error:', error)
     return NextResponse.json(
@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
-import Anthropic from '@anthropic-ai/sdk'
 import { sql } from '@/lib/db'
-import { getOrgApiKey } from '@/lib/api-keys'
+import { getLlmClient, missingLlmKeyMessage, responseText } from '@/lib/llm-client'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
+import {
+  assertLlmBudget,
+  budgetExceededResponseBody,
+  isLlmBudgetExceededError,
+  recordLlmUsage,
+} from '@/lib/llm-usage'
+import { resolveModel } from '@/lib/model-settings'
 
 // POST /api/generate-avatar-name - Generate a descriptive avatar name
 export async function POST(request: NextRequest) {
@@ -19,6 +26,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!(await canAccessProduct(user, product_id))) return forbiddenResponse()
+
     // Get existing avatar names to avoid duplicates
     const existingAvatars = await sql`
       SELECT name
@@ -36,11 +45,12 @@ export async function POST(request: NextRequest) {
       LIMIT 1
     `
     const orgId = orgRows[0]?.organization_id as string | undefined
-    const anthropicKey = await getOrgApiKey('anthropic', orgId || null)
-    if (!anthropicKey) {
-      return NextResponse.json({ error: 'ANTHROPIC_API_KEY is not set' }, { status: 500 })
+    await assertLlmBudget(orgId || null)
+    const { model } = await resolveModel({ organizationId: orgId || null, agent: 'avatar_namer' })
+    const llm = await getLlmClient({ organizationId: orgId || null, model, agent: 'avatar_namer' })
+    if (!llm) {
+      return NextResponse.json({ error: missingLlmKeyMessage(model) }, { status: 500 })
     }
-    const anthropic = new Anthropic({ apiKey: anthropicKey })
 
     const systemPrompt = `You are a naming expert. Generate a short, descriptive avatar name (3-8 words, lowercase, hyphenated) based on the avatar profile provided.
 
@@ -63,15 +73,26 @@ RULES:
 These names are already taken, DO NOT use them:
 ${existingNames.join(', ') || 'none'}`
 
-    const message = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
+    const message = await llm.create({
+      model,
       max_tokens: 100,
       system: systemPrompt,
       messages: [{ role: 'user', content: `Generate a name for this avatar:\n\n${content.substring(0, 2000)}` }],
     })
+    await recordLlmUsage({
+      organizationId: orgId || null,
+      userId: user.id,
+      productId: product_id,
+      feature: 'avatar_namer',
+      provider: llm.provider,
+      model,
+      usage: message.usage,
+      requestId: message.id,
+    })
 
-    let generatedName = message.content[0].type === 'text'
-      ? message.content[0].text.trim().toLowerCase().replace(/[^a-z0-9-]/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '')
+    const text = responseText(message)
+    let generatedName = text
+      ? text.trim().toLowerCase().replace(/[^a-z0-9-]/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '')
       : 'unnamed-avatar'
 
     // If somehow it's still a duplicate, add a number
@@ -84,6 +105,9 @@ ${existingNames.join(', ') || 'none'}`
 
     return NextResponse.json({ name: finalName })
   } catch (error) {
+    if (isLlmBudgetExceededError(error)) {
+      return NextResponse.json(budgetExceededResponseBody(error), { status: error.status })
+    }
     console.error('Generate name error:', error)
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to generate name' },
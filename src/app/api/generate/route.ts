@@ -1,11 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server'
-import Anthropic from '@anthropic-ai/sdk'
 import { promptAssembler } from '@/lib/services/prompt-assembler'
 import { sql } from '@/lib/db'
-import { getOrgApiKey } from '@/lib/api-keys'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse, resolveProductOrganizationId } from '@/lib/access'
+import {
+  assertLlmBudget,
+  budgetExceededResponseBody,
+  isLlmBudgetExceededError,
+  recordLlmUsage,
+} from '@/lib/llm-usage'
+import { getLlmClient, missingLlmKeyMessage, type LlmMessage } from '@/lib/llm-client'
+import { resolveModel } from '@/lib/model-settings'
+import {
+  extractJsonFromText,
+  getGenerationTool,
+  resolveGenerationContentType,
+  SUBMIT_GENERATION_TOOL,
+  validateGenerationOutput,
+  type GenerationValidation,
+} from '@/lib/services/generation-output'
+import type { ConceptCardContent } from '@/types/database'
 
-const AGENT_MODEL = 'claude-opus-4-6'
+// Runs still `pending` or `running` past this are failed by failStaleGenerationRuns
+export const maxDuration = 300
 
 interface GenerateRequest {
   product_id: string
@@ -18,27 +35,22 @@ interface GenerateRequest {
   prompt_overrides?: Record<string, string> // One-off prompt module overrides
 }
 
-// Map frontend content types to database enum values
-const contentTypeToDbEnum: Record<string, string> = {
-  organic_static: 'static_organic_ads',
-  ugc_video_scripts: 'scripts',
-  landing_page_copy: 'landing_pages',
-  advertorial_copy: 'landing_pages', // closest match
-}
-
-interface ConceptCard {
-  concept_name: string
-  image_description: string
-  image_prompt: string
-  copy_variants: {
-    hook: string
-    body: string
-    cta: string
-  }[]
-}
+// Extra turns allowed to fix output that fails schema validation
+const GENERATION_REPAIR_ATTEMPTS = 1
 
-interface GenerationResponse {
-  concepts: ConceptCard[]
+async function failGenerationRun(runId: string, errorMessage: string, rawResponse: Record<string, unknown> | null = null) {
+  try {
+    await sql`
+      UPDATE generation_runs
+      SET status = 'failed',
+          error_message = ${errorMessage},
+          raw_response = COALESCE(${rawResponse}::jsonb, raw_response),
+          completed_at = NOW()
+      WHERE id = ${runId}
+    `
+  } catch (dbError) {
+    console.error('Failed to mark generation run failed:', dbError)
+  }
 }
 
 export async function POST(request: NextRequest) {
@@ -55,136 +67,208 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const orgRows = await sql`
-      SELECT brands.organization_id AS organization_id
-      FROM products
-      LEFT JOIN brands ON brands.id = products.brand_id
-      WHERE products.id = ${body.product_id}
-      LIMIT 1
+    if (!(await canAccessProduct(user, body.product_id))) return forbiddenResponse()
+
+    const orgId = await resolveProductOrganizationId(body.product_id)
+    await assertLlmBudget(orgId)
+
+    // Record the run before doing any work so failures and timeouts leave a trace
+    const contentType = resolveGenerationContentType(body.content_type)
+    const numConcepts = body.num_concepts || 3
+    const runRows = await sql`
+      INSERT INTO generation_runs (product_id, feature_type, status, config)
+      VALUES (
+        ${body.product_id},
+        ${contentType},
+        'pending',
+        ${{
+          avatar_ids: body.avatar_ids,
+          pitch_id: body.pitch_id,
+          content_type: contentType,
+          num_concepts: numConcepts,
+          user_instructions: body.user_instructions,
+        }}
+      )
+      RETURNING id
     `
-    const orgId = orgRows[0]?.organization_id as string | undefined
-    const anthropicKey = await getOrgApiKey('anthropic', orgId || null)
-    if (!anthropicKey) {
-      return NextResponse.json({ error: 'ANTHROPIC_API_KEY is not set' }, { status: 500 })
+    const runId = runRows[0]?.id as string | undefined
+    if (!runId) {
+      return NextResponse.json({ error: 'Failed to create generation run' }, { status: 500 })
     }
-    const anthropic = new Anthropic({ apiKey: anthropicKey })
 
-    // Assemble the prompt (or use custom if provided)
-    const numConcepts = body.num_concepts || 3
-    const assembled = await promptAssembler.assemble({
-      productId: body.product_id,
-      avatarIds: body.avatar_ids,
-      pitchId: body.pitch_id,
-      contentType: body.content_type,
-      userInstructions: body.user_instructions,
-      numConcepts,
-      promptOverrides: body.prompt_overrides,
-    })
-
-    // Use custom prompt if provided (Glass Box editing)
-    const systemPrompt = body.custom_prompt || assembled.systemPrompt
-
-    // Call Claude
-    const message = await anthropic.messages.create({
-      model: AGENT_MODEL,
-      max_tokens: 4096,
-      messages: [
+    try {
+      const { model } = await resolveModel({ organizationId: orgId, agent: 'generate', skills: [contentType] })
+      const llm = await getLlmClient({ organizationId: orgId, model, agent: 'generate' })
+      if (!llm) {
+        const missingKey = missingLlmKeyMessage(model)
+        await failGenerationRun(runId, missingKey)
+        return NextResponse.json({ error: missingKey, run_id: runId }, { status: 500 })
+      }
+
+      // Assemble the prompt (or use custom if provided)
+      const assembled = await promptAssembler.assemble({
+        productId: body.product_id,
+        userId: user.id,
+        avatarIds: body.avatar_ids,
+        pitchId: body.pitch_id,
+        contentType: body.content_type,
+        userInstructions: body.user_instructions,
+        numConcepts,
+        promptOverrides: body.prompt_overrides,
+      })
+
+      // Use custom prompt if provided (Glass Box editing)
+      const systemPrompt = body.custom_prompt || assembled.systemPrompt
+
+      await sql`
+        UPDATE generation_runs
+        SET status = 'running', assembled_prompt = ${JSON.stringify(assembled)}
+        WHERE id = ${runId}
+      `
+
+      // Generate through a forced tool call so the output arrives as structured input
+      const tool = getGenerationTool(contentType)
+      const messages: LlmMessage[] = [
         {
           role: 'user',
           content: assembled.userPrompt,
         },
-      ],
-      system: systemPrompt,
-    })
-
-    // Extract the text response
-    const textContent = message.content.find((c) => c.type === 'text')
-    if (!textContent || textContent.type !== 'text') {
-      throw new Error('No text response from Claude')
-    }
+      ]
 
-    // Parse the JSON from the response
-    let concepts: GenerationResponse
-    try {
-      // Extract JSON from the response (it might be wrapped in markdown code blocks)
-      const jsonMatch = textContent.text.match(/```json\s*([\s\S]*?)\s*```/) ||
-                        textContent.text.match(/```\s*([\s\S]*?)\s*```/) ||
-                        [null, textContent.text]
-
-      const jsonStr = jsonMatch[1] || textContent.text
-      concepts = JSON.parse(jsonStr.trim())
-    } catch (parseError) {
-      console.error('Failed to parse Claude response:', textContent.text)
-      throw new Error('Failed to parse generation response as JSON')
-    }
+      let validation: GenerationValidation | null = null
+      for (let attempt = 0; attempt <= GENERATION_REPAIR_ATTEMPTS; attempt += 1) {
+        const message = await llm.create({
+          model,
+          max_tokens: 8192,
+          messages,
+          system: systemPrompt,
+          tools: [tool],
+          tool_choice: { type: 'tool', name: SUBMIT_GENERATION_TOOL },
+        })
+        await recordLlmUsage({
+          organizationId: orgId,
+          userId: user.id,
+          productId: body.product_id,
+          feature: 'generate',
+          provider: llm.provider,
+          model,
+          usage: message.usage,
+          requestId: message.id,
+          metadata: { run_id: runId, attempt, content_type: contentType },
+        })
 
-    // Create generation run
-    let run = null
-    let saveError = null
-    try {
-      // Convert frontend content type to database enum value
-      const dbFeatureType = contentTypeToDbEnum[body.content_type || 'organic_static'] || 'static_organic_ads'
-
-      const rows = await sql`
-        INSERT INTO generation_runs (
-          product_id,
-          feature_type,
-          status,
-          config,
-          assembled_prompt,
-          raw_response,
-          completed_at
-        ) VALUES (
-          ${body.product_id},
-          ${dbFeatureType},
-          'completed',
-          ${{
-            avatar_ids: body.avatar_ids,
-            pitch_id: body.pitch_id,
-            content_type: body.content_type,
-            num_concepts: numConcepts,
-            user_instructions: body.user_instructions,
-          }},
-          ${JSON.stringify(assembled)},
-          ${concepts},
-          ${new Date().toISOString()}
-        )
-        RETURNING *
-      `
+        const toolUse = message.content.find((c) => c.type === 'tool_use')
+        const textContent = message.content.find((c) => c.type === 'text')
+        const candidate = toolUse
+          ? toolUse.input
+          : textContent
+            ? extractJsonFromText(textContent.text)
+            : null
 
-      run = rows[0] ?? null
-      if (!run) {
-        saveError = 'Failed to save generation run'
+        validation = validateGenerationOutput(contentType, candidate)
+        if (validation.success) break
+
+        console.warn(`Generation output failed validation (attempt ${attempt + 1}):`, validation.issues)
+        if (attempt === GENERATION_REPAIR_ATTEMPTS) break
+
+        // Repair turn: hand the validator's issues back and ask for a complete resubmission
+        const repairText = [
+          'The submission did not match the required schema:',
+          ...validation.issues.map((issue) => `- ${issue}`),
+          `Call ${SUBMIT_GENERATION_TOOL} again with the complete, corrected output.`,
+        ].join('\n')
+        messages.push({ role: 'assistant', content: message.content })
+        messages.push({
+          role: 'user',
+          content: toolUse
+            ? [{ type: 'tool_result', tool_use_id: toolUse.id, is_error: true, content: repairText }]
+            : repairText,
+        })
       }
-    } catch (dbError) {
-      console.error('Database error saving generation run:', dbError)
-      saveError = dbError instanceof Error ? dbError.message : 'Unknown DB error'
-    }
 
-    // Save assets
-    if (run && concepts.concepts) {
-      const assets = concepts.concepts.map((concept) => ({
-        generation_run_id: run.id,
-        type: 'concept_card' as const,
-        content: concept,
-      }))
-
-      for (const asset of assets) {
-        await sql`
-          INSERT INTO assets (generation_run_id, type, content)
-          VALUES (${asset.generation_run_id}, ${asset.type}, ${asset.content})
+      if (!validation?.success) {
+        const issues = validation?.issues ?? []
+        await failGenerationRun(runId, 'Generation output failed schema validation', {
+          content_type: contentType,
+          issues,
+        })
+        return NextResponse.json(
+          {
+            error: 'Generation output failed schema validation',
+            issues,
+            run_id: runId,
+          },
+          { status: 502 }
+        )
+      }
+
+      const concepts = validation.concepts
+
+      // Save assets: one concept_card per concept, with its copy_variant rows linked back
+      for (const [conceptIndex, concept] of concepts.entries()) {
+        const cardContent: ConceptCardContent = {
+          content_type: contentType,
+          concept_name: concept.concept_name,
+          headline: concept.headline,
+          body: concept.body,
+          cta: concept.cta,
+          details: concept.details,
+        }
+        const cardRows = await sql`
+          INSERT INTO assets (generation_run_id, type, content, metadata)
+          VALUES (
+            ${runId},
+            'concept_card',
+            ${cardContent},
+            ${{ content_type: contentType, concept_index: conceptIndex }}
+          )
+          RETURNING id
         `
+        const cardId = cardRows[0]?.id ?? null
+
+        for (const [variantIndex, variant] of concept.copy_variants.entries()) {
+          await sql`
+            INSERT INTO assets (generation_run_id, type, content, metadata)
+            VALUES (
+              ${runId},
+              'copy_variant',
+              ${variant},
+              ${{
+                content_type: contentType,
+                concept_asset_id: cardId,
+                concept_index: conceptIndex,
+                variant_index: variantIndex,
+              }}
+            )
+          `
+        }
       }
-    }
 
-    return NextResponse.json({
-      success: true,
-      run_id: run?.id,
-      concepts: concepts.concepts,
-      metadata: assembled.metadata,
-      save_error: saveError,
-    })
+      await sql`
+        UPDATE generation_runs
+        SET status = 'completed',
+            raw_response = ${{ content_type: contentType, output: validation.output, concepts }},
+            error_message = NULL,
+            completed_at = NOW()
+        WHERE id = ${runId}
+      `
+
+      return NextResponse.json({
+        success: true,
+        run_id: runId,
+        content_type: contentType,
+        concepts,
+        output: validation.output,
+        metadata: assembled.metadata,
+      })
+    } catch (error) {
+      await failGenerationRun(runId, error instanceof Error ? error.message : 'Generation failed')
+      throw error
+    }
   } catch (error) {
+    if (isLlmBudgetExceededError(error)) {
+      return NextResponse.json(budgetExceededResponseBody(error), { status: error.status })
+    }
     console.error('Generation error:', error)
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Generation failed' },
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
+import { failStaleGenerationRuns } from '@/lib/generation-runs'
 
 type Params = { params: Promise<{ id: string }> }
 
@@ -10,6 +12,8 @@ export async function GET(request: NextRequest, { params }: Params) {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const { id } = await params
+    if (!(await canAccessResource(user, 'generation_run', id))) return forbiddenResponse()
+    await failStaleGenerationRuns()
     const rows = await sql`
       SELECT
         generation_runs.*,
@@ -51,6 +55,7 @@ export async function PATCH(request: NextRequest, { params }: Params) {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const { id } = await params
+    if (!(await canAccessResource(user, 'generation_run', id))) return forbiddenResponse()
     const body = await request.json()
 
     // Only allow updating specific fields
@@ -104,6 +109,7 @@ export async function DELETE(request: NextRequest, { params }: Params) {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const { id } = await params
+    if (!(await canAccessResource(user, 'generation_run', id))) return forbiddenResponse()
     const rows = await sql`
       DELETE FROM generation_runs
       WHERE id = ${id}
@@ -3,6 +3,8 @@ import { sql } from '@/lib/db'
 import { createGenerationRunSchema } from '@/lib/validations'
 import { promptAssembler } from '@/lib/services/prompt-assembler'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse, getAccessibleOrganizationIds } from '@/lib/access'
+import { failStaleGenerationRuns } from '@/lib/generation-runs'
 
 // GET /api/generation-runs - List generation runs (filtered by product)
 export async function GET(request: NextRequest) {
@@ -13,14 +15,20 @@ export async function GET(request: NextRequest) {
     const productId = searchParams.get('product_id')
     const featureType = searchParams.get('feature_type')
     const status = searchParams.get('status')
+    if (productId && !(await canAccessProduct(user, productId))) return forbiddenResponse()
+    const orgIds = await getAccessibleOrganizationIds(user)
+    await failStaleGenerationRuns()
 
     const rows = await sql`
-      SELECT *
+      SELECT generation_runs.*
       FROM generation_runs
-      WHERE (${productId}::uuid IS NULL OR product_id = ${productId}::uuid)
-        AND (${featureType}::text IS NULL OR feature_type = ${featureType})
-        AND (${status}::text IS NULL OR status = ${status})
-      ORDER BY created_at DESC
+      JOIN products ON products.id = generation_runs.product_id
+      JOIN brands ON brands.id = products.brand_id
+      WHERE (${productId}::uuid IS NULL OR generation_runs.product_id = ${productId}::uuid)
+        AND (${orgIds}::uuid[] IS NULL OR brands.organization_id = ANY(${orgIds}::uuid[]))
+        AND (${featureType}::text IS NULL OR generation_runs.feature_type = ${featureType})
+        AND (${status}::text IS NULL OR generation_runs.status = ${status})
+      ORDER BY generation_runs.created_at DESC
       LIMIT 50
     `
 
@@ -46,6 +54,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!(await canAccessProduct(user, validated.data.product_id))) return forbiddenResponse()
+
     // Create the generation run in pending state
     let run
     try {
@@ -75,6 +85,7 @@ export async function POST(request: NextRequest) {
     try {
       const assembledPrompt = await promptAssembler.assemble({
         productId: validated.data.product_id,
+        userId: user.id,
         avatarIds: validated.data.config.avatar_ids,
         userInstructions: validated.data.config.user_instructions,
       })
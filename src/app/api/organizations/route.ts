@@ -2,15 +2,18 @@ import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { createOrganizationSchema } from '@/lib/validations'
 import { requireAuth } from '@/lib/require-auth'
+import { getAccessibleOrganizationIds, isSuperAdmin } from '@/lib/access'
 
-// GET /api/organizations - List all organizations
+// GET /api/organizations - List organizations the user can access
 export async function GET() {
   try {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const orgIds = await getAccessibleOrganizationIds(user)
     const rows = await sql`
       SELECT *
       FROM organizations
+      WHERE (${orgIds}::uuid[] IS NULL OR id = ANY(${orgIds}::uuid[]))
       ORDER BY created_at DESC
     `
 
@@ -44,6 +47,14 @@ export async function POST(request: NextRequest) {
         VALUES (${validated.data.name}, ${validated.data.slug})
         RETURNING *
       `
+      // Org admins keep access to the organizations they create
+      if (!isSuperAdmin(user)) {
+        await sql`
+          INSERT INTO user_organization_access (user_id, organization_id)
+          VALUES (${user.id}, ${rows[0].id})
+          ON CONFLICT DO NOTHING
+        `
+      }
       return NextResponse.json(rows[0], { status: 201 })
     } catch (error: any) {
       if (error?.code === '23505') {
@@ -1,14 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
-import { z } from 'zod'
+import { updatePitchSchema } from '@/lib/validations'
 import { requireAuth } from '@/lib/require-auth'
-
-const updatePitchSchema = z.object({
-  name: z.string().min(1).max(100).optional(),
-  content: z.string().min(1).optional(),
-  type: z.string().optional(),
-  is_active: z.boolean().optional(),
-})
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
+import { deleteProvenance } from '@/lib/research-provenance'
 
 type Params = { params: Promise<{ id: string }> }
 
@@ -18,6 +13,7 @@ export async function GET(request: NextRequest, { params }: Params) {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const { id } = await params
+    if (!(await canAccessResource(user, 'pitch', id))) return forbiddenResponse()
     const rows = await sql`
       SELECT *
       FROM pitches
@@ -41,6 +37,7 @@ export async function PATCH(request: NextRequest, { params }: Params) {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const { id } = await params
+    if (!(await canAccessResource(user, 'pitch', id))) return forbiddenResponse()
     const body = await request.json()
     const validated = updatePitchSchema.safeParse(body)
 
@@ -84,6 +81,7 @@ export async function DELETE(request: NextRequest, { params }: Params) {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const { id } = await params
+    if (!(await canAccessResource(user, 'pitch', id))) return forbiddenResponse()
     const rows = await sql`
       DELETE FROM pitches
       WHERE id = ${id}
@@ -94,6 +92,8 @@ export async function DELETE(request: NextRequest, { params }: Params) {
       return NextResponse.json({ error: 'Pitch not found' }, { status: 404 })
     }
 
+    await deleteProvenance('pitch', id)
+
     return NextResponse.json({ success: true })
   } catch (error) {
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
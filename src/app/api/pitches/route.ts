@@ -1,15 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
-import { z } from 'zod'
+import { createPitchSchema } from '@/lib/validations'
 import { requireAuth } from '@/lib/require-auth'
-
-const createPitchSchema = z.object({
-  product_id: z.string().uuid(),
-  name: z.string().min(1).max(100),
-  content: z.string().min(1),
-  type: z.string().optional(),
-  is_active: z.boolean().optional(),
-})
+import { canAccessProduct, forbiddenResponse, getAccessibleOrganizationIds } from '@/lib/access'
 
 // GET /api/pitches - List pitches with filtering
 export async function GET(request: NextRequest) {
@@ -19,13 +12,25 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const productId = searchParams.get('product_id')
     const activeOnly = searchParams.get('active_only') === 'true'
+    if (productId && !(await canAccessProduct(user, productId))) return forbiddenResponse()
+    const orgIds = await getAccessibleOrganizationIds(user)
 
     const rows = await sql`
-      SELECT *
+      SELECT
+        pitches.*,
+        (
+          SELECT COUNT(DISTINCT research_provenance.research_item_id)::int
+          FROM research_provenance
+          WHERE research_provenance.target_type = 'pitch'
+            AND research_provenance.target_id = pitches.id
+        ) AS evidence_count
       FROM pitches
-      WHERE (${productId}::uuid IS NULL OR product_id = ${productId}::uuid)
-        AND (${!activeOnly} OR is_active = true)
-      ORDER BY created_at DESC
+      JOIN products ON products.id = pitches.product_id
+      JOIN brands ON brands.id = products.brand_id
+      WHERE (${productId}::uuid IS NULL OR pitches.product_id = ${productId}::uuid)
+        AND (${orgIds}::uuid[] IS NULL OR brands.organization_id = ANY(${orgIds}::uuid[]))
+        AND (${!activeOnly} OR pitches.is_active = true)
+      ORDER BY pitches.created_at DESC
     `
 
     return NextResponse.json(rows)
@@ -49,6 +54,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!(await canAccessProduct(user, validated.data.product_id))) return forbiddenResponse()
+
     try {
       const rows = await sql`
         INSERT INTO pitches (product_id, name, content, type, is_active)
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { updateProductSchema } from '@/lib/validations'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
 
 type Params = { params: Promise<{ id: string }> }
 
@@ -11,6 +12,7 @@ export async function GET(request: NextRequest, { params }: Params) {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const { id } = await params
+    if (!(await canAccessResource(user, 'product', id))) return forbiddenResponse()
     const rows = await sql`
       SELECT
         products.*,
@@ -62,6 +64,7 @@ export async function PATCH(request: NextRequest, { params }: Params) {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const { id } = await params
+    if (!(await canAccessResource(user, 'product', id))) return forbiddenResponse()
     const body = await request.json()
     const validated = updateProductSchema.safeParse(body)
 
@@ -109,6 +112,7 @@ export async function DELETE(request: NextRequest, { params }: Params) {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const { id } = await params
+    if (!(await canAccessResource(user, 'product', id))) return forbiddenResponse()
     const rows = await sql`
       DELETE FROM products
       WHERE id = ${id}
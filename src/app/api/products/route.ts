@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { createProductSchema } from '@/lib/validations'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessBrand, forbiddenResponse, getAccessibleOrganizationIds } from '@/lib/access'
 
 // GET /api/products - List all products (optionally filtered by brand)
 export async function GET(request: NextRequest) {
@@ -10,6 +11,8 @@ export async function GET(request: NextRequest) {
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     const { searchParams } = new URL(request.url)
     const brandId = searchParams.get('brand_id')
+    if (brandId && !(await canAccessBrand(user, brandId))) return forbiddenResponse()
+    const orgIds = await getAccessibleOrganizationIds(user)
 
     const rows = brandId
       ? await sql`
@@ -35,6 +38,7 @@ export async function GET(request: NextRequest) {
             ) AS brands
           FROM products
           JOIN brands ON brands.id = products.brand_id
+          WHERE (${orgIds}::uuid[] IS NULL OR brands.organization_id = ANY(${orgIds}::uuid[]))
           ORDER BY products.created_at DESC
         `
 
@@ -68,6 +72,8 @@ export async function POST(request: NextRequest) {
     const { content, ...rest } = validated.data
     const insertContext = { content }
 
+    if (!(await canAccessBrand(user, rest.brand_id))) return forbiddenResponse()
+
     try {
       const rows = await sql`
         INSERT INTO products (brand_id, name, slug, context)
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessPromptBlock, forbiddenResponse } from '@/lib/access'
 
 type Params = { params: Promise<{ id: string }> }
 
@@ -27,10 +28,7 @@ export async function POST(request: NextRequest, { params }: Params) {
 
     const block = existingRows[0]
 
-    // Non-super_admin can only reset their own user-scoped blocks or global blocks
-    if (user.role !== 'super_admin' && block.user_id && block.user_id !== user.id) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
+    if (!(await canAccessPromptBlock(user, block, 'write'))) return forbiddenResponse()
 
     // Parse metadata safely — Neon may return JSONB as string or object
     let existingMeta: Record<string, any> = {}
@@ -2,12 +2,16 @@ import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { updatePromptBlockSchema } from '@/lib/validations'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessPromptBlock, forbiddenResponse } from '@/lib/access'
 
 type Params = { params: Promise<{ id: string }> }
 
 // GET /api/prompt-blocks/[id] - Get single prompt block
 export async function GET(request: NextRequest, { params }: Params) {
   try {
+    const user = await requireAuth()
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
     const { id } = await params
     const rows = await sql`
       SELECT *
@@ -19,6 +23,7 @@ export async function GET(request: NextRequest, { params }: Params) {
     if (!rows[0]) {
       return NextResponse.json({ error: 'Prompt block not found' }, { status: 404 })
     }
+    if (!(await canAccessPromptBlock(user, rows[0], 'read'))) return forbiddenResponse()
 
     return NextResponse.json(rows[0])
   } catch (error) {
@@ -30,6 +35,9 @@ export async function GET(request: NextRequest, { params }: Params) {
 // If user_id is provided in body and the block is global, creates a user-scoped copy instead
 export async function PATCH(request: NextRequest, { params }: Params) {
   try {
+    const user = await requireAuth()
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
     const { id } = await params
     const body = await request.json()
 
@@ -57,7 +65,11 @@ export async function PATCH(request: NextRequest, { params }: Params) {
     }
 
     // If user_id provided and block is global (no user_id), create a user-scoped copy
-    if (userId && !existing.user_id && validated.data.content) {
+    const createsUserCopy = Boolean(userId && !existing.user_id && validated.data.content)
+    const target = createsUserCopy ? { ...existing, user_id: userId } : existing
+    if (!(await canAccessPromptBlock(user, target, 'write'))) return forbiddenResponse()
+
+    if (createsUserCopy) {
       const metadataKey =
         typeof (validated.data.metadata as { key?: string } | undefined)?.key === 'string'
           ? (validated.data.metadata as { key?: string }).key
@@ -198,14 +210,15 @@ export async function PATCH(request: NextRequest, { params }: Params) {
 }
 
 // DELETE /api/prompt-blocks/[id] - Delete prompt block
-// Non-super_admin can only delete their own user-scoped blocks
+// Non-super_admin can delete their own user-scoped blocks and blocks of brands/products they can access
 export async function DELETE(request: NextRequest, { params }: Params) {
   try {
-    const { id } = await params
     const user = await requireAuth()
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const { id } = await params
 
     const existingRows = await sql`
-      SELECT id, user_id FROM prompt_blocks WHERE id = ${id} LIMIT 1
+      SELECT id, scope, scope_id, user_id FROM prompt_blocks WHERE id = ${id} LIMIT 1
     `
     if (!existingRows[0]) {
       return NextResponse.json({ error: 'Prompt block not found' }, { status: 404 })
@@ -213,10 +226,7 @@ export async function DELETE(request: NextRequest, { params }: Params) {
 
     const block = existingRows[0]
 
-    // Non-super_admin can only delete their own user-scoped blocks
-    if (user && user.role !== 'super_admin' && block.user_id !== user.id) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
+    if (!(await canAccessPromptBlock(user, block, 'write'))) return forbiddenResponse()
 
     const rows = await sql`
       DELETE FROM prompt_blocks
@@ -2,10 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { createPromptBlockSchema } from '@/lib/validations'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessPromptBlock, forbiddenResponse, getAccessibleOrganizationIds } from '@/lib/access'
 
 // GET /api/prompt-blocks - List prompt blocks with filtering
 export async function GET(request: NextRequest) {
   try {
+    const user = await requireAuth()
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
     const { searchParams } = new URL(request.url)
     const type = searchParams.get('type')
     const scope = searchParams.get('scope')
@@ -15,13 +19,15 @@ export async function GET(request: NextRequest) {
     const includeHistory = searchParams.get('include_history') === 'true'
     const metadataKey = searchParams.get('metadata_key') || null
 
-    // When user_override is requested, fetch user-scoped blocks and merge
-    let userId: string | null = null
-    if (userOverride) {
-      const user = await requireAuth()
-      if (user) userId = user.id
+    if (scope && scopeId && !(await canAccessPromptBlock(user, { scope, scope_id: scopeId }, 'read'))) {
+      return forbiddenResponse()
     }
 
+    // When user_override is requested, fetch user-scoped blocks and merge
+    const userId: string | null = userOverride ? user.id : null
+    // Brand/product blocks are limited to the caller's organizations (null = all)
+    const orgIds = await getAccessibleOrganizationIds(user)
+
     let rows = await sql`
       SELECT *
       FROM prompt_blocks
@@ -36,6 +42,23 @@ export async function GET(request: NextRequest) {
             ELSE user_id IS NULL
           END
         )
+        AND (
+          ${orgIds}::uuid[] IS NULL
+          OR scope NOT IN ('brand', 'product')
+          OR (
+            scope = 'brand'
+            AND scope_id IN (SELECT id FROM brands WHERE organization_id = ANY(${orgIds}::uuid[]))
+          )
+          OR (
+            scope = 'product'
+            AND scope_id IN (
+              SELECT products.id
+              FROM products
+              JOIN brands ON brands.id = products.brand_id
+              WHERE brands.organization_id = ANY(${orgIds}::uuid[])
+            )
+          )
+        )
       ORDER BY user_id DESC NULLS LAST, updated_at DESC NULLS LAST, version DESC, created_at DESC
     `
 
@@ -78,6 +101,9 @@ export async function GET(request: NextRequest) {
 // POST /api/prompt-blocks - Create a new prompt block
 export async function POST(request: NextRequest) {
   try {
+    const user = await requireAuth()
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
     const body = await request.json()
 
     const validated = createPromptBlockSchema.safeParse(body)
@@ -91,6 +117,15 @@ export async function POST(request: NextRequest) {
 
     const scopeIdValue = validated.data.scope_id ?? null
     const userIdValue = validated.data.user_id ?? null
+    if (
+      !(await canAccessPromptBlock(
+        user,
+        { scope: validated.data.scope, scope_id: scopeIdValue, user_id: userIdValue },
+        'write'
+      ))
+    ) {
+      return forbiddenResponse()
+    }
     const metadataKey =
       typeof validated.data.metadata?.key === 'string' ? validated.data.metadata.key : null
 
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { DEFAULT_PROMPT_BLOCKS } from '@/lib/prompt-defaults'
 import { requireAuth } from '@/lib/require-auth'
+import { forbiddenResponse, isSuperAdmin } from '@/lib/access'
 
 // Map our default block keys to proper database types
 const BLOCK_TYPE_MAP: Record<string, string> = {
@@ -24,6 +25,8 @@ export async function POST() {
   try {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    // Seeds shared global blocks
+    if (!isSuperAdmin(user)) return forbiddenResponse()
     const countRows = await sql`SELECT COUNT(*)::int AS count FROM prompt_blocks`
     const count = countRows[0]?.count ?? 0
 
@@ -85,6 +88,8 @@ export async function GET() {
   try {
     const user = await requireAuth()
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    // Seeds shared global blocks
+    if (!isSuperAdmin(user)) return forbiddenResponse()
     const existingBlocks = await sql`
       SELECT metadata
       FROM prompt_blocks
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
 
 export async function GET(request: NextRequest) {
   const user = await requireAuth()
@@ -14,6 +15,8 @@ export async function GET(request: NextRequest) {
   }
 
   try {
+    if (!(await canAccessProduct(user, productId))) return forbiddenResponse()
+
     const categories = await sql`
       SELECT
         research_categories.*,
@@ -57,6 +60,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'product_id and name are required' }, { status: 400 })
     }
 
+    if (!(await canAccessProduct(user, productId))) return forbiddenResponse()
+
     const rows = await sql`
       INSERT INTO research_categories (product_id, name, description, created_by)
       VALUES (${productId}, ${name}, ${description}, ${user.id})
@@ -0,0 +1,390 @@
+import { NextRequest, NextResponse } from 'next/server'
+import crypto from 'node:crypto'
+import { sql } from '@/lib/db'
+import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
+import { queueEmbeddingSync } from '@/lib/embeddings'
+import { DEFAULT_PROMPT_BLOCKS } from '@/lib/prompt-defaults'
+import { getLlmClient, missingLlmKeyMessage, responseText, type LlmClient, type LlmResponse } from '@/lib/llm-client'
+import {
+  assertLlmBudget,
+  budgetExceededResponseBody,
+  isLlmBudgetExceededError,
+  recordLlmUsage,
+} from '@/lib/llm-usage'
+import { resolveModel } from '@/lib/model-settings'
+import { loadPromptBlocks, type PromptBlockRow } from '@/lib/agent/compiled-context'
+import {
+  detectReviewFormat,
+  formatRating,
+  isVerbatimQuote,
+  mapReviewRows,
+  parseReviewFile,
+  REVIEW_FIELDS,
+  suggestReviewMapping,
+  type ImportedReview,
+  type ReviewColumnMapping,
+  type ReviewQuote,
+} from '@/lib/review-import'
+
+export const maxDuration = 300
+
+const MAX_IMPORT_REVIEWS = 1000
+const REVIEW_BATCH_SIZE = 100
+const REVIEW_EXCERPT_CHARS = 600
+const MAX_QUOTES_PER_THEME = 12
+const MAX_THEME_CONTENT_CHARS = 40000
+const FALLBACK_THEME = 'Other feedback'
+
+type Theme = {
+  name: string
+  description: string
+  reviewIndexes: number[]
+  quotes: ReviewQuote[]
+}
+
+function parseJsonPayload(text: string) {
+  const cleaned = (text.match(/```json\s*([\s\S]*?)\s*```/) || [null, text])[1].trim()
+  try {
+    return JSON.parse(cleaned)
+  } catch {
+    return null
+  }
+}
+
+function getPromptBlockContent(blocks: Map<string, PromptBlockRow>, key: string): string {
+  const db = blocks.get(key)?.content
+  if (db) return db
+  const fallback = (DEFAULT_PROMPT_BLOCKS as Record<string, { content?: string }>)[key]?.content
+  return typeof fallback === 'string' ? fallback : ''
+}
+
+function applyTemplate(template: string, vars: Record<string, string>) {
+  return template.replace(/{{\s*([a-z0-9_]+)\s*}}/gi, (_, key) => {
+    const val = vars[key.toLowerCase()] ?? ''
+    return val
+  })
+}
+
+function normalizeMapping(value: unknown, headers: string[]): ReviewColumnMapping | null {
+  if (!value || typeof value !== 'object') return null
+  const mapping: ReviewColumnMapping = {}
+  for (const field of REVIEW_FIELDS) {
+    const column = String((value as Record<string, unknown>)[field] || '').trim()
+    if (column && headers.includes(column)) mapping[field] = column
+  }
+  return mapping
+}
+
+function formatReviewLine(review: ImportedReview, idx: number) {
+  const title = review.title ? `${review.title} - ` : ''
+  return `${idx + 1}. [${formatRating(review.rating)}] ${title}${review.body.slice(0, REVIEW_EXCERPT_CHARS)}`
+}
+
+function summarizeRatings(reviews: ImportedReview[]) {
+  const rated = reviews.filter((r) => typeof r.rating === 'number')
+  const ratingCounts: Record<string, number> = {}
+  for (const review of rated) {
+    const bucket = String(Math.round(review.rating as number))
+    ratingCounts[bucket] = (ratingCounts[bucket] || 0) + 1
+  }
+  const average = rated.length
+    ? Math.round((rated.reduce((sum, r) => sum + (r.rating as number), 0) / rated.length) * 10) / 10
+    : null
+  return { average_rating: average, rating_counts: ratingCounts }
+}
+
+/**
+ * Clusters reviews batch by batch, feeding the themes found so far into each
+ * call so names stay stable across the whole import.
+ */
+async function clusterReviews(args: {
+  llm: LlmClient
+  model: string
+  system: string
+  template: string
+  reviews: ImportedReview[]
+  // Called after each batch so usage is metered even if a later batch fails
+  onMessage: (message: LlmResponse) => Promise<void>
+}): Promise<Theme[]> {
+  const themes = new Map<string, Theme>()
+  const ensureTheme = (name: string, description = '') => {
+    const key = name.toLowerCase()
+    let theme = themes.get(key)
+    if (!theme) {
+      theme = { name, description, reviewIndexes: [], quotes: [] }
+      themes.set(key, theme)
+    } else if (!theme.description && description) {
+      theme.description = description
+    }
+    return theme
+  }
+
+  for (let start = 0; start < args.reviews.length; start += REVIEW_BATCH_SIZE) {
+    const batch = args.reviews.slice(start, start + REVIEW_BATCH_SIZE)
+    const themesText = themes.size
+      ? Array.from(themes.values())
+          .map((t) => `- ${t.name}${t.description ? `: ${t.description}` : ''}`)
+          .join('\n')
+      : '(none yet)'
+    const reviewsText = batch.map((review, i) => formatReviewLine(review, start + i)).join('\n')
+
+    const message = await args.llm.create({
+      model: args.model,
+      max_tokens: 4000,
+      system: args.system || undefined,
+      messages: [
+        { role: 'user', content: applyTemplate(args.template, { themes: themesText, reviews: reviewsText }) },
+      ],
+    })
+    await args.onMessage(message)
+    const parsed = parseJsonPayload(responseText(message))
+    if (!parsed) throw new Error('Failed to parse review theme output')
+
+    for (const theme of Array.isArray(parsed.themes) ? parsed.themes : []) {
+      const name = String(theme?.name || '').trim().slice(0, 80)
+      if (name) ensureTheme(name, String(theme?.description || '').trim().slice(0, 300))
+    }
+
+    const assigned = new Set<number>()
+    for (const assignment of Array.isArray(parsed.assignments) ? parsed.assignments : []) {
+      const idx = Number(assignment?.review) - 1
+      const name = String(assignment?.theme || '').trim().slice(0, 80)
+      if (!Number.isInteger(idx) || idx < start || idx >= start + batch.length || !name) continue
+      if (assigned.has(idx)) continue
+      assigned.add(idx)
+      ensureTheme(name).reviewIndexes.push(idx)
+    }
+    for (let i = start; i < start + batch.length; i += 1) {
+      if (!assigned.has(i)) ensureTheme(FALLBACK_THEME).reviewIndexes.push(i)
+    }
+
+    const themeByReview = new Map<number, Theme>()
+    for (const theme of themes.values()) {
+      for (const idx of theme.reviewIndexes) themeByReview.set(idx, theme)
+    }
+    for (const row of Array.isArray(parsed.quotes) ? parsed.quotes : []) {
+      const idx = Number(row?.review) - 1
+      const quote = String(row?.quote || '').trim().replace(/^["\u201C]|["\u201D]$/g, '')
+      const review = args.reviews[idx]
+      const theme = themeByReview.get(idx)
+      if (!review || !theme || !quote || idx < start || idx >= start + batch.length) continue
+      // Only keep quotes the model copied word for word
+      if (!isVerbatimQuote(quote, review)) continue
+      if (theme.quotes.length >= MAX_QUOTES_PER_THEME) continue
+      theme.quotes.push({
+        quote: quote.slice(0, 600),
+        rating: review.rating,
+        title: review.title || null,
+        date: review.date,
+        source: review.source,
+      })
+    }
+  }
+
+  return Array.from(themes.values())
+    .filter((theme) => theme.reviewIndexes.length > 0)
+    .sort((a, b) => b.reviewIndexes.length - a.reviewIndexes.length)
+}
+
+// POST /api/research/import-reviews
+// preview: true -> parse only and suggest a column mapping
+// otherwise      -> cluster into themes and store one research item per theme
+export async function POST(request: NextRequest) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const body = await request.json()
+    const productId = String(body.product_id || '').trim()
+    const content = String(body.content || '')
+    const filename = String(body.filename || '').trim()
+    const defaultSource = body.source ? String(body.source).trim().slice(0, 80) : null
+    const preview = Boolean(body.preview)
+
+    if (!productId || !content.trim()) {
+      return NextResponse.json({ error: 'product_id and content are required' }, { status: 400 })
+    }
+
+    if (!(await canAccessProduct(user, productId))) return forbiddenResponse()
+
+    const format =
+      body.format === 'csv' || body.format === 'json' ? body.format : detectReviewFormat(filename, content)
+    const { headers, rows } = parseReviewFile(content, format)
+    if (headers.length === 0 || rows.length === 0) {
+      return NextResponse.json({ error: `No review rows found in ${format.toUpperCase()} file` }, { status: 400 })
+    }
+
+    const mapping = normalizeMapping(body.mapping, headers) || suggestReviewMapping(headers)
+
+    if (preview) {
+      const sample = mapReviewRows(rows.slice(0, 20), mapping, defaultSource).slice(0, 5)
+      return NextResponse.json({
+        format,
+        headers,
+        mapping,
+        row_count: rows.length,
+        sample,
+      })
+    }
+
+    if (!mapping.body && !mapping.title) {
+      return NextResponse.json({ error: 'Map a body or title column to import reviews' }, { status: 400 })
+    }
+
+    const allReviews = mapReviewRows(rows, mapping, defaultSource)
+    if (allReviews.length === 0) {
+      return NextResponse.json({ error: 'No reviews with text found for this mapping' }, { status: 400 })
+    }
+    const reviews = allReviews.slice(0, MAX_IMPORT_REVIEWS)
+
+    const orgRows = await sql`
+      SELECT brands.organization_id AS organization_id
+      FROM products
+      LEFT JOIN brands ON brands.id = products.brand_id
+      WHERE products.id = ${productId}
+      LIMIT 1
+    `
+    const orgId = orgRows[0]?.organization_id as string | undefined
+    await assertLlmBudget(orgId || null)
+
+    const { model } = await resolveModel({ organizationId: orgId || null, agent: 'review_importer' })
+    const llm = await getLlmClient({ organizationId: orgId || null, model, agent: 'review_importer' })
+    if (!llm) {
+      return NextResponse.json({ error: missingLlmKeyMessage(model) }, { status: 500 })
+    }
+
+    // Same layering as the agent: user override > product > brand > global
+    const blocks = await loadPromptBlocks({ userId: user.id, productId })
+    const themes = await clusterReviews({
+      llm,
+      model,
+      system: getPromptBlockContent(blocks, 'review_theme_system'),
+      template: getPromptBlockContent(blocks, 'review_theme_prompt'),
+      reviews,
+      onMessage: (message) =>
+        recordLlmUsage({
+          organizationId: orgId || null,
+          userId: user.id,
+          productId,
+          feature: 'research_import_reviews',
+          provider: llm.provider,
+          model,
+          usage: message.usage,
+          requestId: message.id,
+          metadata: { filename: filename || null, review_count: reviews.length },
+        }),
+    })
+
+    const existingRows = await sql`
+      SELECT id, name
+      FROM research_categories
+      WHERE product_id = ${productId}
+    `
+    const categoryByName = new Map(
+      existingRows.map((row) => [String(row.name).toLowerCase(), row.id as string] as const)
+    )
+
+    const importId = crypto.randomUUID()
+    const importMeta = {
+      import_id: importId,
+      filename: filename || null,
+      format,
+      mapping,
+      imported_at: new Date().toISOString(),
+    }
+    const created: Array<{
+      item_id: string
+      category_id: string
+      name: string
+      review_count: number
+      quote_count: number
+    }> = []
+
+    for (const theme of themes) {
+      const key = theme.name.toLowerCase()
+      let categoryId = categoryByName.get(key)
+      if (!categoryId) {
+        const rows = await sql`
+          INSERT INTO research_categories (product_id, name, description, created_by)
+          VALUES (${productId}, ${theme.name}, ${theme.description || null}, ${user.id})
+          RETURNING id
+        `
+        categoryId = rows[0].id as string
+        categoryByName.set(key, categoryId)
+      }
+
+      const themeReviews = theme.reviewIndexes.map((idx) => reviews[idx])
+      const ratings = summarizeRatings(themeReviews)
+      const itemContent = themeReviews
+        .map((review) =>
+          [
+            `[${formatRating(review.rating)}]`,
+            review.title ? `${review.title}:` : '',
+            review.body,
+            [review.source, review.date].filter(Boolean).length
+              ? `(${[review.source, review.date].filter(Boolean).join(', ')})`
+              : '',
+          ]
+            .filter(Boolean)
+            .join(' ')
+        )
+        .join('\n\n')
+        .slice(0, MAX_THEME_CONTENT_CHARS)
+      const summary = [
+        theme.description,
+        `${themeReviews.length} review${themeReviews.length === 1 ? '' : 's'}${
+          ratings.average_rating !== null ? `, avg ${ratings.average_rating}/5` : ''
+        }.`,
+      ]
+        .filter(Boolean)
+        .join(' ')
+
+      const itemRows = await sql`
+        INSERT INTO research_items (
+          product_id, category_id, type, title, summary, content, status, metadata, created_by
+        )
+        VALUES (
+          ${productId},
+          ${categoryId},
+          'reviews',
+          ${`Reviews: ${theme.name}`},
+          ${summary},
+          ${itemContent},
+          'organized',
+          ${{
+            review_import: importMeta,
+            review_count: themeReviews.length,
+            ...ratings,
+            quotes: theme.quotes,
+          }},
+          ${user.id}
+        )
+        RETURNING id
+      `
+
+      created.push({
+        item_id: itemRows[0].id as string,
+        category_id: categoryId,
+        name: theme.name,
+        review_count: themeReviews.length,
+        quote_count: theme.quotes.length,
+      })
+    }
+
+    if (created.length > 0) await queueEmbeddingSync(productId)
+
+    return NextResponse.json({
+      import_id: importId,
+      review_count: reviews.length,
+      skipped_count: allReviews.length - reviews.length,
+      themes: created,
+    })
+  } catch (error) {
+    if (isLlmBudgetExceededError(error)) {
+      return NextResponse.json(budgetExceededResponseBody(error), { status: error.status })
+    }
+    console.error('Import reviews error:', error)
+    return NextResponse.json({ error: 'Failed to import reviews' }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { sql } from '@/lib/db'
+import { requireAuth } from '@/lib/require-auth'
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
+import { signR2GetObjectUrl } from '@/lib/r2'
+
+type Params = { params: Promise<{ id: string }> }
+
+// GET /api/research/items/[id]/file-url - Short-lived URL for the uploaded
+// original (e.g. the screenshot behind an OCR'd image item)
+export async function GET(_request: Request, { params }: Params) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { id } = await params
+
+  try {
+    if (!(await canAccessResource(user, 'research_item', id))) return forbiddenResponse()
+
+    const rows = await sql`
+      SELECT research_files.r2_key, research_files.mime, research_files.filename
+      FROM research_items
+      JOIN research_files ON research_files.id = research_items.file_id
+      WHERE research_items.id = ${id}
+      LIMIT 1
+    `
+    const file = rows[0]
+    if (!file?.r2_key) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+    const url = await signR2GetObjectUrl(file.r2_key as string, 300)
+    return NextResponse.json({ url, mime: file.mime ?? null, filename: file.filename })
+  } catch (error) {
+    console.error('Sign research file url error:', error)
+    return NextResponse.json({ error: 'Failed to sign file url' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
 import { deleteR2Object } from '@/lib/r2'
 
 type Params = { params: Promise<{ id: string }> }
@@ -12,6 +13,8 @@ export async function DELETE(_request: Request, { params }: Params) {
   const { id } = await params
 
   try {
+    if (!(await canAccessResource(user, 'research_item', id))) return forbiddenResponse()
+
     const rows = await sql`
       SELECT id, file_id
       FROM research_items
@@ -23,7 +26,7 @@ export async function DELETE(_request: Request, { params }: Params) {
 
     await sql`
       DELETE FROM media_jobs
-      WHERE type = 'ingest_research_file'
+      WHERE type IN ('ingest_research_file', 'ingest_research_url')
         AND input->>'research_item_id' = ${id}
         AND status IN ('queued', 'running')
     `
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
+import { queueEmbeddingSync } from '@/lib/embeddings'
+import { detectResearchFileKind, SUPPORTED_RESEARCH_FILES_LABEL } from '@/lib/research-file-types'
 
 function deriveTitleFromContent(content: string) {
   const firstLine = content
@@ -11,6 +14,15 @@ function deriveTitleFromContent(content: string) {
   return firstLine.slice(0, 120)
 }
 
+function parseHttpUrl(value: string) {
+  try {
+    const u = new URL(value)
+    return u.protocol === 'https:' || u.protocol === 'http:' ? u : null
+  } catch {
+    return null
+  }
+}
+
 export async function GET(request: NextRequest) {
   const user = await requireAuth()
   if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
@@ -26,6 +38,8 @@ export async function GET(request: NextRequest) {
   }
 
   try {
+    if (!(await canAccessProduct(user, productId))) return forbiddenResponse()
+
     const conditions: string[] = ['research_items.product_id = $1']
     const values: any[] = [productId]
     let idx = 2
@@ -90,6 +104,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'product_id and type are required' }, { status: 400 })
     }
 
+    if (!(await canAccessProduct(user, productId))) return forbiddenResponse()
+
     if (type === 'text') {
       const content = String(body.content || '').trim()
       if (!content) return NextResponse.json({ error: 'content is required' }, { status: 400 })
@@ -113,6 +129,7 @@ export async function POST(request: NextRequest) {
         )
         RETURNING *
       `
+      await queueEmbeddingSync(productId)
       return NextResponse.json(rows[0])
     }
 
@@ -126,6 +143,15 @@ export async function POST(request: NextRequest) {
       if (!r2Key || !filename) {
         return NextResponse.json({ error: 'file.key and file.filename are required' }, { status: 400 })
       }
+      if (!r2Key.startsWith(`products/${productId}/`)) return forbiddenResponse()
+      // Screenshots are OCR'd by the worker and stay viewable as image items
+      const kind = detectResearchFileKind(filename, mime)
+      if (!kind) {
+        return NextResponse.json(
+          { error: `Unsupported file type for ${filename}. Supported: ${SUPPORTED_RESEARCH_FILES_LABEL}` },
+          { status: 400 }
+        )
+      }
 
       const fileRows = await sql`
         INSERT INTO research_files (product_id, filename, mime, size_bytes, r2_key, status)
@@ -141,7 +167,7 @@ export async function POST(request: NextRequest) {
         VALUES (
           ${productId},
           ${categoryId},
-          'file',
+          ${kind === 'image' ? 'image' : 'file'},
           ${filename},
           ${fileRow.id},
           'processing',
@@ -171,6 +197,48 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(item)
     }
 
+    if (type === 'url') {
+      const url = String(body.url || body.source_url || '').trim()
+      const parsed = parseHttpUrl(url)
+      if (!parsed) {
+        return NextResponse.json({ error: 'url must be an http(s) URL' }, { status: 400 })
+      }
+      const title = body.title ? String(body.title).trim() : parsed.hostname.replace(/^www\./, '')
+
+      const itemRows = await sql`
+        INSERT INTO research_items (
+          product_id, category_id, type, title, source_url, status, created_by
+        )
+        VALUES (
+          ${productId},
+          ${categoryId},
+          'url',
+          ${title},
+          ${url},
+          'processing',
+          ${user.id}
+        )
+        RETURNING *
+      `
+      const item = itemRows[0]
+
+      await sql`
+        INSERT INTO media_jobs (type, status, input)
+        VALUES (
+          'ingest_research_url',
+          'queued',
+          ${{
+            research_item_id: item.id,
+            product_id: productId,
+            url,
+            user_id: user.id,
+          }}
+        )
+      `
+
+      return NextResponse.json(item)
+    }
+
     return NextResponse.json({ error: 'Unsupported type' }, { status: 400 })
   } catch (error) {
     console.error('Create research item error:', error)
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
+import { getOrganizeJob, ORGANIZE_TERMINAL_STATUSES } from '@/lib/research-organize'
+
+export const maxDuration = 300
+
+type Params = { params: Promise<{ jobId: string }> }
+
+const POLL_INTERVAL_MS = 1500
+// Close before maxDuration; EventSource reconnects and picks up where it left off
+const STREAM_WINDOW_MS = 270_000
+
+function writeSseEvent(
+  controller: ReadableStreamDefaultController<Uint8Array>,
+  encoder: TextEncoder,
+  payload: Record<string, unknown>
+) {
+  controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`))
+}
+
+// GET /api/research/organize/[jobId]/stream - Server-sent progress for an organize run.
+// Emits { type: 'progress', job } whenever the job row changes and
+// { type: 'done', job } once it completes, fails or is cancelled.
+export async function GET(request: NextRequest, { params }: Params) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { jobId } = await params
+  const initial = await getOrganizeJob(jobId)
+  if (!initial) return NextResponse.json({ error: 'Organize job not found' }, { status: 404 })
+  if (!(await canAccessProduct(user, initial.product_id))) return forbiddenResponse()
+
+  const encoder = new TextEncoder()
+  const startedAt = Date.now()
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      void (async () => {
+        let lastUpdatedAt = ''
+        try {
+          while (!request.signal.aborted && Date.now() - startedAt < STREAM_WINDOW_MS) {
+            const job = await getOrganizeJob(jobId)
+            if (!job) {
+              writeSseEvent(controller, encoder, { type: 'error', error: 'Organize job not found' })
+              break
+            }
+            if (ORGANIZE_TERMINAL_STATUSES.includes(job.status)) {
+              writeSseEvent(controller, encoder, { type: 'done', job })
+              break
+            }
+            if (job.updated_at !== lastUpdatedAt) {
+              lastUpdatedAt = job.updated_at
+              writeSseEvent(controller, encoder, { type: 'progress', job })
+            }
+            await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+          }
+        } catch (error) {
+          console.error('Organize stream error:', error)
+          writeSseEvent(controller, encoder, { type: 'error', error: 'Failed to read organize progress' })
+        } finally {
+          controller.close()
+        }
+      })()
+    },
+  })
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
@@ -1,9 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server'
-import Anthropic from '@anthropic-ai/sdk'
 import { sql } from '@/lib/db'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
+import { queueEmbeddingSync } from '@/lib/embeddings'
 import { DEFAULT_PROMPT_BLOCKS } from '@/lib/prompt-defaults'
-import { getOrgApiKey } from '@/lib/api-keys'
+import {
+  assertLlmBudget,
+  budgetExceededResponseBody,
+  isLlmBudgetExceededError,
+  recordLlmUsage,
+} from '@/lib/llm-usage'
+import { getLlmClient, missingLlmKeyMessage, responseText } from '@/lib/llm-client'
+import { resolveModel } from '@/lib/model-settings'
+import { formatReviewQuote, getReviewQuotes } from '@/lib/review-import'
+import {
+  collectEvidenceItemIds,
+  recordProvenance,
+  resolveEvidence,
+  type EvidenceRef,
+  type EvidenceSourceItem,
+} from '@/lib/research-provenance'
 
 type PromptBlockRow = {
   id: string
@@ -19,11 +35,17 @@ type ExtractFlags = {
   awareness: boolean
 }
 
+// Every proposal carries the research items (and quote spans) it was drawn from
 type SynthesisProposals = {
-  avatars: Array<{ name: string; content: string }>
-  positionings: Array<{ name: string; content: string }>
-  quotes: Array<{ quote: string; source?: string; note?: string }>
-  awareness_insights: Array<{ name: string; summary: string; application?: string }>
+  avatars: Array<{ name: string; content: string; evidence: EvidenceRef[] }>
+  positionings: Array<{ name: string; content: string; evidence: EvidenceRef[] }>
+  quotes: Array<{ quote: string; source?: string; note?: string; evidence: EvidenceRef[] }>
+  awareness_insights: Array<{
+    name: string
+    summary: string
+    application?: string
+    evidence: EvidenceRef[]
+  }>
 }
 
 const DEFAULT_EXTRACT: ExtractFlags = {
@@ -58,12 +80,30 @@ function compact(value: unknown, max = 4000) {
     .slice(0, max)
 }
 
-function normalizeProposals(value: any): SynthesisProposals {
+// Imported review quotes go in verbatim so synthesis can cite them as evidence
+function formatSynthesisItem(item: any, idx: number) {
+  const quotes = getReviewQuotes(item.metadata)
+  const lines = [
+    `${idx + 1}. ID: ${item.id}`,
+    `Title: ${item.title || '(none)'}`,
+    `Summary: ${item.summary || ''}`,
+  ]
+  if (quotes.length > 0) {
+    lines.push(`Customer quotes (verbatim):\n${quotes.map((q) => `- ${formatReviewQuote(q)}`).join('\n')}`)
+    lines.push(`Excerpt: ${(item.content || '').slice(0, 600)}`)
+  } else {
+    lines.push(`Excerpt: ${(item.content || '').slice(0, 1200)}`)
+  }
+  return lines.join('\n')
+}
+
+function normalizeProposals(value: any, items: EvidenceSourceItem[]): SynthesisProposals {
   const avatars = Array.isArray(value?.avatars)
     ? value.avatars
         .map((row: any) => ({
           name: compact(row?.name, 100),
           content: compact(row?.content, 4000),
+          evidence: resolveEvidence(row?.evidence, items),
         }))
         .filter((row: any) => row.name && row.content)
         .slice(0, 6)
@@ -74,6 +114,7 @@ function normalizeProposals(value: any): SynthesisProposals {
         .map((row: any) => ({
           name: compact(row?.name, 100),
           content: compact(row?.content, 4000),
+          evidence: resolveEvidence(row?.evidence, items),
         }))
         .filter((row: any) => row.name && row.content)
         .slice(0, 6)
@@ -85,6 +126,7 @@ function normalizeProposals(value: any): SynthesisProposals {
           quote: compact(row?.quote, 1200),
           source: compact(row?.source, 200),
           note: compact(row?.note, 600),
+          evidence: resolveEvidence(row?.evidence, items),
         }))
         .filter((row: any) => row.quote)
         .slice(0, 10)
@@ -96,6 +138,7 @@ function normalizeProposals(value: any): SynthesisProposals {
           name: compact(row?.name, 100),
           summary: compact(row?.summary, 1000),
           application: compact(row?.application, 700),
+          evidence: resolveEvidence(row?.evidence, items),
         }))
         .filter((row: any) => row.name && row.summary)
         .slice(0, 8)
@@ -184,6 +227,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'product_id is required' }, { status: 400 })
     }
 
+    if (!(await canAccessProduct(user, productId))) return forbiddenResponse()
+
     if (!extract.avatars && !extract.positioning && !extract.quotes && !extract.awareness) {
       return NextResponse.json({ error: 'At least one extract flag must be enabled' }, { status: 400 })
     }
@@ -197,7 +242,7 @@ export async function POST(request: NextRequest) {
 
     const items = await sql.query(
       `
-      SELECT id, title, summary, content
+      SELECT id, title, summary, content, metadata
       FROM research_items
       WHERE product_id = $1
       ${idClause}
@@ -225,7 +270,23 @@ export async function POST(request: NextRequest) {
     `
     const orgId = orgRows[0]?.organization_id as string | undefined
 
-    const provided = normalizeProposals(body.proposals)
+    // Applied proposals are re-resolved so client-supplied citations must
+    // still point at this product's items
+    const sourceItems = items as EvidenceSourceItem[]
+    if (apply) {
+      const loadedIds = new Set(sourceItems.map((item) => String(item.id)))
+      const citedIds = collectEvidenceItemIds(body.proposals).filter((id) => !loadedIds.has(id))
+      if (citedIds.length > 0) {
+        const citedItems = await sql`
+          SELECT id, title, summary, content, metadata
+          FROM research_items
+          WHERE product_id = ${productId}
+            AND id = ANY(${citedIds}::uuid[])
+        `
+        sourceItems.push(...(citedItems as EvidenceSourceItem[]))
+      }
+    }
+    const provided = normalizeProposals(body.proposals, sourceItems)
     const shouldGenerate =
       !apply ||
       (
@@ -237,17 +298,14 @@ export async function POST(request: NextRequest) {
 
     let proposals = provided
     if (shouldGenerate) {
-      const anthropicKey = await getOrgApiKey('anthropic', orgId || null)
-      if (!anthropicKey) {
-        return NextResponse.json({ error: 'ANTHROPIC_API_KEY is not set' }, { status: 500 })
+      await assertLlmBudget(orgId || null)
+      const { model } = await resolveModel({ organizationId: orgId || null, agent: 'research_synthesis' })
+      const llm = await getLlmClient({ organizationId: orgId || null, model, agent: 'research_synthesis' })
+      if (!llm) {
+        return NextResponse.json({ error: missingLlmKeyMessage(model) }, { status: 500 })
       }
 
-      const itemsText = items
-        .map(
-          (item: any, idx: number) =>
-            `${idx + 1}. ID: ${item.id}\nTitle: ${item.title || '(none)'}\nSummary: ${item.summary || ''}\nExcerpt: ${(item.content || '').slice(0, 1200)}`
-        )
-        .join('\n\n')
+      const itemsText = items.map(formatSynthesisItem).join('\n\n')
 
       const extractText = [
         `avatars=${extract.avatars}`,
@@ -261,22 +319,29 @@ export async function POST(request: NextRequest) {
       const template = getPromptBlockContent(blocks, 'research_synthesis_prompt')
       const prompt = applyTemplate(template, { items: itemsText, extract: extractText })
 
-      const anthropic = new Anthropic({ apiKey: anthropicKey })
-      const model = process.env.ANTHROPIC_SYNTHESIZE_MODEL || process.env.ANTHROPIC_ORGANIZE_MODEL || 'claude-3-5-haiku-latest'
-
-      const message = await anthropic.messages.create({
+      const message = await llm.create({
         model,
-        max_tokens: 1600,
+        max_tokens: 3000,
         system: system || undefined,
         messages: [{ role: 'user', content: prompt }],
       })
+      await recordLlmUsage({
+        organizationId: orgId || null,
+        userId: user.id,
+        productId,
+        feature: 'research_synthesize',
+        provider: llm.provider,
+        model,
+        usage: message.usage,
+        requestId: message.id,
+        metadata: { item_count: items.length },
+      })
 
-      const text = (message.content as any[]).find((c) => c.type === 'text')?.text || ''
-      const parsed = parseJsonPayload(text)
+      const parsed = parseJsonPayload(responseText(message))
       if (!parsed) {
         return NextResponse.json({ error: 'Failed to parse synthesis output' }, { status: 500 })
       }
-      proposals = normalizeProposals(parsed)
+      proposals = normalizeProposals(parsed, sourceItems)
     }
 
     if (!apply) {
@@ -295,7 +360,16 @@ export async function POST(request: NextRequest) {
         VALUES (${productId}, ${avatar.name}, ${avatar.content}, false)
         RETURNING id
       `
-      if (rows[0]?.id) created.avatar_ids.push(rows[0].id)
+      if (rows[0]?.id) {
+        created.avatar_ids.push(rows[0].id)
+        await recordProvenance({
+          productId,
+          targetType: 'avatar',
+          targetId: rows[0].id,
+          evidence: avatar.evidence,
+          userId: user.id,
+        })
+      }
     }
 
     for (const positioning of proposals.positionings) {
@@ -310,7 +384,16 @@ export async function POST(request: NextRequest) {
         )
         RETURNING id
       `
-      if (rows[0]?.id) created.pitch_ids.push(rows[0].id)
+      if (rows[0]?.id) {
+        created.pitch_ids.push(rows[0].id)
+        await recordProvenance({
+          productId,
+          targetType: 'pitch',
+          targetId: rows[0].id,
+          evidence: positioning.evidence,
+          userId: user.id,
+        })
+      }
     }
 
     const hasInsightNotes =
@@ -332,7 +415,7 @@ export async function POST(request: NextRequest) {
           .join('\n')
         const rows = await sql`
           INSERT INTO research_items (
-            product_id, category_id, type, title, summary, content, status, created_by
+            product_id, category_id, type, title, summary, content, status, metadata, created_by
           ) VALUES (
             ${productId},
             ${insightsCategoryId},
@@ -341,6 +424,7 @@ export async function POST(request: NextRequest) {
             ${quote.note || null},
             ${content},
             'organized',
+            ${{ evidence: quote.evidence }},
             ${user.id}
           )
           RETURNING id
@@ -357,7 +441,7 @@ export async function POST(request: NextRequest) {
           .join('\n\n')
         const rows = await sql`
           INSERT INTO research_items (
-            product_id, category_id, type, title, summary, content, status, created_by
+            product_id, category_id, type, title, summary, content, status, metadata, created_by
           ) VALUES (
             ${productId},
             ${insightsCategoryId},
@@ -366,6 +450,7 @@ export async function POST(request: NextRequest) {
             ${insight.summary.slice(0, 320)},
             ${content},
             'organized',
+            ${{ evidence: insight.evidence }},
             ${user.id}
           )
           RETURNING id
@@ -374,6 +459,10 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (created.avatar_ids.length > 0 || created.research_item_ids.length > 0) {
+      await queueEmbeddingSync(productId)
+    }
+
     let attachedToThread = false
     if (threadId && created.research_item_ids.length > 0) {
       const threadRows = await sql`
@@ -399,6 +488,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ created, attached_to_thread: attachedToThread })
   } catch (error) {
+    if (isLlmBudgetExceededError(error)) {
+      return NextResponse.json(budgetExceededResponseBody(error), { status: error.status })
+    }
     console.error('Synthesize research error:', error)
     return NextResponse.json({ error: 'Failed to synthesize research' }, { status: 500 })
   }
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import crypto from 'node:crypto'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
 import { signR2PutObjectUrl } from '@/lib/r2'
+import { getResearchFileType, SUPPORTED_RESEARCH_FILES_LABEL } from '@/lib/research-file-types'
 
 function safeFilename(name: string) {
   return name.replace(/[^a-zA-Z0-9._-]+/g, '_')
@@ -22,6 +24,16 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'product_id and filename are required' }, { status: 400 })
     }
 
+    const fileType = getResearchFileType(filename, mime)
+    if (!fileType) {
+      return NextResponse.json(
+        { error: `Unsupported file type for ${filename}. Supported: ${SUPPORTED_RESEARCH_FILES_LABEL}` },
+        { status: 400 }
+      )
+    }
+
+    if (!(await canAccessProduct(user, productId))) return forbiddenResponse()
+
     const id = crypto.randomUUID()
     const key = `products/${productId}/research/${id}/${safeFilename(filename)}`
     const uploadUrl = await signR2PutObjectUrl(key, mime, 300)
@@ -31,6 +43,7 @@ export async function POST(request: NextRequest) {
       r2_key: key,
       mime,
       size,
+      kind: fileType.kind,
     })
   } catch (error) {
     console.error('Create research upload error:', error)
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sql } from '@/lib/db'
+import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
+import { isEmbeddingSubjectType, semanticSearch } from '@/lib/embeddings'
+
+// GET /api/search?product_id=&q=&types=research_item,swipe,avatar&limit=
+// Ranked semantic search across a product's research, swipes and avatars.
+export async function GET(request: NextRequest) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { searchParams } = new URL(request.url)
+  const productId = String(searchParams.get('product_id') || '').trim()
+  const q = String(searchParams.get('q') || '').trim()
+  const typesParam = String(searchParams.get('types') || '').trim()
+  const limit = Number(searchParams.get('limit') || 10)
+
+  if (!productId || !q) {
+    return NextResponse.json({ error: 'product_id and q are required' }, { status: 400 })
+  }
+
+  const types = typesParam ? typesParam.split(',').map((t) => t.trim()) : []
+  const invalid = types.filter((t) => !isEmbeddingSubjectType(t))
+  if (invalid.length > 0) {
+    return NextResponse.json({ error: `Unsupported types: ${invalid.join(', ')}` }, { status: 400 })
+  }
+
+  try {
+    if (!(await canAccessProduct(user, productId))) return forbiddenResponse()
+
+    const orgRows = await sql`
+      SELECT brands.organization_id AS organization_id
+      FROM products
+      LEFT JOIN brands ON brands.id = products.brand_id
+      WHERE products.id = ${productId}
+      LIMIT 1
+    `
+    const orgId = (orgRows[0]?.organization_id as string | undefined) || null
+
+    const result = await semanticSearch({
+      productId,
+      orgId,
+      userId: user.id,
+      query: q,
+      types: types.filter(isEmbeddingSubjectType),
+      limit: Number.isFinite(limit) ? limit : 10,
+    })
+
+    return NextResponse.json({ query: q, ...result })
+  } catch (error) {
+    console.error('Semantic search error:', error)
+    return NextResponse.json({ error: 'Search failed' }, { status: 500 })
+  }
+}
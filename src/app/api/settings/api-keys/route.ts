@@ -3,6 +3,7 @@ import { sql } from '@/lib/db'
 import { encryptSecret } from '@/lib/secrets'
 import { getOrgApiKeyStatus, ApiKeyProvider } from '@/lib/api-keys'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessOrganization, forbiddenResponse } from '@/lib/access'
 
 const PROVIDERS: ApiKeyProvider[] = ['openai', 'anthropic']
 
@@ -19,6 +20,8 @@ export async function GET(request: NextRequest) {
   if (!orgId) return NextResponse.json({ error: 'org_id is required' }, { status: 400 })
 
   try {
+    if (!(await canAccessOrganization(user, orgId))) return forbiddenResponse()
+
     const providers = await getOrgApiKeyStatus(orgId)
     return NextResponse.json({ org_id: orgId, providers })
   } catch (error: any) {
@@ -44,6 +47,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unsupported provider' }, { status: 400 })
     }
 
+    if (!(await canAccessOrganization(user, orgId))) return forbiddenResponse()
+
     const encrypted = encryptSecret(apiKey)
     const last4 = apiKey.slice(-4)
 
@@ -80,6 +85,8 @@ export async function DELETE(request: NextRequest) {
   }
 
   try {
+    if (!(await canAccessOrganization(user, orgId))) return forbiddenResponse()
+
     await sql`
       DELETE FROM organization_api_keys
       WHERE organization_id = ${orgId}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/require-auth'
+import { canAccessOrganization, forbiddenResponse } from '@/lib/access'
+import { builtInAgentModel, LLM_AGENTS, LLM_MODELS } from '@/lib/model-registry'
+import { getOrgModelSettings, saveOrgModelSettings } from '@/lib/model-settings'
+import { modelSettingsSchema } from '@/lib/validations'
+
+// Deployment defaults depend on server env vars, so the page reads them from here
+function agentDefaults() {
+  return Object.fromEntries(LLM_AGENTS.map((agent) => [agent.id, builtInAgentModel(agent.id, process.env)]))
+}
+
+// GET /api/settings/models?org_id= - Model registry and the org's overrides
+export async function GET(request: NextRequest) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { searchParams } = new URL(request.url)
+  const orgId = String(searchParams.get('org_id') || '').trim()
+  if (!orgId) return NextResponse.json({ error: 'org_id is required' }, { status: 400 })
+
+  try {
+    if (!(await canAccessOrganization(user, orgId))) return forbiddenResponse()
+
+    const settings = await getOrgModelSettings(orgId)
+    return NextResponse.json({
+      org_id: orgId,
+      models: LLM_MODELS,
+      agents: LLM_AGENTS,
+      agent_defaults: agentDefaults(),
+      settings,
+    })
+  } catch (error) {
+    console.error('Load model settings error:', error)
+    return NextResponse.json({ error: 'Failed to load model settings' }, { status: 500 })
+  }
+}
+
+// PUT /api/settings/models - Replace the org's default model and overrides
+export async function PUT(request: NextRequest) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const body = await request.json()
+    const validated = modelSettingsSchema.safeParse(body)
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { organization_id: orgId, ...settings } = validated.data
+    if (!(await canAccessOrganization(user, orgId))) return forbiddenResponse()
+
+    const saved = await saveOrgModelSettings({ organizationId: orgId, settings, userId: user.id })
+    return NextResponse.json({ settings: saved, agent_defaults: agentDefaults() })
+  } catch (error) {
+    console.error('Save model settings error:', error)
+    return NextResponse.json({ error: 'Failed to save model settings' }, { status: 500 })
+  }
+}
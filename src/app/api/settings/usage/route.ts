@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/require-auth'
+import { canAccessOrganization, forbiddenResponse } from '@/lib/access'
+import { getLlmUsageSummary, saveLlmBudget } from '@/lib/llm-usage'
+import { llmBudgetSchema } from '@/lib/validations'
+
+// GET /api/settings/usage?org_id= - Month-to-date LLM usage, cost and budget
+export async function GET(request: NextRequest) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { searchParams } = new URL(request.url)
+  const orgId = String(searchParams.get('org_id') || '').trim()
+  if (!orgId) return NextResponse.json({ error: 'org_id is required' }, { status: 400 })
+
+  try {
+    if (!(await canAccessOrganization(user, orgId))) return forbiddenResponse()
+
+    const summary = await getLlmUsageSummary(orgId)
+    return NextResponse.json({ org_id: orgId, ...summary })
+  } catch (error) {
+    console.error('Load LLM usage error:', error)
+    return NextResponse.json({ error: 'Failed to load usage' }, { status: 500 })
+  }
+}
+
+// PUT /api/settings/usage - Set or clear the org's monthly budget
+export async function PUT(request: NextRequest) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const body = await request.json()
+    const validated = llmBudgetSchema.safeParse(body)
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const input = validated.data
+    if (!(await canAccessOrganization(user, input.organization_id))) return forbiddenResponse()
+
+    const budget = await saveLlmBudget({
+      organizationId: input.organization_id,
+      monthlyBudgetUsd: input.monthly_budget_usd,
+      warnAtPercent: input.warn_at_percent,
+      hardStop: input.hard_stop,
+      userId: user.id,
+    })
+    return NextResponse.json({ budget })
+  } catch (error) {
+    console.error('Save LLM budget error:', error)
+    return NextResponse.json({ error: 'Failed to save budget' }, { status: 500 })
+  }
+}
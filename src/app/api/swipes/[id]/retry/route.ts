@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
 
 const STALE_MS = 10 * 60 * 1000
 
@@ -13,8 +14,10 @@ export async function POST(_request: Request, { params }: Params) {
   const { id } = await params
 
   try {
+    if (!(await canAccessResource(user, 'swipe', id))) return forbiddenResponse()
+
     const swipeRows = await sql`
-      SELECT id, product_id, source, source_url, status, updated_at, created_at
+      SELECT id, product_id, source, source_url, status, metadata, updated_at, created_at
       FROM swipes
       WHERE id = ${id}
       LIMIT 1
@@ -26,10 +29,23 @@ export async function POST(_request: Request, { params }: Params) {
       return NextResponse.json({ error: 'Retry is only available for URL-based swipes' }, { status: 400 })
     }
 
+    // Uploaded swipes re-run from the stored file/URL instead of scraping
+    const jobType = swipe.source === 'upload' ? 'ingest_swipe_upload' : 'ingest_meta_ad'
+    const jobInput =
+      swipe.source === 'upload'
+        ? { ...(swipe.metadata?.upload || {}), swipe_id: swipe.id, product_id: swipe.product_id, user_id: user.id }
+        : {
+            swipe_id: swipe.id,
+            product_id: swipe.product_id,
+            url: swipe.source_url,
+            source: swipe.source,
+            user_id: user.id,
+          }
+
     const jobRows = await sql`
       SELECT id, status, updated_at
       FROM media_jobs
-      WHERE type = 'ingest_meta_ad'
+      WHERE type = ${jobType}
         AND input->>'swipe_id' = ${id}
       ORDER BY created_at DESC
       LIMIT 1
@@ -78,14 +94,9 @@ export async function POST(_request: Request, { params }: Params) {
     const createdJobs = await sql`
       INSERT INTO media_jobs (type, status, input)
       VALUES (
-        'ingest_meta_ad',
+        ${jobType},
         'queued',
-        ${{
-          swipe_id: swipe.id,
-          product_id: swipe.product_id,
-          url: swipe.source_url,
-          user_id: user.id,
-        }}
+        ${jobInput}
       )
       RETURNING id
     `
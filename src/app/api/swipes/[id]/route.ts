@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
 import { deleteR2Object } from '@/lib/r2'
+import { getSwipeShots } from '@/lib/swipe-shots'
 
 export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
   const user = await requireAuth()
@@ -12,6 +14,8 @@ export async function GET(request: NextRequest, context: { params: Promise<{ id:
   const { id } = await context.params
 
   try {
+    if (!(await canAccessResource(user, 'swipe', id))) return forbiddenResponse()
+
     const rows = await sql`
       SELECT
         swipes.*,
@@ -53,8 +57,10 @@ export async function DELETE(_request: NextRequest, context: { params: Promise<{
   const { id } = await context.params
 
   try {
+    if (!(await canAccessResource(user, 'swipe', id))) return forbiddenResponse()
+
     const rows = await sql`
-      SELECT id, r2_video_key, r2_image_key
+      SELECT id, r2_video_key, r2_image_key, metadata, shots
       FROM swipes
       WHERE id = ${id}
       LIMIT 1
@@ -83,6 +89,25 @@ export async function DELETE(_request: NextRequest, context: { params: Promise<{
       }
     }
 
+    for (const shot of getSwipeShots(swipe.shots)) {
+      if (!shot.frame_key) continue
+      try {
+        await deleteR2Object(shot.frame_key)
+      } catch (err) {
+        console.warn('Failed to delete swipe keyframe from R2:', err)
+      }
+    }
+
+    // Staged upload is only left behind when processing never completed
+    const uploadKey = swipe.metadata?.upload?.r2_key
+    if (typeof uploadKey === 'string' && uploadKey) {
+      try {
+        await deleteR2Object(uploadKey)
+      } catch (err) {
+        console.warn('Failed to delete staged swipe upload from R2:', err)
+      }
+    }
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Delete swipe error:', error)
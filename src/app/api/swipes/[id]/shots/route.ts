@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { sql } from '@/lib/db'
+import { requireAuth } from '@/lib/require-auth'
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
+import { signR2GetObjectUrl } from '@/lib/r2'
+import { getSwipeShots } from '@/lib/swipe-shots'
+
+// GET /api/swipes/[id]/shots - Shot list with signed keyframe URLs
+export async function GET(_request: Request, context: { params: Promise<{ id: string }> }) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { id } = await context.params
+
+  try {
+    if (!(await canAccessResource(user, 'swipe', id))) return forbiddenResponse()
+
+    const rows = await sql`
+      SELECT id, shots
+      FROM swipes
+      WHERE id = ${id}
+      LIMIT 1
+    `
+    const swipe = rows[0]
+    if (!swipe) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+    const shots = await Promise.all(
+      getSwipeShots(swipe.shots).map(async (shot) => ({
+        ...shot,
+        frame_url: shot.frame_key ? await signR2GetObjectUrl(shot.frame_key, 600) : null,
+      }))
+    )
+    return NextResponse.json({ shots })
+  } catch (error) {
+    console.error('Get swipe shots error:', error)
+    return NextResponse.json({ error: 'Failed to load shot list' }, { status: 500 })
+  }
+}
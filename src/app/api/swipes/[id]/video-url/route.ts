@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { requireAuth } from '@/lib/require-auth'
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
 import { signR2GetObjectUrl } from '@/lib/r2'
 
 export async function GET(_request: Request, context: { params: Promise<{ id: string }> }) {
@@ -10,6 +11,8 @@ export async function GET(_request: Request, context: { params: Promise<{ id: st
   const { id } = await context.params
 
   try {
+    if (!(await canAccessResource(user, 'swipe', id))) return forbiddenResponse()
+
     const rows = await sql`
       SELECT id, status, r2_video_key
       FROM swipes
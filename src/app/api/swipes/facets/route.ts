@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sql } from '@/lib/db'
+import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
+import { SWIPE_TAG_DIMENSIONS, swipeTagFiltersFromParams, swipeTagLabel } from '@/lib/swipe-taxonomy'
+
+const MAX_VALUES_PER_FACET = 20
+
+// GET /api/swipes/facets?product_id=&format=... - Tag counts per taxonomy
+// dimension. Each dimension is counted under the other active filters (not its
+// own), so picking a format still shows the alternative formats.
+export async function GET(request: NextRequest) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { searchParams } = new URL(request.url)
+  const productId = String(searchParams.get('product_id') || '').trim()
+  const tagFilter = swipeTagFiltersFromParams(searchParams)
+
+  if (!productId) {
+    return NextResponse.json({ error: 'product_id is required' }, { status: 400 })
+  }
+
+  try {
+    if (!(await canAccessProduct(user, productId))) return forbiddenResponse()
+
+    const rows = await sql`
+      SELECT tag.key, tag.value, COUNT(*)::int AS count
+      FROM swipes
+      CROSS JOIN LATERAL jsonb_each_text(swipes.tags) AS tag
+      WHERE swipes.product_id = ${productId}
+        AND swipes.tags @> (${tagFilter}::jsonb - tag.key)
+      GROUP BY tag.key, tag.value
+      ORDER BY count DESC, tag.value ASC
+    `
+
+    const facets = SWIPE_TAG_DIMENSIONS.map((dimension) => ({
+      key: dimension.key,
+      label: dimension.label,
+      values: rows
+        .filter((row) => row.key === dimension.key)
+        .slice(0, MAX_VALUES_PER_FACET)
+        .map((row) => ({
+          value: String(row.value),
+          label: swipeTagLabel(dimension.key, String(row.value)),
+          count: Number(row.count),
+        })),
+    }))
+
+    return NextResponse.json({ facets })
+  } catch (error) {
+    console.error('Swipe facets error:', error)
+    return NextResponse.json({ error: 'Failed to load swipe facets' }, { status: 500 })
+  }
+}
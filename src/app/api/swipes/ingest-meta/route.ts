@@ -1,20 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { sql } from '@/lib/db'
 import { requireAuth } from '@/lib/require-auth'
-
-function classifySwipeUrl(url: string): { supported: boolean; source: string } {
-  try {
-    const u = new URL(url)
-    if (u.hostname !== 'facebook.com' && !u.hostname.endsWith('.facebook.com')) return { supported: false, source: '' }
-    if (u.pathname.includes('/ads/library')) return { supported: true, source: 'meta_ad_library' }
-    if (u.pathname.includes('/reel/')) return { supported: true, source: 'facebook_reel' }
-    if (u.pathname.includes('/posts/') || u.pathname.includes('/permalink/'))
-      return { supported: true, source: 'facebook_post' }
-    return { supported: false, source: '' }
-  } catch {
-    return { supported: false, source: '' }
-  }
-}
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
+import { classifySwipeUrl, SUPPORTED_SWIPE_URLS_LABEL } from '@/lib/swipe-sources'
 
 export async function POST(request: NextRequest) {
   const user = await requireAuth()
@@ -29,10 +17,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'product_id and url are required' }, { status: 400 })
     }
 
+    if (!(await canAccessProduct(user, productId))) return forbiddenResponse()
+
     const urlInfo = classifySwipeUrl(sourceUrl)
     if (!urlInfo.supported) {
       return NextResponse.json(
-        { error: 'Unsupported URL. Supported: Meta Ad Library, Facebook posts, Facebook reels.' },
+        { error: `Unsupported URL. Supported: ${SUPPORTED_SWIPE_URLS_LABEL}.` },
         { status: 400 }
       )
     }
@@ -82,6 +72,7 @@ export async function POST(request: NextRequest) {
           swipe_id: swipe.id,
           product_id: productId,
           url: sourceUrl,
+          source: urlInfo.source,
           user_id: user.id,
         }}
       )
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import crypto from 'node:crypto'
+import { sql } from '@/lib/db'
+import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
+import { isSwipeUploadMime } from '@/lib/swipe-sources'
+
+function isHttpUrl(value: string) {
+  try {
+    const u = new URL(value)
+    return u.protocol === 'https:' || u.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const body = await request.json()
+    const productId = String(body.product_id || '').trim()
+    const title = body.title ? String(body.title).trim() : null
+    const file = body.file || null
+    const mediaUrl = String(body.media_url || '').trim()
+
+    if (!productId || (!file && !mediaUrl)) {
+      return NextResponse.json({ error: 'product_id and file or media_url are required' }, { status: 400 })
+    }
+
+    if (!(await canAccessProduct(user, productId))) return forbiddenResponse()
+
+    let upload: {
+      r2_key: string | null
+      filename: string | null
+      mime: string | null
+      size: number | null
+      media_url: string | null
+    }
+    let sourceUrl: string
+
+    if (file) {
+      const r2Key = String(file.key || '').trim()
+      const filename = String(file.filename || '').trim()
+      const mime = file.mime ? String(file.mime) : ''
+      const size = file.size ? Number(file.size) : null
+
+      if (!r2Key || !filename) {
+        return NextResponse.json({ error: 'file.key and file.filename are required' }, { status: 400 })
+      }
+      if (!r2Key.startsWith(`products/${productId}/swipes/uploads/`)) return forbiddenResponse()
+      if (!isSwipeUploadMime(mime)) {
+        return NextResponse.json({ error: 'Only video and image files can be uploaded as swipes' }, { status: 400 })
+      }
+
+      upload = { r2_key: r2Key, filename, mime, size, media_url: null }
+      sourceUrl = `upload:${crypto.randomUUID()}`
+    } else {
+      if (!isHttpUrl(mediaUrl)) {
+        return NextResponse.json({ error: 'media_url must be an http(s) URL' }, { status: 400 })
+      }
+      upload = { r2_key: null, filename: null, mime: null, size: null, media_url: mediaUrl }
+      sourceUrl = mediaUrl
+    }
+
+    // Direct URLs dedupe like scraped swipes; file uploads always create a new row
+    const swipeRows = await sql`
+      INSERT INTO swipes (product_id, source, source_url, status, title, metadata, created_by)
+      VALUES (
+        ${productId},
+        'upload',
+        ${sourceUrl},
+        'processing',
+        ${title || upload.filename},
+        ${{ upload }},
+        ${user.id}
+      )
+      ON CONFLICT (product_id, source, source_url) DO UPDATE SET
+        updated_at = NOW(),
+        status = CASE WHEN swipes.status = 'failed' THEN 'processing' ELSE swipes.status END,
+        error_message = CASE WHEN swipes.status = 'failed' THEN NULL ELSE swipes.error_message END
+      RETURNING *
+    `
+    const swipe = swipeRows[0]
+    if (!swipe) {
+      return NextResponse.json({ error: 'Failed to create swipe' }, { status: 500 })
+    }
+
+    if (swipe.status === 'ready') {
+      return NextResponse.json({ swipe_id: swipe.id, job_id: null, status: swipe.status })
+    }
+
+    const existingJobRows = await sql`
+      SELECT id, status
+      FROM media_jobs
+      WHERE type = 'ingest_swipe_upload'
+        AND status IN ('queued', 'running')
+        AND input->>'swipe_id' = ${swipe.id}
+      ORDER BY created_at DESC
+      LIMIT 1
+    `
+    const existingJob = existingJobRows[0]
+
+    if (existingJob) {
+      return NextResponse.json({ swipe_id: swipe.id, job_id: existingJob.id, status: swipe.status })
+    }
+
+    const jobRows = await sql`
+      INSERT INTO media_jobs (type, status, input)
+      VALUES (
+        'ingest_swipe_upload',
+        'queued',
+        ${{
+          swipe_id: swipe.id,
+          product_id: productId,
+          ...upload,
+          user_id: user.id,
+        }}
+      )
+      RETURNING *
+    `
+    const job = jobRows[0]
+
+    return NextResponse.json({
+      swipe_id: swipe.id,
+      job_id: job?.id ?? null,
+      status: swipe.status,
+    })
+  } catch (error) {
+    console.error('Ingest swipe upload error:', error)
+    return NextResponse.json({ error: 'Failed to ingest swipe upload' }, { status: 500 })
+  }
+}
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
-import Anthropic from '@anthropic-ai/sdk'
 import crypto from 'crypto'
 import { sql } from '@/lib/db'
 import { requireAuth } from '@/lib/require-auth'
-import { getOrgApiKey } from '@/lib/api-keys'
+import { canAccessOrganization, canAccessProduct, forbiddenResponse } from '@/lib/access'
+import { getLlmClient, responseText } from '@/lib/llm-client'
+import { assertLlmBudget, isLlmBudgetExceededError, recordLlmUsage } from '@/lib/llm-usage'
+import { resolveModel } from '@/lib/model-settings'
 import { DEFAULT_PROMPT_BLOCKS } from '@/lib/prompt-defaults'
-
-const AGENT_MODEL = 'claude-opus-4-6'
+import { swipeTagFiltersFromParams } from '@/lib/swipe-taxonomy'
 
 type PromptBlockRow = {
   id: string
@@ -67,15 +68,23 @@ async function generateSwipeTitle(args: {
   positioningName?: string | null
   transcript: string
   orgId?: string | null
+  userId: string
+  productId: string
   blocks: Map<string, PromptBlockRow>
 }) {
   const { productName, brandName, avatarName, positioningName, transcript, orgId, blocks } = args
   const excerpt = transcript.slice(0, 600)
-  const key = await getOrgApiKey('anthropic', orgId || null)
-  if (!key) {
-    return normalizeSlug(excerpt || `${brandName || productName} swipe`)
+  const fallbackTitle = normalizeSlug(excerpt || `${brandName || productName} swipe`)
+  const { model } = await resolveModel({ organizationId: orgId || null, agent: 'swipe_namer' })
+  const llm = await getLlmClient({ organizationId: orgId || null, model, agent: 'swipe_namer' })
+  if (!llm) return fallbackTitle
+  // A spent budget should not block saving the swipe, so fall back to the slug
+  try {
+    await assertLlmBudget(orgId || null)
+  } catch (error) {
+    if (isLlmBudgetExceededError(error)) return fallbackTitle
+    throw error
   }
-  const anthropic = new Anthropic({ apiKey: key })
   const system = getPromptBlockContent(blocks, 'swipe_namer_system')
   const template = getPromptBlockContent(blocks, 'swipe_namer_prompt')
   const prompt = applyTemplate(template, {
@@ -85,17 +94,24 @@ async function generateSwipeTitle(args: {
     angle: positioningName || '',
     excerpt,
   })
-  const response = await anthropic.messages.create({
-    model: AGENT_MODEL,
+  const response = await llm.create({
+    model,
     max_tokens: 60,
     temperature: 0.2,
     system: system || undefined,
     messages: [{ role: 'user', content: prompt }],
   })
-  const text = response.content
-    .map((b) => (typeof b === 'string' ? b : (b as any).text))
-    .join(' ')
-  return normalizeSlug(text)
+  await recordLlmUsage({
+    organizationId: orgId || null,
+    userId: args.userId,
+    productId: args.productId,
+    feature: 'swipe_namer',
+    provider: llm.provider,
+    model,
+    usage: response.usage,
+    requestId: response.id,
+  })
+  return normalizeSlug(responseText(response))
 }
 
 export async function GET(request: NextRequest) {
@@ -105,12 +121,16 @@ export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const productId = String(searchParams.get('product_id') || '').trim()
   const q = String(searchParams.get('q') || '').trim()
+  // Taxonomy filters, e.g. ?format=talking_head&awareness_level=problem_aware
+  const tagFilter = swipeTagFiltersFromParams(searchParams)
 
   if (!productId) {
     return NextResponse.json({ error: 'product_id is required' }, { status: 400 })
   }
 
   try {
+    if (!(await canAccessProduct(user, productId))) return forbiddenResponse()
+
     if (q) {
       const like = `%${q}%`
       const rows = await sql`
@@ -126,6 +146,7 @@ export async function GET(request: NextRequest) {
           swipes.ad_copy,
           swipes.cta,
           swipes.media_type,
+          swipes.tags,
           LEFT(swipes.transcript, 200) AS transcript_preview,
           swipes.created_at,
           swipes.updated_at,
@@ -143,6 +164,7 @@ export async function GET(request: NextRequest) {
           LIMIT 1
         ) mj ON true
         WHERE product_id = ${productId}
+          AND swipes.tags @> ${tagFilter}::jsonb
           AND (
             title ILIKE ${like}
             OR summary ILIKE ${like}
@@ -169,6 +191,7 @@ export async function GET(request: NextRequest) {
         swipes.ad_copy,
         swipes.cta,
         swipes.media_type,
+        swipes.tags,
         LEFT(swipes.transcript, 200) AS transcript_preview,
         swipes.created_at,
         swipes.updated_at,
@@ -186,6 +209,7 @@ export async function GET(request: NextRequest) {
         LIMIT 1
       ) mj ON true
       WHERE product_id = ${productId}
+        AND swipes.tags @> ${tagFilter}::jsonb
       ORDER BY created_at DESC
       LIMIT 200
     `
@@ -221,6 +245,7 @@ export async function POST(request: NextRequest) {
     `
     const product = productRows[0]
     if (!product) return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+    if (!(await canAccessOrganization(user, product.organization_id))) return forbiddenResponse()
 
     let avatarName: string | null = null
     if (avatarId) {
@@ -245,6 +270,8 @@ export async function POST(request: NextRequest) {
         positioningName,
         transcript,
         orgId: product.organization_id || null,
+        userId: user.id,
+        productId,
         blocks,
       })
     }
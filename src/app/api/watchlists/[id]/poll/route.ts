@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sql } from '@/lib/db'
+import { requireAuth } from '@/lib/require-auth'
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
+import { enqueueWatchlistPoll } from '@/lib/competitor-watchlists'
+
+type Params = { params: Promise<{ id: string }> }
+
+// POST /api/watchlists/[id]/poll - Poll the Ad Library now instead of waiting
+// for the schedule
+export async function POST(request: NextRequest, { params }: Params) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const { id } = await params
+    if (!(await canAccessResource(user, 'competitor_watchlist', id))) return forbiddenResponse()
+
+    const rows = await sql`
+      SELECT id, product_id, is_active
+      FROM competitor_watchlists
+      WHERE id = ${id}
+      LIMIT 1
+    `
+    const watchlist = rows[0]
+    if (!watchlist) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 })
+    }
+    if (!watchlist.is_active) {
+      return NextResponse.json({ error: 'Resume the watchlist before polling it' }, { status: 409 })
+    }
+
+    const job = await enqueueWatchlistPoll({
+      watchlistId: String(watchlist.id),
+      productId: String(watchlist.product_id),
+      userId: user.id,
+    })
+
+    return NextResponse.json({ job }, { status: 202 })
+  } catch (error) {
+    console.error('Watchlist poll error:', error)
+    return NextResponse.json({ error: 'Failed to queue poll' }, { status: 500 })
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sql } from '@/lib/db'
+import { updateWatchlistSchema } from '@/lib/validations'
+import { requireAuth } from '@/lib/require-auth'
+import { canAccessResource, forbiddenResponse } from '@/lib/access'
+import { buildAdLibraryListingUrl, type WatchlistKind } from '@/lib/ad-library'
+import { getWatchlistAds, getWatchlistRuns } from '@/lib/competitor-watchlists'
+
+type Params = { params: Promise<{ id: string }> }
+
+// GET /api/watchlists/[id] - Watchlist with tracked ads (longest-running
+// first) and recent runs
+export async function GET(request: NextRequest, { params }: Params) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const { id } = await params
+    if (!(await canAccessResource(user, 'competitor_watchlist', id))) return forbiddenResponse()
+
+    const rows = await sql`
+      SELECT *
+      FROM competitor_watchlists
+      WHERE id = ${id}
+      LIMIT 1
+    `
+    const watchlist = rows[0]
+    if (!watchlist) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 })
+    }
+
+    const [ads, runs] = await Promise.all([getWatchlistAds(id), getWatchlistRuns(id)])
+
+    return NextResponse.json({
+      watchlist: {
+        ...watchlist,
+        listing_url: buildAdLibraryListingUrl({
+          kind: watchlist.kind as WatchlistKind,
+          page_id: watchlist.page_id as string | null,
+          search_terms: watchlist.search_terms as string | null,
+          country: watchlist.country as string | null,
+        }),
+      },
+      ads,
+      runs,
+    })
+  } catch (error) {
+    console.error('Watchlist get error:', error)
+    return NextResponse.json({ error: 'Failed to load watchlist' }, { status: 500 })
+  }
+}
+
+// PATCH /api/watchlists/[id] - Rename, pause/resume or change the schedule.
+// Resuming makes the watchlist due immediately.
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const { id } = await params
+    if (!(await canAccessResource(user, 'competitor_watchlist', id))) return forbiddenResponse()
+
+    const body = await request.json()
+    const validated = updateWatchlistSchema.safeParse(body)
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const name = validated.data.name?.trim() || null
+    const searchTerms = validated.data.search_terms?.trim() || null
+    const country = validated.data.country ? validated.data.country.toUpperCase() : null
+    const interval = validated.data.poll_interval_hours ?? null
+    const isActive = validated.data.is_active ?? null
+
+    const rows = await sql`
+      UPDATE competitor_watchlists
+      SET
+        name = COALESCE(${name}, name),
+        search_terms = CASE WHEN kind = 'search' THEN COALESCE(${searchTerms}, search_terms) ELSE search_terms END,
+        country = COALESCE(${country}, country),
+        poll_interval_hours = COALESCE(${interval}::int, poll_interval_hours),
+        next_poll_at = CASE
+          WHEN ${isActive}::boolean = true AND is_active = false THEN NOW()
+          ELSE next_poll_at
+        END,
+        is_active = COALESCE(${isActive}::boolean, is_active),
+        updated_at = NOW()
+      WHERE id = ${id}
+      RETURNING *
+    `
+
+    if (!rows[0]) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ watchlist: rows[0] })
+  } catch (error) {
+    console.error('Watchlist update error:', error)
+    return NextResponse.json({ error: 'Failed to update watchlist' }, { status: 500 })
+  }
+}
+
+// DELETE /api/watchlists/[id] - Stop tracking. Swipes created from the
+// watchlist are kept.
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const { id } = await params
+    if (!(await canAccessResource(user, 'competitor_watchlist', id))) return forbiddenResponse()
+
+    const rows = await sql`
+      DELETE FROM competitor_watchlists
+      WHERE id = ${id}
+      RETURNING id
+    `
+    if (!rows[0]) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Watchlist delete error:', error)
+    return NextResponse.json({ error: 'Failed to delete watchlist' }, { status: 500 })
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sql } from '@/lib/db'
+import { createWatchlistSchema } from '@/lib/validations'
+import { requireAuth } from '@/lib/require-auth'
+import { canAccessProduct, forbiddenResponse } from '@/lib/access'
+import { normalizeAdLibraryPageId } from '@/lib/ad-library'
+import { listWatchlists } from '@/lib/competitor-watchlists'
+
+// GET /api/watchlists?product_id= - Competitor watchlists with ad counts
+export async function GET(request: NextRequest) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { searchParams } = new URL(request.url)
+  const productId = String(searchParams.get('product_id') || '').trim()
+  if (!productId) {
+    return NextResponse.json({ error: 'product_id is required' }, { status: 400 })
+  }
+
+  try {
+    if (!(await canAccessProduct(user, productId))) return forbiddenResponse()
+    const watchlists = await listWatchlists(productId)
+    return NextResponse.json({ watchlists })
+  } catch (error) {
+    console.error('Watchlists list error:', error)
+    return NextResponse.json({ error: 'Failed to load watchlists' }, { status: 500 })
+  }
+}
+
+// POST /api/watchlists - Register a competitor page or keyword search. The
+// first poll runs on the worker's next scheduling pass.
+export async function POST(request: NextRequest) {
+  const user = await requireAuth()
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  try {
+    const body = await request.json()
+    const validated = createWatchlistSchema.safeParse(body)
+    if (!validated.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validated.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const data = validated.data
+    if (!(await canAccessProduct(user, data.product_id))) return forbiddenResponse()
+
+    let pageId: string | null = null
+    if (data.kind === 'page') {
+      pageId = normalizeAdLibraryPageId(data.page_id || '')
+      if (!pageId) {
+        return NextResponse.json(
+          { error: 'Enter an Ad Library page id or a URL containing view_all_page_id' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const rows = await sql`
+      INSERT INTO competitor_watchlists (
+        product_id, name, kind, page_id, search_terms, country,
+        poll_interval_hours, is_active, created_by
+      )
+      VALUES (
+        ${data.product_id},
+        ${data.name.trim()},
+        ${data.kind},
+        ${pageId},
+        ${data.kind === 'search' ? data.search_terms?.trim() || null : null},
+        ${(data.country || 'ALL').toUpperCase()},
+        ${data.poll_interval_hours ?? 24},
+        ${data.is_active ?? true},
+        ${user.id}
+      )
+      RETURNING *
+    `
+
+    return NextResponse.json({ watchlist: rows[0] }, { status: 201 })
+  } catch (error) {
+    console.error('Watchlist create error:', error)
+    return NextResponse.json({ error: 'Failed to create watchlist' }, { status: 500 })
+  }
+}
@@ -2,8 +2,12 @@
 
 import { useEffect, useMemo, useState } from 'react'
 import { DEFAULT_PROMPT_BLOCKS } from '@/lib/prompt-defaults'
+import { CONTENT_TYPES } from '@/lib/content-types'
+import type { LlmAgentId } from '@/lib/model-registry'
+import { useAppContext } from '@/components/app-shell'
 import { ResetPresetModal } from '@/components/ui/reset-preset-modal'
 import { PresetsDropdown } from '@/components/ui/presets-dropdown'
+import { ModelSettingsPanel, type ModelSettingsData } from '@/components/studio/ModelSettingsPanel'
 
 type PromptBlock = {
   id: string
@@ -24,14 +28,19 @@ type AgentConfig = {
   id: string
   label: string
   description: string
+  // Registry agent whose model these prompts run on
+  modelAgent: LlmAgentId
   blocks: AgentBlock[]
 }
 
+const MODELS_VIEW_ID = 'models'
+
 const AGENTS: AgentConfig[] = [
   {
     id: 'writer',
     label: 'Writer Agent',
     description: 'System prompt that powers the main writing agent.',
+    modelAgent: 'writer',
     blocks: [
       {
         key: 'agent_system',
@@ -44,7 +53,8 @@ const AGENTS: AgentConfig[] = [
   {
     id: 'research',
     label: 'Research Organizer',
-    description: 'Turns inbox research into categories and assignments.',
+    description: 'Pages through the inbox in the background and proposes categories and assignments.',
+    modelAgent: 'research_organizer',
     blocks: [
       {
         key: 'research_organizer_system',
@@ -54,8 +64,8 @@ const AGENTS: AgentConfig[] = [
       {
         key: 'research_organizer_prompt',
         label: 'User Prompt',
-        description: 'Instructions + item list template.',
-        helper: 'Tokens: {{items}}',
+        description: 'Instructions + existing categories + item batch template.',
+        helper: 'Tokens: {{categories}}, {{items}}',
       },
     ],
   },
@@ -63,6 +73,7 @@ const AGENTS: AgentConfig[] = [
     id: 'swipe-namer',
     label: 'Swipe Namer',
     description: 'Generates short hyphenated titles for manual swipes.',
+    modelAgent: 'swipe_namer',
     blocks: [
       {
         key: 'swipe_namer_system',
@@ -80,7 +91,8 @@ const AGENTS: AgentConfig[] = [
   {
     id: 'swipe',
     label: 'Swipe Summarizer',
-    description: 'Summarizes Meta ad swipes into titles and summaries.',
+    description: 'Summarizes ad swipes into titles, summaries and taxonomy tags.',
+    modelAgent: 'swipe_summarizer',
     blocks: [
       {
         key: 'swipe_summarizer_system',
@@ -91,7 +103,7 @@ const AGENTS: AgentConfig[] = [
         key: 'swipe_summarizer_prompt',
         label: 'User Prompt',
         description: 'Template for passing URL + transcript.',
-        helper: 'Tokens: {{url}}, {{transcript}}',
+        helper: 'Tokens: {{url}}, {{transcript}}, {{tag_options}} (taxonomy dimensions and allowed values)',
       },
     ],
   },
@@ -99,6 +111,7 @@ const AGENTS: AgentConfig[] = [
     id: 'research-summary',
     label: 'Research Summarizer',
     description: 'Summarizes uploaded research files into briefs.',
+    modelAgent: 'research_summarizer',
     blocks: [
       {
         key: 'research_summarizer_system',
@@ -117,6 +130,7 @@ const AGENTS: AgentConfig[] = [
     id: 'research-synthesis',
     label: 'Research Synthesizer',
     description: 'Turns research libraries into avatars, angles, quotes, and awareness insights.',
+    modelAgent: 'research_synthesis',
     blocks: [
       {
         key: 'research_synthesis_system',
@@ -131,6 +145,43 @@ const AGENTS: AgentConfig[] = [
       },
     ],
   },
+  {
+    id: 'image-ocr',
+    label: 'Screenshot Reader',
+    description: 'Transcribes uploaded screenshots with Claude vision before they are summarized.',
+    modelAgent: 'image_ocr',
+    blocks: [
+      {
+        key: 'research_image_ocr_system',
+        label: 'System Prompt',
+        description: 'Verbatim transcription behavior.',
+      },
+      {
+        key: 'research_image_ocr_prompt',
+        label: 'User Prompt',
+        description: 'Sent alongside the image. Local OCR (tesseract) ignores it.',
+      },
+    ],
+  },
+  {
+    id: 'review-themes',
+    label: 'Review Importer',
+    description: 'Clusters imported reviews into themes and mines verbatim quotes.',
+    modelAgent: 'review_importer',
+    blocks: [
+      {
+        key: 'review_theme_system',
+        label: 'System Prompt',
+        description: 'Strict JSON output behavior for theme clustering.',
+      },
+      {
+        key: 'review_theme_prompt',
+        label: 'User Prompt',
+        description: 'Template for existing themes + a numbered review batch.',
+        helper: 'Tokens: {{themes}}, {{reviews}}',
+      },
+    ],
+  },
 ]
 
 const ALL_KEYS = AGENTS.flatMap((agent) => agent.blocks.map((b) => b.key))
@@ -140,7 +191,9 @@ function getDefaultContent(key: string) {
 }
 
 export default function AgentsPage() {
+  const { selectedOrg } = useAppContext()
   const [blocks, setBlocks] = useState<PromptBlock[]>([])
+  const [modelData, setModelData] = useState<ModelSettingsData | null>(null)
   const [loading, setLoading] = useState(true)
   const [activeAgentId, setActiveAgentId] = useState(AGENTS[0].id)
   const [drafts, setDrafts] = useState<Record<string, string>>({})
@@ -167,6 +220,42 @@ export default function AgentsPage() {
     loadBlocks()
   }, [])
 
+  useEffect(() => {
+    setModelData(null)
+    if (!selectedOrg) return
+    let active = true
+    fetch(`/api/settings/models?org_id=${selectedOrg}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (active && data?.settings) setModelData(data)
+      })
+      .catch(() => {})
+    return () => {
+      active = false
+    }
+  }, [selectedOrg])
+
+  // Core skills plus custom skill blocks, for per-skill model overrides
+  const skillOptions = useMemo(() => {
+    const core = CONTENT_TYPES.map((ct) => ({ key: ct.id, label: ct.label }))
+    const custom = blocks
+      .filter((b) => b.type === 'feature_template' && b.metadata?.key)
+      .map((b) => ({ key: String(b.metadata?.key), label: b.name || String(b.metadata?.key) }))
+      .filter((b) => !core.some((c) => c.key === b.key))
+    return [...core, ...custom]
+  }, [blocks])
+
+  function effectiveModel(agentId: LlmAgentId) {
+    if (!modelData) return null
+    const agent = modelData.agents.find((entry) => entry.id === agentId)
+    const orgDefault = modelData.models.find((model) => model.id === modelData.settings.default_model)
+    const id =
+      modelData.settings.agent_models[agentId] ||
+      (orgDefault && agent?.providers.includes(orgDefault.provider) ? orgDefault.id : null) ||
+      modelData.agent_defaults[agentId]
+    return modelData.models.find((model) => model.id === id)?.label || id
+  }
+
   const activeAgent = useMemo(
     () => AGENTS.find((agent) => agent.id === activeAgentId) || AGENTS[0],
     [activeAgentId]
@@ -265,11 +354,24 @@ export default function AgentsPage() {
         <div className="p-4 border-b border-[var(--editor-border)]">
           <h1 className="text-lg font-semibold text-[var(--editor-ink)]">Agents</h1>
           <p className="text-xs text-[var(--editor-ink-muted)] mt-1">
-            Edit the system prompts that power your agents.
+            Edit the prompts and models that power your agents.
           </p>
         </div>
 
         <div className="flex-1 overflow-auto p-2 space-y-1">
+          <button
+            onClick={() => setActiveAgentId(MODELS_VIEW_ID)}
+            className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+              activeAgentId === MODELS_VIEW_ID
+                ? 'bg-[var(--editor-accent-soft)] text-[var(--editor-ink)]'
+                : 'text-[var(--editor-ink-muted)] hover:bg-black/5'
+            }`}
+          >
+            <div className="font-medium">Models</div>
+            <div className="text-xs text-[var(--editor-ink-muted)]">
+              Organization default and per-agent or per-skill overrides.
+            </div>
+          </button>
           {AGENTS.map((agent) => {
             const active = agent.id === activeAgentId
             return (
@@ -290,12 +392,45 @@ export default function AgentsPage() {
         </div>
       </div>
 
+      {activeAgentId === MODELS_VIEW_ID ? (
+        <div className="flex-1 flex flex-col bg-[var(--editor-panel-muted)]">
+          <div className="bg-[var(--editor-panel)] border-b border-[var(--editor-border)] p-5">
+            <h2 className="font-semibold text-[var(--editor-ink)]">Models</h2>
+            <p className="text-sm text-[var(--editor-ink-muted)] mt-1">
+              Pick which model each agent calls for this organization. Skill overrides beat agent overrides, which beat
+              the organization default.
+            </p>
+          </div>
+          <div className="flex-1 overflow-auto p-6">
+            {!selectedOrg ? (
+              <div className="text-sm text-[var(--editor-ink-muted)]">Select an organization to edit its models.</div>
+            ) : !modelData ? (
+              <div className="text-sm text-[var(--editor-ink-muted)]">Loading...</div>
+            ) : (
+              <ModelSettingsPanel orgId={selectedOrg} data={modelData} skills={skillOptions} onSaved={setModelData} />
+            )}
+          </div>
+        </div>
+      ) : (
       <div className="flex-1 flex flex-col bg-[var(--editor-panel-muted)]">
         <div className="bg-[var(--editor-panel)] border-b border-[var(--editor-border)] p-5">
-          <h2 className="font-semibold text-[var(--editor-ink)]">{activeAgent.label}</h2>
-          <p className="text-sm text-[var(--editor-ink-muted)] mt-1">
-            {activeAgent.description}
-          </p>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h2 className="font-semibold text-[var(--editor-ink)]">{activeAgent.label}</h2>
+              <p className="text-sm text-[var(--editor-ink-muted)] mt-1">
+                {activeAgent.description}
+              </p>
+            </div>
+            {effectiveModel(activeAgent.modelAgent) && (
+              <button
+                onClick={() => setActiveAgentId(MODELS_VIEW_ID)}
+                className="chat-chip chat-chip--muted"
+                title="Change in Models"
+              >
+                {effectiveModel(activeAgent.modelAgent)}
+              </button>
+            )}
+          </div>
         </div>
 
         <div className="flex-1 overflow-auto p-6 space-y-6">
@@ -369,6 +504,7 @@ export default function AgentsPage() {
           )}
         </div>
       </div>
+      )}
 
       <ResetPresetModal
         open={resetTarget !== null}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter, useParams } from 'next/navigation'
+import { ResearchEvidence } from '@/components/research/ResearchEvidence'
 
 interface Avatar {
   id: string
@@ -177,6 +178,10 @@ export default function EditAvatarPage() {
           placeholder="Avatar content..."
         />
       </div>
+
+      <div className="max-h-64 overflow-auto">
+        <ResearchEvidence endpoint={`/api/avatars/${id}/evidence`} defaultOpen />
+      </div>
     </div>
   )
 }
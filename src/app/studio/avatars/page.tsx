@@ -4,12 +4,14 @@ import { useEffect, useMemo, useState } from 'react'
 import Link from 'next/link'
 import { useAppContext } from '@/components/app-shell'
 import { ConfirmDialog, FeedbackNotice } from '@/components/ui/feedback'
+import { ResearchEvidence } from '@/components/research/ResearchEvidence'
 
 interface Avatar {
   id: string
   name: string
   content: string
   is_active: boolean
+  evidence_count?: number
 }
 
 function getPreview(content: string | undefined): string {
@@ -164,6 +166,11 @@ export default function AvatarsPage() {
                   {getPreview(avatar.content)}
                 </p>
 
+                <ResearchEvidence
+                  endpoint={`/api/avatars/${avatar.id}/evidence`}
+                  count={avatar.evidence_count ?? 0}
+                />
+
                 <div className="mt-4 flex items-center gap-2">
                   <Link href={`/studio/avatars/${avatar.id}`} className="editor-button-ghost text-xs">
                     Edit
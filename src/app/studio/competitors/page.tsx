@@ -0,0 +1,529 @@
+'use client'
+
+import Link from 'next/link'
+import { useEffect, useState } from 'react'
+import { useAppContext } from '@/components/app-shell'
+import { ConfirmDialog, FeedbackNotice } from '@/components/ui/feedback'
+import type { WatchlistKind } from '@/lib/ad-library'
+
+type WatchRun = {
+  id: string
+  status: 'running' | 'completed' | 'failed'
+  ads_seen: number
+  new_ads: number
+  ads_stopped: number
+  error_message?: string | null
+  started_at: string
+  finished_at?: string | null
+}
+
+type Watchlist = {
+  id: string
+  name: string
+  kind: WatchlistKind
+  page_id?: string | null
+  search_terms?: string | null
+  country: string
+  poll_interval_hours: number
+  is_active: boolean
+  next_poll_at: string
+  last_polled_at?: string | null
+  last_error?: string | null
+  ads_total: number
+  ads_active: number
+  last_run?: WatchRun | null
+  poll_pending: boolean
+}
+
+type CompetitorAd = {
+  id: string
+  ad_archive_id: string
+  source_url: string
+  started_running_on?: string | null
+  is_active: boolean
+  first_seen_at: string
+  last_seen_at: string
+  swipe_id?: string | null
+  swipe_title?: string | null
+  swipe_status?: 'processing' | 'ready' | 'failed' | null
+  days_running: number
+}
+
+type WatchlistDetail = {
+  watchlist: Watchlist & { listing_url: string }
+  ads: CompetitorAd[]
+  runs: WatchRun[]
+}
+
+const INTERVAL_OPTIONS = [
+  { hours: 6, label: 'Every 6 hours' },
+  { hours: 12, label: 'Every 12 hours' },
+  { hours: 24, label: 'Daily' },
+  { hours: 72, label: 'Every 3 days' },
+  { hours: 168, label: 'Weekly' },
+]
+
+function formatDate(value?: string | null) {
+  if (!value) return '\u2014'
+  const date = new Date(value)
+  return Number.isFinite(date.getTime()) ? date.toLocaleString() : '\u2014'
+}
+
+function formatDay(value?: string | null) {
+  if (!value) return '\u2014'
+  const date = new Date(value)
+  return Number.isFinite(date.getTime()) ? date.toLocaleDateString() : '\u2014'
+}
+
+export default function CompetitorsPage() {
+  const { selectedProduct, openContextDrawer } = useAppContext()
+  const [loading, setLoading] = useState(true)
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [detail, setDetail] = useState<WatchlistDetail | null>(null)
+  const [kind, setKind] = useState<WatchlistKind>('page')
+  const [name, setName] = useState('')
+  const [target, setTarget] = useState('')
+  const [country, setCountry] = useState('ALL')
+  const [intervalHours, setIntervalHours] = useState(24)
+  const [creating, setCreating] = useState(false)
+  const [pollingId, setPollingId] = useState<string | null>(null)
+  const [watchlistToDelete, setWatchlistToDelete] = useState<string | null>(null)
+  const [deleting, setDeleting] = useState(false)
+  const [feedback, setFeedback] = useState<{ tone: 'info' | 'success' | 'error'; message: string } | null>(null)
+
+  async function loadWatchlists() {
+    if (!selectedProduct) return
+    try {
+      const res = await fetch(`/api/watchlists?product_id=${selectedProduct}`)
+      const data = await res.json().catch(() => ({}))
+      setWatchlists(Array.isArray(data?.watchlists) ? data.watchlists : [])
+    } catch {
+      setWatchlists([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function loadDetail(id: string) {
+    try {
+      const res = await fetch(`/api/watchlists/${id}`)
+      const data = await res.json().catch(() => null)
+      setDetail(res.ok && data?.watchlist ? data : null)
+    } catch {
+      setDetail(null)
+    }
+  }
+
+  useEffect(() => {
+    loadWatchlists()
+
+    // Silent poll so runs finishing on the worker show up
+    const interval = setInterval(() => {
+      if (selectedProduct) loadWatchlists()
+    }, 20000)
+
+    return () => clearInterval(interval)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedProduct])
+
+  useEffect(() => {
+    if (!selectedId) return
+    loadDetail(selectedId)
+    // Refresh the open watchlist whenever the list poll picks up a new run
+  }, [selectedId, watchlists])
+
+  async function createWatchlist() {
+    if (!selectedProduct || !name.trim() || !target.trim()) return
+    setCreating(true)
+    try {
+      const res = await fetch('/api/watchlists', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          product_id: selectedProduct,
+          name: name.trim(),
+          kind,
+          page_id: kind === 'page' ? target.trim() : undefined,
+          search_terms: kind === 'search' ? target.trim() : undefined,
+          country: country.trim() || 'ALL',
+          poll_interval_hours: intervalHours,
+        }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data?.error || 'Failed to create watchlist')
+      setName('')
+      setTarget('')
+      setFeedback({ tone: 'success', message: 'Watchlist added. The first poll runs within a minute.' })
+      await loadWatchlists()
+      if (data?.watchlist?.id) setSelectedId(String(data.watchlist.id))
+    } catch (err) {
+      setFeedback({
+        tone: 'error',
+        message: err instanceof Error ? err.message : 'Failed to create watchlist',
+      })
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  async function pollNow(id: string) {
+    if (pollingId) return
+    setPollingId(id)
+    try {
+      const res = await fetch(`/api/watchlists/${id}/poll`, { method: 'POST' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data?.error || 'Failed to queue poll')
+      setFeedback({ tone: 'success', message: 'Poll queued.' })
+      await loadWatchlists()
+    } catch (err) {
+      setFeedback({
+        tone: 'error',
+        message: err instanceof Error ? err.message : 'Failed to queue poll',
+      })
+    } finally {
+      setPollingId(null)
+    }
+  }
+
+  async function toggleActive(watchlist: Watchlist) {
+    try {
+      const res = await fetch(`/api/watchlists/${watchlist.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_active: !watchlist.is_active }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data?.error || 'Failed to update watchlist')
+      await loadWatchlists()
+    } catch (err) {
+      setFeedback({
+        tone: 'error',
+        message: err instanceof Error ? err.message : 'Failed to update watchlist',
+      })
+    }
+  }
+
+  async function handleDelete(id: string) {
+    setDeleting(true)
+    try {
+      const res = await fetch(`/api/watchlists/${id}`, { method: 'DELETE' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data?.error || 'Failed to delete watchlist')
+      if (selectedId === id) {
+        setSelectedId(null)
+        setDetail(null)
+      }
+      await loadWatchlists()
+    } catch (err) {
+      setFeedback({
+        tone: 'error',
+        message: err instanceof Error ? err.message : 'Failed to delete watchlist',
+      })
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  if (!selectedProduct) {
+    return (
+      <div className="h-full flex items-center justify-center p-10">
+        <div className="editor-panel p-8 max-w-lg w-full text-center">
+          <p className="font-serif text-2xl">Select a product</p>
+          <p className="text-sm text-[var(--editor-ink-muted)] mt-2">
+            Competitor watchlists are saved per product.
+          </p>
+          <button onClick={openContextDrawer} className="editor-button mt-6">
+            Open Context
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const openDetail = detail && detail.watchlist.id === selectedId ? detail : null
+
+  return (
+    <div className="h-full p-6 overflow-auto">
+      <div className="max-w-5xl mx-auto">
+        {feedback && (
+          <div className="mb-4">
+            <FeedbackNotice
+              message={feedback.message}
+              tone={feedback.tone}
+              onDismiss={() => setFeedback(null)}
+            />
+          </div>
+        )}
+        <div className="mb-6">
+          <p className="text-[10px] uppercase tracking-[0.3em] text-[var(--editor-ink-muted)]">
+            Library
+          </p>
+          <h1 className="font-serif text-3xl leading-tight">Competitors</h1>
+          <p className="text-sm text-[var(--editor-ink-muted)] mt-1">
+            Watch advertisers in the Meta Ad Library. New active ads become swipes automatically;
+            ads that keep running float to the top.
+          </p>
+        </div>
+
+        <div className="editor-panel p-5 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs uppercase tracking-[0.22em] text-[var(--editor-ink-muted)] mb-2">
+                Name
+              </label>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Competitor Co"
+                className="editor-input text-sm w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-xs uppercase tracking-[0.22em] text-[var(--editor-ink-muted)] mb-2">
+                Track by
+              </label>
+              <select
+                value={kind}
+                onChange={(e) => setKind(e.target.value as WatchlistKind)}
+                className="editor-input text-sm w-full"
+              >
+                <option value="page">Ad Library page</option>
+                <option value="search">Search terms</option>
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs uppercase tracking-[0.22em] text-[var(--editor-ink-muted)] mb-2">
+                {kind === 'page' ? 'Page ID or Ad Library URL' : 'Search terms'}
+              </label>
+              <input
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                placeholder={
+                  kind === 'page'
+                    ? 'https://www.facebook.com/ads/library/?view_all_page_id=...'
+                    : 'e.g. magnesium sleep gummies'
+                }
+                className="editor-input text-sm w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-xs uppercase tracking-[0.22em] text-[var(--editor-ink-muted)] mb-2">
+                Country
+              </label>
+              <input
+                value={country}
+                onChange={(e) => setCountry(e.target.value.toUpperCase())}
+                placeholder="ALL or a 2-letter code"
+                maxLength={3}
+                className="editor-input text-sm w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-xs uppercase tracking-[0.22em] text-[var(--editor-ink-muted)] mb-2">
+                Poll
+              </label>
+              <select
+                value={intervalHours}
+                onChange={(e) => setIntervalHours(Number(e.target.value))}
+                className="editor-input text-sm w-full"
+              >
+                {INTERVAL_OPTIONS.map((option) => (
+                  <option key={option.hours} value={option.hours}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex justify-end mt-4">
+            <button
+              onClick={createWatchlist}
+              disabled={creating || !name.trim() || !target.trim()}
+              className="editor-button"
+            >
+              {creating ? 'Saving...' : 'Add Watchlist'}
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-[var(--editor-ink-muted)]">Loading watchlists...</p>
+        ) : watchlists.length === 0 ? (
+          <div className="editor-panel p-6 text-sm text-[var(--editor-ink-muted)]">
+            No competitors tracked yet.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {watchlists.map((w) => (
+              <div key={w.id} className="editor-panel p-4">
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+                  <button
+                    onClick={() => setSelectedId(selectedId === w.id ? null : w.id)}
+                    className="text-left flex-1 min-w-0"
+                  >
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className="font-serif text-lg truncate">{w.name}</p>
+                      <span className={`editor-tag ${w.is_active ? 'editor-tag--note' : 'editor-tag--warning'}`}>
+                        {w.is_active ? 'active' : 'paused'}
+                      </span>
+                      {w.poll_pending && <span className="editor-tag text-[9px]">polling</span>}
+                    </div>
+                    <p className="text-xs text-[var(--editor-ink-muted)] mt-1">
+                      {w.kind === 'page' ? `Page ${w.page_id}` : `"${w.search_terms}"`} &middot; {w.country}{' '}
+                      &middot; every {w.poll_interval_hours}h
+                    </p>
+                    <p className="text-xs text-[var(--editor-ink-muted)] mt-1">
+                      {w.ads_active} active / {w.ads_total} tracked &middot; last polled{' '}
+                      {formatDate(w.last_polled_at)}
+                      {w.last_run && w.last_run.status === 'completed'
+                        ? ` (${w.last_run.new_ads} new, ${w.last_run.ads_stopped} stopped)`
+                        : ''}
+                    </p>
+                    {w.last_error && (
+                      <p className="text-xs text-red-600 mt-1 line-clamp-2">{w.last_error}</p>
+                    )}
+                  </button>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <button
+                      onClick={() => pollNow(w.id)}
+                      disabled={!w.is_active || w.poll_pending || pollingId === w.id}
+                      className="editor-button-ghost text-xs"
+                    >
+                      {pollingId === w.id ? 'Queuing...' : 'Poll Now'}
+                    </button>
+                    <button onClick={() => toggleActive(w)} className="editor-button-ghost text-xs">
+                      {w.is_active ? 'Pause' : 'Resume'}
+                    </button>
+                    <button onClick={() => setWatchlistToDelete(w.id)} className="editor-button-ghost text-xs">
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {selectedId === w.id && (
+                  <div className="mt-4 border-t border-[var(--editor-border)] pt-4">
+                    {!openDetail ? (
+                      <p className="text-sm text-[var(--editor-ink-muted)]">Loading ads...</p>
+                    ) : (
+                      <div className="space-y-5">
+                        <div>
+                          <div className="flex items-center justify-between mb-2">
+                            <p className="text-xs uppercase tracking-[0.22em] text-[var(--editor-ink-muted)]">
+                              Ads &middot; longest running first
+                            </p>
+                            <a
+                              href={openDetail.watchlist.listing_url}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="text-xs underline text-[var(--editor-ink-muted)]"
+                            >
+                              Open in Ad Library
+                            </a>
+                          </div>
+                          {openDetail.ads.length === 0 ? (
+                            <p className="text-sm text-[var(--editor-ink-muted)]">No ads found yet.</p>
+                          ) : (
+                            <div className="overflow-x-auto">
+                              <table className="w-full text-sm">
+                                <thead>
+                                  <tr className="text-left text-[10px] uppercase tracking-[0.2em] text-[var(--editor-ink-muted)]">
+                                    <th className="py-2 pr-3">Ad</th>
+                                    <th className="py-2 pr-3">Days</th>
+                                    <th className="py-2 pr-3">Started</th>
+                                    <th className="py-2 pr-3">First seen</th>
+                                    <th className="py-2 pr-3">Last seen</th>
+                                    <th className="py-2">Swipe</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {openDetail.ads.map((ad) => (
+                                    <tr key={ad.id} className="border-t border-[var(--editor-border)]">
+                                      <td className="py-2 pr-3">
+                                        <a
+                                          href={ad.source_url}
+                                          target="_blank"
+                                          rel="noreferrer"
+                                          className="underline"
+                                        >
+                                          {ad.ad_archive_id}
+                                        </a>
+                                        {!ad.is_active && (
+                                          <span className="editor-tag editor-tag--warning text-[9px] ml-2">
+                                            stopped
+                                          </span>
+                                        )}
+                                      </td>
+                                      <td className="py-2 pr-3 tabular-nums">{ad.days_running}</td>
+                                      <td className="py-2 pr-3">{formatDay(ad.started_running_on)}</td>
+                                      <td className="py-2 pr-3">{formatDay(ad.first_seen_at)}</td>
+                                      <td className="py-2 pr-3">{formatDay(ad.last_seen_at)}</td>
+                                      <td className="py-2">
+                                        {ad.swipe_id ? (
+                                          <Link href={`/studio/swipes/${ad.swipe_id}`} className="underline">
+                                            {ad.swipe_title || ad.swipe_status || 'Open'}
+                                          </Link>
+                                        ) : (
+                                          <span className="text-[var(--editor-ink-muted)]">&mdash;</span>
+                                        )}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </div>
+                          )}
+                        </div>
+
+                        <div>
+                          <p className="text-xs uppercase tracking-[0.22em] text-[var(--editor-ink-muted)] mb-2">
+                            Runs
+                          </p>
+                          {openDetail.runs.length === 0 ? (
+                            <p className="text-sm text-[var(--editor-ink-muted)]">
+                              Not polled yet. Next poll {formatDate(w.next_poll_at)}.
+                            </p>
+                          ) : (
+                            <ul className="space-y-1 text-xs">
+                              {openDetail.runs.map((run) => (
+                                <li key={run.id} className="flex flex-wrap gap-x-3">
+                                  <span className="text-[var(--editor-ink-muted)]">{formatDate(run.started_at)}</span>
+                                  <span>{run.status}</span>
+                                  {run.status === 'failed' ? (
+                                    <span className="text-red-600">{run.error_message}</span>
+                                  ) : (
+                                    <span>
+                                      {run.ads_seen} seen &middot; {run.new_ads} new &middot; {run.ads_stopped} stopped
+                                    </span>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        open={Boolean(watchlistToDelete)}
+        title="Delete this watchlist?"
+        description="Tracked ads and run history are removed. Swipes already created are kept."
+        confirmLabel="Delete"
+        tone="danger"
+        busy={deleting}
+        onCancel={() => setWatchlistToDelete(null)}
+        onConfirm={() => {
+          if (!watchlistToDelete) return
+          void handleDelete(watchlistToDelete).then(() => setWatchlistToDelete(null))
+        }}
+      />
+    </div>
+  )
+}
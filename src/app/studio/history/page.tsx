@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { useAppContext } from '@/components/app-shell'
+import { CONTENT_TYPES } from '@/lib/content-types'
 
 interface GenerationRun {
   id: string
@@ -15,6 +16,7 @@ interface GenerationRun {
     user_instructions?: string
   }
   raw_response?: {
+    issues?: string[]
     concepts?: Array<{
       concept_name: string
       headline?: string
@@ -28,6 +30,7 @@ interface GenerationRun {
       }>
     }>
   }
+  error_message: string | null
   created_at: string
   completed_at: string | null
 }
@@ -68,20 +71,9 @@ export default function HistoryPage() {
     failed: 'bg-red-100 text-red-700',
   }
 
-  // Map database enum values to display labels
-  const contentTypeLabels: Record<string, string> = {
-    // Database enum values
-    static_organic_ads: 'Static Ads',
-    scripts: 'UGC Scripts',
-    landing_pages: 'Landing Page',
-    email_sequences: 'Email',
-    social_posts: 'Social',
-    // Frontend values (in case they slip through)
-    organic_static: 'Static Ads',
-    ugc_video_scripts: 'UGC Scripts',
-    landing_page_copy: 'Landing Page',
-    advertorial_copy: 'Advertorial',
-  }
+  const contentTypeLabels: Record<string, string> = Object.fromEntries(
+    CONTENT_TYPES.map(type => [type.id, type.label])
+  )
 
   if (!selectedProduct) {
     return (
@@ -122,7 +114,7 @@ export default function HistoryPage() {
                   <div>
                     <div className="flex items-center gap-2">
                       <span className="font-medium text-gray-900">
-                        {contentTypeLabels[run.config.content_type || run.feature_type] || run.feature_type.replace(/_/g, ' ')}
+                        {contentTypeLabels[run.feature_type] || run.feature_type.replace(/_/g, ' ')}
                       </span>
                       <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusColors[run.status]}`}>
                         {run.status}
@@ -133,6 +125,9 @@ export default function HistoryPage() {
                       {run.config.num_concepts && ` • ${run.config.num_concepts} concepts`}
                       {run.config.user_instructions && ' • Has instructions'}
                     </p>
+                    {run.status === 'failed' && run.error_message && (
+                      <p className="text-xs text-red-600 mt-1">{run.error_message}</p>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center gap-4">
@@ -150,6 +145,24 @@ export default function HistoryPage() {
                 </div>
               </div>
 
+              {/* Failure details */}
+              {expandedRun === run.id && run.status === 'failed' && (
+                <div className="border-t border-gray-100 p-4 bg-red-50">
+                  <span className="text-xs text-red-600 font-medium uppercase">Failed</span>
+                  <p className="text-sm text-red-800 mt-1">{run.error_message || 'Generation failed'}</p>
+                  {run.raw_response?.issues && run.raw_response.issues.length > 0 && (
+                    <ul className="mt-2 space-y-0.5 text-xs text-red-700 list-disc list-inside">
+                      {run.raw_response.issues.map((issue, i) => (
+                        <li key={i}>{issue}</li>
+                      ))}
+                    </ul>
+                  )}
+                  {run.config.user_instructions && (
+                    <p className="text-xs text-red-700 mt-2">Instructions: {run.config.user_instructions}</p>
+                  )}
+                </div>
+              )}
+
               {/* Expanded Content */}
               {expandedRun === run.id && run.raw_response?.concepts && (
                 <div className="border-t border-gray-100 p-4 bg-gray-50">
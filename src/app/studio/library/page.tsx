@@ -10,9 +10,41 @@ type ThreadRow = {
   title?: string | null
   draft_title?: string | null
   draft_content?: string | null
+  parent_thread_id?: string | null
+  branched_from_message_id?: string | null
   updated_at?: string
 }
 
+type ThreadNode = { thread: ThreadRow; depth: number }
+
+// Branches nest under the thread they were forked from. Threads whose parent
+// is gone (deleted, or outside the list) are shown as roots.
+function buildThreadTree(threads: ThreadRow[]): ThreadNode[] {
+  const ids = new Set(threads.map((t) => t.id))
+  const children = new Map<string, ThreadRow[]>()
+  const roots: ThreadRow[] = []
+  for (const t of threads) {
+    if (t.parent_thread_id && t.parent_thread_id !== t.id && ids.has(t.parent_thread_id)) {
+      const list = children.get(t.parent_thread_id) || []
+      list.push(t)
+      children.set(t.parent_thread_id, list)
+    } else {
+      roots.push(t)
+    }
+  }
+
+  const out: ThreadNode[] = []
+  const visited = new Set<string>()
+  const walk = (t: ThreadRow, depth: number) => {
+    if (visited.has(t.id)) return
+    visited.add(t.id)
+    out.push({ thread: t, depth })
+    for (const child of children.get(t.id) || []) walk(child, depth + 1)
+  }
+  for (const root of roots) walk(root, 0)
+  return out
+}
+
 function excerptFromDraft(raw?: string | null) {
   if (!raw) return ''
   try {
@@ -122,6 +154,17 @@ export default function LibraryPage() {
     })
   }, [threads, q])
 
+  // Searching flattens the tree so matches are not hidden under their parents
+  const nodes = useMemo<ThreadNode[]>(
+    () => (q.trim() ? filtered.map((thread) => ({ thread, depth: 0 })) : buildThreadTree(filtered)),
+    [filtered, q]
+  )
+
+  const threadTitles = useMemo(
+    () => new Map(threads.map((t) => [t.id, t.draft_title || t.title || 'Untitled draft'])),
+    [threads]
+  )
+
   const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds])
   const selectedCount = selectedIds.length
   const visibleSelectedCount = useMemo(
@@ -186,7 +229,7 @@ export default function LibraryPage() {
             </p>
             <h1 className="font-serif text-3xl leading-tight">Saved Assets</h1>
             <p className="text-sm text-[var(--editor-ink-muted)] mt-1">
-              All saved drafts for this product.
+              All saved drafts for this product. Branches are nested under the asset they came from.
             </p>
           </div>
           <input
@@ -234,13 +277,17 @@ export default function LibraryPage() {
           </div>
         ) : (
           <div className="grid gap-4">
-            {filtered.map((t) => {
+            {nodes.map(({ thread: t, depth }) => {
               const title = t.draft_title || t.title || 'Untitled draft'
               const excerpt = excerptFromDraft(t.draft_content)
+              const parentTitle = t.parent_thread_id ? threadTitles.get(t.parent_thread_id) : null
               return (
                 <div
                   key={t.id}
-                  className="editor-panel p-5 hover:-translate-y-0.5 transition-transform"
+                  className={`editor-panel p-5 hover:-translate-y-0.5 transition-transform ${
+                    depth > 0 ? 'border-l-2 border-l-[var(--editor-ink-muted)]' : ''
+                  }`}
+                  style={depth > 0 ? { marginLeft: `${Math.min(depth, 6) * 1.5}rem` } : undefined}
                 >
                   <div className="flex items-start justify-between gap-4">
                     <div className="min-w-0 flex-1">
@@ -259,6 +306,18 @@ export default function LibraryPage() {
                           {title}
                         </Link>
                       </div>
+                      {t.parent_thread_id && (
+                        <p className="text-[11px] text-[var(--editor-ink-muted)] mt-1">
+                          Branch of{' '}
+                          {parentTitle ? (
+                            <Link href={`/studio?thread=${t.parent_thread_id}`} className="hover:underline">
+                              {parentTitle}
+                            </Link>
+                          ) : (
+                            'an older asset'
+                          )}
+                        </p>
+                      )}
                       {excerpt && (
                         <p className="text-sm text-[var(--editor-ink-muted)] mt-2 leading-6">
                           {excerpt}
@@ -3,7 +3,10 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useAppContext } from '@/components/app-shell'
 import { CONTENT_TYPES } from '@/lib/content-types'
+import { extractSwipeUrls } from '@/lib/swipe-sources'
 import { ConfirmDialog, FeedbackNotice } from '@/components/ui/feedback'
+import { DraftHistoryPanel } from '@/components/studio/DraftHistoryPanel'
+import type { DraftRevisionSource } from '@/lib/draft-revisions'
 
 type AgentRole = 'user' | 'assistant' | 'tool'
 
@@ -38,6 +41,15 @@ type SwipeRow = {
 
 type AvatarRow = { id: string; name: string; content: string; is_active: boolean }
 type PitchRow = { id: string; name: string; content: string; is_active: boolean }
+type AgentProposalRow = {
+  id: string
+  kind: 'avatar' | 'pitch'
+  action: 'create' | 'update'
+  target_id: string | null
+  target_name?: string | null
+  payload: { name?: string; content?: string; type?: string }
+  rationale: string | null
+}
 type ResearchItemRow = {
   id: string
   title?: string | null
@@ -48,7 +60,7 @@ type SkillOption = { id: string; label: string; description: string; source: 'co
 
 type PromptBlockTrace = {
   key: string
-  source: 'db' | 'default' | 'missing'
+  source: 'user' | 'product' | 'brand' | 'global' | 'default' | 'missing'
   block_id: string | null
   type: string | null
   length: number
@@ -72,6 +84,7 @@ type ContextWindowTrace = {
 }
 
 type PromptDebugTrace = {
+  model?: { model: string; source: string; agent: string; skill: string | null; provider?: string }
   prompt_blocks?: PromptBlockTrace[]
   prompt_sections?: PromptSectionTrace[]
   context_window?: ContextWindowTrace
@@ -82,12 +95,22 @@ type RuntimeCallTrace = {
   request_id?: string
   provider_request_id?: string | null
   model?: string
+  model_provider?: string
+  // Which setting picked the model: skill, agent, organization or default
+  model_source?: string
+  model_skill?: string | null
   estimated_input_tokens?: number
   context_1m_requested?: boolean
   context_1m_active?: boolean
   context_1m_fallback?: boolean
   tool_steps?: number
   max_steps?: number
+  token_usage?: {
+    input_tokens?: number
+    output_tokens?: number
+    cache_creation_input_tokens?: number
+    cache_read_input_tokens?: number
+  }
   deployment?: {
     client_build_id?: string | null
     server_build_id?: string | null
@@ -108,6 +131,7 @@ type AgentChatJsonResponse = {
   request_id?: string
   assistant_message?: string
   thread_context?: ThreadContext
+  proposals?: AgentProposalRow[]
   runtime?: RuntimeCallTrace
 }
 
@@ -122,6 +146,7 @@ type AgentChatFinalEvent = {
 type AgentChatStreamEvent =
   | { type: 'meta'; request_id?: string; runtime?: RuntimeCallTrace; [key: string]: unknown }
   | { type: 'delta'; delta?: string }
+  | { type: 'proposal'; proposal?: AgentProposalRow }
   | AgentChatFinalEvent
   | { type: 'error'; request_id?: string; code?: string; error?: string }
 
@@ -415,6 +440,13 @@ function splitDraftVersions(draft: string, versions: number): string[] {
   return out
 }
 
+const PERSISTED_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Local placeholders (e.g. the pending assistant bubble) are not stored yet
+function isPersistedMessageId(id: string) {
+  return PERSISTED_ID_PATTERN.test(id)
+}
+
 function serializeDraftTabs(tabs: string[]) {
   return JSON.stringify({ tabs })
 }
@@ -438,9 +470,8 @@ function parseDraftTabs(raw: string | null, versions: number): string[] {
   } catch {
     // fall through to plain text
   }
-  const next = Array.from({ length: versions }, () => '')
-  next[0] = raw
-  return next
+  // Plain draft text (e.g. a branch snapshot) may still carry version headings
+  return splitDraftVersions(raw, versions)
 }
 
 function deriveDraftTitle(tabs: string[]) {
@@ -460,10 +491,6 @@ function deriveThreadTitleFromMessage(message: string) {
   return sentence.slice(0, 80)
 }
 
-function isMetaAdLibraryUrlCandidate(text: string) {
-  return /facebook\.com\/ads\/library\//i.test(text)
-}
-
 function renderInline(text: string, keyPrefix: string) {
   const parts = text.split(/(`[^`]+`)/g)
   const out: React.ReactNode[] = []
@@ -683,6 +710,9 @@ async function readJsonFromResponse<T>(res: Response): Promise<T | null> {
 
 const TRANSIENT_CHAT_STATUSES = new Set([429, 502, 503, 504, 529])
 
+// Stream error codes a compact JSON retry cannot fix
+const FATAL_CHAT_ERROR_CODES = new Set(['budget_exceeded'])
+
 function sleep(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms))
 }
@@ -762,6 +792,7 @@ export default function GeneratePage() {
   const [threadContext, setThreadContext] = useState<ThreadContext>({})
   const [threads, setThreads] = useState<Array<any>>([])
   const [threadsLoading, setThreadsLoading] = useState(false)
+  const [branchingMessageId, setBranchingMessageId] = useState<string | null>(null)
   const [threadHydrating, setThreadHydrating] = useState(false)
   const [draftSaving, setDraftSaving] = useState(false)
   const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null)
@@ -773,6 +804,8 @@ export default function GeneratePage() {
   const [avatars, setAvatars] = useState<AvatarRow[]>([])
   const [avatarQuery, setAvatarQuery] = useState('')
   const [pitches, setPitches] = useState<PitchRow[]>([])
+  const [proposals, setProposals] = useState<AgentProposalRow[]>([])
+  const [proposalBusyId, setProposalBusyId] = useState<string | null>(null)
   const [customSkills, setCustomSkills] = useState<SkillOption[]>([])
   const [skillsLoaded, setSkillsLoaded] = useState(false)
   const [skillBuilderOpen, setSkillBuilderOpen] = useState(false)
@@ -813,6 +846,10 @@ export default function GeneratePage() {
   const suppressSelectionRef = useRef(false)
   const historyRef = useRef<Record<number, { entries: string[]; index: number }>>({})
   const historyLockRef = useRef(false)
+  // Who changed each tab since the last save; sent with the draft so the
+  // revision history can tell user edits from agent drafts
+  const draftSourcesRef = useRef<Record<number, DraftRevisionSource>>({})
+  const [revisionHistoryOpen, setRevisionHistoryOpen] = useState(false)
   const historyTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   const scrollRef = useRef<HTMLDivElement | null>(null)
@@ -958,6 +995,7 @@ export default function GeneratePage() {
     setActiveTab(0)
     setDraftSavedAt(null)
     historyRef.current = {}
+    draftSourcesRef.current = {}
 
     const threadRes = await fetch(`/api/agent/threads/${id}`)
     if (!threadRes.ok) {
@@ -995,6 +1033,10 @@ export default function GeneratePage() {
       queueMicrotask(() => scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight }))
     }
 
+    const proposalRes = await fetch(`/api/agent/proposals?thread_id=${thread.id}`)
+    const pendingProposals = proposalRes.ok ? await proposalRes.json().catch(() => []) : []
+    setProposals(Array.isArray(pendingProposals) ? pendingProposals : [])
+
     if (storageKey) {
       localStorage.setItem(storageKey, thread.id)
     }
@@ -1090,12 +1132,14 @@ export default function GeneratePage() {
     return () => clearTimeout(handle)
   }, [threadId, skill, selectedSkills, versions, avatarIds, positioningId, activeSwipeId, researchIds, threadContext.disable_writing_rules])
 
-  // Auto-save draft content
+  // Auto-save draft content. Waits for streaming to finish so partial agent
+  // drafts do not land in the revision history.
   useEffect(() => {
-    if (!threadId || threadHydrating) return
+    if (!threadId || threadHydrating || sending) return
     const handle = setTimeout(async () => {
       const payload = serializeDraftTabs(canvasTabs)
       const draftTitle = deriveDraftTitle(canvasTabs)
+      const draftSources = takeDraftSources()
       setDraftSaving(true)
       await fetch(`/api/agent/threads/${threadId}`, {
         method: 'PATCH',
@@ -1103,6 +1147,7 @@ export default function GeneratePage() {
         body: JSON.stringify({
           draft_content: payload,
           draft_title: draftTitle,
+          draft_sources: draftSources,
         }),
       }).catch(() => {})
       const updatedAt = new Date().toISOString()
@@ -1117,7 +1162,7 @@ export default function GeneratePage() {
       setDraftSavedAt(updatedAt)
     }, 900)
     return () => clearTimeout(handle)
-  }, [threadId, canvasTabs, threadHydrating])
+  }, [threadId, canvasTabs, threadHydrating, sending])
 
   // Load avatars/pitches/swipes for context drawer
   useEffect(() => {
@@ -1308,6 +1353,8 @@ export default function GeneratePage() {
           name,
           type: 'feature_template',
           scope: 'global',
+          // Shared global blocks are super_admin-only; everyone else saves a personal skill
+          user_id: user?.role === 'super_admin' ? null : user?.id || null,
           content: guidance,
           metadata: {
             key,
@@ -1825,6 +1872,7 @@ export default function GeneratePage() {
     setThreadId(null)
     setThreadContext({})
     setMessages([])
+    setProposals([])
     setRuntimeCall(null)
     setCanvasTabs([''])
     setActiveTab(0)
@@ -1864,11 +1912,35 @@ export default function GeneratePage() {
     setFlashActive(true)
   }
 
+  function markDraftSources(prevTabs: string[], nextTabs: string[], source: DraftRevisionSource) {
+    nextTabs.forEach((tab, idx) => {
+      if ((prevTabs[idx] || '') !== (tab || '')) draftSourcesRef.current[idx] = source
+    })
+  }
+
+  function takeDraftSources() {
+    const sources = draftSourcesRef.current
+    draftSourcesRef.current = {}
+    return sources
+  }
+
+  function restoreRevision(content: string) {
+    draftSourcesRef.current[activeTab] = 'restore'
+    setCanvasTabs((prev) => {
+      const next = [...prev]
+      next[activeTab] = content
+      return next
+    })
+    setRevisionHistoryOpen(false)
+    setFeedback({ tone: 'success', message: `Restored version ${activeTab + 1} from history.` })
+  }
+
   function applyDraftAuto(draft: string) {
     const split = splitDraftVersions(draft, versions)
     const targetTab = Math.min(activeTab, split.length - 1)
     const oldText = canvasTabs[targetTab] || ''
     const newText = split[targetTab] || ''
+    markDraftSources(canvasTabs, split, 'inline_edit')
     setCanvasTabs(split)
     setActiveTab(targetTab)
     triggerCanvasHighlight(targetTab, oldText, newText)
@@ -1992,8 +2064,8 @@ export default function GeneratePage() {
     }
 
     try {
-      // Refresh swipe list sooner when the user pastes a Meta URL
-      if (selectedProduct && isMetaAdLibraryUrlCandidate(text)) {
+      // Refresh swipe list sooner when the user pastes a swipe URL
+      if (selectedProduct && extractSwipeUrls(text).length > 0) {
         fetch(`/api/swipes?product_id=${selectedProduct}`)
           .then((r) => r.json())
           .then((data) => setSwipes(Array.isArray(data) ? data : []))
@@ -2059,6 +2131,7 @@ export default function GeneratePage() {
         let sawFirstDelta = false
         let streamFinal: AgentChatFinalEvent | null = null
         let streamError: Error | null = null
+        let streamErrorFatal = false
 
         if (res.ok) {
           lastStatus = res.status
@@ -2068,6 +2141,13 @@ export default function GeneratePage() {
             let streamedText = ''
             await readAgentStreamEvents(res, (event) => {
               if (event.type === 'meta') {
+                const budget = event.budget as { status?: string; percent_used?: number | null } | null
+                if (budget?.status === 'warning') {
+                  setFeedback({
+                    tone: 'info',
+                    message: `Your organization has used ${budget.percent_used ?? 0}% of its monthly AI budget.`,
+                  })
+                }
                 const maybeRuntime = (event.runtime && typeof event.runtime === 'object'
                   ? (event.runtime as RuntimeCallTrace)
                   : null)
@@ -2104,6 +2184,7 @@ export default function GeneratePage() {
                     versions,
                   })
                   if (!areTabsEqual(canvasRef.current, nextTabs)) {
+                    markDraftSources(canvasRef.current, nextTabs, 'ai_draft')
                     setCanvasTabs(nextTabs)
                     canvasUpdatedFromStream = true
                     draftAppliedToCanvas = true
@@ -2131,6 +2212,14 @@ export default function GeneratePage() {
                 return
               }
 
+              if (event.type === 'proposal') {
+                const proposal = event.proposal
+                if (proposal?.id) {
+                  setProposals((prev) => [...prev.filter((p) => p.id !== proposal.id), proposal])
+                }
+                return
+              }
+
               if (event.type === 'final') {
                 streamFinal = event
                 const finalText =
@@ -2170,6 +2259,7 @@ export default function GeneratePage() {
                     : ''
                 const codePrefix =
                   typeof event.code === 'string' && event.code ? `${event.code}: ` : ''
+                streamErrorFatal = typeof event.code === 'string' && FATAL_CHAT_ERROR_CODES.has(event.code)
                 streamError = new Error(
                   `${codePrefix}${event.error || 'Agent chat failed.'}${requestSuffix}`.trim()
                 )
@@ -2188,7 +2278,7 @@ export default function GeneratePage() {
                 }
                 break
               }
-              if (attempt === 0 && !sawFirstDelta) {
+              if (attempt === 0 && !sawFirstDelta && !streamErrorFatal) {
                 await sleep(350)
                 continue
               }
@@ -2287,6 +2377,13 @@ export default function GeneratePage() {
       setPendingAutoApply(false)
 
       setThreadContext((prev) => ({ ...prev, ...(data.thread_context || {}) }))
+      if (Array.isArray(data.proposals) && data.proposals.length > 0) {
+        const incoming = data.proposals
+        setProposals((prev) => [
+          ...prev.filter((p) => !incoming.some((next) => next.id === p.id)),
+          ...incoming,
+        ])
+      }
       if (data.runtime && typeof data.runtime === 'object') {
         setRuntimeCall(data.runtime)
       }
@@ -2304,6 +2401,7 @@ export default function GeneratePage() {
             requestedVersions,
             versions,
           })
+          markDraftSources(canvasRef.current, nextTabs, 'ai_draft')
           setCanvasTabs(nextTabs)
           draftAppliedToCanvas = true
           const firstFilled = nextTabs.findIndex((tab) => tab.trim().length > 0)
@@ -2336,6 +2434,7 @@ export default function GeneratePage() {
         })
       }
       queueMicrotask(() => scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' }))
+      void syncMessageIds(threadId)
     } catch (err) {
       if (err instanceof DOMException && err.name === 'AbortError') {
         setFeedback({ tone: 'info', message: 'Generation stopped.' })
@@ -2362,6 +2461,44 @@ export default function GeneratePage() {
     controller.abort()
   }
 
+  // Streamed messages only exist locally until reload; pick up their stored ids
+  // so they can be branched from right away. Skipped if the lists diverge.
+  async function syncMessageIds(forThreadId: string) {
+    const res = await fetch(`/api/agent/messages?thread_id=${forThreadId}`).catch(() => null)
+    if (!res?.ok) return
+    const stored = await readJsonFromResponse<AgentMessage[]>(res)
+    if (!Array.isArray(stored)) return
+    setMessages((prev) => {
+      if (prev.length !== stored.length) return prev
+      if (prev.some((message, idx) => message.role !== stored[idx].role)) return prev
+      return prev.map((message, idx) => ({ ...message, id: stored[idx].id }))
+    })
+  }
+
+  async function handleBranchFromMessage(messageId: string) {
+    if (!threadId || branchingMessageId) return
+    setBranchingMessageId(messageId)
+    try {
+      const res = await fetch(`/api/agent/threads/${threadId}/branch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message_id: messageId }),
+      })
+      const data = await readJsonFromResponse<{ id?: string; error?: string }>(res)
+      if (!res.ok || !data?.id) {
+        setFeedback({ tone: 'error', message: data?.error || 'Failed to branch asset' })
+        return
+      }
+      setThreads((prev) => [data, ...prev])
+      await loadThreadById(data.id)
+      setFeedback({ tone: 'success', message: 'Branched into a new asset.' })
+    } catch {
+      setFeedback({ tone: 'error', message: 'Failed to branch asset' })
+    } finally {
+      setBranchingMessageId(null)
+    }
+  }
+
   async function handleNewAsset() {
     if (!selectedProduct) return
     const seedContext = threadContext || {}
@@ -2371,6 +2508,47 @@ export default function GeneratePage() {
     await loadThreadById(newThread.id)
   }
 
+  async function resolveProposal(proposal: AgentProposalRow, decision: 'confirm' | 'reject') {
+    if (proposalBusyId) return
+    setProposalBusyId(proposal.id)
+    try {
+      const res = await fetch(`/api/agent/proposals/${proposal.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision }),
+      })
+      const data = await readJsonFromResponse<{ error?: string; record?: AvatarRow | PitchRow }>(res)
+      if (!res.ok) {
+        setFeedback({ tone: 'error', message: data?.error || 'Failed to update proposal' })
+        if (res.status === 409) setProposals((prev) => prev.filter((p) => p.id !== proposal.id))
+        return
+      }
+
+      setProposals((prev) => prev.filter((p) => p.id !== proposal.id))
+      if (decision === 'reject') return
+
+      const record = data?.record
+      if (record) {
+        const upsert = <T extends { id: string }>(rows: T[], row: T) =>
+          rows.some((r) => r.id === row.id) ? rows.map((r) => (r.id === row.id ? row : r)) : [row, ...rows]
+        if (proposal.kind === 'avatar') {
+          setAvatars((prev) => upsert(prev, record as AvatarRow))
+        } else {
+          setPitches((prev) => upsert(prev, record as PitchRow))
+        }
+      }
+      const label = proposal.kind === 'avatar' ? 'Avatar' : 'Positioning'
+      setFeedback({
+        tone: 'success',
+        message: `${label} ${proposal.action === 'create' ? 'saved' : 'updated'}.`,
+      })
+    } catch {
+      setFeedback({ tone: 'error', message: 'Failed to update proposal' })
+    } finally {
+      setProposalBusyId(null)
+    }
+  }
+
   async function handleDeleteThread(id: string) {
     if (!id) return
     if (deletingThread) return
@@ -2418,6 +2596,7 @@ export default function GeneratePage() {
     if (!threadId) return
     const payload = serializeDraftTabs(canvasTabs)
     const draftTitle = deriveDraftTitle(canvasTabs)
+    const draftSources = takeDraftSources()
     setDraftSaving(true)
     await fetch(`/api/agent/threads/${threadId}`, {
       method: 'PATCH',
@@ -2425,6 +2604,7 @@ export default function GeneratePage() {
       body: JSON.stringify({
         draft_content: payload,
         draft_title: draftTitle,
+        draft_sources: draftSources,
       }),
     }).catch(() => {})
     const updatedAt = new Date().toISOString()
@@ -2442,6 +2622,7 @@ export default function GeneratePage() {
   function insertDraftIntoCanvas(draft: string, mode: 'replace' | 'append' = 'replace') {
     const split = splitDraftVersions(draft, versions)
     if (mode === 'replace') {
+      markDraftSources(canvasTabs, split, 'ai_draft')
       setCanvasTabs(split)
       setActiveTab(0)
       return
@@ -2453,6 +2634,7 @@ export default function GeneratePage() {
         const base = next[activeTab] || ''
         const addition = split[0] || ''
         next[activeTab] = [base, addition].filter(Boolean).join('\n\n').trim()
+        markDraftSources(prev, next, 'ai_draft')
         return next
       }
 
@@ -2461,6 +2643,7 @@ export default function GeneratePage() {
         const base = next[idx] || ''
         next[idx] = [base, chunk].filter(Boolean).join('\n\n').trim()
       })
+      markDraftSources(prev, next, 'ai_draft')
       return next
     })
   }
@@ -2528,6 +2711,21 @@ export default function GeneratePage() {
           </button>
         </div>
         <div className="p-4 overflow-auto max-h-[calc(80vh-3.5rem)]">
+          {promptDebug?.model && (
+            <div className="rounded-2xl border border-[var(--editor-border)] bg-[var(--editor-panel-muted)] p-3 mb-3">
+              <p className="text-[10px] uppercase tracking-[0.25em] text-[var(--editor-ink-muted)]">
+                Model
+              </p>
+              <p className="mt-2 text-xs text-[var(--editor-ink)]">
+                <span className="font-semibold">{promptDebug.model.model}</span>
+                <span className="text-[var(--editor-ink-muted)]">
+                  {promptDebug.model.provider ? ` · provider: ${promptDebug.model.provider}` : ''}
+                  {' '}· source: {promptDebug.model.source}
+                  {promptDebug.model.skill ? ` · skill: ${promptDebug.model.skill}` : ''}
+                </span>
+              </p>
+            </div>
+          )}
           {promptDebug?.prompt_blocks && promptDebug.prompt_blocks.length > 0 && (
             <div className="rounded-2xl border border-[var(--editor-border)] bg-[var(--editor-panel-muted)] p-3 mb-3">
               <p className="text-[10px] uppercase tracking-[0.25em] text-[var(--editor-ink-muted)]">
@@ -2758,6 +2956,16 @@ export default function GeneratePage() {
     <div className="h-full min-h-0 flex flex-col">
       {promptModal}
       {deleteThreadModal}
+      {revisionHistoryOpen && threadId && (
+        <DraftHistoryPanel
+          threadId={threadId}
+          tabIndex={activeTab}
+          currentContent={canvasTabs[activeTab] || ''}
+          refreshKey={draftSavedAt}
+          onRestore={restoreRevision}
+          onClose={() => setRevisionHistoryOpen(false)}
+        />
+      )}
       <div className="flex-1 min-h-0 h-full grid grid-cols-1 lg:grid-cols-[360px_1fr] gap-5 p-5 overflow-hidden">
         {/* Chat */}
         <section className="editor-panel relative flex flex-col overflow-hidden min-h-0">
@@ -2849,6 +3057,19 @@ export default function GeneratePage() {
                               {renderMarkdownBlocks(draftParts.after)}
                             </div>
                           )}
+
+                          {m.id && isPersistedMessageId(m.id) && !sending && (
+                            <button
+                              type="button"
+                              onClick={() => handleBranchFromMessage(m.id as string)}
+                              disabled={Boolean(branchingMessageId)}
+                              className={`mt-2 text-[10px] uppercase tracking-[0.2em] ${
+                                isUser ? 'text-[#f5f3ef]/60 hover:text-[#f5f3ef]' : 'text-[var(--editor-ink-muted)] hover:text-[var(--editor-ink)]'
+                              }`}
+                            >
+                              {branchingMessageId === m.id ? 'Branching...' : 'Branch from here'}
+                            </button>
+                          )}
                         </div>
                       </div>
                     )
@@ -2856,6 +3077,62 @@ export default function GeneratePage() {
                 )}
               </div>
 
+              {proposals.length > 0 && (
+                <div className="px-4 pb-3 space-y-2 max-h-64 overflow-auto">
+                  {proposals.map((proposal) => {
+                    const label = proposal.kind === 'avatar' ? 'avatar' : 'positioning'
+                    const title =
+                      proposal.action === 'create'
+                        ? `Save new ${label}`
+                        : `Update ${label}${proposal.target_name ? ` "${proposal.target_name}"` : ''}`
+                    const busy = proposalBusyId === proposal.id
+                    return (
+                      <div
+                        key={proposal.id}
+                        className="rounded-2xl border border-[var(--editor-border)] bg-[var(--editor-panel-muted)] p-3 space-y-2"
+                      >
+                        <div className="flex items-center justify-between gap-3">
+                          <p className="text-[11px] uppercase tracking-[0.2em] text-[var(--editor-ink-muted)]">
+                            {title}
+                          </p>
+                          <div className="flex items-center gap-2">
+                            <button
+                              type="button"
+                              onClick={() => resolveProposal(proposal, 'reject')}
+                              disabled={busy}
+                              className="editor-button-ghost text-xs"
+                            >
+                              Dismiss
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => resolveProposal(proposal, 'confirm')}
+                              disabled={busy}
+                              className="editor-button text-xs"
+                            >
+                              {busy ? 'Saving...' : 'Save'}
+                            </button>
+                          </div>
+                        </div>
+                        {proposal.payload.name && (
+                          <p className="text-[12px] font-semibold text-[var(--editor-ink)]">
+                            {proposal.payload.name}
+                          </p>
+                        )}
+                        {proposal.payload.content && (
+                          <div className="text-[12px] text-[var(--editor-ink)] leading-5 max-h-24 overflow-auto whitespace-pre-wrap">
+                            {proposal.payload.content}
+                          </div>
+                        )}
+                        {proposal.rationale && (
+                          <p className="text-[11px] text-[var(--editor-ink-muted)]">{proposal.rationale}</p>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+
               <div className="p-4 border-t border-[var(--editor-border)] bg-[var(--editor-panel)]/70">
                 <form
                   onSubmit={(e) => {
@@ -3029,6 +3306,8 @@ export default function GeneratePage() {
               value={canvasTabs[activeTab] || ''}
               onChange={(e) => {
                 const val = e.target.value
+                // Keep an unsaved agent/restore source; the save folds this typing into it
+                draftSourcesRef.current[activeTab] ??= 'user_edit'
                 setCanvasTabs((prev) => {
                   const next = [...prev]
                   next[activeTab] = val
@@ -3107,6 +3386,13 @@ export default function GeneratePage() {
                   />
                 </svg>
               </button>
+              <button
+                onClick={() => setRevisionHistoryOpen(true)}
+                disabled={!threadId}
+                className="editor-button-ghost text-xs"
+              >
+                History
+              </button>
               {draftSavedAt && (
                 <span className="text-[11px] text-[var(--editor-ink-muted)]">
                   Saved {new Date(draftSavedAt).toLocaleTimeString()}
@@ -3,6 +3,7 @@
 import { useEffect, useMemo, useState } from 'react'
 import { useAppContext } from '@/components/app-shell'
 import { ConfirmDialog, FeedbackNotice } from '@/components/ui/feedback'
+import { ResearchEvidence } from '@/components/research/ResearchEvidence'
 
 interface Pitch {
   id: string
@@ -10,6 +11,7 @@ interface Pitch {
   content: string
   is_active: boolean
   created_at: string
+  evidence_count?: number
 }
 
 export default function PitchesPage() {
@@ -309,6 +311,10 @@ export default function PitchesPage() {
                 <p className="text-sm text-[var(--editor-ink-muted)] leading-6 mt-3 whitespace-pre-wrap">
                   {pitch.content}
                 </p>
+                <ResearchEvidence
+                  endpoint={`/api/pitches/${pitch.id}/evidence`}
+                  count={pitch.evidence_count ?? 0}
+                />
               </div>
             ))}
           </div>
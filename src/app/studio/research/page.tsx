@@ -1,8 +1,13 @@
 'use client'
 
-import { useEffect, useMemo, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { useAppContext } from '@/components/app-shell'
 import { ConfirmDialog, FeedbackNotice } from '@/components/ui/feedback'
+import { ResearchImagePreview } from '@/components/research/ResearchImagePreview'
+import { getResearchFileType, RESEARCH_FILE_ACCEPT } from '@/lib/research-file-types'
+import { REVIEW_FIELDS, type ImportedReview, type ReviewColumnMapping, type ReviewField } from '@/lib/review-import'
+import type { EvidenceRef } from '@/lib/research-provenance'
+import type { OrganizeAssignment, OrganizeCategory, OrganizeJobState } from '@/lib/research-organize'
 
 type ResearchCategory = {
   id: string
@@ -13,9 +18,11 @@ type ResearchCategory = {
 
 type ResearchItem = {
   id: string
+  type?: string | null
   title?: string | null
   summary?: string | null
   content?: string | null
+  source_url?: string | null
   status?: string | null
   created_at?: string
   category_id?: string | null
@@ -23,19 +30,37 @@ type ResearchItem = {
   job_status?: string | null
 }
 
+// Reviewable copy of an organize job's proposal; an empty category_name
+// leaves the item in the inbox
 type OrganizePlan = {
-  categories: Array<{ name: string; description?: string }>
-  assignments: Array<{ item_id: string; category_name: string }>
+  job_id: string
+  categories: OrganizeCategory[]
+  assignments: OrganizeAssignment[]
+  unassigned_count: number
 }
 
 type SynthesisPlan = {
-  avatars: Array<{ name: string; content: string }>
-  positionings: Array<{ name: string; content: string }>
-  quotes: Array<{ quote: string; source?: string; note?: string }>
-  awareness_insights: Array<{ name: string; summary: string; application?: string }>
+  avatars: Array<{ name: string; content: string; evidence?: EvidenceRef[] }>
+  positionings: Array<{ name: string; content: string; evidence?: EvidenceRef[] }>
+  quotes: Array<{ quote: string; source?: string; note?: string; evidence?: EvidenceRef[] }>
+  awareness_insights: Array<{
+    name: string
+    summary: string
+    application?: string
+    evidence?: EvidenceRef[]
+  }>
+}
+
+type ReviewImportPreview = {
+  format: 'csv' | 'json'
+  headers: string[]
+  mapping: ReviewColumnMapping
+  row_count: number
+  sample: ImportedReview[]
 }
 
 const MAX_UPLOAD_MB = 20
+const MAX_REVIEW_IMPORT_MB = 10
 
 export default function ResearchPage() {
   const { selectedProduct, openContextDrawer } = useAppContext()
@@ -45,16 +70,29 @@ export default function ResearchPage() {
   const [loading, setLoading] = useState(true)
   const [q, setQ] = useState('')
   const [activeCategory, setActiveCategory] = useState<string>('inbox')
+  const [focusedItemId, setFocusedItemId] = useState<string | null>(null)
 
   const [textValue, setTextValue] = useState('')
   const [addingText, setAddingText] = useState(false)
 
+  const [urlValue, setUrlValue] = useState('')
+  const [addingUrl, setAddingUrl] = useState(false)
+
   const [uploading, setUploading] = useState(false)
   const [uploadError, setUploadError] = useState<string | null>(null)
 
+  const [reviewFile, setReviewFile] = useState<{ name: string; text: string } | null>(null)
+  const [reviewPreview, setReviewPreview] = useState<ReviewImportPreview | null>(null)
+  const [reviewMapping, setReviewMapping] = useState<ReviewColumnMapping>({})
+  const [reviewSource, setReviewSource] = useState('')
+  const [previewingReviews, setPreviewingReviews] = useState(false)
+  const [importingReviews, setImportingReviews] = useState(false)
+
   const [organizePlan, setOrganizePlan] = useState<OrganizePlan | null>(null)
   const [organizing, setOrganizing] = useState(false)
   const [organizeOpen, setOrganizeOpen] = useState(false)
+  const [organizeJob, setOrganizeJob] = useState<OrganizeJobState | null>(null)
+  const organizeStreamRef = useRef<EventSource | null>(null)
   const [feedback, setFeedback] = useState<{ tone: 'info' | 'success' | 'error'; message: string } | null>(null)
   const [synthesizeOpen, setSynthesizeOpen] = useState(false)
   const [synthesisPlan, setSynthesisPlan] = useState<SynthesisPlan | null>(null)
@@ -126,6 +164,34 @@ export default function ResearchPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [q])
 
+  // Evidence links on avatars/positioning open /studio/research?item=<id>
+  useEffect(() => {
+    const itemId = new URLSearchParams(window.location.search).get('item')
+    if (!itemId) return
+    setFocusedItemId(itemId)
+    setActiveCategory('all')
+  }, [])
+
+  useEffect(() => {
+    if (!focusedItemId) return
+    document
+      .getElementById(`research-item-${focusedItemId}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [focusedItemId, items])
+
+  function renderEvidence(evidence: EvidenceRef[] | undefined) {
+    const itemIds = Array.from(new Set((evidence || []).map((ref) => ref.item_id)))
+    if (itemIds.length === 0) {
+      return <p className="text-[11px] text-[var(--editor-ink-muted)] mt-2">No cited sources</p>
+    }
+    const titles = itemIds.map((id) => items.find((item) => item.id === id)?.title || 'Untitled research')
+    return (
+      <p className="text-[11px] text-[var(--editor-ink-muted)] mt-2">
+        Based on {itemIds.length} research item{itemIds.length === 1 ? '' : 's'}: {titles.join(', ')}
+      </p>
+    )
+  }
+
   async function addTextItem() {
     if (!selectedProduct) return
     const content = textValue.trim()
@@ -156,6 +222,36 @@ export default function ResearchPage() {
     }
   }
 
+  async function addUrlItem() {
+    if (!selectedProduct) return
+    const url = urlValue.trim()
+    if (!url) return
+    setAddingUrl(true)
+    try {
+      const res = await fetch('/api/research/items', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          product_id: selectedProduct,
+          type: 'url',
+          url,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data?.error || 'Failed to add web page')
+      setUrlValue('')
+      await loadItems()
+      await loadCategories()
+    } catch (err) {
+      setFeedback({
+        tone: 'error',
+        message: err instanceof Error ? err.message : 'Failed to add web page',
+      })
+    } finally {
+      setAddingUrl(false)
+    }
+  }
+
   async function uploadFiles(fileList: FileList | null) {
     if (!selectedProduct || !fileList || fileList.length === 0) return
     setUploading(true)
@@ -166,6 +262,9 @@ export default function ResearchPage() {
         if (file.size > MAX_UPLOAD_MB * 1024 * 1024) {
           throw new Error(`${file.name} exceeds ${MAX_UPLOAD_MB}MB limit`)
         }
+        if (!getResearchFileType(file.name, file.type)) {
+          throw new Error(`${file.name} is not a supported research file type`)
+        }
 
         const res = await fetch('/api/research/uploads', {
           method: 'POST',
@@ -213,6 +312,173 @@ export default function ResearchPage() {
     }
   }
 
+  async function previewReviewImport(
+    file: { name: string; text: string },
+    mapping?: ReviewColumnMapping,
+    source = reviewSource
+  ) {
+    if (!selectedProduct) return
+    setPreviewingReviews(true)
+    try {
+      const res = await fetch('/api/research/import-reviews', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          product_id: selectedProduct,
+          filename: file.name,
+          content: file.text,
+          mapping,
+          source: source.trim() || undefined,
+          preview: true,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data?.error || 'Failed to read reviews')
+      setReviewPreview(data)
+      setReviewMapping(data.mapping || {})
+    } catch (err) {
+      setReviewPreview(null)
+      setFeedback({
+        tone: 'error',
+        message: err instanceof Error ? err.message : 'Failed to read reviews',
+      })
+    } finally {
+      setPreviewingReviews(false)
+    }
+  }
+
+  async function selectReviewFile(fileList: FileList | null) {
+    const file = fileList?.[0]
+    if (!file) return
+    if (file.size > MAX_REVIEW_IMPORT_MB * 1024 * 1024) {
+      setFeedback({ tone: 'error', message: `${file.name} exceeds ${MAX_REVIEW_IMPORT_MB}MB limit` })
+      return
+    }
+    const next = { name: file.name, text: await file.text() }
+    setReviewFile(next)
+    await previewReviewImport(next)
+  }
+
+  function updateReviewMapping(field: ReviewField, column: string) {
+    if (!reviewFile) return
+    const next = { ...reviewMapping, [field]: column || undefined }
+    setReviewMapping(next)
+    previewReviewImport(reviewFile, next)
+  }
+
+  function resetReviewImport() {
+    setReviewFile(null)
+    setReviewPreview(null)
+    setReviewMapping({})
+    setReviewSource('')
+  }
+
+  async function importReviews() {
+    if (!selectedProduct || !reviewFile) return
+    setImportingReviews(true)
+    try {
+      const res = await fetch('/api/research/import-reviews', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          product_id: selectedProduct,
+          filename: reviewFile.name,
+          content: reviewFile.text,
+          mapping: reviewMapping,
+          source: reviewSource.trim() || undefined,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data?.error || 'Failed to import reviews')
+      const themes = Array.isArray(data?.themes) ? data.themes : []
+      const quoteCount = themes.reduce((sum: number, t: { quote_count?: number }) => sum + (t.quote_count || 0), 0)
+      setFeedback({
+        tone: 'success',
+        message: `Imported ${data.review_count} reviews into ${themes.length} themes with ${quoteCount} quotes.${
+          data.skipped_count ? ` ${data.skipped_count} reviews over the limit were skipped.` : ''
+        }`,
+      })
+      resetReviewImport()
+      await loadCategories()
+      await loadItems()
+    } catch (err) {
+      setFeedback({
+        tone: 'error',
+        message: err instanceof Error ? err.message : 'Failed to import reviews',
+      })
+    } finally {
+      setImportingReviews(false)
+    }
+  }
+
+  function openOrganizeReview(job: OrganizeJobState) {
+    setOrganizePlan({
+      job_id: job.job_id,
+      categories: job.categories,
+      assignments: job.assignments,
+      unassigned_count: job.unassigned_count,
+    })
+    setOrganizeOpen(true)
+  }
+
+  function closeOrganizeStream() {
+    organizeStreamRef.current?.close()
+    organizeStreamRef.current = null
+  }
+
+  function watchOrganizeJob(jobId: string) {
+    closeOrganizeStream()
+    const source = new EventSource(`/api/research/organize/${jobId}/stream`)
+    organizeStreamRef.current = source
+    source.onmessage = (event) => {
+      let payload: { type?: string; job?: OrganizeJobState; error?: string } | null = null
+      try {
+        payload = JSON.parse(event.data)
+      } catch {
+        return
+      }
+      if (payload?.type === 'error') {
+        closeOrganizeStream()
+        setFeedback({ tone: 'error', message: payload.error || 'Lost organize progress' })
+        return
+      }
+      const job = payload?.job
+      if (!job) return
+      setOrganizeJob(job)
+      if (payload?.type !== 'done') return
+
+      closeOrganizeStream()
+      if (job.status !== 'completed') {
+        setFeedback({ tone: 'error', message: job.error || `Organize ${job.status}` })
+      } else if (job.assignments.length === 0) {
+        setFeedback({ tone: 'info', message: 'Nothing in the inbox to organize.' })
+      } else {
+        openOrganizeReview(job)
+      }
+    }
+    // EventSource reconnects on its own when the stream window closes
+  }
+
+  useEffect(() => {
+    setOrganizeJob(null)
+    if (!selectedProduct) return
+    let active = true
+    fetch(`/api/research/organize?product_id=${selectedProduct}`)
+      .then((res) => res.json())
+      .then((data) => {
+        const job = data?.job as OrganizeJobState | null
+        if (!active || !job) return
+        setOrganizeJob(job)
+        if (job.status === 'queued' || job.status === 'running') watchOrganizeJob(job.job_id)
+      })
+      .catch(() => {})
+    return () => {
+      active = false
+      closeOrganizeStream()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedProduct])
+
   async function runOrganize() {
     if (!selectedProduct) return
     setOrganizing(true)
@@ -224,8 +490,8 @@ export default function ResearchPage() {
       })
       const data = await res.json()
       if (!res.ok) throw new Error(data?.error || 'Failed to organize')
-      setOrganizePlan(data)
-      setOrganizeOpen(true)
+      setOrganizeJob(data.job)
+      watchOrganizeJob(data.job.job_id)
     } catch (err) {
       setFeedback({
         tone: 'error',
@@ -236,8 +502,28 @@ export default function ResearchPage() {
     }
   }
 
+  function updateOrganizeAssignment(itemId: string, categoryName: string) {
+    setOrganizePlan((prev) =>
+      prev
+        ? {
+            ...prev,
+            assignments: prev.assignments.map((a) =>
+              a.item_id === itemId ? { ...a, category_name: categoryName } : a
+            ),
+          }
+        : prev
+    )
+  }
+
   async function applyOrganize() {
     if (!selectedProduct || !organizePlan) return
+    const assignments = organizePlan.assignments.filter((a) => a.category_name)
+    const usedNames = new Set(assignments.map((a) => a.category_name.toLowerCase()))
+    const categories = organizePlan.categories.filter((cat) => usedNames.has(cat.name.toLowerCase()))
+    if (assignments.length === 0) {
+      setFeedback({ tone: 'info', message: 'No assignments selected.' })
+      return
+    }
     setOrganizing(true)
     try {
       const res = await fetch('/api/research/organize', {
@@ -246,14 +532,20 @@ export default function ResearchPage() {
         body: JSON.stringify({
           product_id: selectedProduct,
           apply: true,
-          categories: organizePlan.categories,
-          assignments: organizePlan.assignments,
+          job_id: organizePlan.job_id,
+          categories,
+          assignments,
         }),
       })
       const data = await res.json()
       if (!res.ok) throw new Error(data?.error || 'Failed to apply')
       setOrganizeOpen(false)
       setOrganizePlan(null)
+      setOrganizeJob((prev) => (prev ? { ...prev, applied_at: new Date().toISOString() } : prev))
+      setFeedback({
+        tone: 'success',
+        message: `Organized ${data.organized ?? assignments.length} items. New categories: ${data.created_categories ?? 0}.`,
+      })
       await loadCategories()
       await loadItems()
     } catch (err) {
@@ -514,13 +806,46 @@ export default function ResearchPage() {
 
           <div className="mt-auto pt-4">
             <div className="space-y-2">
-              <button
-                onClick={runOrganize}
-                disabled={organizing}
-                className="editor-button w-full text-sm"
-              >
-                {organizing ? 'Organizing...' : 'Organize Inbox'}
-              </button>
+              {organizeJob && (organizeJob.status === 'queued' || organizeJob.status === 'running') ? (
+                <div className="editor-panel-soft p-3">
+                  <p className="text-xs text-[var(--editor-ink-muted)]">
+                    {organizeJob.status === 'queued'
+                      ? 'Organize queued...'
+                      : `Organizing ${organizeJob.progress.processed}/${organizeJob.progress.total} items...`}
+                  </p>
+                  <div className="mt-2 h-1.5 rounded-full bg-[var(--editor-border)] overflow-hidden">
+                    <div
+                      className="h-full bg-[var(--editor-accent)] transition-all"
+                      style={{
+                        width: `${
+                          organizeJob.progress.total > 0
+                            ? Math.round((organizeJob.progress.processed / organizeJob.progress.total) * 100)
+                            : 0
+                        }%`,
+                      }}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={runOrganize}
+                  disabled={organizing}
+                  className="editor-button w-full text-sm"
+                >
+                  {organizing ? 'Queueing...' : 'Organize Inbox'}
+                </button>
+              )}
+              {organizeJob?.status === 'completed' &&
+                !organizeJob.applied_at &&
+                organizeJob.assignments.length > 0 &&
+                !organizeOpen && (
+                  <button
+                    onClick={() => openOrganizeReview(organizeJob)}
+                    className="editor-button-ghost w-full text-sm"
+                  >
+                    Review Organization ({organizeJob.assignments.length})
+                  </button>
+                )}
               <button
                 onClick={runSynthesis}
                 disabled={synthLoading || items.length === 0}
@@ -592,16 +917,35 @@ export default function ResearchPage() {
                 >
                   {addingText ? 'Saving...' : 'Save Notes'}
                 </button>
+                <div className="flex items-center gap-2">
+                  <input
+                    value={urlValue}
+                    onChange={(e) => setUrlValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') addUrlItem()
+                    }}
+                    placeholder="Or paste a web page URL (Reddit thread, landing page, reviews...)"
+                    className="editor-input text-sm w-full"
+                  />
+                  <button
+                    onClick={addUrlItem}
+                    disabled={addingUrl || !urlValue.trim()}
+                    className="editor-button-ghost text-sm whitespace-nowrap"
+                  >
+                    {addingUrl ? 'Adding...' : 'Add Page'}
+                  </button>
+                </div>
               </div>
 
               <div className="rounded-2xl border border-dashed border-[var(--editor-border)] bg-[var(--editor-panel-muted)] p-4 space-y-3">
                 <p className="text-xs text-[var(--editor-ink-muted)]">
-                  Upload PDFs, DOCX, or TXT. Max {MAX_UPLOAD_MB}MB each.
+                  Upload PDF, DOCX, spreadsheets (XLSX/CSV), Markdown, HTML, subtitles (SRT/VTT), EPUB, TXT, or
+                  screenshots (text is read with OCR). Max {MAX_UPLOAD_MB}MB each.
                 </p>
                 <input
                   type="file"
                   multiple
-                  accept=".pdf,.docx,.txt"
+                  accept={RESEARCH_FILE_ACCEPT}
                   onChange={(e) => uploadFiles(e.target.files)}
                   className="text-xs"
                 />
@@ -613,6 +957,92 @@ export default function ResearchPage() {
                 )}
               </div>
             </div>
+
+            <div className="mt-4 rounded-2xl border border-dashed border-[var(--editor-border)] bg-[var(--editor-panel-muted)] p-4 space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-xs text-[var(--editor-ink-muted)]">
+                  Import reviews from a CSV or JSON export (Amazon, Trustpilot, Shopify). Reviews are grouped into
+                  themes with verbatim quotes.
+                </p>
+                {reviewFile && (
+                  <button onClick={resetReviewImport} className="editor-button-ghost text-xs">
+                    Clear
+                  </button>
+                )}
+              </div>
+              {!reviewFile ? (
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.json,.jsonl"
+                  onChange={(e) => {
+                    selectReviewFile(e.target.files)
+                    e.target.value = ''
+                  }}
+                  className="text-xs"
+                />
+              ) : (
+                <div className="space-y-3">
+                  <p className="text-xs text-[var(--editor-ink)]">
+                    {reviewFile.name}
+                    {reviewPreview && ` • ${reviewPreview.row_count} rows • ${reviewPreview.format.toUpperCase()}`}
+                  </p>
+                  {reviewPreview && (
+                    <div className="grid gap-2 sm:grid-cols-3 lg:grid-cols-6">
+                      {REVIEW_FIELDS.map((field) => (
+                        <label key={field} className="text-[11px] text-[var(--editor-ink-muted)] space-y-1">
+                          <span className="capitalize">{field}</span>
+                          <select
+                            value={reviewMapping[field] || ''}
+                            onChange={(e) => updateReviewMapping(field, e.target.value)}
+                            className="editor-input text-xs w-full"
+                          >
+                            <option value="">(none)</option>
+                            {reviewPreview.headers.map((header) => (
+                              <option key={header} value={header}>
+                                {header}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      ))}
+                      <label className="text-[11px] text-[var(--editor-ink-muted)] space-y-1">
+                        <span>Default source</span>
+                        <input
+                          value={reviewSource}
+                          onChange={(e) => setReviewSource(e.target.value)}
+                          onBlur={() => reviewFile && previewReviewImport(reviewFile, reviewMapping)}
+                          placeholder="e.g. Amazon"
+                          className="editor-input text-xs w-full"
+                        />
+                      </label>
+                    </div>
+                  )}
+                  {reviewPreview && reviewPreview.sample.length > 0 && (
+                    <div className="space-y-1">
+                      {reviewPreview.sample.map((review, i) => (
+                        <p key={i} className="text-[11px] text-[var(--editor-ink-muted)] truncate">
+                          [{review.rating ?? '-'}/5] {review.title ? `${review.title}: ` : ''}
+                          {review.body}
+                          {review.source ? ` (${review.source})` : ''}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                  <button
+                    onClick={importReviews}
+                    disabled={
+                      importingReviews ||
+                      previewingReviews ||
+                      !reviewPreview ||
+                      (!reviewMapping.body && !reviewMapping.title)
+                    }
+                    className="editor-button text-sm"
+                  >
+                    {importingReviews ? 'Clustering reviews...' : previewingReviews ? 'Reading...' : 'Import Reviews'}
+                  </button>
+                </div>
+              )}
+            </div>
           </div>
 
           <div className="flex items-center gap-3">
@@ -636,7 +1066,13 @@ export default function ResearchPage() {
             ) : (
               <div className="grid gap-4">
                 {items.map((item) => (
-                  <div key={item.id} className="editor-panel p-5">
+                  <div
+                    key={item.id}
+                    id={`research-item-${item.id}`}
+                    className={`editor-panel p-5 ${
+                      focusedItemId === item.id ? 'ring-2 ring-[var(--editor-accent)]' : ''
+                    }`}
+                  >
                     <div className="flex items-start justify-between gap-4">
                       <div className="min-w-0">
                         <p className="text-sm font-semibold truncate">
@@ -652,9 +1088,22 @@ export default function ResearchPage() {
                             {item.content.slice(0, 160)}
                           </p>
                         )}
+                        {item.type === 'image' && (
+                          <ResearchImagePreview itemId={item.id} alt={item.title || 'Research screenshot'} />
+                        )}
                         <div className="mt-3 flex items-center gap-2 text-[11px] text-[var(--editor-ink-muted)]">
                           <span>Status: {item.status || 'unknown'}</span>
                           {item.category_name && <span>• {item.category_name}</span>}
+                          {item.source_url && (
+                            <a
+                              href={item.source_url}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="truncate max-w-[240px] underline"
+                            >
+                              • {item.source_url.replace(/^https?:\/\//, '')}
+                            </a>
+                          )}
                         </div>
                       </div>
 
@@ -712,29 +1161,83 @@ export default function ResearchPage() {
                 </button>
               </div>
 
+              <p className="text-xs text-[var(--editor-ink-muted)] mt-2">
+                {organizePlan.assignments.filter((a) => a.category_name).length} of{' '}
+                {organizePlan.assignments.length} items will be filed
+                {organizePlan.unassigned_count > 0
+                  ? `; ${organizePlan.unassigned_count} got no proposal and stay in the inbox`
+                  : ''}
+                . Change a category or choose &ldquo;Leave in inbox&rdquo; before applying.
+              </p>
+
               <div className="mt-4 space-y-4">
-                {organizePlan.categories.map((cat) => (
-                  <div key={cat.name} className="rounded-2xl border border-[var(--editor-border)] p-4">
-                    <p className="text-sm font-semibold">{cat.name}</p>
-                    {cat.description && (
-                      <p className="text-xs text-[var(--editor-ink-muted)] mt-1">
-                        {cat.description}
-                      </p>
-                    )}
+                {organizePlan.categories.map((cat) => {
+                  const assigned = organizePlan.assignments.filter((a) => a.category_name === cat.name)
+                  if (assigned.length === 0) return null
+                  return (
+                    <div key={cat.name} className="rounded-2xl border border-[var(--editor-border)] p-4">
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-semibold">{cat.name}</p>
+                        <span
+                          className={`chat-chip ${cat.category_id ? 'chat-chip--muted' : 'chat-chip--accent'}`}
+                        >
+                          {cat.category_id ? 'Existing' : 'New'}
+                        </span>
+                      </div>
+                      {cat.description && (
+                        <p className="text-xs text-[var(--editor-ink-muted)] mt-1">
+                          {cat.description}
+                        </p>
+                      )}
+                      <ul className="mt-2 space-y-1 text-xs text-[var(--editor-ink-muted)]">
+                        {assigned.map((a) => (
+                          <li key={a.item_id} className="flex items-center justify-between gap-3">
+                            <span className="truncate">{a.title || a.item_id}</span>
+                            <select
+                              value={a.category_name}
+                              onChange={(e) => updateOrganizeAssignment(a.item_id, e.target.value)}
+                              className="editor-input text-xs py-1 max-w-[180px]"
+                            >
+                              {organizePlan.categories.map((option) => (
+                                <option key={option.name} value={option.name}>
+                                  {option.name}
+                                </option>
+                              ))}
+                              <option value="">Leave in inbox</option>
+                            </select>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )
+                })}
+
+                {organizePlan.assignments.some((a) => !a.category_name) && (
+                  <div className="rounded-2xl border border-dashed border-[var(--editor-border)] p-4">
+                    <p className="text-sm font-semibold">Leave in inbox</p>
                     <ul className="mt-2 space-y-1 text-xs text-[var(--editor-ink-muted)]">
                       {organizePlan.assignments
-                        .filter((a) => a.category_name === cat.name)
-                        .map((a) => {
-                          const item = items.find((i) => i.id === a.item_id)
-                          return (
-                            <li key={a.item_id}>
-                              {item?.title || item?.summary?.slice(0, 60) || a.item_id}
-                            </li>
-                          )
-                        })}
+                        .filter((a) => !a.category_name)
+                        .map((a) => (
+                          <li key={a.item_id} className="flex items-center justify-between gap-3">
+                            <span className="truncate">{a.title || a.item_id}</span>
+                            <select
+                              value=""
+                              onChange={(e) => updateOrganizeAssignment(a.item_id, e.target.value)}
+                              className="editor-input text-xs py-1 max-w-[180px]"
+                            >
+                              <option value="">Leave in inbox</option>
+                              {organizePlan.categories.map((option) => (
+                                <option key={option.name} value={option.name}>
+                                  {option.name}
+                                </option>
+                              ))}
+                            </select>
+                          </li>
+                        ))}
                     </ul>
                   </div>
-                ))}
+                )}
               </div>
 
               <div className="mt-6 flex items-center justify-end gap-3">
@@ -876,6 +1379,7 @@ export default function ResearchPage() {
                               <p className="text-sm text-[var(--editor-ink-muted)] mt-2 leading-6 whitespace-pre-wrap">
                                 {avatar.content}
                               </p>
+                              {renderEvidence(avatar.evidence)}
                             </div>
                             <button
                               onClick={() =>
@@ -908,6 +1412,7 @@ export default function ResearchPage() {
                               <p className="text-sm text-[var(--editor-ink-muted)] mt-2 leading-6 whitespace-pre-wrap">
                                 {positioning.content}
                               </p>
+                              {renderEvidence(positioning.evidence)}
                             </div>
                             <button
                               onClick={() =>
@@ -944,6 +1449,7 @@ export default function ResearchPage() {
                                   {[quote.source, quote.note].filter(Boolean).join(' · ')}
                                 </p>
                               )}
+                              {renderEvidence(quote.evidence)}
                             </div>
                             <button
                               onClick={() =>
@@ -981,6 +1487,7 @@ export default function ResearchPage() {
                                   Application: {insight.application}
                                 </p>
                               )}
+                              {renderEvidence(insight.evidence)}
                             </div>
                             <button
                               onClick={() =>
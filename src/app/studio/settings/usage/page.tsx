@@ -0,0 +1,354 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useAppContext } from '@/components/app-shell'
+import type { LlmUsageBreakdownRow, LlmUsageSummary } from '@/lib/llm-usage'
+
+const FEATURE_LABELS: Record<string, string> = {
+  agent_chat: 'Agent chat',
+  generate: 'Concept generation',
+  research_synthesize: 'Research synthesis',
+  research_import_reviews: 'Review import',
+  swipe_namer: 'Swipe naming',
+  avatar_namer: 'Avatar naming',
+  embeddings: 'Search embeddings',
+  ingest_meta_ad: 'Swipe ingest',
+  ingest_swipe_upload: 'Swipe upload',
+  ingest_research_file: 'Research file ingest',
+  ingest_research_url: 'Research URL ingest',
+  organize_research_inbox: 'Inbox organizer',
+  backfill_swipe_tags: 'Swipe tag backfill',
+  sync_product_embeddings: 'Search indexing',
+}
+
+function featureLabel(feature: string) {
+  return FEATURE_LABELS[feature] || feature.replace(/_/g, ' ')
+}
+
+function formatUsd(value: number) {
+  return `$${value.toFixed(value > 0 && value < 1 ? 4 : 2)}`
+}
+
+function formatTokens(value: number) {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`
+  return String(value)
+}
+
+function BreakdownTable({
+  title,
+  rows,
+  label,
+}: {
+  title: string
+  rows: LlmUsageBreakdownRow[]
+  label: (row: LlmUsageBreakdownRow) => string
+}) {
+  return (
+    <div className="editor-panel p-5">
+      <p className="text-xs uppercase tracking-[0.22em] text-[var(--editor-ink-muted)]">{title}</p>
+      {rows.length === 0 ? (
+        <p className="text-sm text-[var(--editor-ink-muted)] mt-3">No usage this month.</p>
+      ) : (
+        <table className="w-full text-sm mt-3">
+          <thead>
+            <tr className="text-left text-[11px] text-[var(--editor-ink-muted)]">
+              <th className="font-normal pb-2">Name</th>
+              <th className="font-normal pb-2 text-right">Calls</th>
+              <th className="font-normal pb-2 text-right">Input</th>
+              <th className="font-normal pb-2 text-right">Output</th>
+              <th className="font-normal pb-2 text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-t border-[var(--editor-border)]">
+                <td className="py-2 pr-3 truncate max-w-[220px]">{label(row)}</td>
+                <td className="py-2 text-right tabular-nums">{row.calls}</td>
+                <td className="py-2 text-right tabular-nums">
+                  {formatTokens(row.input_tokens + row.cache_creation_input_tokens + row.cache_read_input_tokens)}
+                </td>
+                <td className="py-2 text-right tabular-nums">{formatTokens(row.output_tokens)}</td>
+                <td className="py-2 text-right tabular-nums">{formatUsd(row.cost_usd)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
+
+export default function UsagePage() {
+  const { selectedOrg, openContextDrawer } = useAppContext()
+  const [loading, setLoading] = useState(true)
+  const [summary, setSummary] = useState<LlmUsageSummary | null>(null)
+  const [budgetInput, setBudgetInput] = useState('')
+  const [warnAtInput, setWarnAtInput] = useState('80')
+  const [hardStop, setHardStop] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  async function load() {
+    if (!selectedOrg) return
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/settings/usage?org_id=${selectedOrg}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data?.error || 'Failed to load usage')
+      setSummary(data)
+      setBudgetInput(data.budget?.monthly_budget_usd != null ? String(data.budget.monthly_budget_usd) : '')
+      setWarnAtInput(String(data.budget?.warn_at_percent ?? 80))
+      setHardStop(data.budget?.hard_stop ?? true)
+    } catch (err) {
+      setSummary(null)
+      setMessage(err instanceof Error ? err.message : 'Failed to load usage')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setMessage(null)
+    if (selectedOrg) load()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedOrg])
+
+  async function saveBudget() {
+    if (!selectedOrg) return
+    const trimmed = budgetInput.trim()
+    const monthlyBudget = trimmed ? Number(trimmed) : null
+    if (monthlyBudget !== null && (!Number.isFinite(monthlyBudget) || monthlyBudget <= 0)) {
+      setMessage('Budget must be a positive dollar amount, or blank for no budget.')
+      return
+    }
+
+    setSaving(true)
+    setMessage(null)
+    try {
+      const res = await fetch('/api/settings/usage', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          organization_id: selectedOrg,
+          monthly_budget_usd: monthlyBudget,
+          warn_at_percent: Math.round(Number(warnAtInput) || 80),
+          hard_stop: hardStop,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data?.error || 'Failed to save budget')
+      await load()
+      setMessage(monthlyBudget === null ? 'Budget removed.' : 'Budget saved.')
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to save budget')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!selectedOrg) {
+    return (
+      <div className="h-full flex items-center justify-center p-10">
+        <div className="editor-panel p-8 max-w-lg w-full text-center">
+          <p className="font-serif text-2xl">Select an organization</p>
+          <p className="text-sm text-[var(--editor-ink-muted)] mt-2">
+            Usage and budgets are tracked per organization.
+          </p>
+          <button onClick={openContextDrawer} className="editor-button mt-6">
+            Open Context
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const budget = summary?.budget
+  const percent = budget?.percent_used ?? null
+  const maxDayCost = Math.max(0, ...(summary?.by_day || []).map((day) => day.cost_usd))
+
+  return (
+    <div className="h-full p-6 overflow-auto">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div>
+          <p className="text-[10px] uppercase tracking-[0.3em] text-[var(--editor-ink-muted)]">
+            Settings
+          </p>
+          <h1 className="font-serif text-3xl leading-tight">Usage</h1>
+          <p className="text-sm text-[var(--editor-ink-muted)] mt-2">
+            Model calls made with this organization&apos;s keys, month to date. Costs are estimates from list prices.
+          </p>
+        </div>
+
+        {message && (
+          <div className="editor-panel p-4 text-sm text-[var(--editor-ink)]">{message}</div>
+        )}
+
+        {loading ? (
+          <div className="text-sm text-[var(--editor-ink-muted)]">Loading...</div>
+        ) : summary && budget ? (
+          <>
+            <div className="editor-panel p-5 space-y-4">
+              <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+                <div>
+                  <p className="text-xs uppercase tracking-[0.22em] text-[var(--editor-ink-muted)]">
+                    Monthly Budget
+                  </p>
+                  <p className="text-2xl font-semibold mt-2 tabular-nums">
+                    {formatUsd(budget.spent_usd)}
+                    <span className="text-sm font-normal text-[var(--editor-ink-muted)]">
+                      {budget.monthly_budget_usd != null
+                        ? ` of ${formatUsd(budget.monthly_budget_usd)}${percent != null ? ` (${percent}%)` : ''}`
+                        : ' spent, no budget set'}
+                    </span>
+                  </p>
+                  {budget.status === 'warning' && (
+                    <p className="text-xs text-amber-700 mt-1">Past the {budget.warn_at_percent}% warning threshold.</p>
+                  )}
+                  {budget.status === 'exceeded' && (
+                    <p className="text-xs text-red-600 mt-1">
+                      {budget.hard_stop
+                        ? 'Budget reached. AI features are paused until next month or a higher budget.'
+                        : 'Budget reached. Hard stop is off, so AI features keep running.'}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {budget.monthly_budget_usd != null && (
+                <div className="h-2 rounded-full bg-[var(--editor-panel-muted)] overflow-hidden">
+                  <div
+                    className={`h-full ${
+                      budget.status === 'exceeded'
+                        ? 'bg-red-500'
+                        : budget.status === 'warning'
+                          ? 'bg-amber-500'
+                          : 'bg-emerald-500'
+                    }`}
+                    style={{ width: `${Math.min(100, percent ?? 0)}%` }}
+                  />
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto_auto] gap-3 items-end">
+                <div>
+                  <label className="block text-xs text-[var(--editor-ink-muted)] mb-1">Budget (USD / month)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={budgetInput}
+                    onChange={(e) => setBudgetInput(e.target.value)}
+                    placeholder="No budget"
+                    className="editor-input w-full text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-[var(--editor-ink-muted)] mb-1">Warn at (%)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="100"
+                    value={warnAtInput}
+                    onChange={(e) => setWarnAtInput(e.target.value)}
+                    className="editor-input w-full text-sm"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm pb-2">
+                  <input type="checkbox" checked={hardStop} onChange={(e) => setHardStop(e.target.checked)} />
+                  Hard stop
+                </label>
+                <button onClick={saveBudget} disabled={saving} className="editor-button text-xs">
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Calls', value: String(summary.totals.calls) },
+                {
+                  label: 'Input tokens',
+                  value: formatTokens(
+                    summary.totals.input_tokens +
+                      summary.totals.cache_creation_input_tokens +
+                      summary.totals.cache_read_input_tokens
+                  ),
+                },
+                { label: 'Output tokens', value: formatTokens(summary.totals.output_tokens) },
+                { label: 'Est. cost', value: formatUsd(summary.totals.cost_usd) },
+              ].map((stat) => (
+                <div key={stat.label} className="editor-panel p-4">
+                  <p className="text-[11px] text-[var(--editor-ink-muted)]">{stat.label}</p>
+                  <p className="text-xl font-semibold tabular-nums mt-1">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {summary.by_day.length > 0 && (
+              <div className="editor-panel p-5">
+                <p className="text-xs uppercase tracking-[0.22em] text-[var(--editor-ink-muted)]">Daily Cost</p>
+                <div className="flex items-end gap-1 h-28 mt-4">
+                  {summary.by_day.map((day) => (
+                    <div
+                      key={day.key}
+                      title={`${day.key}: ${formatUsd(day.cost_usd)} (${day.calls} calls)`}
+                      className="flex-1 bg-[var(--editor-ink)] opacity-80 rounded-t"
+                      style={{ height: `${maxDayCost > 0 ? Math.max(2, (day.cost_usd / maxDayCost) * 100) : 2}%` }}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <BreakdownTable title="By Feature" rows={summary.by_feature} label={(row) => featureLabel(row.key)} />
+              <BreakdownTable title="By Model" rows={summary.by_model} label={(row) => row.key} />
+              <BreakdownTable
+                title="By User"
+                rows={summary.by_user}
+                label={(row) => (row.key === 'unattributed' ? 'Background jobs' : row.label || row.key)}
+              />
+            </div>
+
+            <div className="editor-panel p-5">
+              <p className="text-xs uppercase tracking-[0.22em] text-[var(--editor-ink-muted)]">Recent Calls</p>
+              {summary.recent.length === 0 ? (
+                <p className="text-sm text-[var(--editor-ink-muted)] mt-3">No calls recorded yet.</p>
+              ) : (
+                <table className="w-full text-sm mt-3">
+                  <thead>
+                    <tr className="text-left text-[11px] text-[var(--editor-ink-muted)]">
+                      <th className="font-normal pb-2">When</th>
+                      <th className="font-normal pb-2">Feature</th>
+                      <th className="font-normal pb-2">Model</th>
+                      <th className="font-normal pb-2">User</th>
+                      <th className="font-normal pb-2 text-right">Tokens in / out</th>
+                      <th className="font-normal pb-2 text-right">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.recent.map((event) => (
+                      <tr key={event.id} className="border-t border-[var(--editor-border)]">
+                        <td className="py-2 pr-3 whitespace-nowrap text-[12px]">
+                          {new Date(event.created_at).toLocaleString()}
+                        </td>
+                        <td className="py-2 pr-3">{featureLabel(event.feature)}</td>
+                        <td className="py-2 pr-3 text-[12px]">{event.model}</td>
+                        <td className="py-2 pr-3 truncate max-w-[160px]">{event.user_name || '\u2014'}</td>
+                        <td className="py-2 text-right tabular-nums">
+                          {formatTokens(event.input_tokens)} / {formatTokens(event.output_tokens)}
+                        </td>
+                        <td className="py-2 text-right tabular-nums">{formatUsd(event.cost_usd)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        ) : null}
+      </div>
+    </div>
+  )
+}
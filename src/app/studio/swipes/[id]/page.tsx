@@ -2,8 +2,10 @@
 
 import Link from 'next/link'
 import { useParams, useRouter } from 'next/navigation'
-import { useEffect, useMemo, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { ConfirmDialog, FeedbackNotice } from '@/components/ui/feedback'
+import { SWIPE_TAG_DIMENSIONS, swipeTagLabel, type SwipeTags } from '@/lib/swipe-taxonomy'
+import { formatTimestamp, type SwipeShot, type TranscriptSegment } from '@/lib/swipe-shots'
 
 const STALE_MS = 10 * 60 * 1000
 
@@ -19,10 +21,13 @@ type SwipeRow = {
   ad_copy?: string | null
   cta?: string | null
   media_type?: string | null
+  tags?: SwipeTags | null
+  transcript_segments?: TranscriptSegment[] | null
+  shots?: SwipeShot[] | null
   created_at?: string
   updated_at?: string
   job_id?: string | null
-  job_status?: 'queued' | 'running' | 'completed' | 'failed' | null
+  job_status?: 'queued' | 'running' | 'completed' | 'failed' | 'dead' | 'cancelled' | null
   job_error_message?: string | null
   job_updated_at?: string | null
 }
@@ -42,6 +47,8 @@ export default function SwipeDetailPage() {
   const [swipe, setSwipe] = useState<SwipeRow | null>(null)
   const [videoUrl, setVideoUrl] = useState<string | null>(null)
   const [imageUrl, setImageUrl] = useState<string | null>(null)
+  const [shotFrames, setShotFrames] = useState<Array<SwipeShot & { frame_url: string | null }>>([])
+  const videoRef = useRef<HTMLVideoElement>(null)
   const [showTranscript, setShowTranscript] = useState(true)
   const [feedback, setFeedback] = useState<{ tone: 'info' | 'success' | 'error'; message: string } | null>(null)
   const [loadError, setLoadError] = useState<string | null>(null)
@@ -68,6 +75,17 @@ export default function SwipeDetailPage() {
   }, [stale, swipe])
 
   const canRetry = Boolean(swipe && swipe.status !== 'ready')
+  const hasShots = Boolean(swipe?.shots && swipe.shots.length > 0)
+  const segments = swipe?.transcript_segments || []
+  // Keyframe URLs arrive after the swipe itself; show the shots without frames until then
+  const shotRows = shotFrames.length > 0 ? shotFrames : (swipe?.shots || []).map((shot) => ({ ...shot, frame_url: null }))
+
+  function seekTo(seconds: number) {
+    const video = videoRef.current
+    if (!video) return
+    video.currentTime = seconds
+    void video.play().catch(() => {})
+  }
 
   async function handleDelete() {
     if (deleting) return
@@ -190,6 +208,27 @@ export default function SwipeDetailPage() {
     }
   }, [swipe?.status, swipe?.id, swipe?.media_type, imageUrl])
 
+  const swipeId = swipe?.id
+  const swipeStatus = swipe?.status
+  useEffect(() => {
+    let active = true
+    if (!swipeId || swipeStatus !== 'ready' || !hasShots) return
+    const run = async () => {
+      try {
+        const res = await fetch(`/api/swipes/${swipeId}/shots`)
+        const data = await res.json()
+        if (!active) return
+        if (res.ok && Array.isArray(data?.shots)) setShotFrames(data.shots)
+      } catch {
+        // ignore
+      }
+    }
+    run()
+    return () => {
+      active = false
+    }
+  }, [swipeId, swipeStatus, hasShots])
+
   if (loading) {
     return (
       <div className="h-full p-6">
@@ -236,7 +275,7 @@ export default function SwipeDetailPage() {
             <h1 className="font-serif text-3xl leading-tight truncate">
               {swipe.title || 'Untitled swipe'}
             </h1>
-            {swipe.source_url && (
+            {swipe.source_url && /^https?:\/\//i.test(swipe.source_url) && (
               <a
                 href={swipe.source_url}
                 target="_blank"
@@ -289,6 +328,31 @@ export default function SwipeDetailPage() {
           </div>
         )}
 
+        {swipe.tags && Object.keys(swipe.tags).length > 0 && (
+          <div className="editor-panel p-5">
+            <p className="text-[10px] uppercase tracking-[0.28em] text-[var(--editor-ink-muted)]">
+              Tags
+            </p>
+            <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-3">
+              {SWIPE_TAG_DIMENSIONS.filter((dimension) => swipe.tags?.[dimension.key]).map((dimension) => (
+                <div key={dimension.key}>
+                  <dt className="text-[10px] uppercase tracking-[0.22em] text-[var(--editor-ink-muted)]">
+                    {dimension.label}
+                  </dt>
+                  <dd className="text-sm mt-1">
+                    <Link
+                      href={`/studio/swipes?${dimension.key}=${encodeURIComponent(swipe.tags?.[dimension.key] || '')}`}
+                      className="hover:text-[var(--editor-accent)]"
+                    >
+                      {swipeTagLabel(dimension.key, swipe.tags?.[dimension.key] || '')}
+                    </Link>
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+
         {(swipe.headline || swipe.ad_copy || swipe.cta) && (
           <div className="editor-panel p-5 space-y-4">
             <p className="text-[10px] uppercase tracking-[0.28em] text-[var(--editor-ink-muted)]">
@@ -323,6 +387,40 @@ export default function SwipeDetailPage() {
           </div>
         )}
 
+        {hasShots && (
+          <div className="editor-panel p-5">
+            <p className="text-[10px] uppercase tracking-[0.28em] text-[var(--editor-ink-muted)]">
+              Shot List ({swipe.shots?.length})
+            </p>
+            <div className="mt-4 divide-y divide-[var(--editor-border)]">
+              {shotRows.map((shot) => (
+                <div key={shot.index} className="flex items-start gap-4 py-3">
+                  <button
+                    onClick={() => seekTo(shot.start)}
+                    disabled={!videoUrl}
+                    className="w-28 shrink-0 aspect-[9/16] max-h-40 rounded-xl overflow-hidden border border-[var(--editor-border)] bg-[var(--editor-panel-muted)]"
+                    title="Play from this shot"
+                  >
+                    {shot.frame_url ? (
+                      <img src={shot.frame_url} alt={`Shot ${shot.index + 1}`} className="w-full h-full object-cover" />
+                    ) : (
+                      <span className="text-[10px] text-[var(--editor-ink-muted)]">No frame</span>
+                    )}
+                  </button>
+                  <div className="min-w-0">
+                    <p className="text-[11px] font-mono text-[var(--editor-ink-muted)]">
+                      Shot {shot.index + 1} · {formatTimestamp(shot.start)}-{formatTimestamp(shot.end)}
+                    </p>
+                    <p className="text-sm leading-6 mt-1">
+                      {shot.text || <span className="text-[var(--editor-ink-muted)] italic">No dialogue</span>}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="editor-panel p-5">
           <div className="flex items-center justify-between">
             <div>
@@ -335,7 +433,24 @@ export default function SwipeDetailPage() {
             </button>
           </div>
 
-          {showTranscript && (
+          {showTranscript && segments.length > 0 && (
+            <div className="mt-4 space-y-1 text-sm leading-6 bg-[var(--editor-panel-muted)] border border-[var(--editor-border)] rounded-2xl p-4 overflow-auto">
+              {segments.map((segment, index) => (
+                <p key={index} className="flex gap-3">
+                  <button
+                    onClick={() => seekTo(segment.start)}
+                    disabled={!videoUrl}
+                    className="font-mono text-[11px] text-[var(--editor-accent)] shrink-0 pt-0.5 disabled:text-[var(--editor-ink-muted)]"
+                  >
+                    {formatTimestamp(segment.start)}
+                  </button>
+                  <span>{segment.text}</span>
+                </p>
+              ))}
+            </div>
+          )}
+
+          {showTranscript && segments.length === 0 && (
             <pre className="mt-4 whitespace-pre-wrap text-sm leading-6 text-[var(--editor-ink)] bg-[var(--editor-panel-muted)] border border-[var(--editor-border)] rounded-2xl p-4 overflow-auto">
               {swipe.transcript || '(no transcript yet)'}
             </pre>
@@ -353,7 +468,7 @@ export default function SwipeDetailPage() {
             </div>
           ) : swipe.status === 'ready' && videoUrl ? (
             <div className="mt-3">
-              <video src={videoUrl} controls className="max-w-xs w-full rounded-2xl border border-[var(--editor-border)]" />
+              <video ref={videoRef} src={videoUrl} controls className="max-w-xs w-full rounded-2xl border border-[var(--editor-border)]" />
             </div>
           ) : swipe.status === 'processing' ? (
             <div className="flex items-center gap-2 mt-3">
@@ -4,6 +4,14 @@ import Link from 'next/link'
 import { useEffect, useMemo, useState } from 'react'
 import { useAppContext } from '@/components/app-shell'
 import { ConfirmDialog, FeedbackNotice } from '@/components/ui/feedback'
+import { isDirectMediaUrl, isSupportedSwipeUrl, SWIPE_UPLOAD_MAX_MB } from '@/lib/swipe-sources'
+import {
+  SWIPE_TAG_DIMENSIONS,
+  swipeTagFiltersFromParams,
+  swipeTagLabel,
+  type SwipeTagKey,
+  type SwipeTags,
+} from '@/lib/swipe-taxonomy'
 
 const STALE_MS = 10 * 60 * 1000
 
@@ -16,17 +24,24 @@ type SwipeRow = {
   ad_copy?: string | null
   cta?: string | null
   media_type?: string | null
+  tags?: SwipeTags | null
   transcript_preview?: string | null
   source_url?: string | null
   created_at?: string
   updated_at?: string
   job_id?: string | null
-  job_status?: 'queued' | 'running' | 'completed' | 'failed' | null
+  job_status?: 'queued' | 'running' | 'completed' | 'failed' | 'dead' | 'cancelled' | null
   job_error_message?: string | null
   job_updated_at?: string | null
   job_attempts?: number | null
 }
 
+type SwipeFacet = {
+  key: SwipeTagKey
+  label: string
+  values: Array<{ value: string; label: string; count: number }>
+}
+
 function toMillis(value?: string | null) {
   if (!value) return 0
   const ms = new Date(value).getTime()
@@ -46,8 +61,11 @@ export default function SwipesPage() {
   const [loading, setLoading] = useState(true)
   const [q, setQ] = useState('')
   const [swipes, setSwipes] = useState<SwipeRow[]>([])
+  const [tagFilters, setTagFilters] = useState<SwipeTags>({})
+  const [facets, setFacets] = useState<SwipeFacet[]>([])
   const [ingestUrl, setIngestUrl] = useState('')
   const [ingesting, setIngesting] = useState(false)
+  const [uploading, setUploading] = useState(false)
   const [manualOpen, setManualOpen] = useState(false)
   const [manualTitle, setManualTitle] = useState('')
   const [manualText, setManualText] = useState('')
@@ -89,9 +107,18 @@ export default function SwipesPage() {
     if (!selectedProduct) return
     if (!silent) setLoading(true)
     try {
-      const res = await fetch(`/api/swipes?product_id=${selectedProduct}`)
+      const params = new URLSearchParams({ product_id: selectedProduct })
+      for (const [key, value] of Object.entries(tagFilters)) {
+        if (value) params.set(key, value)
+      }
+      const [res, facetRes] = await Promise.all([
+        fetch(`/api/swipes?${params.toString()}`),
+        fetch(`/api/swipes/facets?${params.toString()}`),
+      ])
       const data = await res.json()
+      const facetData = await facetRes.json().catch(() => ({}))
       setSwipes(Array.isArray(data) ? data : [])
+      setFacets(Array.isArray(facetData?.facets) ? facetData.facets : [])
     } catch {
       if (!silent) setSwipes([])
     } finally {
@@ -109,7 +136,22 @@ export default function SwipesPage() {
 
     return () => clearInterval(interval)
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedProduct])
+  }, [selectedProduct, tagFilters])
+
+  // Tag links on the swipe detail page open /studio/swipes?<dimension>=<value>
+  useEffect(() => {
+    const initial = swipeTagFiltersFromParams(new URLSearchParams(window.location.search))
+    if (Object.keys(initial).length > 0) setTagFilters(initial)
+  }, [])
+
+  function toggleTagFilter(key: SwipeTagKey, value: string) {
+    setTagFilters((prev) => {
+      const next = { ...prev }
+      if (next[key] === value) delete next[key]
+      else next[key] = value
+      return next
+    })
+  }
 
   useEffect(() => {
     let active = true
@@ -141,10 +183,14 @@ export default function SwipesPage() {
     if (!url) return
     setIngesting(true)
     try {
-      const res = await fetch('/api/swipes/ingest-meta', {
+      // Direct links to an MP4/PNG skip scraping
+      const direct = !isSupportedSwipeUrl(url) && isDirectMediaUrl(url)
+      const res = await fetch(direct ? '/api/swipes/ingest-upload' : '/api/swipes/ingest-meta', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ product_id: selectedProduct, url }),
+        body: JSON.stringify(
+          direct ? { product_id: selectedProduct, media_url: url } : { product_id: selectedProduct, url }
+        ),
       })
       const data = await res.json()
       if (!res.ok) throw new Error(data?.error || 'Failed to ingest')
@@ -160,6 +206,65 @@ export default function SwipesPage() {
     }
   }
 
+  async function uploadSwipeFiles(fileList: FileList | null) {
+    if (!selectedProduct || !fileList || fileList.length === 0) return
+    setUploading(true)
+
+    try {
+      for (const file of Array.from(fileList)) {
+        if (file.size > SWIPE_UPLOAD_MAX_MB * 1024 * 1024) {
+          throw new Error(`${file.name} exceeds ${SWIPE_UPLOAD_MAX_MB}MB limit`)
+        }
+        const mime = file.type || 'application/octet-stream'
+
+        const res = await fetch('/api/swipes/uploads', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            product_id: selectedProduct,
+            filename: file.name,
+            mime,
+            size: file.size,
+          }),
+        })
+        const data = await res.json()
+        if (!res.ok) throw new Error(data?.error || 'Failed to get upload URL')
+
+        const putRes = await fetch(data.upload_url, {
+          method: 'PUT',
+          headers: { 'Content-Type': mime },
+          body: file,
+        })
+        if (!putRes.ok) throw new Error(`Failed to upload ${file.name}`)
+
+        const createRes = await fetch('/api/swipes/ingest-upload', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            product_id: selectedProduct,
+            file: {
+              key: data.r2_key,
+              filename: file.name,
+              mime,
+              size: file.size,
+            },
+          }),
+        })
+        const createData = await createRes.json()
+        if (!createRes.ok) throw new Error(createData?.error || 'Failed to create swipe')
+      }
+
+      await load()
+    } catch (err) {
+      setFeedback({
+        tone: 'error',
+        message: err instanceof Error ? err.message : 'Upload failed',
+      })
+    } finally {
+      setUploading(false)
+    }
+  }
+
   function openManualSwipe() {
     setManualOpen(true)
     setManualTitle('')
@@ -303,7 +408,7 @@ export default function SwipesPage() {
               <input
                 value={ingestUrl}
                 onChange={(e) => setIngestUrl(e.target.value)}
-                placeholder="Paste Meta Ad Library URL..."
+                placeholder="Paste an ad, TikTok, Shorts or direct MP4/PNG URL..."
                 className="editor-input text-sm w-full sm:w-[360px]"
               />
               <button
@@ -314,12 +419,25 @@ export default function SwipesPage() {
                 {ingesting ? 'Saving...' : 'Ingest'}
               </button>
             </div>
-            <button
-              onClick={() => (manualOpen ? setManualOpen(false) : openManualSwipe())}
-              className="editor-button-ghost text-xs"
-            >
-              {manualOpen ? 'Close Manual Swipe' : 'Add Manual Swipe'}
-            </button>
+            <div className="flex items-center justify-between gap-3">
+              <label className="editor-button-ghost text-xs cursor-pointer">
+                {uploading ? 'Uploading...' : 'Upload Video / Image'}
+                <input
+                  type="file"
+                  multiple
+                  accept="video/*,image/*"
+                  disabled={uploading}
+                  onChange={(e) => uploadSwipeFiles(e.target.files)}
+                  className="hidden"
+                />
+              </label>
+              <button
+                onClick={() => (manualOpen ? setManualOpen(false) : openManualSwipe())}
+                className="editor-button-ghost text-xs"
+              >
+                {manualOpen ? 'Close Manual Swipe' : 'Add Manual Swipe'}
+              </button>
+            </div>
           </div>
         </div>
 
@@ -430,14 +548,51 @@ export default function SwipesPage() {
             placeholder="Search swipes..."
             className="editor-input text-sm w-full"
           />
+          {Object.keys(tagFilters).length > 0 && (
+            <button onClick={() => setTagFilters({})} className="editor-button-ghost text-xs whitespace-nowrap">
+              Clear tags
+            </button>
+          )}
         </div>
 
+        {facets.some((facet) => facet.values.length > 0) && (
+          <div className="editor-panel-soft p-4 mb-4 space-y-2">
+            {facets
+              .filter((facet) => facet.values.length > 0)
+              .map((facet) => (
+                <div key={facet.key} className="flex flex-wrap items-center gap-2">
+                  <span className="text-[10px] uppercase tracking-[0.22em] text-[var(--editor-ink-muted)] w-28 shrink-0">
+                    {facet.label}
+                  </span>
+                  {facet.values.map((option) => {
+                    const active = tagFilters[facet.key] === option.value
+                    return (
+                      <button
+                        key={option.value}
+                        onClick={() => toggleTagFilter(facet.key, option.value)}
+                        className={`text-[11px] px-2 py-0.5 rounded-full border transition-colors ${
+                          active
+                            ? 'border-[var(--editor-accent)] text-[var(--editor-accent)]'
+                            : 'border-[var(--editor-border)] text-[var(--editor-ink-muted)] hover:text-[var(--editor-ink)]'
+                        }`}
+                      >
+                        {option.label} <span className="opacity-60">{option.count}</span>
+                      </button>
+                    )
+                  })}
+                </div>
+              ))}
+          </div>
+        )}
+
         {loading ? (
           <p className="text-sm text-[var(--editor-ink-muted)]">Loading...</p>
         ) : filtered.length === 0 ? (
           <div className="editor-panel-soft p-8 text-center">
             <p className="text-sm text-[var(--editor-ink-muted)]">
-              No swipes yet. Paste a Meta Ad Library URL above or in the Agent chat.
+              {Object.keys(tagFilters).length > 0
+                ? 'No swipes match these tags.'
+                : 'No swipes yet. Paste an ad URL, upload a file above, or paste a URL in the Agent chat.'}
             </p>
           </div>
         ) : (
@@ -499,6 +654,19 @@ export default function SwipesPage() {
                           {s.cta}
                         </span>
                       )}
+                      {s.tags && Object.keys(s.tags).length > 0 && (
+                        <div className="flex flex-wrap gap-1.5 mt-2">
+                          {SWIPE_TAG_DIMENSIONS.filter((dimension) => s.tags?.[dimension.key]).map((dimension) => (
+                            <span
+                              key={dimension.key}
+                              title={dimension.label}
+                              className="text-[10px] px-2 py-0.5 rounded-full bg-[var(--editor-panel-muted)] text-[var(--editor-ink-muted)]"
+                            >
+                              {swipeTagLabel(dimension.key, s.tags?.[dimension.key] || '')}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                       {s.transcript_preview && (
                         <p className="text-xs text-[var(--editor-ink-muted)] mt-2 leading-5 line-clamp-2 italic">
                           {s.transcript_preview}{s.transcript_preview.length >= 200 ? '...' : ''}
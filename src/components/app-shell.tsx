@@ -201,6 +201,7 @@ export function AppShell({ children }: { children: ReactNode }) {
     { label: 'Positioning', href: '/studio/pitches', icon: <TargetIcon /> },
     { label: 'Research', href: '/studio/research', icon: <SearchIcon /> },
     { label: 'Swipes', href: '/studio/swipes', icon: <FilmIcon /> },
+    { label: 'Competitors', href: '/studio/competitors', icon: <EyeIcon /> },
     { label: 'Library', href: '/studio/library', icon: <LibraryIcon /> },
     { label: 'Skills', href: '/studio/skills', icon: <WandIcon /> },
   ]
@@ -210,6 +211,7 @@ export function AppShell({ children }: { children: ReactNode }) {
     { label: 'Brands', href: '/studio/settings/brands', icon: <TagIcon /> },
     { label: 'Products', href: '/studio/settings/products', icon: <BoxIcon /> },
     { label: 'API Keys', href: '/studio/settings/api-keys', icon: <KeyIcon /> },
+    { label: 'Usage', href: '/studio/settings/usage', icon: <GaugeIcon /> },
     { label: 'Users', href: '/admin/users', icon: <UsersIcon />, adminOnly: true },
   ]
 
@@ -597,6 +599,20 @@ function FilmIcon() {
   )
 }
 
+function EyeIcon() {
+  return (
+    <svg viewBox="0 0 24 24" fill="none" className="w-5 h-5" aria-hidden="true">
+      <path
+        d="M2.5 12S6 5.5 12 5.5 21.5 12 21.5 12 18 18.5 12 18.5 2.5 12 2.5 12z"
+        stroke="currentColor"
+        strokeWidth="1.8"
+        strokeLinejoin="round"
+      />
+      <circle cx="12" cy="12" r="3" stroke="currentColor" strokeWidth="1.8" />
+    </svg>
+  )
+}
+
 function LibraryIcon() {
   return (
     <svg viewBox="0 0 24 24" fill="none" className="w-5 h-5" aria-hidden="true">
@@ -799,6 +815,26 @@ function UsersIcon() {
   )
 }
 
+function GaugeIcon() {
+  return (
+    <svg viewBox="0 0 24 24" fill="none" className="w-5 h-5" aria-hidden="true">
+      <path
+        d="M4 17a8 8 0 1116 0"
+        stroke="currentColor"
+        strokeWidth="1.8"
+        strokeLinecap="round"
+      />
+      <path
+        d="M12 17l4-5"
+        stroke="currentColor"
+        strokeWidth="1.8"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    </svg>
+  )
+}
+
 function KeyIcon() {
   return (
     <svg viewBox="0 0 24 24" fill="none" className="w-5 h-5" aria-hidden="true">
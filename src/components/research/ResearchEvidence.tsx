@@ -0,0 +1,107 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { ProvenanceItem } from '@/lib/research-provenance'
+
+interface ResearchEvidenceProps {
+  // e.g. /api/avatars/<id>/evidence
+  endpoint: string
+  // Distinct item count from the list API; when omitted the list is loaded up front
+  count?: number
+  defaultOpen?: boolean
+}
+
+export function researchItemHref(itemId: string) {
+  return `/studio/research?item=${encodeURIComponent(itemId)}`
+}
+
+async function fetchEvidence(endpoint: string): Promise<ProvenanceItem[]> {
+  const res = await fetch(endpoint)
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data?.error || 'Failed to load evidence')
+  return Array.isArray(data?.items) ? data.items : []
+}
+
+export function ResearchEvidence({ endpoint, count, defaultOpen = false }: ResearchEvidenceProps) {
+  const [open, setOpen] = useState(defaultOpen)
+  const [items, setItems] = useState<ProvenanceItem[] | null>(null)
+  const [loading, setLoading] = useState(count === undefined)
+  const [error, setError] = useState('')
+
+  function load() {
+    setLoading(true)
+    setError('')
+    fetchEvidence(endpoint)
+      .then(setItems)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load evidence'))
+      .finally(() => setLoading(false))
+  }
+
+  useEffect(() => {
+    if (count !== undefined) return
+    let active = true
+    fetchEvidence(endpoint)
+      .then((rows) => {
+        if (active) setItems(rows)
+      })
+      .catch((err) => {
+        if (active) setError(err instanceof Error ? err.message : 'Failed to load evidence')
+      })
+      .finally(() => {
+        if (active) setLoading(false)
+      })
+    return () => {
+      active = false
+    }
+  }, [count, endpoint])
+
+  function toggle() {
+    if (!open && items === null && !loading) load()
+    setOpen((prev) => !prev)
+  }
+
+  const total = items ? items.length : count ?? 0
+  if (total === 0 && !loading && !error) return null
+
+  return (
+    <div className="mt-3">
+      <button
+        onClick={toggle}
+        className="text-xs text-[var(--editor-accent)] hover:underline"
+      >
+        {open ? 'Hide sources' : `Based on ${total} research item${total === 1 ? '' : 's'}`}
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2">
+          {loading && <p className="text-xs text-[var(--editor-ink-muted)]">Loading evidence...</p>}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          {items?.map((item) => (
+            <div key={item.research_item_id} className="editor-panel-soft p-3">
+              <Link
+                href={researchItemHref(item.research_item_id)}
+                className="text-xs font-semibold text-[var(--editor-ink)] hover:underline"
+              >
+                {item.title || 'Untitled research item'}
+              </Link>
+              {item.quotes.length > 0 ? (
+                <ul className="mt-1 space-y-1">
+                  {item.quotes.map((quote, idx) => (
+                    <li key={idx} className="text-xs text-[var(--editor-ink-muted)] italic leading-5">
+                      &ldquo;{quote.quote}&rdquo;
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                item.summary && (
+                  <p className="mt-1 text-xs text-[var(--editor-ink-muted)] line-clamp-2">{item.summary}</p>
+                )
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
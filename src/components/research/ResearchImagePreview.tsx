@@ -0,0 +1,46 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface ResearchImagePreviewProps {
+  itemId: string
+  alt: string
+}
+
+// Thumbnail of an uploaded screenshot; opens the original in a new tab
+export function ResearchImagePreview({ itemId, alt }: ResearchImagePreviewProps) {
+  const [url, setUrl] = useState<string | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    let active = true
+    fetch(`/api/research/items/${itemId}/file-url`)
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}))
+        if (!active) return
+        if (res.ok && data?.url) setUrl(data.url)
+        else setFailed(true)
+      })
+      .catch(() => {
+        if (active) setFailed(true)
+      })
+    return () => {
+      active = false
+    }
+  }, [itemId])
+
+  if (failed) return null
+  if (!url) {
+    return <div className="mt-3 h-32 w-48 rounded-xl bg-[var(--editor-panel-muted)] animate-pulse" />
+  }
+
+  return (
+    <a href={url} target="_blank" rel="noreferrer" className="mt-3 inline-block">
+      <img
+        src={url}
+        alt={alt}
+        className="max-h-48 max-w-xs rounded-xl border border-[var(--editor-border)] object-contain"
+      />
+    </a>
+  )
+}
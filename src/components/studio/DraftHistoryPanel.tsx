@@ -0,0 +1,186 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import type { DraftRevision, DraftRevisionSource } from '@/lib/draft-revisions'
+import { countWordChanges, diffWords } from '@/lib/word-diff'
+
+interface DraftHistoryPanelProps {
+  threadId: string
+  tabIndex: number
+  // Live canvas text for the tab, used for the "vs current" comparison
+  currentContent: string
+  // Changes whenever the canvas is saved so the timeline picks up new revisions
+  refreshKey?: string | null
+  onRestore: (content: string) => void
+  onClose: () => void
+}
+
+type CompareMode = 'previous' | 'current'
+
+const SOURCE_LABELS: Record<DraftRevisionSource, string> = {
+  user_edit: 'Edit',
+  ai_draft: 'AI draft',
+  inline_edit: 'Inline edit',
+  restore: 'Restore',
+}
+
+function authorLabel(revision: DraftRevision) {
+  if (revision.source === 'ai_draft') return 'Agent'
+  return revision.author_name || revision.author_email || 'Earlier version'
+}
+
+export function DraftHistoryPanel({
+  threadId,
+  tabIndex,
+  currentContent,
+  refreshKey,
+  onRestore,
+  onClose,
+}: DraftHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<DraftRevision[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [mode, setMode] = useState<CompareMode>('previous')
+
+  useEffect(() => {
+    let active = true
+    fetch(`/api/agent/threads/${threadId}/revisions?tab=${tabIndex}`)
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}))
+        if (!res.ok) throw new Error(data?.error || 'Failed to load history')
+        if (!active) return
+        setRevisions(Array.isArray(data?.revisions) ? data.revisions : [])
+        setError('')
+      })
+      .catch((err) => {
+        if (active) setError(err instanceof Error ? err.message : 'Failed to load history')
+      })
+      .finally(() => {
+        if (active) setLoading(false)
+      })
+    return () => {
+      active = false
+    }
+  }, [threadId, tabIndex, refreshKey])
+
+  const selectedIndex = revisions.findIndex((revision) => revision.id === selectedId)
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : revisions[0] || null
+  const previous = selected ? revisions[(selectedIndex >= 0 ? selectedIndex : 0) + 1] || null : null
+
+  const diff = useMemo(() => {
+    if (!selected) return []
+    return mode === 'current'
+      ? diffWords(selected.content, currentContent)
+      : diffWords(previous?.content || '', selected.content)
+  }, [selected, previous, mode, currentContent])
+
+  const changes = countWordChanges(diff)
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/30 backdrop-blur-sm" onClick={onClose} />
+      <div className="absolute right-6 top-20 w-[860px] max-w-[94vw] h-[80vh] bg-[var(--editor-panel)] border border-[var(--editor-border)] rounded-2xl shadow-[0_24px_60px_-40px_var(--editor-shadow)] overflow-hidden flex flex-col">
+        <div className="px-4 py-3 border-b border-[var(--editor-border)] flex items-center justify-between">
+          <div>
+            <p className="text-[10px] uppercase tracking-[0.3em] text-[var(--editor-ink-muted)]">
+              Revision History
+            </p>
+            <p className="text-sm font-semibold">Version {tabIndex + 1}</p>
+          </div>
+          <button onClick={onClose} className="editor-button-ghost text-xs">
+            Close
+          </button>
+        </div>
+
+        {loading ? (
+          <p className="p-4 text-xs text-[var(--editor-ink-muted)]">Loading history...</p>
+        ) : error ? (
+          <p className="p-4 text-xs text-red-600">{error}</p>
+        ) : revisions.length === 0 ? (
+          <p className="p-4 text-xs text-[var(--editor-ink-muted)]">
+            No revisions yet. Edits and agent drafts on this tab will appear here.
+          </p>
+        ) : (
+          <div className="flex-1 min-h-0 grid grid-cols-[240px_1fr]">
+            <ul className="border-r border-[var(--editor-border)] overflow-auto p-2 space-y-1">
+              {revisions.map((revision, idx) => {
+                const active = selected?.id === revision.id
+                return (
+                  <li key={revision.id}>
+                    <button
+                      onClick={() => setSelectedId(revision.id)}
+                      className={`w-full text-left rounded-xl px-3 py-2 text-[12px] transition-colors ${
+                        active
+                          ? 'bg-[var(--editor-ink)] text-[var(--editor-rail-ink)]'
+                          : 'text-[var(--editor-ink)] hover:bg-[var(--editor-panel-muted)]'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-semibold">{SOURCE_LABELS[revision.source] || revision.source}</span>
+                        {idx === 0 && <span className="text-[10px] opacity-70">latest</span>}
+                      </div>
+                      <p className="text-[11px] opacity-70 truncate">{authorLabel(revision)}</p>
+                      <p className="text-[10px] opacity-70">
+                        {new Date(revision.updated_at || revision.created_at).toLocaleString()}
+                      </p>
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+
+            {selected && (
+              <div className="min-h-0 flex flex-col">
+                <div className="px-4 py-2 border-b border-[var(--editor-border)] flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-2">
+                    {(['previous', 'current'] as CompareMode[]).map((value) => (
+                      <button
+                        key={value}
+                        onClick={() => setMode(value)}
+                        className={`px-3 py-1 rounded-full text-[11px] border transition-colors ${
+                          mode === value
+                            ? 'bg-[var(--editor-ink)] text-[var(--editor-rail-ink)] border-[var(--editor-ink)]'
+                            : 'text-[var(--editor-ink-muted)] border-[var(--editor-border)] hover:text-[var(--editor-ink)]'
+                        }`}
+                      >
+                        {value === 'previous' ? 'Changes in this revision' : 'Compare to canvas'}
+                      </button>
+                    ))}
+                    <span className="text-[11px] text-[var(--editor-ink-muted)]">
+                      +{changes.added} / -{changes.removed} words
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => onRestore(selected.content)}
+                    disabled={selected.content === currentContent}
+                    className="editor-button text-xs"
+                  >
+                    Restore
+                  </button>
+                </div>
+                <div className="flex-1 overflow-auto p-4">
+                  <pre className="whitespace-pre-wrap text-[13px] leading-6 text-[var(--editor-ink)] font-sans">
+                    {diff.map((part, idx) =>
+                      part.type === 'equal' ? (
+                        <span key={idx}>{part.text}</span>
+                      ) : part.type === 'insert' ? (
+                        <ins key={idx} className="no-underline bg-emerald-100 text-emerald-900 rounded-sm">
+                          {part.text}
+                        </ins>
+                      ) : (
+                        <del key={idx} className="bg-red-100 text-red-800 rounded-sm">
+                          {part.text}
+                        </del>
+                      )
+                    )}
+                  </pre>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
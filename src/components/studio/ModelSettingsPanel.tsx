@@ -0,0 +1,164 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { LlmAgent, LlmModel, OrgModelSettings } from '@/lib/model-registry'
+
+export type ModelSettingsData = {
+  models: LlmModel[]
+  agents: LlmAgent[]
+  agent_defaults: Record<string, string>
+  settings: OrgModelSettings
+}
+
+interface ModelSettingsPanelProps {
+  orgId: string
+  data: ModelSettingsData
+  skills: Array<{ key: string; label: string }>
+  onSaved: (data: ModelSettingsData) => void
+}
+
+function ModelSelect({
+  value,
+  models,
+  inheritLabel,
+  onChange,
+}: {
+  value: string
+  models: LlmModel[]
+  inheritLabel: string
+  onChange: (value: string) => void
+}) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className="editor-input text-sm w-64">
+      <option value="">{inheritLabel}</option>
+      {models.map((model) => (
+        <option key={model.id} value={model.id}>
+          {model.label} ({model.tier})
+        </option>
+      ))}
+    </select>
+  )
+}
+
+function withoutEmpty<T extends string>(values: Partial<Record<T, string>>) {
+  return Object.fromEntries(Object.entries(values).filter(([, model]) => Boolean(model))) as Record<T, string>
+}
+
+export function ModelSettingsPanel({ orgId, data, skills, onSaved }: ModelSettingsPanelProps) {
+  const [draft, setDraft] = useState<OrgModelSettings>(data.settings)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    setDraft(data.settings)
+  }, [data.settings])
+
+  const modelLabel = (id: string) => data.models.find((model) => model.id === id)?.label || id
+  const agentModels = (agent: LlmAgent) => data.models.filter((model) => agent.providers.includes(model.provider))
+  // The org default only reaches agents that can call its provider
+  const agentFallback = (agent: LlmAgent) => {
+    const fallback = data.models.find((model) => model.id === draft.default_model)
+    return fallback && agent.providers.includes(fallback.provider) ? fallback.id : data.agent_defaults[agent.id]
+  }
+
+  async function save() {
+    setSaving(true)
+    setMessage(null)
+    try {
+      const res = await fetch('/api/settings/models', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          organization_id: orgId,
+          default_model: draft.default_model || null,
+          agent_models: withoutEmpty(draft.agent_models),
+          skill_models: withoutEmpty(draft.skill_models),
+        }),
+      })
+      const body = await res.json()
+      if (!res.ok) throw new Error(body?.error || 'Failed to save models')
+      onSaved({ ...data, settings: body.settings, agent_defaults: body.agent_defaults || data.agent_defaults })
+      setMessage('Saved.')
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to save models')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6 max-w-4xl">
+      <div className="editor-panel p-5">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <p className="text-xs uppercase tracking-[0.22em] text-[var(--editor-ink-muted)]">Organization Default</p>
+            <p className="text-sm text-[var(--editor-ink)] mt-2 font-medium">
+              Used by every agent without its own override.
+            </p>
+            <p className="text-xs text-[var(--editor-ink-muted)] mt-2">
+              Leave it on deployment defaults to keep small models on cheap tasks. Worker agents only run Claude models
+              and keep their own default when this is an OpenAI model.
+            </p>
+          </div>
+          <button onClick={save} disabled={saving} className="editor-button text-xs">
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+        <div className="mt-4">
+          <ModelSelect
+            value={draft.default_model || ''}
+            models={data.models}
+            inheritLabel="Deployment defaults"
+            onChange={(value) => setDraft((prev) => ({ ...prev, default_model: value || null }))}
+          />
+        </div>
+        {message && <p className="text-xs text-[var(--editor-ink-muted)] mt-3">{message}</p>}
+      </div>
+
+      <div className="editor-panel p-5">
+        <p className="text-xs uppercase tracking-[0.22em] text-[var(--editor-ink-muted)]">Agents</p>
+        <div className="mt-3 divide-y divide-[var(--editor-border)]">
+          {data.agents.map((agent) => (
+            <div key={agent.id} className="py-3 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-[var(--editor-ink)]">{agent.label}</p>
+                <p className="text-xs text-[var(--editor-ink-muted)]">{agent.description}</p>
+              </div>
+              <ModelSelect
+                value={draft.agent_models[agent.id] || ''}
+                models={agentModels(agent)}
+                inheritLabel={`Inherit (${modelLabel(agentFallback(agent))})`}
+                onChange={(value) =>
+                  setDraft((prev) => ({ ...prev, agent_models: { ...prev.agent_models, [agent.id]: value } }))
+                }
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="editor-panel p-5">
+        <p className="text-xs uppercase tracking-[0.22em] text-[var(--editor-ink-muted)]">Skills</p>
+        <p className="text-xs text-[var(--editor-ink-muted)] mt-2">
+          Overrides the Writer Agent and Concept Generator when the skill is active. With several skills, the first one
+          with an override wins.
+        </p>
+        <div className="mt-3 divide-y divide-[var(--editor-border)]">
+          {skills.map((skill) => (
+            <div key={skill.key} className="py-3 flex items-center justify-between gap-4">
+              <p className="text-sm font-medium text-[var(--editor-ink)] truncate">{skill.label}</p>
+              <ModelSelect
+                value={draft.skill_models[skill.key] || ''}
+                models={data.models}
+                inheritLabel="Inherit agent model"
+                onChange={(value) =>
+                  setDraft((prev) => ({ ...prev, skill_models: { ...prev.skill_models, [skill.key]: value } }))
+                }
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+import { NextResponse } from 'next/server'
+import { sql } from '@/lib/db'
+import type { AuthenticatedUser } from '@/lib/require-auth'
+
+/**
+ * Organization-scoped authorization.
+ *
+ * Every product-bound record resolves product -> brand -> organization.
+ * super_admin users can reach every organization; org_admin users only the
+ * organizations granted through user_organization_access.
+ */
+
+export type AccessResource =
+  | 'organization'
+  | 'brand'
+  | 'product'
+  | 'avatar'
+  | 'pitch'
+  | 'swipe'
+  | 'research_item'
+  | 'research_category'
+  | 'research_file'
+  | 'agent_thread'
+  | 'generation_run'
+  | 'asset'
+  | 'competitor_watchlist'
+
+type OrganizationIdRow = { organization_id: string | null }
+
+const productOrganizationQuery = (table: string) => `
+  SELECT brands.organization_id
+  FROM ${table}
+  JOIN products ON products.id = ${table}.product_id
+  JOIN brands ON brands.id = products.brand_id
+  WHERE ${table}.id = $1
+  LIMIT 1
+`
+
+// Each resource resolves to its owning organization through product -> brand.
+const ORGANIZATION_ID_QUERIES: Record<AccessResource, string> = {
+  organization: 'SELECT id AS organization_id FROM organizations WHERE id = $1 LIMIT 1',
+  brand: 'SELECT organization_id FROM brands WHERE id = $1 LIMIT 1',
+  product: `
+    SELECT brands.organization_id
+    FROM products
+    JOIN brands ON brands.id = products.brand_id
+    WHERE products.id = $1
+    LIMIT 1
+  `,
+  avatar: productOrganizationQuery('avatars'),
+  pitch: productOrganizationQuery('pitches'),
+  swipe: productOrganizationQuery('swipes'),
+  research_item: productOrganizationQuery('research_items'),
+  research_category: productOrganizationQuery('research_categories'),
+  research_file: productOrganizationQuery('research_files'),
+  agent_thread: productOrganizationQuery('agent_threads'),
+  generation_run: productOrganizationQuery('generation_runs'),
+  competitor_watchlist: productOrganizationQuery('competitor_watchlists'),
+  asset: `
+    SELECT brands.organization_id
+    FROM assets
+    JOIN generation_runs ON generation_runs.id = assets.generation_run_id
+    JOIN products ON products.id = generation_runs.product_id
+    JOIN brands ON brands.id = products.brand_id
+    WHERE assets.id = $1
+    LIMIT 1
+  `,
+}
+
+export function isSuperAdmin(user: AuthenticatedUser) {
+  return user.role === 'super_admin'
+}
+
+export function forbiddenResponse() {
+  return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+}
+
+/**
+ * Organization ids the user may access, or null when unrestricted (super_admin).
+ */
+export async function getAccessibleOrganizationIds(
+  user: AuthenticatedUser
+): Promise<string[] | null> {
+  if (isSuperAdmin(user)) return null
+  const rows = await sql`
+    SELECT organization_id
+    FROM user_organization_access
+    WHERE user_id = ${user.id}
+  `
+  return rows.map((row) => String(row.organization_id))
+}
+
+export async function canAccessOrganization(
+  user: AuthenticatedUser,
+  organizationId: string | null | undefined
+): Promise<boolean> {
+  if (isSuperAdmin(user)) return true
+  if (!organizationId) return false
+  const rows = await sql`
+    SELECT 1
+    FROM user_organization_access
+    WHERE user_id = ${user.id}
+      AND organization_id = ${organizationId}
+    LIMIT 1
+  `
+  return rows.length > 0
+}
+
+export async function resolveOrganizationId(
+  resource: AccessResource,
+  id: string
+): Promise<string | null> {
+  const rows = (await sql.query(ORGANIZATION_ID_QUERIES[resource], [id])) as OrganizationIdRow[]
+  return rows[0]?.organization_id ?? null
+}
+
+export async function resolveProductOrganizationId(productId: string): Promise<string | null> {
+  return resolveOrganizationId('product', productId)
+}
+
+/**
+ * Checks access to the organization that owns a product.
+ * Unknown products are denied, so list/create routes never leak across orgs.
+ */
+export async function canAccessProduct(
+  user: AuthenticatedUser,
+  productId: string | null | undefined
+): Promise<boolean> {
+  if (isSuperAdmin(user)) return true
+  if (!productId) return false
+  return canAccessOrganization(user, await resolveProductOrganizationId(productId))
+}
+
+export async function canAccessBrand(
+  user: AuthenticatedUser,
+  brandId: string | null | undefined
+): Promise<boolean> {
+  if (isSuperAdmin(user)) return true
+  if (!brandId) return false
+  return canAccessOrganization(user, await resolveOrganizationId('brand', brandId))
+}
+
+/**
+ * Checks access to a single record addressed by id.
+ * Missing records are allowed through so the route can answer with its own 404.
+ */
+export async function canAccessResource(
+  user: AuthenticatedUser,
+  resource: AccessResource,
+  id: string
+): Promise<boolean> {
+  if (isSuperAdmin(user)) return true
+  const rows = (await sql.query(ORGANIZATION_ID_QUERIES[resource], [id])) as OrganizationIdRow[]
+  if (!rows[0]) return true
+  return canAccessOrganization(user, rows[0].organization_id)
+}
+
+export type PromptBlockScopeRef = {
+  scope?: string | null
+  scope_id?: string | null
+  user_id?: string | null
+}
+
+/**
+ * Checks access to a prompt block's scope. Brand and product blocks follow the
+ * organization that owns their scope_id, and a user override belongs to that
+ * user only. Shared global blocks are readable by everyone signed in but only
+ * super_admin may write them.
+ */
+export async function canAccessPromptBlock(
+  user: AuthenticatedUser,
+  block: PromptBlockScopeRef,
+  mode: 'read' | 'write'
+): Promise<boolean> {
+  if (isSuperAdmin(user)) return true
+  if (block.user_id && block.user_id !== user.id) return false
+  if (block.scope === 'brand') return canAccessBrand(user, block.scope_id)
+  if (block.scope === 'product') return canAccessProduct(user, block.scope_id)
+  return mode === 'read' || Boolean(block.user_id)
+}
@@ -0,0 +1,26 @@
+import * as shared from '../../services/media-worker/src/ad-library.js'
+
+// Typed view over the Ad Library helpers shared with the media worker.
+
+export type WatchlistKind = 'page' | 'search'
+
+export const AD_LIBRARY_DEFAULT_BASE_URL: string = shared.AD_LIBRARY_DEFAULT_BASE_URL
+
+export const WATCHLIST_KINDS = shared.WATCHLIST_KINDS as WatchlistKind[]
+
+export function normalizeAdLibraryPageId(value: string): string | null {
+  return shared.normalizeAdLibraryPageId(value)
+}
+
+export function buildAdLibraryListingUrl(watchlist: {
+  kind: WatchlistKind
+  page_id?: string | null
+  search_terms?: string | null
+  country?: string | null
+}): string {
+  return shared.buildAdLibraryListingUrl(watchlist)
+}
+
+export function adLibraryAdUrl(adArchiveId: string): string {
+  return shared.adLibraryAdUrl(adArchiveId)
+}
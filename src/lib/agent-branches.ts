@@ -0,0 +1,132 @@
+import { sql } from '@/lib/db'
+
+// ============================================================================
+// AGENT THREAD BRANCHES
+// "Branch from here" forks a thread at one of its messages. The branch copies
+// the parent's context and messages up to (and including) that message, and
+// snapshots the canvas draft as it stood at that point.
+// ============================================================================
+
+type DraftSnapshot = { draft_content: string | null; draft_title: string | null }
+
+function extractDraftBlock(text: string): string | null {
+  const match = text.match(/```draft\s*([\s\S]*?)\s*```/i)
+  return match ? match[1].trim() : null
+}
+
+function deriveDraftTitle(draft: string) {
+  const firstLine = draft
+    .split('\n')
+    .map((line) => line.replace(/^#+\s*/, '').trim())
+    .find((line) => line.length > 0)
+  return firstLine ? firstLine.slice(0, 80) : 'Untitled draft'
+}
+
+/**
+ * Canvas state at the branch point. Branching from the latest message keeps
+ * the live canvas (including manual edits); an earlier message rolls the
+ * canvas back to the last draft the agent produced up to there.
+ */
+async function snapshotDraft(args: {
+  thread: { id: string; draft_content: string | null; draft_title: string | null }
+  // created_at of the branch message as Postgres text, keeping microseconds
+  cutoff: string
+}): Promise<DraftSnapshot> {
+  const laterRows = await sql`
+    SELECT 1
+    FROM agent_messages
+    WHERE thread_id = ${args.thread.id}
+      AND created_at > ${args.cutoff}::timestamptz
+    LIMIT 1
+  `
+  if (!laterRows[0]) {
+    return { draft_content: args.thread.draft_content, draft_title: args.thread.draft_title }
+  }
+
+  const draftRows = await sql`
+    SELECT content
+    FROM agent_messages
+    WHERE thread_id = ${args.thread.id}
+      AND role = 'assistant'
+      AND created_at <= ${args.cutoff}::timestamptz
+      AND content ILIKE ${'%```draft%'}
+    ORDER BY created_at DESC
+    LIMIT 1
+  `
+  const draft = draftRows[0] ? extractDraftBlock(String(draftRows[0].content || '')) : null
+  if (!draft) return { draft_content: null, draft_title: null }
+  return { draft_content: draft, draft_title: deriveDraftTitle(draft) }
+}
+
+/**
+ * Creates the branch thread and copies the messages in one statement so a
+ * failure never leaves a half-copied branch. Returns null when the message
+ * does not belong to the thread.
+ */
+export async function branchThread(args: {
+  threadId: string
+  messageId: string
+  userId: string
+}) {
+  const threadRows = await sql`
+    SELECT id, product_id, title, context, draft_content, draft_title
+    FROM agent_threads
+    WHERE id = ${args.threadId}
+      AND user_id = ${args.userId}
+    LIMIT 1
+  `
+  const thread = threadRows[0]
+  if (!thread) return null
+
+  const messageRows = await sql`
+    SELECT id, created_at::text AS created_at_text
+    FROM agent_messages
+    WHERE id = ${args.messageId}
+      AND thread_id = ${args.threadId}
+    LIMIT 1
+  `
+  const message = messageRows[0]
+  if (!message) return null
+
+  // A JS Date would truncate to milliseconds and drop the branch message itself
+  const cutoff = String(message.created_at_text)
+  const snapshot = await snapshotDraft({
+    thread: {
+      id: String(thread.id),
+      draft_content: (thread.draft_content as string | null) ?? null,
+      draft_title: (thread.draft_title as string | null) ?? null,
+    },
+    cutoff,
+  })
+
+  const rows = await sql`
+    WITH branch AS (
+      INSERT INTO agent_threads (
+        product_id, user_id, title, context, draft_content, draft_title,
+        parent_thread_id, branched_from_message_id
+      )
+      VALUES (
+        ${thread.product_id},
+        ${args.userId},
+        ${thread.title},
+        ${thread.context || {}},
+        ${snapshot.draft_content},
+        ${snapshot.draft_title},
+        ${thread.id},
+        ${message.id}
+      )
+      RETURNING *
+    ),
+    copied AS (
+      INSERT INTO agent_messages (thread_id, role, content, metadata, created_at)
+      SELECT branch.id, agent_messages.role, agent_messages.content, agent_messages.metadata, agent_messages.created_at
+      FROM agent_messages, branch
+      WHERE agent_messages.thread_id = ${thread.id}
+        AND agent_messages.created_at <= ${cutoff}::timestamptz
+      RETURNING 1
+    )
+    SELECT branch.*, (SELECT COUNT(*)::int FROM copied) AS copied_messages
+    FROM branch
+  `
+  return rows[0]
+}
@@ -1,5 +1,7 @@
 import { sql } from '@/lib/db'
 import { DEFAULT_PROMPT_BLOCKS } from '@/lib/prompt-defaults'
+import { formatReviewQuote, getReviewQuotes } from '@/lib/review-import'
+import { formatShotList, getSwipeShots } from '@/lib/swipe-shots'
 
 export type ThreadContext = {
   skill?: string
@@ -17,9 +19,14 @@ export type PromptBlockRow = {
   type: string
   content: string
   metadata?: { key?: string }
+  scope?: string
+  user_id?: string | null
 }
 
-type PromptBlockSource = 'db' | 'default' | 'missing'
+// Layer a prompt block resolved from: user override > product > brand > global > default.
+export type PromptBlockLayer = 'user' | 'product' | 'brand' | 'global'
+
+type PromptBlockSource = PromptBlockLayer | 'default' | 'missing'
 
 export type PromptBlockResolution = {
   key: string
@@ -103,12 +110,19 @@ function getBlockKey(row: PromptBlockRow): string {
   return normalizeKey(row.type)
 }
 
+export function getPromptBlockLayer(row: PromptBlockRow): PromptBlockLayer {
+  if (row.user_id) return 'user'
+  if (row.scope === 'product') return 'product'
+  if (row.scope === 'brand') return 'brand'
+  return 'global'
+}
+
 function resolvePromptBlock(blocks: Map<string, PromptBlockRow>, key: string): PromptBlockResolution {
   const dbBlock = blocks.get(key)
   if (dbBlock && typeof dbBlock.content === 'string' && dbBlock.content.length > 0) {
     return {
       key,
-      source: 'db',
+      source: getPromptBlockLayer(dbBlock),
       block_id: dbBlock.id || null,
       type: dbBlock.type || null,
       length: dbBlock.content.length,
@@ -163,24 +177,38 @@ function toSection(name: string, text: string): PromptSectionInfo | null {
   return { name, length: cleaned.length }
 }
 
-export async function loadGlobalPromptBlocks(userId?: string): Promise<Map<string, PromptBlockRow>> {
-  const blocks = userId
-    ? ((await sql`
-        SELECT id, type, content, metadata
-        FROM prompt_blocks
-        WHERE is_active = true
-          AND scope = 'global'
-          AND (user_id = ${userId} OR user_id IS NULL)
-        ORDER BY user_id DESC NULLS LAST, updated_at DESC NULLS LAST, version DESC, created_at DESC
-      `) as PromptBlockRow[])
-    : ((await sql`
-        SELECT id, type, content, metadata
-        FROM prompt_blocks
-        WHERE is_active = true
-          AND scope = 'global'
-          AND user_id IS NULL
-        ORDER BY updated_at DESC NULLS LAST, version DESC, created_at DESC
-      `) as PromptBlockRow[])
+/**
+ * Loads active prompt blocks keyed by logical key, resolving each key through
+ * the layers user override > product > brand > global. Keys without any row
+ * fall back to DEFAULT_PROMPT_BLOCKS at resolution time.
+ */
+export async function loadPromptBlocks(args: {
+  userId?: string | null
+  productId?: string | null
+} = {}): Promise<Map<string, PromptBlockRow>> {
+  const userId = args.userId || null
+  const productId = args.productId || null
+
+  const blocks = (await sql`
+    SELECT id, type, content, metadata, scope, user_id
+    FROM prompt_blocks
+    WHERE is_active = true
+      AND (user_id IS NULL OR user_id = ${userId}::uuid)
+      AND (
+        scope = 'global'
+        OR (scope = 'product' AND scope_id = ${productId}::uuid)
+        OR (
+          scope = 'brand'
+          AND scope_id = (SELECT brand_id FROM products WHERE id = ${productId}::uuid)
+        )
+      )
+    ORDER BY
+      user_id DESC NULLS LAST,
+      CASE scope WHEN 'product' THEN 0 WHEN 'brand' THEN 1 ELSE 2 END,
+      updated_at DESC NULLS LAST,
+      version DESC,
+      created_at DESC
+  `) as PromptBlockRow[]
 
   const map = new Map<string, PromptBlockRow>()
   for (const block of blocks || []) {
@@ -208,8 +236,15 @@ export function buildSystemPrompt(args: {
     transcript?: string | null
     source_url?: string | null
     media_type?: string | null
+    shots?: unknown
   } | null
-  research?: Array<{ id: string; title?: string | null; summary?: string | null; content?: string | null }>
+  research?: Array<{
+    id: string
+    title?: string | null
+    summary?: string | null
+    content?: string | null
+    metadata?: unknown
+  }>
   blocks: Map<string, PromptBlockRow>
   disableWritingRules?: boolean
 }): BuiltSystemPrompt {
@@ -313,9 +348,12 @@ export function buildSystemPrompt(args: {
     const mediaLine = swipe.media_type === 'image'
       ? 'Media type: image (image attached to user message if available)'
       : 'Media type: video'
+    // Shot-by-shot structure (keyframes are attached to the user message)
+    const shots = swipe.status === 'ready' ? getSwipeShots(swipe.shots) : []
+    const shotList = shots.length > 0 ? `\n\nShot list (${shots.length} shots):\n${formatShotList(shots)}\n` : ''
     pushSection(
       'active_swipe',
-      `## ACTIVE SWIPE\nStatus: ${swipe.status}\nURL: ${swipe.source_url || ''}\nTitle: ${swipe.title || ''}\n${mediaLine}\n\nTranscript:\n${transcript || '(none)'}\n`
+      `## ACTIVE SWIPE\nStatus: ${swipe.status}\nURL: ${swipe.source_url || ''}\nTitle: ${swipe.title || ''}\n${mediaLine}\n\nTranscript:\n${transcript || '(none)'}\n${shotList}`
     )
   }
 
@@ -324,8 +362,12 @@ export function buildSystemPrompt(args: {
     lines.push(`## RESEARCH CONTEXT (${args.research.length})`)
     for (const item of args.research) {
       const excerpt = item.content ? item.content.slice(0, 1200) : ''
+      const quotes = getReviewQuotes(item.metadata).slice(0, 8)
+      const quoteText = quotes.length
+        ? `\nCustomer quotes (verbatim):\n${quotes.map((q) => `- ${formatReviewQuote(q)}`).join('\n')}\n`
+        : ''
       lines.push(
-        `\n### ${item.title || 'Untitled research'}\n${item.summary || ''}\n${excerpt ? `\nExcerpt:\n${excerpt}` : ''}`.trim()
+        `\n### ${item.title || 'Untitled research'}\n${item.summary || ''}\n${quoteText}${excerpt ? `\nExcerpt:\n${excerpt}` : ''}`.trim()
       )
     }
     pushSection('research', lines.join('\n'))
@@ -0,0 +1,288 @@
+import { sql } from '@/lib/db'
+import { queueEmbeddingSync } from '@/lib/embeddings'
+import {
+  createAvatarSchema,
+  createPitchSchema,
+  updateAvatarSchema,
+  updatePitchSchema,
+} from '@/lib/validations'
+
+// ============================================================================
+// AGENT PROPOSALS
+// The chat agent never writes avatars/pitches directly. It records a proposal,
+// the stream surfaces it to the user, and only an explicit confirmation applies it.
+// ============================================================================
+
+export type ProposalKind = 'avatar' | 'pitch'
+export type ProposalAction = 'create' | 'update'
+export type ProposalStatus = 'pending' | 'confirmed' | 'rejected'
+
+export type ProposalPayload = {
+  name?: string
+  content?: string
+  type?: string
+}
+
+export type AgentProposal = {
+  id: string
+  thread_id: string
+  product_id: string
+  kind: ProposalKind
+  action: ProposalAction
+  target_id: string | null
+  target_name?: string | null
+  payload: ProposalPayload
+  rationale: string | null
+  status: ProposalStatus
+  result_id: string | null
+  created_at: string
+}
+
+type ValidationResult =
+  | { success: true; data: ProposalPayload }
+  | { success: false; error: string }
+
+function firstIssue(error: { issues: Array<{ path: PropertyKey[]; message: string }> }) {
+  const issue = error.issues[0]
+  if (!issue) return 'Invalid proposal'
+  const path = issue.path.map(String).join('.')
+  return path ? `${path}: ${issue.message}` : issue.message
+}
+
+/**
+ * Validates a proposal payload with the same schemas the avatar/pitch routes use.
+ */
+export function validateProposalPayload(args: {
+  kind: ProposalKind
+  action: ProposalAction
+  productId: string
+  payload: ProposalPayload
+}): ValidationResult {
+  const { kind, action, productId, payload } = args
+  let data: ProposalPayload
+
+  if (kind === 'avatar') {
+    const validated =
+      action === 'create'
+        ? createAvatarSchema.safeParse({ ...payload, product_id: productId })
+        : updateAvatarSchema.safeParse(payload)
+    if (!validated.success) return { success: false, error: firstIssue(validated.error) }
+    data = { name: validated.data.name, content: validated.data.content }
+  } else {
+    const validated =
+      action === 'create'
+        ? createPitchSchema.safeParse({ ...payload, product_id: productId })
+        : updatePitchSchema.safeParse(payload)
+    if (!validated.success) return { success: false, error: firstIssue(validated.error) }
+    data = { name: validated.data.name, content: validated.data.content, type: validated.data.type }
+  }
+
+  // Drop empty fields so updates only touch what was proposed
+  const cleaned = Object.fromEntries(
+    Object.entries(data).filter(([, value]) => typeof value === 'string' && value.length > 0)
+  ) as ProposalPayload
+  if (Object.keys(cleaned).length === 0) return { success: false, error: 'Nothing to update' }
+  return { success: true, data: cleaned }
+}
+
+async function loadTarget(kind: ProposalKind, targetId: string) {
+  const rows =
+    kind === 'avatar'
+      ? await sql`SELECT id, product_id, name FROM avatars WHERE id = ${targetId} LIMIT 1`
+      : await sql`SELECT id, product_id, name FROM pitches WHERE id = ${targetId} LIMIT 1`
+  return rows[0] as { id: string; product_id: string; name: string } | undefined
+}
+
+export async function createAgentProposal(args: {
+  threadId: string
+  productId: string
+  userId: string
+  kind: ProposalKind
+  action: ProposalAction
+  targetId?: string | null
+  payload: ProposalPayload
+  rationale?: string | null
+}): Promise<{ proposal: AgentProposal } | { error: string }> {
+  const { threadId, productId, userId, kind, action, rationale } = args
+  const targetId = action === 'update' ? args.targetId || null : null
+
+  let targetName: string | null = null
+  if (action === 'update') {
+    if (!targetId) return { error: `${kind === 'avatar' ? 'avatar_id' : 'pitch_id'} is required` }
+    const target = await loadTarget(kind, targetId)
+    if (!target) return { error: 'Not found' }
+    if (target.product_id !== productId) return { error: 'Forbidden' }
+    targetName = target.name
+  }
+
+  const validated = validateProposalPayload({ kind, action, productId, payload: args.payload })
+  if (!validated.success) return { error: validated.error }
+
+  const rows = await sql`
+    INSERT INTO agent_proposals (
+      thread_id, product_id, user_id, kind, action, target_id, payload, rationale
+    )
+    VALUES (
+      ${threadId},
+      ${productId},
+      ${userId},
+      ${kind},
+      ${action},
+      ${targetId},
+      ${validated.data},
+      ${rationale || null}
+    )
+    RETURNING *
+  `
+  return { proposal: { ...(rows[0] as AgentProposal), target_name: targetName } }
+}
+
+export async function listPendingProposals(threadId: string): Promise<AgentProposal[]> {
+  const rows = await sql`
+    SELECT
+      agent_proposals.*,
+      COALESCE(avatars.name, pitches.name) AS target_name
+    FROM agent_proposals
+    LEFT JOIN avatars ON agent_proposals.kind = 'avatar' AND avatars.id = agent_proposals.target_id
+    LEFT JOIN pitches ON agent_proposals.kind = 'pitch' AND pitches.id = agent_proposals.target_id
+    WHERE agent_proposals.thread_id = ${threadId}
+      AND agent_proposals.status = 'pending'
+    ORDER BY agent_proposals.created_at ASC
+  `
+  return rows as AgentProposal[]
+}
+
+/**
+ * Writes a confirmed proposal. The user may edit the payload before confirming,
+ * so it is validated again here.
+ */
+export async function applyAgentProposal(
+  proposal: AgentProposal,
+  edits?: ProposalPayload | null
+): Promise<{ record: Record<string, unknown> } | { error: string; status: number }> {
+  const payload = { ...(proposal.payload || {}), ...(edits || {}) }
+  const validated = validateProposalPayload({
+    kind: proposal.kind,
+    action: proposal.action,
+    productId: proposal.product_id,
+    payload,
+  })
+  if (!validated.success) return { error: validated.error, status: 400 }
+
+  const data = validated.data
+
+  // Each write claims the proposal in the same statement, so a failed write
+  // leaves it pending for a retry and a double-click cannot write twice.
+  let rows: Record<string, unknown>[]
+  if (proposal.action === 'create') {
+    rows =
+      proposal.kind === 'avatar'
+        ? await sql`
+            WITH claimed AS (
+              UPDATE agent_proposals
+              SET status = 'confirmed', payload = ${data}, resolved_at = NOW()
+              WHERE id = ${proposal.id}
+                AND status = 'pending'
+              RETURNING id
+            )
+            INSERT INTO avatars (product_id, name, content, is_active)
+            SELECT ${proposal.product_id}::uuid, ${data.name}::text, ${data.content}::text, true
+            FROM claimed
+            RETURNING *
+          `
+        : await sql`
+            WITH claimed AS (
+              UPDATE agent_proposals
+              SET status = 'confirmed', payload = ${data}, resolved_at = NOW()
+              WHERE id = ${proposal.id}
+                AND status = 'pending'
+              RETURNING id
+            )
+            INSERT INTO pitches (product_id, name, content, type, is_active)
+            SELECT ${proposal.product_id}::uuid, ${data.name}::text, ${data.content}::text, ${data.type ?? 'general'}::text, true
+            FROM claimed
+            RETURNING *
+          `
+  } else {
+    const name = data.name ?? null
+    const content = data.content ?? null
+    const type = data.type ?? null
+    rows =
+      proposal.kind === 'avatar'
+        ? await sql`
+            WITH claimed AS (
+              UPDATE agent_proposals
+              SET status = 'confirmed', payload = ${data}, resolved_at = NOW()
+              WHERE id = ${proposal.id}
+                AND status = 'pending'
+                AND EXISTS (
+                  SELECT 1 FROM avatars WHERE id = ${proposal.target_id} AND product_id = ${proposal.product_id}
+                )
+              RETURNING id
+            )
+            UPDATE avatars
+            SET
+              name = COALESCE(${name}, name),
+              content = COALESCE(${content}, content),
+              updated_at = NOW()
+            FROM claimed
+            WHERE avatars.id = ${proposal.target_id}
+              AND avatars.product_id = ${proposal.product_id}
+            RETURNING avatars.*
+          `
+        : await sql`
+            WITH claimed AS (
+              UPDATE agent_proposals
+              SET status = 'confirmed', payload = ${data}, resolved_at = NOW()
+              WHERE id = ${proposal.id}
+                AND status = 'pending'
+                AND EXISTS (
+                  SELECT 1 FROM pitches WHERE id = ${proposal.target_id} AND product_id = ${proposal.product_id}
+                )
+              RETURNING id
+            )
+            UPDATE pitches
+            SET
+              name = COALESCE(${name}, name),
+              content = COALESCE(${content}, content),
+              type = COALESCE(${type}, type),
+              updated_at = NOW()
+            FROM claimed
+            WHERE pitches.id = ${proposal.target_id}
+              AND pitches.product_id = ${proposal.product_id}
+            RETURNING pitches.*
+          `
+  }
+
+  const record = rows[0]
+  if (!record) {
+    // Nothing written: either someone else resolved it, or the update target is gone
+    const rejected = await sql`
+      UPDATE agent_proposals
+      SET status = 'rejected', resolved_at = NOW()
+      WHERE id = ${proposal.id}
+        AND status = 'pending'
+      RETURNING id
+    `
+    if (!rejected[0]) return { error: 'Proposal already resolved', status: 409 }
+    return { error: 'Target no longer exists', status: 404 }
+  }
+
+  await sql`
+    UPDATE agent_proposals
+    SET result_id = ${String(record.id)}
+    WHERE id = ${proposal.id}
+  `
+  if (proposal.kind === 'avatar') await queueEmbeddingSync(proposal.product_id)
+
+  return { record }
+}
+
+export async function rejectAgentProposal(proposalId: string) {
+  await sql`
+    UPDATE agent_proposals
+    SET status = 'rejected', resolved_at = NOW()
+    WHERE id = ${proposalId}
+      AND status = 'pending'
+  `
+}
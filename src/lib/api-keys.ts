@@ -8,6 +8,10 @@ const ENV_MAP: Record<ApiKeyProvider, string> = {
   anthropic: 'ANTHROPIC_API_KEY',
 }
 
+export function apiKeyEnvName(provider: ApiKeyProvider): string {
+  return ENV_MAP[provider]
+}
+
 export function getEnvApiKey(provider: ApiKeyProvider): string | null {
   const envKey = process.env[ENV_MAP[provider]]
   return envKey && envKey.trim().length > 0 ? envKey.trim() : null
@@ -0,0 +1,131 @@
+import { sql } from '@/lib/db'
+
+// ============================================================================
+// COMPETITOR WATCHLISTS
+// The media worker schedules due watchlists on its own; these helpers back the
+// studio page (stats, ad timelines) and the manual "poll now" action.
+// ============================================================================
+
+export const WATCHLIST_POLL_JOB_TYPE = 'poll_competitor_watchlist'
+
+export type WatchlistPollTrigger = 'schedule' | 'manual'
+
+/**
+ * Queues a poll for the watchlist, or returns the job already queued or
+ * running so repeated clicks do not stack polls.
+ */
+export async function enqueueWatchlistPoll(args: {
+  watchlistId: string
+  productId: string
+  userId: string
+}): Promise<{ id: string; status: string; created_at: string }> {
+  const active = await sql`
+    SELECT id, status, created_at
+    FROM media_jobs
+    WHERE type = ${WATCHLIST_POLL_JOB_TYPE}
+      AND input->>'watchlist_id' = ${args.watchlistId}
+      AND status IN ('queued', 'running')
+    ORDER BY created_at DESC
+    LIMIT 1
+  `
+  if (active[0]) return active[0] as { id: string; status: string; created_at: string }
+
+  const rows = await sql`
+    INSERT INTO media_jobs (type, status, input)
+    VALUES (
+      ${WATCHLIST_POLL_JOB_TYPE},
+      'queued',
+      ${{
+        watchlist_id: args.watchlistId,
+        product_id: args.productId,
+        user_id: args.userId,
+        trigger: 'manual' satisfies WatchlistPollTrigger,
+      }}
+    )
+    RETURNING id, status, created_at
+  `
+  return rows[0] as { id: string; status: string; created_at: string }
+}
+
+// Watchlists for a product with ad counts and the latest run
+export async function listWatchlists(productId: string) {
+  return sql`
+    SELECT
+      competitor_watchlists.*,
+      (
+        SELECT COUNT(*)::int
+        FROM competitor_ads
+        WHERE competitor_ads.watchlist_id = competitor_watchlists.id
+      ) AS ads_total,
+      (
+        SELECT COUNT(*)::int
+        FROM competitor_ads
+        WHERE competitor_ads.watchlist_id = competitor_watchlists.id
+          AND competitor_ads.is_active = true
+      ) AS ads_active,
+      (
+        SELECT jsonb_build_object(
+          'id', competitor_watch_runs.id,
+          'status', competitor_watch_runs.status,
+          'ads_seen', competitor_watch_runs.ads_seen,
+          'new_ads', competitor_watch_runs.new_ads,
+          'ads_stopped', competitor_watch_runs.ads_stopped,
+          'started_at', competitor_watch_runs.started_at,
+          'finished_at', competitor_watch_runs.finished_at
+        )
+        FROM competitor_watch_runs
+        WHERE competitor_watch_runs.watchlist_id = competitor_watchlists.id
+        ORDER BY competitor_watch_runs.started_at DESC
+        LIMIT 1
+      ) AS last_run,
+      EXISTS (
+        SELECT 1
+        FROM media_jobs
+        WHERE media_jobs.type = ${WATCHLIST_POLL_JOB_TYPE}
+          AND media_jobs.input->>'watchlist_id' = competitor_watchlists.id::text
+          AND media_jobs.status IN ('queued', 'running')
+      ) AS poll_pending
+    FROM competitor_watchlists
+    WHERE competitor_watchlists.product_id = ${productId}
+    ORDER BY competitor_watchlists.created_at DESC
+  `
+}
+
+/**
+ * Ads tracked by a watchlist, longest-running first. days_running counts from
+ * the Ad Library start date when known, otherwise from when we first saw it.
+ */
+export async function getWatchlistAds(watchlistId: string, limit = 200) {
+  return sql`
+    SELECT
+      competitor_ads.id,
+      competitor_ads.ad_archive_id,
+      competitor_ads.source_url,
+      competitor_ads.started_running_on,
+      competitor_ads.is_active,
+      competitor_ads.first_seen_at,
+      competitor_ads.last_seen_at,
+      competitor_ads.swipe_id,
+      swipes.title AS swipe_title,
+      swipes.status AS swipe_status,
+      GREATEST(
+        0,
+        (competitor_ads.last_seen_at::date - COALESCE(competitor_ads.started_running_on, competitor_ads.first_seen_at::date))
+      )::int AS days_running
+    FROM competitor_ads
+    LEFT JOIN swipes ON swipes.id = competitor_ads.swipe_id
+    WHERE competitor_ads.watchlist_id = ${watchlistId}
+    ORDER BY competitor_ads.is_active DESC, days_running DESC, competitor_ads.first_seen_at ASC
+    LIMIT ${limit}
+  `
+}
+
+export async function getWatchlistRuns(watchlistId: string, limit = 20) {
+  return sql`
+    SELECT id, job_id, status, ads_seen, new_ads, ads_stopped, error_message, started_at, finished_at
+    FROM competitor_watch_runs
+    WHERE watchlist_id = ${watchlistId}
+    ORDER BY started_at DESC
+    LIMIT ${limit}
+  `
+}
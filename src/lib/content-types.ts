@@ -3,6 +3,21 @@
 // Templates are stored in the database (prompt_blocks table)
 // ============================================================================
 
+// Also the generation_runs.feature_type enum, so runs are stored under the
+// same id the UI and prompt blocks use.
+export const FEATURE_TYPES = [
+  'organic_static',
+  'ugc_video_scripts',
+  'landing_page_copy',
+  'advertorial_copy',
+] as const
+
+export type FeatureType = (typeof FEATURE_TYPES)[number]
+
+export function isFeatureType(value: string): value is FeatureType {
+  return (FEATURE_TYPES as readonly string[]).includes(value)
+}
+
 export interface ContentType {
   id: string
   label: string
@@ -0,0 +1,155 @@
+import { sql } from '@/lib/db'
+
+// ============================================================================
+// DRAFT REVISIONS
+// Canvas history per version tab. Revisions are recorded server-side whenever
+// a thread's draft_content changes, diffing the stored tabs against the new
+// ones so only tabs that actually changed get a row.
+// ============================================================================
+
+export const DRAFT_REVISION_SOURCES = ['user_edit', 'ai_draft', 'inline_edit', 'restore'] as const
+export type DraftRevisionSource = (typeof DRAFT_REVISION_SOURCES)[number]
+
+export type DraftRevision = {
+  id: string
+  thread_id: string
+  tab_index: number
+  content: string
+  source: DraftRevisionSource
+  created_by: string | null
+  author_name: string | null
+  author_email: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Typing by the same user within this window extends the last revision
+const USER_EDIT_MERGE_MINUTES = 10
+// Oldest revisions past this count are pruned per tab
+const MAX_REVISIONS_PER_TAB = 100
+
+export function isDraftRevisionSource(value: unknown): value is DraftRevisionSource {
+  return typeof value === 'string' && (DRAFT_REVISION_SOURCES as readonly string[]).includes(value)
+}
+
+/** Same storage format the studio canvas writes: {"tabs": [...]}, a bare array, or plain text. */
+export function parseStoredDraftTabs(raw: string | null | undefined): string[] {
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw)
+    if (Array.isArray(parsed)) return parsed.map((tab) => String(tab ?? ''))
+    if (parsed && Array.isArray(parsed.tabs)) return parsed.tabs.map((tab: unknown) => String(tab ?? ''))
+  } catch {
+    // plain text draft
+  }
+  return [raw]
+}
+
+/**
+ * Records a revision for every tab whose content differs between the stored
+ * draft and the incoming one. Tabs with no history yet get their previous
+ * content recorded first so the version being replaced can still be restored.
+ */
+export async function recordDraftRevisions(args: {
+  threadId: string
+  previous: string | null
+  next: string | null
+  sources?: Record<string, unknown> | null
+  userId: string
+  previousUpdatedAt?: string | null
+}) {
+  const before = parseStoredDraftTabs(args.previous)
+  const after = parseStoredDraftTabs(args.next)
+
+  for (let tab = 0; tab < after.length; tab += 1) {
+    const oldText = before[tab] || ''
+    const newText = after[tab] || ''
+    if (oldText === newText) continue
+
+    const requested = args.sources?.[String(tab)]
+    const source: DraftRevisionSource = isDraftRevisionSource(requested) ? requested : 'user_edit'
+
+    const latestRows = await sql`
+      SELECT id, source, created_by, created_at
+      FROM draft_revisions
+      WHERE thread_id = ${args.threadId}
+        AND tab_index = ${tab}
+      ORDER BY created_at DESC
+      LIMIT 1
+    `
+    const latest = latestRows[0]
+
+    if (!latest && oldText.trim()) {
+      await sql`
+        INSERT INTO draft_revisions (thread_id, tab_index, content, source, created_by, created_at, updated_at)
+        VALUES (
+          ${args.threadId},
+          ${tab},
+          ${oldText},
+          'user_edit',
+          ${null},
+          COALESCE(${args.previousUpdatedAt ?? null}::timestamptz, NOW()),
+          COALESCE(${args.previousUpdatedAt ?? null}::timestamptz, NOW())
+        )
+      `
+    }
+
+    const canMerge =
+      latest &&
+      source === 'user_edit' &&
+      latest.source === 'user_edit' &&
+      latest.created_by === args.userId &&
+      Date.now() - new Date(latest.created_at).getTime() < USER_EDIT_MERGE_MINUTES * 60 * 1000
+
+    if (canMerge) {
+      await sql`
+        UPDATE draft_revisions
+        SET content = ${newText},
+            updated_at = NOW()
+        WHERE id = ${latest.id}
+      `
+      continue
+    }
+
+    await sql`
+      INSERT INTO draft_revisions (thread_id, tab_index, content, source, created_by)
+      VALUES (${args.threadId}, ${tab}, ${newText}, ${source}, ${args.userId})
+    `
+    await sql`
+      DELETE FROM draft_revisions
+      WHERE thread_id = ${args.threadId}
+        AND tab_index = ${tab}
+        AND id NOT IN (
+          SELECT id
+          FROM draft_revisions
+          WHERE thread_id = ${args.threadId}
+            AND tab_index = ${tab}
+          ORDER BY created_at DESC
+          LIMIT ${MAX_REVISIONS_PER_TAB}
+        )
+    `
+  }
+}
+
+export async function listDraftRevisions(threadId: string, tabIndex: number | null): Promise<DraftRevision[]> {
+  const rows = await sql`
+    SELECT
+      draft_revisions.id,
+      draft_revisions.thread_id,
+      draft_revisions.tab_index,
+      draft_revisions.content,
+      draft_revisions.source,
+      draft_revisions.created_by,
+      app_users.name AS author_name,
+      app_users.email AS author_email,
+      draft_revisions.created_at,
+      draft_revisions.updated_at
+    FROM draft_revisions
+    LEFT JOIN app_users ON app_users.id = draft_revisions.created_by
+    WHERE draft_revisions.thread_id = ${threadId}
+      AND (${tabIndex}::int IS NULL OR draft_revisions.tab_index = ${tabIndex}::int)
+    ORDER BY draft_revisions.created_at DESC
+    LIMIT ${MAX_REVISIONS_PER_TAB}
+  `
+  return rows as DraftRevision[]
+}
@@ -0,0 +1,253 @@
+import { sql } from '@/lib/db'
+import { getOrgApiKey } from '@/lib/api-keys'
+import { assertLlmBudget, recordLlmUsage } from '@/lib/llm-usage'
+import * as shared from '../../services/media-worker/src/embeddings.js'
+
+// ============================================================================
+// EMBEDDINGS
+// Vectors for research items, swipes and avatars, kept in the `embeddings`
+// table. The media worker indexes them in `sync_product_embeddings` jobs,
+// queued whenever a product's content changes; search only embeds the query.
+// ============================================================================
+
+export type EmbeddingSubjectType = 'research_item' | 'swipe' | 'avatar'
+
+export const EMBEDDING_SUBJECT_TYPES = shared.EMBEDDING_SUBJECT_TYPES as readonly EmbeddingSubjectType[]
+
+export interface EmbeddingProvider {
+  id: 'openai' | 'local'
+  model: string
+  dims: number
+  embed(texts: string[]): Promise<number[][]>
+}
+
+export type SemanticSearchResult = {
+  type: EmbeddingSubjectType
+  id: string
+  title: string | null
+  snippet: string | null
+  score: number
+}
+
+// Who an OpenAI embedding call is billed to in the usage ledger
+export type EmbeddingUsageContext = {
+  userId?: string | null
+  productId?: string | null
+}
+
+const OPENAI_EMBEDDING_MODEL = process.env.OPENAI_EMBEDDING_MODEL || shared.DEFAULT_OPENAI_EMBEDDING_MODEL
+const EMBED_TEXT_MAX_CHARS = shared.EMBED_TEXT_MAX_CHARS
+
+export function isEmbeddingSubjectType(value: string): value is EmbeddingSubjectType {
+  return (EMBEDDING_SUBJECT_TYPES as readonly string[]).includes(value)
+}
+
+// ----------------------------------------------------------------------------
+// Providers
+// ----------------------------------------------------------------------------
+
+function createOpenAiProvider(
+  apiKey: string,
+  orgId: string | null,
+  usageContext: EmbeddingUsageContext
+): EmbeddingProvider {
+  return {
+    id: 'openai',
+    model: OPENAI_EMBEDDING_MODEL,
+    dims: shared.openAiEmbeddingDims(OPENAI_EMBEDDING_MODEL),
+    async embed(texts) {
+      await assertLlmBudget(orgId)
+      const vectors: number[][] = []
+      for (let i = 0; i < texts.length; i += shared.OPENAI_EMBEDDING_BATCH_SIZE) {
+        const res = await fetch('https://api.openai.com/v1/embeddings', {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model: OPENAI_EMBEDDING_MODEL,
+            input: texts.slice(i, i + shared.OPENAI_EMBEDDING_BATCH_SIZE),
+          }),
+        })
+        if (!res.ok) {
+          const detail = await res.text().catch(() => '')
+          throw new Error(`OpenAI embeddings failed (${res.status}): ${detail.slice(0, 200)}`)
+        }
+        const data = (await res.json()) as {
+          model?: string
+          data: Array<{ index: number; embedding: number[] }>
+          usage?: { prompt_tokens?: number }
+        }
+        await recordLlmUsage({
+          organizationId: orgId,
+          userId: usageContext.userId ?? null,
+          productId: usageContext.productId ?? null,
+          feature: 'embeddings',
+          provider: 'openai',
+          model: data.model || OPENAI_EMBEDDING_MODEL,
+          usage: { input_tokens: Number(data.usage?.prompt_tokens || 0) },
+        })
+        const batch = [...data.data].sort((a, b) => a.index - b.index).map((row) => row.embedding)
+        vectors.push(...batch)
+      }
+      return vectors
+    },
+  }
+}
+
+/**
+ * Deterministic feature-hashing embedding (unigrams + bigrams). No network and
+ * no model, so it works offline and in dev; quality is keyword-level. The
+ * worker's indexer uses the same code, so query and index vectors match.
+ */
+export function createLocalEmbeddingProvider(dims = shared.LOCAL_EMBEDDING_DIMS): EmbeddingProvider {
+  return {
+    id: 'local',
+    model: shared.localEmbeddingModel(dims),
+    dims,
+    async embed(texts) {
+      return texts.map((text) => shared.embedTextLocally(text, dims))
+    },
+  }
+}
+
+/**
+ * EMBEDDINGS_PROVIDER=local forces the offline provider; otherwise OpenAI is
+ * used when the org (or env) has a key, falling back to local.
+ */
+export async function getEmbeddingProvider(
+  orgId: string | null,
+  usageContext: EmbeddingUsageContext = {}
+): Promise<EmbeddingProvider> {
+  const preferred = (process.env.EMBEDDINGS_PROVIDER || '').trim().toLowerCase()
+  if (preferred === 'local') return createLocalEmbeddingProvider()
+  const apiKey = await getOrgApiKey('openai', orgId)
+  if (apiKey) return createOpenAiProvider(apiKey, orgId, usageContext)
+  if (preferred === 'openai') throw new Error('OPENAI_API_KEY is not set')
+  return createLocalEmbeddingProvider()
+}
+
+// ----------------------------------------------------------------------------
+// Indexing
+// ----------------------------------------------------------------------------
+
+/**
+ * Queues a worker job that re-embeds the product's changed research, swipes
+ * and avatars. Call after writing any of them; a job already waiting for the
+ * product covers the new write too.
+ */
+export async function queueEmbeddingSync(productId: string | null | undefined) {
+  if (!productId) return
+  try {
+    await sql`
+      INSERT INTO media_jobs (type, status, input)
+      SELECT 'sync_product_embeddings', 'queued', ${{ product_id: productId }}
+      WHERE NOT EXISTS (
+        SELECT 1 FROM media_jobs
+        WHERE type = 'sync_product_embeddings'
+          AND status = 'queued'
+          AND input->>'product_id' = ${productId}
+      )
+    `
+  } catch (error) {
+    console.error('Queue embedding sync error:', error)
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Search
+// ----------------------------------------------------------------------------
+
+async function embedQuery(provider: EmbeddingProvider, query: string) {
+  const [vector] = await provider.embed([query.slice(0, EMBED_TEXT_MAX_CHARS)])
+  return vector
+}
+
+export async function semanticSearch(args: {
+  productId: string
+  orgId: string | null
+  userId?: string | null
+  query: string
+  types?: readonly EmbeddingSubjectType[]
+  limit?: number
+}): Promise<{
+  provider: string
+  model: string
+  results: SemanticSearchResult[]
+  index: { queued: boolean }
+}> {
+  const types = args.types && args.types.length > 0 ? args.types : EMBEDDING_SUBJECT_TYPES
+  const limit = Math.min(50, Math.max(1, args.limit || 10))
+  let provider = await getEmbeddingProvider(args.orgId, { userId: args.userId, productId: args.productId })
+
+  let queryVector: number[]
+  try {
+    queryVector = await embedQuery(provider, args.query)
+  } catch (error) {
+    if (provider.id === 'local') throw error
+    // Over budget or OpenAI down: the worker keeps a local index for this case
+    console.warn('OpenAI query embedding failed, searching the local index:', error)
+    provider = createLocalEmbeddingProvider()
+    queryVector = await embedQuery(provider, args.query)
+  }
+  const queryLiteral = shared.toVectorLiteral(queryVector)
+
+  // A product never indexed with this provider (first search, or the org just
+  // added an OpenAI key) gets a sync queued; results fill in once it runs.
+  const indexed = await sql`
+    SELECT 1
+    FROM embeddings
+    WHERE product_id = ${args.productId}
+      AND provider = ${provider.id}
+      AND model = ${provider.model}
+    LIMIT 1
+  `
+  const queued = indexed.length === 0
+  if (queued) await queueEmbeddingSync(args.productId)
+
+  const rows = await sql`
+    SELECT
+      embeddings.subject_type,
+      embeddings.subject_id,
+      1 - (embeddings.embedding <=> ${queryLiteral}::vector) AS score,
+      COALESCE(research_items.title, swipes.title, avatars.name) AS title,
+      LEFT(
+        COALESCE(
+          research_items.summary,
+          research_items.content,
+          swipes.summary,
+          swipes.transcript,
+          avatars.content
+        ),
+        280
+      ) AS snippet
+    FROM embeddings
+    LEFT JOIN research_items
+      ON embeddings.subject_type = 'research_item' AND research_items.id = embeddings.subject_id
+    LEFT JOIN swipes
+      ON embeddings.subject_type = 'swipe' AND swipes.id = embeddings.subject_id
+    LEFT JOIN avatars
+      ON embeddings.subject_type = 'avatar' AND avatars.id = embeddings.subject_id
+    WHERE embeddings.product_id = ${args.productId}
+      AND embeddings.provider = ${provider.id}
+      AND embeddings.model = ${provider.model}
+      AND embeddings.subject_type = ANY(${[...types]}::text[])
+      AND COALESCE(research_items.id, swipes.id, avatars.id) IS NOT NULL
+    ORDER BY embeddings.embedding <=> ${queryLiteral}::vector
+    LIMIT ${limit}
+  `
+
+  return {
+    provider: provider.id,
+    model: provider.model,
+    index: { queued },
+    results: rows.map((row) => ({
+      type: row.subject_type as EmbeddingSubjectType,
+      id: String(row.subject_id),
+      title: (row.title as string | null) ?? null,
+      snippet: (row.snippet as string | null) ?? null,
+      score: Math.round(Number(row.score) * 1000) / 1000,
+    })),
+  }
+}
@@ -0,0 +1,29 @@
+import { sql } from '@/lib/db'
+
+// ============================================================================
+// GENERATION RUN HOUSEKEEPING
+// /api/generate records each run before calling the model. When the platform
+// kills the request at maxDuration, nothing is left to record the outcome, so
+// runs still `pending` or `running` well past that limit are failed here instead.
+// ============================================================================
+
+// Matches `maxDuration` in src/app/api/generate/route.ts, plus a margin
+const GENERATION_RUN_TIMEOUT_SECONDS = 300 + 60
+
+export const GENERATION_RUN_TIMEOUT_MESSAGE = 'Timed out: the request ended before the run finished'
+
+/** Fails runs stuck in `pending` or `running` past the timeout. Safe to call on every read. */
+export async function failStaleGenerationRuns() {
+  try {
+    await sql`
+      UPDATE generation_runs
+      SET status = 'failed',
+          error_message = ${GENERATION_RUN_TIMEOUT_MESSAGE},
+          completed_at = NOW()
+      WHERE status IN ('pending', 'running')
+        AND created_at < NOW() - (${GENERATION_RUN_TIMEOUT_SECONDS}::text || ' seconds')::interval
+    `
+  } catch (error) {
+    console.error('Fail stale generation runs error:', error)
+  }
+}
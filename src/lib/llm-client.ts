@@ -0,0 +1,660 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import Anthropic from '@anthropic-ai/sdk'
+import { apiKeyEnvName, getOrgApiKey } from '@/lib/api-keys'
+import { emptyUsage, type TokenUsage } from '@/lib/llm-usage'
+import { DEFAULT_LLM_MOCK_FIXTURES, type LlmMockFixture } from '@/lib/llm-mock-fixtures'
+import { modelProvider, type LlmAgentId, type LlmProvider } from '@/lib/model-registry'
+
+// ============================================================================
+// LLM CLIENT
+// One interface over Anthropic, OpenAI and a fixture-driven mock. Messages,
+// tools and usage use Anthropic's shapes (the shape stored on threads); the
+// OpenAI client translates. LLM_PROVIDER=mock swaps every app route onto the
+// mock for offline demos and automated tests.
+// ============================================================================
+
+export type LlmClientProvider = LlmProvider | 'mock'
+
+export type LlmTextBlock = { type: 'text'; text: string }
+
+export type LlmImageBlock = {
+  type: 'image'
+  source: { type: 'url'; url: string } | { type: 'base64'; media_type: string; data: string }
+}
+
+export type LlmToolUseBlock = { type: 'tool_use'; id: string; name: string; input: unknown }
+
+export type LlmToolResultBlock = {
+  type: 'tool_result'
+  tool_use_id: string
+  content: string
+  is_error?: boolean
+}
+
+export type LlmContentBlock = LlmTextBlock | LlmImageBlock | LlmToolUseBlock | LlmToolResultBlock
+
+export type LlmMessage = {
+  role: 'user' | 'assistant'
+  content: string | LlmContentBlock[]
+}
+
+export type LlmTool = {
+  name: string
+  description?: string
+  input_schema: { type: 'object'; [key: string]: unknown }
+}
+
+export type LlmToolChoice = { type: 'auto' } | { type: 'any' } | { type: 'tool'; name: string }
+
+export type LlmStopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use'
+
+export type LlmRequest = {
+  model: string
+  system?: string
+  messages: LlmMessage[]
+  max_tokens: number
+  temperature?: number
+  tools?: LlmTool[]
+  tool_choice?: LlmToolChoice
+  // Extra request headers, e.g. Anthropic beta flags
+  headers?: Record<string, string>
+}
+
+export type LlmResponse = {
+  id: string
+  model: string
+  content: Array<LlmTextBlock | LlmToolUseBlock>
+  stop_reason: LlmStopReason | null
+  usage: TokenUsage
+  // Provider request id, for support tickets and debug traces
+  request_id: string | null
+}
+
+export interface LlmClient {
+  provider: LlmClientProvider
+  create(request: LlmRequest): Promise<LlmResponse>
+  // Same result as create(); text deltas are reported as they arrive
+  stream(request: LlmRequest, onText?: (delta: string) => void): Promise<LlmResponse>
+}
+
+/** HTTP failure from a provider called without an SDK; `status` mirrors the SDK errors. */
+export class LlmProviderError extends Error {
+  status: number
+  provider: LlmClientProvider
+
+  constructor(provider: LlmClientProvider, status: number, message: string) {
+    super(message)
+    this.name = 'LlmProviderError'
+    this.provider = provider
+    this.status = status
+  }
+}
+
+export const LLM_PROVIDER_LABELS: Record<LlmClientProvider, string> = {
+  anthropic: 'Anthropic',
+  openai: 'OpenAI',
+  mock: 'Mock LLM',
+}
+
+const OPENAI_CHAT_URL = 'https://api.openai.com/v1/chat/completions'
+const DEFAULT_TIMEOUT_MS = 90_000
+const DEFAULT_MAX_RETRIES = 1
+
+export function isMockLlmEnabled() {
+  return (process.env.LLM_PROVIDER || '').trim().toLowerCase() === 'mock'
+}
+
+/** The provider a call to `model` goes to, honoring LLM_PROVIDER=mock. */
+export function llmProviderFor(model: string): LlmClientProvider {
+  return isMockLlmEnabled() ? 'mock' : modelProvider(model)
+}
+
+export function missingLlmKeyMessage(model: string) {
+  const provider = llmProviderFor(model)
+  return provider === 'mock' ? 'Mock LLM provider is unavailable' : `${apiKeyEnvName(provider)} is not set`
+}
+
+/** Text blocks of a response joined together. */
+export function responseText(response: LlmResponse): string {
+  return response.content
+    .filter((block): block is LlmTextBlock => block.type === 'text')
+    .map((block) => block.text)
+    .join('\n\n')
+}
+
+// ----------------------------------------------------------------------------
+// Anthropic
+// ----------------------------------------------------------------------------
+
+function fromAnthropicMessage(message: Anthropic.Message, requestId: string | null | undefined): LlmResponse {
+  const content: LlmResponse['content'] = []
+  for (const block of message.content) {
+    if (block.type === 'text') content.push({ type: 'text', text: block.text })
+    else if (block.type === 'tool_use') content.push({ type: 'tool_use', id: block.id, name: block.name, input: block.input })
+  }
+  const stopReason = message.stop_reason
+  return {
+    id: message.id,
+    model: message.model,
+    content,
+    stop_reason: stopReason === 'end_turn' || stopReason === 'max_tokens' || stopReason === 'stop_sequence' || stopReason === 'tool_use'
+      ? stopReason
+      : null,
+    usage: {
+      input_tokens: message.usage.input_tokens || 0,
+      output_tokens: message.usage.output_tokens || 0,
+      cache_creation_input_tokens: message.usage.cache_creation_input_tokens || 0,
+      cache_read_input_tokens: message.usage.cache_read_input_tokens || 0,
+    },
+    request_id: requestId || null,
+  }
+}
+
+function toAnthropicParams(request: LlmRequest): Anthropic.MessageCreateParamsNonStreaming {
+  return {
+    model: request.model,
+    max_tokens: request.max_tokens,
+    messages: request.messages as Anthropic.MessageParam[],
+    ...(request.system ? { system: request.system } : {}),
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(request.tools ? { tools: request.tools as Anthropic.Tool[] } : {}),
+    ...(request.tool_choice ? { tool_choice: request.tool_choice } : {}),
+  }
+}
+
+export function createAnthropicClient(args: {
+  apiKey: string
+  timeoutMs?: number
+  maxRetries?: number
+}): LlmClient {
+  const anthropic = new Anthropic({
+    apiKey: args.apiKey,
+    timeout: args.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    maxRetries: args.maxRetries ?? DEFAULT_MAX_RETRIES,
+  })
+  const requestOptions = (request: LlmRequest) => (request.headers ? { headers: request.headers } : undefined)
+
+  return {
+    provider: 'anthropic',
+    async create(request) {
+      const { data, request_id } = await anthropic.messages
+        .create(toAnthropicParams(request), requestOptions(request))
+        .withResponse()
+      return fromAnthropicMessage(data, request_id)
+    },
+    async stream(request, onText) {
+      const stream = anthropic.messages.stream(toAnthropicParams(request), requestOptions(request))
+      stream.on('text', (delta) => {
+        if (delta && onText) onText(delta)
+      })
+      const message = await stream.finalMessage()
+      return fromAnthropicMessage(message, stream.request_id)
+    },
+  }
+}
+
+// ----------------------------------------------------------------------------
+// OpenAI (Chat Completions over fetch, like the embeddings provider)
+// ----------------------------------------------------------------------------
+
+type OpenAiToolCall = { id: string; type: 'function'; function: { name: string; arguments: string } }
+
+type OpenAiMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | Array<Record<string, unknown>> }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAiToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string }
+
+type OpenAiUsage = {
+  prompt_tokens?: number
+  completion_tokens?: number
+  prompt_tokens_details?: { cached_tokens?: number }
+}
+
+function toOpenAiMessages(request: LlmRequest): OpenAiMessage[] {
+  const messages: OpenAiMessage[] = request.system ? [{ role: 'system', content: request.system }] : []
+
+  for (const message of request.messages) {
+    if (typeof message.content === 'string') {
+      messages.push({ role: message.role, content: message.content })
+      continue
+    }
+
+    if (message.role === 'assistant') {
+      const text = message.content
+        .filter((block): block is LlmTextBlock => block.type === 'text')
+        .map((block) => block.text)
+        .join('\n\n')
+      const toolCalls = message.content
+        .filter((block): block is LlmToolUseBlock => block.type === 'tool_use')
+        .map((block) => ({
+          id: block.id,
+          type: 'function' as const,
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        }))
+      messages.push({ role: 'assistant', content: text || null, ...(toolCalls.length ? { tool_calls: toolCalls } : {}) })
+      continue
+    }
+
+    // Tool results must directly follow the assistant turn that called them
+    const parts: Array<Record<string, unknown>> = []
+    for (const block of message.content) {
+      if (block.type === 'tool_result') {
+        messages.push({ role: 'tool', tool_call_id: block.tool_use_id, content: block.content })
+      } else if (block.type === 'text') {
+        parts.push({ type: 'text', text: block.text })
+      } else if (block.type === 'image') {
+        const url = block.source.type === 'url'
+          ? block.source.url
+          : `data:${block.source.media_type};base64,${block.source.data}`
+        parts.push({ type: 'image_url', image_url: { url } })
+      }
+    }
+    if (parts.length > 0) messages.push({ role: 'user', content: parts })
+  }
+
+  return messages
+}
+
+function toOpenAiBody(request: LlmRequest, stream: boolean) {
+  const toolChoice = request.tool_choice
+  return {
+    model: request.model,
+    messages: toOpenAiMessages(request),
+    max_completion_tokens: request.max_tokens,
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(request.tools
+      ? {
+          tools: request.tools.map((tool) => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description || '', parameters: tool.input_schema },
+          })),
+        }
+      : {}),
+    ...(toolChoice
+      ? {
+          tool_choice:
+            toolChoice.type === 'tool'
+              ? { type: 'function', function: { name: toolChoice.name } }
+              : toolChoice.type === 'any'
+                ? 'required'
+                : 'auto',
+        }
+      : {}),
+    ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+  }
+}
+
+function fromOpenAiUsage(usage: OpenAiUsage | null | undefined): TokenUsage {
+  const total = emptyUsage()
+  if (!usage) return total
+  // Cached prompt tokens are part of prompt_tokens; meter them as cache reads
+  const cached = Number(usage.prompt_tokens_details?.cached_tokens || 0)
+  total.input_tokens = Math.max(0, Number(usage.prompt_tokens || 0) - cached)
+  total.output_tokens = Number(usage.completion_tokens || 0)
+  total.cache_read_input_tokens = cached
+  return total
+}
+
+function fromOpenAiFinishReason(reason: string | null | undefined): LlmStopReason | null {
+  if (reason === 'stop') return 'end_turn'
+  if (reason === 'length') return 'max_tokens'
+  if (reason === 'tool_calls' || reason === 'function_call') return 'tool_use'
+  return null
+}
+
+function parseToolArguments(raw: string): unknown {
+  if (!raw.trim()) return {}
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return { _raw: raw }
+  }
+}
+
+function buildOpenAiResponse(args: {
+  id: string
+  model: string
+  text: string
+  toolCalls: Array<{ id: string; name: string; arguments: string }>
+  finishReason: string | null | undefined
+  usage: OpenAiUsage | null | undefined
+  requestId: string | null
+}): LlmResponse {
+  const content: LlmResponse['content'] = []
+  if (args.text) content.push({ type: 'text', text: args.text })
+  for (const call of args.toolCalls) {
+    content.push({ type: 'tool_use', id: call.id, name: call.name, input: parseToolArguments(call.arguments) })
+  }
+  return {
+    id: args.id,
+    model: args.model,
+    content,
+    stop_reason: fromOpenAiFinishReason(args.finishReason),
+    usage: fromOpenAiUsage(args.usage),
+    request_id: args.requestId,
+  }
+}
+
+export function createOpenAiClient(args: {
+  apiKey: string
+  timeoutMs?: number
+  maxRetries?: number
+}): LlmClient {
+  const timeoutMs = args.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const maxRetries = args.maxRetries ?? DEFAULT_MAX_RETRIES
+
+  // Retries rate limits and 5xx before any output has been read
+  const post = async (request: LlmRequest, stream: boolean) => {
+    for (let attempt = 0; ; attempt += 1) {
+      const res = await fetch(OPENAI_CHAT_URL, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${args.apiKey}`,
+          'Content-Type': 'application/json',
+          ...(request.headers || {}),
+        },
+        body: JSON.stringify(toOpenAiBody(request, stream)),
+        signal: AbortSignal.timeout(timeoutMs),
+      })
+      if (res.ok) return res
+      const retryable = res.status === 429 || res.status >= 500
+      if (!retryable || attempt >= maxRetries) {
+        const detail = await res.text().catch(() => '')
+        throw new LlmProviderError('openai', res.status, `OpenAI request failed (${res.status}): ${detail.slice(0, 300)}`)
+      }
+      await new Promise((resolve) => setTimeout(resolve, 500 * 2 ** attempt))
+    }
+  }
+
+  return {
+    provider: 'openai',
+    async create(request) {
+      const res = await post(request, false)
+      const data = (await res.json()) as {
+        id: string
+        model: string
+        choices: Array<{
+          finish_reason: string | null
+          message: { content: string | null; tool_calls?: OpenAiToolCall[] }
+        }>
+        usage?: OpenAiUsage
+      }
+      const choice = data.choices?.[0]
+      return buildOpenAiResponse({
+        id: data.id,
+        model: data.model || request.model,
+        text: choice?.message?.content || '',
+        toolCalls: (choice?.message?.tool_calls || []).map((call) => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: call.function.arguments,
+        })),
+        finishReason: choice?.finish_reason,
+        usage: data.usage,
+        requestId: res.headers.get('x-request-id'),
+      })
+    },
+    async stream(request, onText) {
+      const res = await post(request, true)
+      if (!res.body) throw new LlmProviderError('openai', 502, 'OpenAI returned an empty stream')
+
+      let id = ''
+      let model = request.model
+      let text = ''
+      let finishReason: string | null = null
+      let usage: OpenAiUsage | null = null
+      const toolCalls: Array<{ id: string; name: string; arguments: string }> = []
+
+      const reader = res.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
+        for (const line of lines) {
+          const payload = line.trim()
+          if (!payload.startsWith('data:')) continue
+          const data = payload.slice(5).trim()
+          if (!data || data === '[DONE]') continue
+          const chunk = JSON.parse(data) as {
+            id?: string
+            model?: string
+            usage?: OpenAiUsage | null
+            choices?: Array<{
+              finish_reason?: string | null
+              delta?: {
+                content?: string | null
+                tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }>
+              }
+            }>
+          }
+          id = chunk.id || id
+          model = chunk.model || model
+          if (chunk.usage) usage = chunk.usage
+          for (const choice of chunk.choices || []) {
+            if (choice.finish_reason) finishReason = choice.finish_reason
+            const delta = choice.delta?.content
+            if (delta) {
+              text += delta
+              if (onText) onText(delta)
+            }
+            for (const call of choice.delta?.tool_calls || []) {
+              const entry = (toolCalls[call.index] ||= { id: '', name: '', arguments: '' })
+              if (call.id) entry.id = call.id
+              if (call.function?.name) entry.name += call.function.name
+              if (call.function?.arguments) entry.arguments += call.function.arguments
+            }
+          }
+        }
+      }
+
+      return buildOpenAiResponse({
+        id,
+        model,
+        text,
+        toolCalls: toolCalls.filter(Boolean),
+        finishReason,
+        usage,
+        requestId: res.headers.get('x-request-id'),
+      })
+    },
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Mock (deterministic, fixture-driven)
+// ----------------------------------------------------------------------------
+
+const fixtureFileCache = new Map<string, LlmMockFixture[]>()
+
+function loadFixtureFile(path: string): LlmMockFixture[] {
+  const cached = fixtureFileCache.get(path)
+  if (cached) return cached
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(fs.readFileSync(path, 'utf8'))
+  } catch (error) {
+    throw new Error(`Failed to load LLM_MOCK_FIXTURES (${path}): ${error instanceof Error ? error.message : error}`)
+  }
+  if (!Array.isArray(parsed)) throw new Error(`LLM_MOCK_FIXTURES (${path}) must hold a JSON array`)
+  fixtureFileCache.set(path, parsed as LlmMockFixture[])
+  return parsed as LlmMockFixture[]
+}
+
+function messageText(message: LlmMessage | undefined): string {
+  if (!message) return ''
+  if (typeof message.content === 'string') return message.content
+  return message.content
+    .map((block) => (block.type === 'text' ? block.text : block.type === 'tool_result' ? block.content : ''))
+    .filter(Boolean)
+    .join('\n')
+}
+
+function lastUserText(request: LlmRequest) {
+  return messageText(request.messages.findLast((message) => message.role === 'user'))
+}
+
+function endsWithToolResult(request: LlmRequest) {
+  const last = request.messages[request.messages.length - 1]
+  return Array.isArray(last?.content) && last.content.some((block) => block.type === 'tool_result')
+}
+
+function fixtureMatches(fixture: LlmMockFixture, request: LlmRequest, agent: LlmAgentId | null) {
+  const match = fixture.match || {}
+  if (match.agent && match.agent !== agent) return false
+  if (match.model && match.model !== request.model) return false
+  if (match.contains && !lastUserText(request).toLowerCase().includes(match.contains.toLowerCase())) return false
+  if (match.tool && !request.tools?.some((tool) => tool.name === match.tool)) return false
+  if (fixture.tool_calls?.length && (!request.tools?.length || endsWithToolResult(request))) return false
+  return true
+}
+
+/**
+ * Smallest value that satisfies a JSON schema (enums, min lengths and item
+ * counts), so a forced tool call without a fixture still validates.
+ */
+function sampleFromSchema(schema: unknown, key: string, index = 0): unknown {
+  if (!schema || typeof schema !== 'object') return null
+  const node = schema as Record<string, unknown>
+  if (Array.isArray(node.enum) && node.enum.length > 0) return node.enum[0]
+  if ('const' in node) return node.const
+  if ('default' in node && node.default !== undefined) return node.default
+  const options = (node.anyOf || node.oneOf) as unknown[] | undefined
+  if (Array.isArray(options) && options.length > 0) {
+    const option = options.find((entry) => (entry as Record<string, unknown>)?.type !== 'null') || options[0]
+    return sampleFromSchema(option, key, index)
+  }
+
+  const type = Array.isArray(node.type) ? node.type.find((entry) => entry !== 'null') : node.type
+  if (type === 'object' || node.properties) {
+    const properties = (node.properties || {}) as Record<string, unknown>
+    return Object.fromEntries(
+      Object.entries(properties).map(([name, child]) => [name, sampleFromSchema(child, name, index)])
+    )
+  }
+  if (type === 'array') {
+    const count = Math.max(1, Number(node.minItems || 0))
+    return Array.from({ length: count }, (_, i) => sampleFromSchema(node.items, key, i))
+  }
+  if (type === 'number' || type === 'integer') {
+    const min = typeof node.minimum === 'number' ? node.minimum : 1
+    return typeof node.maximum === 'number' ? Math.min(min, node.maximum) : min
+  }
+  if (type === 'boolean') return false
+  if (type === 'string') {
+    let value = `Mock ${key.replace(/_/g, ' ')}${index > 0 ? ` ${index + 1}` : ''}`
+    const minLength = Number(node.minLength || 0)
+    while (value.length < minLength) value += ' mock'
+    if (typeof node.maxLength === 'number') value = value.slice(0, node.maxLength)
+    return value
+  }
+  return null
+}
+
+function mockHash(value: unknown) {
+  return crypto.createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, 24)
+}
+
+function estimateTokens(value: unknown) {
+  const text = typeof value === 'string' ? value : JSON.stringify(value ?? '')
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Answers from fixtures: LLM_MOCK_FIXTURES first, then the defaults. Without a
+ * match, a forced tool call gets a schema-valid sample and anything else a
+ * short text reply. Ids and usage derive from the request, so the same request
+ * always gets the same response.
+ */
+export function createMockLlmClient(args: { agent?: LlmAgentId | null; fixtures?: LlmMockFixture[] } = {}): LlmClient {
+  const agent = args.agent ?? null
+  const fixturesPath = (process.env.LLM_MOCK_FIXTURES || '').trim()
+  const fixtures = [
+    ...(args.fixtures || []),
+    ...(fixturesPath ? loadFixtureFile(fixturesPath) : []),
+    ...DEFAULT_LLM_MOCK_FIXTURES,
+  ]
+
+  const respond = (request: LlmRequest): LlmResponse => {
+    const hash = mockHash({ model: request.model, system: request.system, messages: request.messages })
+    const input = (lastUserText(request).split('\n').map((line) => line.trim()).filter(Boolean).pop() || '').slice(0, 160)
+    const forcedTool =
+      request.tool_choice?.type === 'tool'
+        ? request.tools?.find((tool) => tool.name === (request.tool_choice as { name: string }).name)
+        : null
+    const fixture = fixtures.find((entry) => fixtureMatches(entry, request, agent))
+
+    const content: LlmResponse['content'] = []
+    if (fixture?.text) content.push({ type: 'text', text: fixture.text.replace(/\{\{input\}\}/g, input) })
+    for (const [i, call] of (fixture?.tool_calls || []).entries()) {
+      content.push({ type: 'tool_use', id: `mock_tool_${hash}_${i}`, name: call.name, input: call.input })
+    }
+    if (!fixture && forcedTool) {
+      content.push({
+        type: 'tool_use',
+        id: `mock_tool_${hash}_0`,
+        name: forcedTool.name,
+        input: sampleFromSchema(forcedTool.input_schema, forcedTool.name),
+      })
+    }
+    if (content.length === 0) content.push({ type: 'text', text: `Mock response to: ${input || 'your message'}` })
+
+    const hasToolUse = content.some((block) => block.type === 'tool_use')
+    return {
+      id: `mock_msg_${hash}`,
+      model: request.model,
+      content,
+      stop_reason: hasToolUse ? 'tool_use' : fixture?.stop_reason || 'end_turn',
+      usage: {
+        ...emptyUsage(),
+        input_tokens: fixture?.usage?.input_tokens ?? estimateTokens([request.system, request.messages]),
+        output_tokens: fixture?.usage?.output_tokens ?? estimateTokens(content),
+      },
+      request_id: null,
+    }
+  }
+
+  return {
+    provider: 'mock',
+    async create(request) {
+      return respond(request)
+    },
+    async stream(request, onText) {
+      const response = respond(request)
+      if (onText) {
+        for (const chunk of responseText(response).match(/\S+\s*|\s+/g) || []) onText(chunk)
+      }
+      return response
+    },
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Factory
+// ----------------------------------------------------------------------------
+
+/**
+ * Client for one agent call with the org's key for the model's provider
+ * (env key as fallback). Returns null when that provider has no key; use
+ * missingLlmKeyMessage(model) for the error.
+ */
+export async function getLlmClient(args: {
+  organizationId: string | null
+  model: string
+  agent: LlmAgentId
+  timeoutMs?: number
+  maxRetries?: number
+}): Promise<LlmClient | null> {
+  const provider = llmProviderFor(args.model)
+  if (provider === 'mock') return createMockLlmClient({ agent: args.agent })
+
+  const apiKey = await getOrgApiKey(provider, args.organizationId)
+  if (!apiKey) return null
+  const options = { apiKey, timeoutMs: args.timeoutMs, maxRetries: args.maxRetries }
+  return provider === 'openai' ? createOpenAiClient(options) : createAnthropicClient(options)
+}
@@ -0,0 +1,80 @@
+import type { LlmAgentId } from '@/lib/model-registry'
+
+// ============================================================================
+// LLM MOCK FIXTURES
+// Canned replies for the mock provider (LLM_PROVIDER=mock). The first fixture
+// whose `match` fits the request wins; fixtures from LLM_MOCK_FIXTURES (a JSON
+// file holding an array of these) are tried before the defaults below.
+// ============================================================================
+
+export type LlmMockFixture = {
+  // Every field given must match; an empty match always matches
+  match?: {
+    agent?: LlmAgentId
+    model?: string
+    // Case-insensitive substring of the last user message
+    contains?: string
+    // The request offers a tool with this name
+    tool?: string
+  }
+  // `{{input}}` is replaced with the last line of the last user message
+  text?: string
+  // Only used while the last message is not a tool result, so a tool loop ends
+  tool_calls?: Array<{ name: string; input: unknown }>
+  stop_reason?: 'end_turn' | 'max_tokens' | 'stop_sequence'
+  usage?: { input_tokens?: number; output_tokens?: number }
+}
+
+export const DEFAULT_LLM_MOCK_FIXTURES: LlmMockFixture[] = [
+  {
+    match: { agent: 'writer' },
+    text: [
+      '```draft',
+      'Mock draft for: {{input}}',
+      '',
+      'This reply comes from the mock LLM provider. Unset LLM_PROVIDER to call a real model.',
+      '```',
+    ].join('\n'),
+  },
+  {
+    match: { agent: 'research_synthesis' },
+    text: JSON.stringify({
+      avatars: [
+        {
+          name: 'mock-research-avatar',
+          content: 'Mock avatar synthesized from the first research item.',
+          evidence: ['1'],
+        },
+      ],
+      positionings: [
+        {
+          name: 'Mock positioning',
+          content: 'Mock positioning synthesized from the first research item.',
+          evidence: ['1'],
+        },
+      ],
+      quotes: [],
+      awareness_insights: [],
+    }),
+  },
+  {
+    match: { agent: 'review_importer' },
+    text: JSON.stringify({
+      themes: [{ name: 'General feedback', description: 'Mock theme for every imported review.' }],
+      assignments: [],
+      quotes: [],
+    }),
+  },
+  {
+    match: { agent: 'swipe_namer' },
+    text: 'mock-swipe-title',
+  },
+  {
+    match: { agent: 'avatar_namer' },
+    text: 'mock-avatar-name',
+  },
+  {
+    match: { agent: 'edit_content' },
+    text: 'Mock edited text.',
+  },
+]
@@ -0,0 +1,25 @@
+import * as shared from '../../services/media-worker/src/llm-pricing.js'
+
+// Typed view over the LLM pricing table shared with the media worker.
+
+export type LlmUsageCounts = {
+  input_tokens?: number | null
+  output_tokens?: number | null
+  cache_creation_input_tokens?: number | null
+  cache_read_input_tokens?: number | null
+  audio_seconds?: number | null
+}
+
+export type LlmBudgetStatus = 'none' | 'ok' | 'warning' | 'exceeded'
+
+export function estimateLlmCostUsd(model: string, usage: LlmUsageCounts): number {
+  return shared.estimateLlmCostUsd(model, usage)
+}
+
+export function budgetStatus(args: {
+  spentUsd: number
+  budgetUsd: number | null
+  warnAtPercent?: number
+}): LlmBudgetStatus {
+  return shared.budgetStatus(args) as LlmBudgetStatus
+}
@@ -0,0 +1,324 @@
+import { sql } from '@/lib/db'
+import { budgetStatus, estimateLlmCostUsd, type LlmBudgetStatus, type LlmUsageCounts } from '@/lib/llm-pricing'
+import type { LlmClientProvider } from '@/lib/llm-client'
+
+// ============================================================================
+// LLM USAGE LEDGER
+// Routes record the `usage` each SDK call returns against the organization
+// whose keys paid for it, and check the org's monthly budget before calling.
+// The media worker writes the same rows from services/media-worker.
+// ============================================================================
+
+export type LlmFeature =
+  | 'agent_chat'
+  | 'generate'
+  | 'research_synthesize'
+  | 'research_import_reviews'
+  | 'swipe_namer'
+  | 'avatar_namer'
+  | 'embeddings'
+
+export type LlmBudget = {
+  organization_id: string
+  monthly_budget_usd: number | null
+  warn_at_percent: number
+  hard_stop: boolean
+  spent_usd: number
+  percent_used: number | null
+  status: LlmBudgetStatus
+  period_start: string
+}
+
+export const BUDGET_EXCEEDED_CODE = 'budget_exceeded'
+
+export class LlmBudgetExceededError extends Error {
+  code = BUDGET_EXCEEDED_CODE
+  status = 402
+  budget: LlmBudget
+
+  constructor(budget: LlmBudget) {
+    super(
+      `Monthly AI budget reached ($${budget.spent_usd.toFixed(2)} of $${Number(budget.monthly_budget_usd || 0).toFixed(2)}). ` +
+        'An organization admin can raise it in Settings > Usage.'
+    )
+    this.name = 'LlmBudgetExceededError'
+    this.budget = budget
+  }
+}
+
+export function isLlmBudgetExceededError(error: unknown): error is LlmBudgetExceededError {
+  return error instanceof LlmBudgetExceededError
+}
+
+export type TokenUsage = {
+  input_tokens: number
+  output_tokens: number
+  cache_creation_input_tokens: number
+  cache_read_input_tokens: number
+}
+
+export function emptyUsage(): TokenUsage {
+  return { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 }
+}
+
+/** Adds an SDK `usage` object (Anthropic field names) into a running total. */
+export function addUsage(total: TokenUsage, usage: LlmUsageCounts | null | undefined) {
+  if (!usage) return total
+  total.input_tokens += Number(usage.input_tokens || 0)
+  total.output_tokens += Number(usage.output_tokens || 0)
+  total.cache_creation_input_tokens += Number(usage.cache_creation_input_tokens || 0)
+  total.cache_read_input_tokens += Number(usage.cache_read_input_tokens || 0)
+  return total
+}
+
+/**
+ * Appends a ledger row. Metering must never break the feature, so failures
+ * are logged and swallowed.
+ */
+export async function recordLlmUsage(args: {
+  organizationId: string | null
+  userId?: string | null
+  productId?: string | null
+  feature: LlmFeature
+  provider?: LlmClientProvider
+  model: string
+  usage: LlmUsageCounts | null | undefined
+  requestId?: string | null
+  metadata?: Record<string, unknown>
+}) {
+  const usage = args.usage || {}
+  try {
+    await sql`
+      INSERT INTO llm_usage_events (
+        organization_id, user_id, product_id, feature, provider, model,
+        input_tokens, output_tokens, cache_creation_input_tokens, cache_read_input_tokens,
+        cost_usd, request_id, metadata
+      )
+      VALUES (
+        ${args.organizationId},
+        ${args.userId ?? null},
+        ${args.productId ?? null},
+        ${args.feature},
+        ${args.provider || 'anthropic'},
+        ${args.model},
+        ${Number(usage.input_tokens || 0)},
+        ${Number(usage.output_tokens || 0)},
+        ${Number(usage.cache_creation_input_tokens || 0)},
+        ${Number(usage.cache_read_input_tokens || 0)},
+        ${estimateLlmCostUsd(args.model, usage)},
+        ${args.requestId ?? null},
+        ${args.metadata || {}}
+      )
+    `
+  } catch (error) {
+    console.error('Record LLM usage error:', error)
+  }
+}
+
+export async function getLlmBudget(organizationId: string): Promise<LlmBudget> {
+  const rows = await sql`
+    SELECT
+      organization_llm_budgets.monthly_budget_usd,
+      organization_llm_budgets.warn_at_percent,
+      organization_llm_budgets.hard_stop,
+      date_trunc('month', NOW()) AS period_start,
+      (
+        SELECT COALESCE(SUM(llm_usage_events.cost_usd), 0)
+        FROM llm_usage_events
+        WHERE llm_usage_events.organization_id = ${organizationId}
+          AND llm_usage_events.created_at >= date_trunc('month', NOW())
+      ) AS spent_usd
+    FROM (SELECT 1) AS one
+    LEFT JOIN organization_llm_budgets ON organization_llm_budgets.organization_id = ${organizationId}
+  `
+  const row = rows[0] || {}
+  const monthlyBudget = row.monthly_budget_usd === null || row.monthly_budget_usd === undefined
+    ? null
+    : Number(row.monthly_budget_usd)
+  const spent = Number(row.spent_usd || 0)
+  const warnAt = Number(row.warn_at_percent || 80)
+  return {
+    organization_id: organizationId,
+    monthly_budget_usd: monthlyBudget,
+    warn_at_percent: warnAt,
+    hard_stop: row.hard_stop === undefined || row.hard_stop === null ? true : Boolean(row.hard_stop),
+    spent_usd: spent,
+    percent_used: monthlyBudget && monthlyBudget > 0 ? Math.round((spent / monthlyBudget) * 1000) / 10 : null,
+    status: budgetStatus({ spentUsd: spent, budgetUsd: monthlyBudget, warnAtPercent: warnAt }),
+    period_start: new Date(row.period_start || Date.now()).toISOString(),
+  }
+}
+
+/**
+ * Loads the org's budget and throws LlmBudgetExceededError when it is spent
+ * and set to hard-stop. Returns the budget so callers can surface warnings.
+ * Calls without an organization (env keys) are not budgeted.
+ */
+export async function assertLlmBudget(organizationId: string | null): Promise<LlmBudget | null> {
+  if (!organizationId) return null
+  const budget = await getLlmBudget(organizationId)
+  if (budget.status === 'exceeded' && budget.hard_stop) throw new LlmBudgetExceededError(budget)
+  return budget
+}
+
+export function budgetExceededResponseBody(error: LlmBudgetExceededError) {
+  return { error: error.message, code: error.code, budget: error.budget }
+}
+
+export async function saveLlmBudget(args: {
+  organizationId: string
+  monthlyBudgetUsd: number | null
+  warnAtPercent?: number
+  hardStop?: boolean
+  userId: string
+}): Promise<LlmBudget> {
+  await sql`
+    INSERT INTO organization_llm_budgets (
+      organization_id, monthly_budget_usd, warn_at_percent, hard_stop, updated_by
+    )
+    VALUES (
+      ${args.organizationId},
+      ${args.monthlyBudgetUsd},
+      ${args.warnAtPercent ?? 80},
+      ${args.hardStop ?? true},
+      ${args.userId}
+    )
+    ON CONFLICT (organization_id)
+    DO UPDATE SET monthly_budget_usd = EXCLUDED.monthly_budget_usd,
+                  warn_at_percent = EXCLUDED.warn_at_percent,
+                  hard_stop = EXCLUDED.hard_stop,
+                  updated_by = EXCLUDED.updated_by,
+                  updated_at = NOW()
+  `
+  return getLlmBudget(args.organizationId)
+}
+
+export type LlmUsageTotals = {
+  calls: number
+  input_tokens: number
+  output_tokens: number
+  cache_creation_input_tokens: number
+  cache_read_input_tokens: number
+  cost_usd: number
+}
+
+export type LlmUsageBreakdownRow = LlmUsageTotals & { key: string; label: string | null }
+
+export type LlmUsageEvent = {
+  id: string
+  feature: string
+  provider: string
+  model: string
+  user_id: string | null
+  user_name: string | null
+  input_tokens: number
+  output_tokens: number
+  cost_usd: number
+  created_at: string
+}
+
+export type LlmUsageSummary = {
+  budget: LlmBudget
+  totals: LlmUsageTotals
+  by_feature: LlmUsageBreakdownRow[]
+  by_model: LlmUsageBreakdownRow[]
+  by_user: LlmUsageBreakdownRow[]
+  by_day: LlmUsageBreakdownRow[]
+  recent: LlmUsageEvent[]
+}
+
+function toTotals(row: Record<string, unknown>): LlmUsageTotals {
+  return {
+    calls: Number(row.calls || 0),
+    input_tokens: Number(row.input_tokens || 0),
+    output_tokens: Number(row.output_tokens || 0),
+    cache_creation_input_tokens: Number(row.cache_creation_input_tokens || 0),
+    cache_read_input_tokens: Number(row.cache_read_input_tokens || 0),
+    cost_usd: Number(row.cost_usd || 0),
+  }
+}
+
+/** Month-to-date usage for the org, grouped for the settings page. */
+export async function getLlmUsageSummary(organizationId: string): Promise<LlmUsageSummary> {
+  const budget = await getLlmBudget(organizationId)
+
+  // One pass over the month's rows; each grouping set becomes one breakdown
+  const rows = await sql`
+    SELECT
+      CASE
+        WHEN GROUPING(llm_usage_events.feature) = 0 THEN 'feature'
+        WHEN GROUPING(llm_usage_events.model) = 0 THEN 'model'
+        WHEN GROUPING(llm_usage_events.user_id) = 0 THEN 'user'
+        WHEN GROUPING(date_trunc('day', llm_usage_events.created_at)) = 0 THEN 'day'
+        ELSE 'total'
+      END AS grouping_kind,
+      COALESCE(
+        llm_usage_events.feature,
+        llm_usage_events.model,
+        llm_usage_events.user_id::text,
+        to_char(date_trunc('day', llm_usage_events.created_at), 'YYYY-MM-DD')
+      ) AS key,
+      MAX(COALESCE(app_users.name, app_users.email)) AS label,
+      COUNT(*) AS calls,
+      SUM(llm_usage_events.input_tokens) AS input_tokens,
+      SUM(llm_usage_events.output_tokens) AS output_tokens,
+      SUM(llm_usage_events.cache_creation_input_tokens) AS cache_creation_input_tokens,
+      SUM(llm_usage_events.cache_read_input_tokens) AS cache_read_input_tokens,
+      SUM(llm_usage_events.cost_usd) AS cost_usd
+    FROM llm_usage_events
+    LEFT JOIN app_users ON app_users.id = llm_usage_events.user_id
+    WHERE llm_usage_events.organization_id = ${organizationId}
+      AND llm_usage_events.created_at >= ${budget.period_start}
+    GROUP BY GROUPING SETS (
+      (llm_usage_events.feature),
+      (llm_usage_events.model),
+      (llm_usage_events.user_id),
+      (date_trunc('day', llm_usage_events.created_at)),
+      ()
+    )
+  `
+
+  const breakdown = (kind: string) =>
+    rows
+      .filter((row) => row.grouping_kind === kind)
+      .map((row) => ({
+        ...toTotals(row),
+        key: row.key === null || row.key === undefined ? 'unattributed' : String(row.key),
+        label: kind === 'user' && row.label ? String(row.label) : null,
+      }))
+
+  const recent = (await sql`
+    SELECT
+      llm_usage_events.id,
+      llm_usage_events.feature,
+      llm_usage_events.provider,
+      llm_usage_events.model,
+      llm_usage_events.user_id,
+      COALESCE(app_users.name, app_users.email) AS user_name,
+      llm_usage_events.input_tokens,
+      llm_usage_events.output_tokens,
+      llm_usage_events.cost_usd,
+      llm_usage_events.created_at
+    FROM llm_usage_events
+    LEFT JOIN app_users ON app_users.id = llm_usage_events.user_id
+    WHERE llm_usage_events.organization_id = ${organizationId}
+    ORDER BY llm_usage_events.created_at DESC
+    LIMIT 50
+  `) as LlmUsageEvent[]
+
+  const totalRow = rows.find((row) => row.grouping_kind === 'total')
+  return {
+    budget,
+    totals: totalRow ? toTotals(totalRow) : toTotals({}),
+    by_feature: breakdown('feature').sort((a, b) => b.cost_usd - a.cost_usd),
+    by_model: breakdown('model').sort((a, b) => b.cost_usd - a.cost_usd),
+    by_user: breakdown('user').sort((a, b) => b.cost_usd - a.cost_usd),
+    by_day: breakdown('day').sort((a, b) => a.key.localeCompare(b.key)),
+    recent: recent.map((row) => ({
+      ...row,
+      input_tokens: Number(row.input_tokens || 0),
+      output_tokens: Number(row.output_tokens || 0),
+      cost_usd: Number(row.cost_usd || 0),
+    })),
+  }
+}
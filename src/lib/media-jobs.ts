@@ -0,0 +1,129 @@
+import { sql } from '@/lib/db'
+
+// ============================================================================
+// MEDIA JOB QUEUE (admin operations)
+// The media worker owns the happy path; these helpers back the admin queue view.
+// ============================================================================
+
+export const MEDIA_JOB_TYPES = [
+  'ingest_meta_ad',
+  'ingest_swipe_upload',
+  'ingest_research_file',
+  'ingest_research_url',
+  'organize_research_inbox',
+  'poll_competitor_watchlist',
+  'backfill_swipe_tags',
+  'sync_product_embeddings',
+] as const
+export const MEDIA_JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'dead', 'cancelled'] as const
+
+export type MediaJobType = (typeof MEDIA_JOB_TYPES)[number]
+export type MediaJobStatus = (typeof MEDIA_JOB_STATUSES)[number]
+
+export type MediaJobRow = {
+  id: string
+  type: string
+  status: MediaJobStatus
+  input: Record<string, unknown>
+  output: Record<string, unknown> | null
+  attempts: number
+  run_after: string
+  locked_at: string | null
+  locked_by: string | null
+  error_message: string | null
+  created_at: string
+  updated_at: string
+}
+
+const CANCELLABLE: MediaJobStatus[] = ['queued', 'running']
+const REQUEUEABLE: MediaJobStatus[] = ['failed', 'dead', 'cancelled', 'completed']
+
+export function isMediaJobStatus(value: string): value is MediaJobStatus {
+  return (MEDIA_JOB_STATUSES as readonly string[]).includes(value)
+}
+
+export function isMediaJobType(value: string): value is MediaJobType {
+  return (MEDIA_JOB_TYPES as readonly string[]).includes(value)
+}
+
+// Keeps the swipe/research item a job works on in step with the job itself.
+async function syncJobSubject(job: MediaJobRow, state: 'processing' | 'failed', errorMessage: string | null) {
+  const input = job.input || {}
+  if (job.type === 'ingest_meta_ad' || job.type === 'ingest_swipe_upload') {
+    const swipeId = typeof input.swipe_id === 'string' ? input.swipe_id : null
+    if (!swipeId) return
+    await sql`
+      UPDATE swipes
+      SET status = ${state}, error_message = ${errorMessage}, updated_at = NOW()
+      WHERE id = ${swipeId}
+    `
+  } else if (job.type === 'ingest_research_file' || job.type === 'ingest_research_url') {
+    const itemId = typeof input.research_item_id === 'string' ? input.research_item_id : null
+    if (!itemId) return
+    await sql`
+      UPDATE research_items
+      SET status = ${state},
+          metadata = metadata || ${{ error: errorMessage }},
+          updated_at = NOW()
+      WHERE id = ${itemId}
+    `
+  }
+}
+
+export async function getMediaJob(id: string): Promise<MediaJobRow | null> {
+  const rows = await sql`SELECT * FROM media_jobs WHERE id = ${id} LIMIT 1`
+  return (rows[0] as MediaJobRow | undefined) ?? null
+}
+
+/**
+ * Cancels a queued or running job. A running worker is not interrupted, but its
+ * failure bookkeeping is skipped because the row is no longer `running`.
+ */
+export async function cancelMediaJob(id: string): Promise<{ job: MediaJobRow } | { error: string; status: number }> {
+  const rows = (await sql`
+    UPDATE media_jobs
+    SET status = 'cancelled',
+        error_message = 'Cancelled by admin',
+        locked_at = NULL,
+        locked_by = NULL,
+        updated_at = NOW()
+    WHERE id = ${id}
+      AND status = ANY(${CANCELLABLE}::text[])
+    RETURNING *
+  `) as MediaJobRow[]
+  const job = rows[0]
+  if (!job) {
+    const existing = await getMediaJob(id)
+    if (!existing) return { error: 'Not found', status: 404 }
+    return { error: `Cannot cancel a ${existing.status} job`, status: 409 }
+  }
+
+  await syncJobSubject(job, 'failed', 'Cancelled by admin')
+  return { job }
+}
+
+/**
+ * Puts finished jobs back in the queue with a fresh attempt budget.
+ * Ids that are missing or still queued/running are skipped.
+ */
+export async function requeueMediaJobs(ids: string[]): Promise<MediaJobRow[]> {
+  if (ids.length === 0) return []
+  const rows = (await sql`
+    UPDATE media_jobs
+    SET status = 'queued',
+        attempts = 0,
+        run_after = NOW(),
+        error_message = NULL,
+        locked_at = NULL,
+        locked_by = NULL,
+        updated_at = NOW()
+    WHERE id = ANY(${ids}::uuid[])
+      AND status = ANY(${REQUEUEABLE}::text[])
+    RETURNING *
+  `) as MediaJobRow[]
+
+  for (const job of rows) {
+    await syncJobSubject(job, 'processing', null)
+  }
+  return rows
+}
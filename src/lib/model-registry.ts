@@ -0,0 +1,83 @@
+import * as shared from '../../services/media-worker/src/model-registry.js'
+
+// Typed view over the model registry shared with the media worker.
+
+export type LlmModelTier = 'small' | 'medium' | 'large'
+
+export type LlmProvider = 'anthropic' | 'openai'
+
+export type LlmModel = {
+  id: string
+  label: string
+  tier: LlmModelTier
+  provider: LlmProvider
+}
+
+export type LlmAgentId =
+  | 'writer'
+  | 'generate'
+  | 'edit_content'
+  | 'swipe_namer'
+  | 'avatar_namer'
+  | 'research_synthesis'
+  | 'review_importer'
+  | 'swipe_summarizer'
+  | 'research_summarizer'
+  | 'research_organizer'
+  | 'image_ocr'
+
+export type LlmAgent = {
+  id: LlmAgentId
+  label: string
+  description: string
+  default_model: string
+  env: string[]
+  skills: boolean
+  providers: LlmProvider[]
+}
+
+export type OrgModelSettings = {
+  default_model: string | null
+  agent_models: Partial<Record<LlmAgentId, string>>
+  skill_models: Record<string, string>
+}
+
+export type ResolvedModel = {
+  model: string
+  source: 'skill' | 'agent' | 'organization' | 'default'
+  agent: LlmAgentId
+  skill: string | null
+}
+
+export const LLM_PROVIDERS = shared.LLM_PROVIDERS as LlmProvider[]
+
+export const LLM_MODELS = shared.LLM_MODELS as LlmModel[]
+
+export const LLM_AGENTS = shared.LLM_AGENTS as LlmAgent[]
+
+export const LLM_AGENT_IDS = shared.LLM_AGENT_IDS as LlmAgentId[]
+
+export function isKnownModel(model: string): boolean {
+  return shared.isKnownModel(model)
+}
+
+export function modelProvider(model: string): LlmProvider {
+  return shared.modelProvider(model) as LlmProvider
+}
+
+export function agentSupportsModel(agentId: LlmAgentId, model: string): boolean {
+  return shared.agentSupportsModel(agentId, model)
+}
+
+export function builtInAgentModel(agentId: LlmAgentId, env: Record<string, string | undefined> = {}): string {
+  return shared.builtInAgentModel(agentId, env)
+}
+
+export function resolveAgentModel(args: {
+  agentId: LlmAgentId
+  skills?: string[]
+  settings?: OrgModelSettings | null
+  env?: Record<string, string | undefined>
+}): ResolvedModel {
+  return shared.resolveAgentModel(args) as ResolvedModel
+}
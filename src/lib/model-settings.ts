@@ -0,0 +1,77 @@
+import { sql } from '@/lib/db'
+import {
+  resolveAgentModel,
+  type LlmAgentId,
+  type OrgModelSettings,
+  type ResolvedModel,
+} from '@/lib/model-registry'
+
+// ============================================================================
+// MODEL SETTINGS
+// Per-organization default model plus per-agent and per-skill overrides,
+// edited on /studio/agents. Routes call resolveModel() instead of pinning ids.
+// ============================================================================
+
+export const EMPTY_MODEL_SETTINGS: OrgModelSettings = {
+  default_model: null,
+  agent_models: {},
+  skill_models: {},
+}
+
+export async function getOrgModelSettings(organizationId: string | null): Promise<OrgModelSettings> {
+  if (!organizationId) return EMPTY_MODEL_SETTINGS
+  const rows = await sql`
+    SELECT default_model, agent_models, skill_models
+    FROM organization_model_settings
+    WHERE organization_id = ${organizationId}
+    LIMIT 1
+  `
+  const row = rows[0]
+  if (!row) return EMPTY_MODEL_SETTINGS
+  return {
+    default_model: row.default_model || null,
+    agent_models: (row.agent_models || {}) as OrgModelSettings['agent_models'],
+    skill_models: (row.skill_models || {}) as OrgModelSettings['skill_models'],
+  }
+}
+
+export async function saveOrgModelSettings(args: {
+  organizationId: string
+  settings: OrgModelSettings
+  userId: string
+}): Promise<OrgModelSettings> {
+  await sql`
+    INSERT INTO organization_model_settings (
+      organization_id, default_model, agent_models, skill_models, updated_by
+    )
+    VALUES (
+      ${args.organizationId},
+      ${args.settings.default_model},
+      ${args.settings.agent_models},
+      ${args.settings.skill_models},
+      ${args.userId}
+    )
+    ON CONFLICT (organization_id)
+    DO UPDATE SET default_model = EXCLUDED.default_model,
+                  agent_models = EXCLUDED.agent_models,
+                  skill_models = EXCLUDED.skill_models,
+                  updated_by = EXCLUDED.updated_by,
+                  updated_at = NOW()
+  `
+  return getOrgModelSettings(args.organizationId)
+}
+
+/** Resolves the model an agent should call for this organization. */
+export async function resolveModel(args: {
+  organizationId: string | null
+  agent: LlmAgentId
+  skills?: string[]
+}): Promise<ResolvedModel> {
+  const settings = await getOrgModelSettings(args.organizationId)
+  return resolveAgentModel({
+    agentId: args.agent,
+    skills: args.skills,
+    settings,
+    env: process.env,
+  })
+}
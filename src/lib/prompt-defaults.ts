@@ -260,15 +260,19 @@ You are a senior direct-response copywriter and creative strategist working insi
     name: 'Research Organizer Prompt',
     content: `You are organizing research for a copywriting studio.
 Return JSON with:
-- categories: [{ name, description }]
+- categories: [{ name, description }] (only categories you are adding)
 - assignments: [{ item_id, category_name }]
 
 Rules:
-- Create 2-6 categories max.
+- Reuse an existing category, spelled exactly as listed, whenever an item fits it.
+- Only add a category when nothing existing fits. Keep the total to 2-8 categories.
 - Use short names.
 - Map every item.
 - Output ONLY JSON.
 
+Existing categories:
+{{categories}}
+
 Items:
 {{items}}`,
   },
@@ -301,7 +305,10 @@ Transcript excerpt:
 
   swipe_summarizer_prompt: {
     name: 'Swipe Summarizer Prompt',
-    content: `Return JSON with keys: title, summary.
+    content: `Return JSON with keys: title, summary, tags.
+
+tags is an object with one value per dimension below. Use only the listed values and omit any dimension you cannot judge.
+{{tag_options}}
 
 URL: {{url}}
 
@@ -324,6 +331,23 @@ Text:
 {{text}}`,
   },
 
+  research_image_ocr_system: {
+    name: 'Research Image OCR System',
+    content:
+      'You transcribe screenshots for a research library. Output only the text visible in the image, nothing else.',
+  },
+
+  research_image_ocr_prompt: {
+    name: 'Research Image OCR Prompt',
+    content: `Transcribe all readable text in this screenshot (comments, DMs, reviews, captions).
+
+Rules:
+- Copy text verbatim, keeping spelling, emoji and punctuation.
+- Keep one message/comment per paragraph, prefixed with the author's name or handle when visible.
+- Include star ratings, like counts and dates as they appear.
+- Skip app chrome (buttons, navigation, timestamps in the status bar).`,
+  },
+
   research_synthesis_system: {
     name: 'Research Synthesis System',
     content:
@@ -333,10 +357,12 @@ Text:
   research_synthesis_prompt: {
     name: 'Research Synthesis Prompt',
     content: `Analyze the research items below and return JSON with keys:
-- avatars: [{ name, content }]
-- positionings: [{ name, content }]
-- quotes: [{ quote, source, note }]
-- awareness_insights: [{ name, summary, application }]
+- avatars: [{ name, content, evidence }]
+- positionings: [{ name, content, evidence }]
+- quotes: [{ quote, source, note, evidence }]
+- awareness_insights: [{ name, summary, application, evidence }]
+
+evidence is a list of [{ item, quote }] citing the research items each entry is based on: item is the item's ID, quote is an optional supporting excerpt copied word for word from that item.
 
 Rules:
 - Keep each array concise (0-6 entries).
@@ -344,6 +370,8 @@ Rules:
 - Names should be short and clear.
 - content/summary/application should be specific and useful.
 - Only include sections requested in extract flags.
+- Every entry must cite at least one item in evidence. Cite every item that materially supports it, and never cite an item that does not.
+- Items may list verbatim customer quotes with star ratings. Treat them as primary evidence: copy quotes word for word, never paraphrase, and put the rating and platform in "source" (e.g. "5/5, Amazon").
 - Output ONLY JSON.
 
 Extract flags:
@@ -353,6 +381,34 @@ Items:
 {{items}}`,
   },
 
+  review_theme_system: {
+    name: 'Review Theme System',
+    content:
+      'You cluster customer reviews into themes for direct-response copywriters. Output strict JSON only, no extra commentary.',
+  },
+
+  review_theme_prompt: {
+    name: 'Review Theme Prompt',
+    content: `Group the customer reviews below into themes (benefits, objections, use cases, complaints, outcomes).
+Return JSON with:
+- themes: [{ name, description }]
+- assignments: [{ review, theme }]
+- quotes: [{ review, quote }]
+
+Rules:
+- Reuse an existing theme name whenever it fits; only add a theme when none does.
+- Aim for 3-8 themes overall. Names are short (2-5 words).
+- Assign every review number to exactly one theme.
+- quotes are the most vivid, persuasive phrases, copied VERBATIM from the review (a sentence or two, no edits, no ellipses). At most 2 per review, and only for reviews worth quoting.
+- Output ONLY JSON.
+
+Existing themes:
+{{themes}}
+
+Reviews:
+{{reviews}}`,
+  },
+
   // ============================================================================
   // SHARED BLOCKS - Used across all content types
   // ============================================================================
@@ -0,0 +1,35 @@
+import * as shared from '../../services/media-worker/src/research-file-types.js'
+
+// Typed view over the research upload types shared with the media worker.
+
+export type ResearchFileKind =
+  | 'pdf'
+  | 'docx'
+  | 'spreadsheet'
+  | 'markdown'
+  | 'html'
+  | 'subtitles'
+  | 'epub'
+  | 'image'
+  | 'text'
+
+export type ResearchFileType = {
+  kind: ResearchFileKind
+  label: string
+  extensions: string[]
+  mimes: string[]
+}
+
+export const RESEARCH_FILE_TYPES = shared.RESEARCH_FILE_TYPES as ResearchFileType[]
+
+export const RESEARCH_FILE_ACCEPT: string = shared.RESEARCH_FILE_ACCEPT
+
+export const SUPPORTED_RESEARCH_FILES_LABEL: string = shared.SUPPORTED_RESEARCH_FILES_LABEL
+
+export function getResearchFileType(filename: string, mime: string | null | undefined): ResearchFileType | null {
+  return shared.getResearchFileType(filename, mime) as ResearchFileType | null
+}
+
+export function detectResearchFileKind(filename: string, mime: string | null | undefined): ResearchFileKind | null {
+  return shared.detectResearchFileKind(filename, mime) as ResearchFileKind | null
+}
@@ -0,0 +1,203 @@
+import { sql } from '@/lib/db'
+import type { MediaJobStatus } from '@/lib/media-jobs'
+
+// ============================================================================
+// RESEARCH ORGANIZER
+// The media worker pages through a product's whole inbox and writes a proposed
+// plan (categories + assignments) into the job output as it goes. Nothing is
+// moved until the user reviews the plan and applies it.
+// ============================================================================
+
+export const ORGANIZE_JOB_TYPE = 'organize_research_inbox'
+
+export type OrganizeCategory = {
+  name: string
+  description?: string | null
+  // Set when the proposal reuses an existing research_categories row
+  category_id?: string | null
+}
+
+export type OrganizeAssignment = {
+  item_id: string
+  category_name: string
+  title?: string | null
+}
+
+export type OrganizeProgress = {
+  processed: number
+  total: number
+  batches_done: number
+}
+
+export type OrganizeJobState = {
+  job_id: string
+  status: MediaJobStatus
+  progress: OrganizeProgress
+  categories: OrganizeCategory[]
+  assignments: OrganizeAssignment[]
+  unassigned_count: number
+  applied_at: string | null
+  error: string | null
+  created_at: string
+  updated_at: string
+}
+
+type OrganizeJobRow = {
+  id: string
+  status: MediaJobStatus
+  input: Record<string, unknown> | null
+  output: Record<string, unknown> | null
+  error_message: string | null
+  created_at: string
+  updated_at: string
+}
+
+export const ORGANIZE_TERMINAL_STATUSES: MediaJobStatus[] = ['completed', 'failed', 'dead', 'cancelled']
+
+function toOrganizeJobState(row: OrganizeJobRow): OrganizeJobState {
+  const output = row.output || {}
+  const progress = (output.progress || {}) as Partial<OrganizeProgress>
+  return {
+    job_id: row.id,
+    status: row.status,
+    progress: {
+      processed: Number(progress.processed || 0),
+      total: Number(progress.total || 0),
+      batches_done: Number(progress.batches_done || 0),
+    },
+    categories: Array.isArray(output.categories) ? (output.categories as OrganizeCategory[]) : [],
+    assignments: Array.isArray(output.assignments) ? (output.assignments as OrganizeAssignment[]) : [],
+    unassigned_count: Number(output.unassigned_count || 0),
+    applied_at: typeof output.applied_at === 'string' ? output.applied_at : null,
+    error: row.error_message,
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at).toISOString(),
+  }
+}
+
+export async function getOrganizeJob(jobId: string): Promise<(OrganizeJobState & { product_id: string }) | null> {
+  const rows = (await sql`
+    SELECT id, status, input, output, error_message, created_at, updated_at
+    FROM media_jobs
+    WHERE id = ${jobId}
+      AND type = ${ORGANIZE_JOB_TYPE}
+    LIMIT 1
+  `) as OrganizeJobRow[]
+  const row = rows[0]
+  if (!row) return null
+  return { ...toOrganizeJobState(row), product_id: String(row.input?.product_id || '') }
+}
+
+export async function getLatestOrganizeJob(productId: string): Promise<OrganizeJobState | null> {
+  const rows = (await sql`
+    SELECT id, status, input, output, error_message, created_at, updated_at
+    FROM media_jobs
+    WHERE type = ${ORGANIZE_JOB_TYPE}
+      AND input->>'product_id' = ${productId}
+    ORDER BY created_at DESC
+    LIMIT 1
+  `) as OrganizeJobRow[]
+  return rows[0] ? toOrganizeJobState(rows[0]) : null
+}
+
+/**
+ * Queues an organize run for the product, or returns the one already queued
+ * or running so repeated clicks do not stack jobs.
+ */
+export async function enqueueOrganizeJob(args: {
+  productId: string
+  userId: string
+  itemIds?: string[]
+}): Promise<OrganizeJobState> {
+  const active = (await sql`
+    SELECT id, status, input, output, error_message, created_at, updated_at
+    FROM media_jobs
+    WHERE type = ${ORGANIZE_JOB_TYPE}
+      AND input->>'product_id' = ${args.productId}
+      AND status IN ('queued', 'running')
+    ORDER BY created_at DESC
+    LIMIT 1
+  `) as OrganizeJobRow[]
+  if (active[0]) return toOrganizeJobState(active[0])
+
+  const rows = (await sql`
+    INSERT INTO media_jobs (type, status, input)
+    VALUES (
+      ${ORGANIZE_JOB_TYPE},
+      'queued',
+      ${{
+        product_id: args.productId,
+        user_id: args.userId,
+        item_ids: args.itemIds && args.itemIds.length > 0 ? args.itemIds : undefined,
+      }}
+    )
+    RETURNING id, status, input, output, error_message, created_at, updated_at
+  `) as OrganizeJobRow[]
+  return toOrganizeJobState(rows[0])
+}
+
+/**
+ * Creates any categories the reviewed plan introduces (matching existing ones
+ * by name) and files the assigned items under them.
+ */
+export async function applyOrganizePlan(args: {
+  productId: string
+  userId: string
+  categories: OrganizeCategory[]
+  assignments: OrganizeAssignment[]
+}): Promise<{ created_categories: number; organized: number }> {
+  const existingRows = await sql`
+    SELECT id, name
+    FROM research_categories
+    WHERE product_id = ${args.productId}
+  `
+  const byName = new Map<string, string>(
+    existingRows.map((row) => [String(row.name).toLowerCase(), String(row.id)])
+  )
+
+  let createdCategories = 0
+  for (const cat of args.categories) {
+    const name = String(cat.name || '').trim()
+    if (!name) continue
+    const key = name.toLowerCase()
+    if (byName.has(key)) continue
+    const rows = await sql`
+      INSERT INTO research_categories (product_id, name, description, created_by)
+      VALUES (${args.productId}, ${name}, ${cat.description || null}, ${args.userId})
+      RETURNING id
+    `
+    byName.set(key, String(rows[0].id))
+    createdCategories += 1
+  }
+
+  let organized = 0
+  for (const assignment of args.assignments) {
+    const itemId = String(assignment.item_id || '').trim()
+    const name = String(assignment.category_name || '').trim()
+    if (!itemId || !name) continue
+    const categoryId = byName.get(name.toLowerCase())
+    if (!categoryId) continue
+    const rows = await sql`
+      UPDATE research_items
+      SET category_id = ${categoryId},
+          status = 'organized',
+          updated_at = NOW()
+      WHERE id = ${itemId}
+        AND product_id = ${args.productId}
+      RETURNING id
+    `
+    if (rows[0]) organized += 1
+  }
+
+  return { created_categories: createdCategories, organized }
+}
+
+export async function markOrganizeJobApplied(jobId: string) {
+  await sql`
+    UPDATE media_jobs
+    SET output = COALESCE(output, '{}'::jsonb) || ${{ applied_at: new Date().toISOString() }},
+        updated_at = NOW()
+    WHERE id = ${jobId}
+      AND type = ${ORGANIZE_JOB_TYPE}
+  `
+}
@@ -0,0 +1,242 @@
+import { sql } from '@/lib/db'
+import { getReviewQuotes } from '@/lib/review-import'
+
+// ============================================================================
+// RESEARCH PROVENANCE
+// Synthesized avatars and positionings cite the research items (and the
+// verbatim quote spans inside them) they were derived from. Citations travel
+// with the proposals and are stored in `research_provenance` once applied.
+// ============================================================================
+
+export type ProvenanceTargetType = 'avatar' | 'pitch'
+
+// One citation on a synthesis proposal. quote_start/quote_end are character
+// offsets into the item's content, set only when the quote was found there.
+export type EvidenceRef = {
+  item_id: string
+  quote?: string
+  quote_start?: number
+  quote_end?: number
+}
+
+export type EvidenceSourceItem = {
+  id: string
+  title?: string | null
+  summary?: string | null
+  content?: string | null
+  metadata?: unknown
+}
+
+export type ProvenanceItem = {
+  research_item_id: string
+  title: string | null
+  summary: string | null
+  type: string | null
+  quotes: Array<{ quote: string; quote_start: number | null; quote_end: number | null }>
+}
+
+const MAX_EVIDENCE_PER_PROPOSAL = 12
+const MAX_QUOTE_CHARS = 600
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Straight and curly quotes are interchangeable when matching
+function quoteTolerantPattern(token: string) {
+  return escapeRegExp(token)
+    .replace(/['\u2018\u2019]/g, "['\u2018\u2019]")
+    .replace(/["\u201C\u201D]/g, '["\u201C\u201D]')
+}
+
+/**
+ * Finds a quote inside text, ignoring case, whitespace runs and curly quotes.
+ * Returns the span in the original text so it can be highlighted later.
+ */
+export function locateQuote(text: string, quote: string): { start: number; end: number } | null {
+  const needle = quote.trim().replace(/^["\u201C]+|["\u201D]+$/g, '').trim()
+  if (needle.length < 8 || !text) return null
+
+  const exact = text.indexOf(needle)
+  if (exact >= 0) return { start: exact, end: exact + needle.length }
+
+  const tokens = needle.split(/\s+/).filter(Boolean)
+  if (tokens.length === 0) return null
+  const pattern = new RegExp(tokens.map(quoteTolerantPattern).join('\\s+'), 'i')
+  const match = pattern.exec(text)
+  return match ? { start: match.index, end: match.index + match[0].length } : null
+}
+
+function isVerbatimInItem(item: EvidenceSourceItem, quote: string) {
+  const haystacks = [
+    item.title,
+    item.summary,
+    ...getReviewQuotes(item.metadata).map((q) => q.quote),
+  ]
+  return haystacks.some((text) => Boolean(text) && locateQuote(String(text), quote) !== null)
+}
+
+/**
+ * Normalizes raw citations (from the model or a client round-trip) against
+ * the items synthesis actually saw. Items may be referenced by id or by their
+ * 1-based position in the prompt; unknown items are dropped, and quotes that
+ * are not verbatim in the cited item are dropped while the item ref is kept.
+ */
+export function resolveEvidence(raw: unknown, items: EvidenceSourceItem[]): EvidenceRef[] {
+  if (!Array.isArray(raw)) return []
+  const byId = new Map(items.map((item) => [String(item.id), item]))
+  const resolved: EvidenceRef[] = []
+  const seen = new Set<string>()
+
+  for (const entry of raw) {
+    const ref = (typeof entry === 'object' && entry !== null ? entry : { item_id: entry }) as {
+      item_id?: unknown
+      item?: unknown
+      id?: unknown
+      quote?: unknown
+    }
+    const rawId = String(ref.item_id ?? ref.item ?? ref.id ?? '').trim()
+    let item = byId.get(rawId)
+    if (!item && /^\d+$/.test(rawId)) item = items[Number(rawId) - 1]
+    if (!item) continue
+
+    const quote = String(ref.quote || '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, MAX_QUOTE_CHARS)
+    const evidence: EvidenceRef = { item_id: String(item.id) }
+    if (quote) {
+      const span = locateQuote(String(item.content || ''), quote)
+      if (span) {
+        evidence.quote = String(item.content).slice(span.start, span.end)
+        evidence.quote_start = span.start
+        evidence.quote_end = span.end
+      } else if (isVerbatimInItem(item, quote)) {
+        evidence.quote = quote
+      }
+    }
+
+    const key = `${evidence.item_id}:${evidence.quote_start ?? evidence.quote ?? ''}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    resolved.push(evidence)
+    if (resolved.length >= MAX_EVIDENCE_PER_PROPOSAL) break
+  }
+
+  return resolved
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Item ids cited anywhere in a proposals payload, so an apply request can load
+ * cited items that fall outside its default item window.
+ */
+export function collectEvidenceItemIds(proposals: unknown): string[] {
+  const ids = new Set<string>()
+  if (!proposals || typeof proposals !== 'object') return []
+  for (const list of Object.values(proposals as Record<string, unknown>)) {
+    if (!Array.isArray(list)) continue
+    for (const row of list) {
+      const evidence = (row as { evidence?: unknown } | null)?.evidence
+      if (!Array.isArray(evidence)) continue
+      for (const ref of evidence) {
+        const id = String((ref as { item_id?: unknown } | null)?.item_id || '').trim()
+        if (UUID_PATTERN.test(id)) ids.add(id)
+      }
+    }
+  }
+  return Array.from(ids)
+}
+
+export function countEvidenceItems(evidence: EvidenceRef[] | undefined) {
+  return new Set((evidence || []).map((ref) => ref.item_id)).size
+}
+
+export async function recordProvenance(args: {
+  productId: string
+  targetType: ProvenanceTargetType
+  targetId: string
+  evidence: EvidenceRef[]
+  userId: string | null
+  source?: string
+}) {
+  for (const ref of args.evidence) {
+    await sql`
+      INSERT INTO research_provenance (
+        product_id, target_type, target_id, research_item_id,
+        quote, quote_start, quote_end, source, created_by
+      )
+      SELECT
+        ${args.productId},
+        ${args.targetType},
+        ${args.targetId},
+        research_items.id,
+        ${ref.quote || null},
+        ${ref.quote_start ?? null},
+        ${ref.quote_end ?? null},
+        ${args.source || 'research_synthesis'},
+        ${args.userId}
+      FROM research_items
+      WHERE research_items.id = ${ref.item_id}
+        AND research_items.product_id = ${args.productId}
+    `
+  }
+}
+
+export async function deleteProvenance(targetType: ProvenanceTargetType, targetId: string) {
+  await sql`
+    DELETE FROM research_provenance
+    WHERE target_type = ${targetType}
+      AND target_id = ${targetId}
+  `
+}
+
+/**
+ * Research items an avatar/pitch was derived from, one entry per item with
+ * the quotes cited from it.
+ */
+export async function getProvenance(
+  targetType: ProvenanceTargetType,
+  targetId: string
+): Promise<ProvenanceItem[]> {
+  const rows = await sql`
+    SELECT
+      research_provenance.research_item_id,
+      research_provenance.quote,
+      research_provenance.quote_start,
+      research_provenance.quote_end,
+      research_items.title,
+      research_items.summary,
+      research_items.type
+    FROM research_provenance
+    JOIN research_items ON research_items.id = research_provenance.research_item_id
+    WHERE research_provenance.target_type = ${targetType}
+      AND research_provenance.target_id = ${targetId}
+    ORDER BY research_provenance.created_at ASC, research_provenance.quote_start ASC NULLS LAST
+  `
+
+  const items = new Map<string, ProvenanceItem>()
+  for (const row of rows) {
+    const id = String(row.research_item_id)
+    let item = items.get(id)
+    if (!item) {
+      item = {
+        research_item_id: id,
+        title: (row.title as string | null) ?? null,
+        summary: (row.summary as string | null) ?? null,
+        type: (row.type as string | null) ?? null,
+        quotes: [],
+      }
+      items.set(id, item)
+    }
+    if (row.quote) {
+      item.quotes.push({
+        quote: String(row.quote),
+        quote_start: row.quote_start === null ? null : Number(row.quote_start),
+        quote_end: row.quote_end === null ? null : Number(row.quote_end),
+      })
+    }
+  }
+  return Array.from(items.values())
+}
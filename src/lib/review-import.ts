@@ -0,0 +1,278 @@
+// ============================================================================
+// REVIEW IMPORT
+// Parses CSV/JSON review exports (Amazon, Trustpilot, Shopify...) into a
+// common shape so they can be clustered into research themes.
+// ============================================================================
+
+export const REVIEW_FIELDS = ['rating', 'title', 'body', 'date', 'source'] as const
+
+export type ReviewField = (typeof REVIEW_FIELDS)[number]
+export type ReviewColumnMapping = Partial<Record<ReviewField, string>>
+export type ReviewFileFormat = 'csv' | 'json'
+
+export type ImportedReview = {
+  rating: number | null
+  title: string
+  body: string
+  date: string | null
+  source: string | null
+}
+
+// Stored in research_items.metadata.quotes on imported review themes
+export type ReviewQuote = {
+  quote: string
+  rating: number | null
+  title?: string | null
+  date?: string | null
+  source?: string | null
+}
+
+type RawRow = Record<string, string>
+
+const MAPPING_HINTS: Record<ReviewField, { exact: RegExp; loose: RegExp }> = {
+  rating: {
+    exact: /^(rating|stars?|score|star[_ ]?rating|review[_ ]?rating|review[_ ]?score)$/i,
+    loose: /(rating|stars?|score)/i,
+  },
+  title: {
+    exact: /^(title|headline|subject|review[_ ]?title|review[_ ]?headline)$/i,
+    loose: /(title|headline|subject)/i,
+  },
+  body: {
+    exact: /^(body|review|text|content|comment|review[_ ]?(body|text|content))$/i,
+    loose: /(body|text|content|comment|review)/i,
+  },
+  date: {
+    exact: /^(date|review[_ ]?date|created[_ ]?at|published[_ ]?at|submitted[_ ]?at)$/i,
+    loose: /(date|created|published|submitted|time)/i,
+  },
+  source: {
+    exact: /^(source|platform|site|channel|store|marketplace)$/i,
+    loose: /(source|platform|site|channel|store)/i,
+  },
+}
+
+function detectDelimiter(headerLine: string) {
+  const counts = [',', ';', '\t'].map((d) => [d, headerLine.split(d).length - 1] as const)
+  counts.sort((a, b) => b[1] - a[1])
+  return counts[0][1] > 0 ? counts[0][0] : ','
+}
+
+/**
+ * RFC 4180 CSV: quoted fields, doubled quotes, CRLF and newlines inside quotes.
+ */
+export function parseCsv(text: string): { headers: string[]; rows: RawRow[] } {
+  const input = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(input.split(/\r?\n/, 1)[0] || '')
+  const records: string[][] = []
+  let field = ''
+  let record: string[] = []
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i += 1) {
+    const ch = input[i]
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i += 1
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += ch
+      }
+      continue
+    }
+    if (ch === '"' && field === '') {
+      inQuotes = true
+    } else if (ch === delimiter) {
+      record.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i += 1
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  const nonEmpty = records.filter((r) => r.some((value) => value.trim() !== ''))
+  const headers = (nonEmpty.shift() || []).map((h, idx) => h.trim() || `column_${idx + 1}`)
+  const rows = nonEmpty.map((values) => {
+    const row: RawRow = {}
+    headers.forEach((header, idx) => {
+      row[header] = (values[idx] ?? '').trim()
+    })
+    return row
+  })
+  return { headers, rows }
+}
+
+function flattenJsonRow(value: Record<string, unknown>): RawRow {
+  const row: RawRow = {}
+  for (const [key, raw] of Object.entries(value)) {
+    if (raw === null || raw === undefined) continue
+    if (typeof raw === 'object' && !Array.isArray(raw)) {
+      for (const [childKey, child] of Object.entries(raw as Record<string, unknown>)) {
+        if (child === null || typeof child === 'object') continue
+        row[`${key}.${childKey}`] = String(child).trim()
+      }
+    } else if (!Array.isArray(raw)) {
+      row[key] = String(raw).trim()
+    }
+  }
+  return row
+}
+
+function findJsonRows(value: unknown): Record<string, unknown>[] {
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    Boolean(v) && typeof v === 'object' && !Array.isArray(v)
+  if (Array.isArray(value)) return value.filter(isObject)
+  if (isObject(value)) {
+    // Exports often wrap the list, e.g. { reviews: [...] } or { data: [...] }
+    for (const child of Object.values(value)) {
+      if (Array.isArray(child) && child.some(isObject)) return child.filter(isObject)
+    }
+  }
+  return []
+}
+
+export function parseJsonReviews(text: string): { headers: string[]; rows: RawRow[] } {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text.replace(/^\uFEFF/, ''))
+  } catch {
+    // JSON Lines
+    parsed = text
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => {
+        try {
+          return JSON.parse(line)
+        } catch {
+          return null
+        }
+      })
+      .filter(Boolean)
+  }
+  const rows = findJsonRows(parsed).map(flattenJsonRow)
+  const headers = Array.from(new Set(rows.slice(0, 50).flatMap((row) => Object.keys(row))))
+  return { headers, rows }
+}
+
+export function detectReviewFormat(filename: string, text: string): ReviewFileFormat {
+  if (/\.(json|jsonl|ndjson)$/i.test(filename)) return 'json'
+  if (/\.(csv|tsv|txt)$/i.test(filename)) return 'csv'
+  const first = text.replace(/^\uFEFF/, '').trimStart()[0]
+  return first === '[' || first === '{' ? 'json' : 'csv'
+}
+
+export function parseReviewFile(text: string, format: ReviewFileFormat) {
+  return format === 'json' ? parseJsonReviews(text) : parseCsv(text)
+}
+
+export function suggestReviewMapping(headers: string[]): ReviewColumnMapping {
+  const mapping: ReviewColumnMapping = {}
+  const used = new Set<string>()
+  // body last so "review_title"/"review_rating" are claimed by their own fields first
+  const order: ReviewField[] = ['rating', 'title', 'date', 'source', 'body']
+  for (const field of order) {
+    const hints = MAPPING_HINTS[field]
+    const match =
+      headers.find((h) => !used.has(h) && hints.exact.test(h)) ||
+      headers.find((h) => !used.has(h) && hints.loose.test(h))
+    if (match) {
+      mapping[field] = match
+      used.add(match)
+    }
+  }
+  return mapping
+}
+
+export function parseRating(value: string | undefined): number | null {
+  const text = String(value || '').trim()
+  if (!text) return null
+  const stars = (text.match(/★/g) || []).length
+  if (stars > 0) return Math.min(5, stars)
+  const match = text.match(/(\d+(?:[.,]\d+)?)(?:\s*(?:\/|out of)\s*(\d+))?/i)
+  if (!match) return null
+  const raw = Number(match[1].replace(',', '.'))
+  const scale = match[2] ? Number(match[2]) : 5
+  if (!Number.isFinite(raw) || !scale) return null
+  const rating = scale === 5 ? raw : (raw / scale) * 5
+  if (rating < 0 || rating > 5) return null
+  return Math.round(rating * 10) / 10
+}
+
+function normalizeForMatch(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+export function mapReviewRows(
+  rows: RawRow[],
+  mapping: ReviewColumnMapping,
+  defaultSource: string | null = null
+): ImportedReview[] {
+  const seen = new Set<string>()
+  const reviews: ImportedReview[] = []
+  for (const row of rows) {
+    const body = mapping.body ? String(row[mapping.body] || '').trim() : ''
+    const title = mapping.title ? String(row[mapping.title] || '').trim() : ''
+    if (!body && !title) continue
+
+    // Exports frequently repeat rows across pages
+    const key = normalizeForMatch(`${title}\n${body}`)
+    if (seen.has(key)) continue
+    seen.add(key)
+
+    reviews.push({
+      rating: mapping.rating ? parseRating(row[mapping.rating]) : null,
+      title,
+      body,
+      date: mapping.date ? String(row[mapping.date] || '').trim() || null : null,
+      source: (mapping.source ? String(row[mapping.source] || '').trim() : '') || defaultSource,
+    })
+  }
+  return reviews
+}
+
+/**
+ * True when the quote appears word for word in the review (ignoring case,
+ * whitespace and curly quotes), so mined quotes stay verbatim.
+ */
+export function isVerbatimQuote(quote: string, review: ImportedReview) {
+  const needle = normalizeForMatch(quote)
+  if (needle.length < 8) return false
+  return normalizeForMatch(`${review.title}\n${review.body}`).includes(needle)
+}
+
+export function formatRating(rating: number | null | undefined) {
+  return typeof rating === 'number' ? `${rating}/5` : 'unrated'
+}
+
+export function formatReviewQuote(quote: ReviewQuote) {
+  const meta = [formatRating(quote.rating), quote.source, quote.date].filter(Boolean).join(', ')
+  return `"${quote.quote}" (${meta})`
+}
+
+export function getReviewQuotes(metadata: unknown): ReviewQuote[] {
+  const quotes = (metadata as { quotes?: unknown } | null)?.quotes
+  if (!Array.isArray(quotes)) return []
+  return quotes.filter(
+    (q): q is ReviewQuote => Boolean(q) && typeof (q as ReviewQuote).quote === 'string'
+  )
+}
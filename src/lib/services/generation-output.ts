@@ -0,0 +1,237 @@
+import { z } from 'zod'
+import type { CopyVariant } from '@/types/database'
+import type { FeatureType } from '@/lib/content-types'
+
+// ============================================================================
+// GENERATION OUTPUT SCHEMAS
+// One schema per output_format_* prompt block. Generation submits its result
+// through a tool whose input_schema is derived from these, and the result is
+// validated again here before anything is stored.
+// ============================================================================
+
+const text = z.string().trim().min(1)
+
+export const organicStaticOutputSchema = z.object({
+  concepts: z
+    .array(
+      z.object({
+        concept_name: text,
+        headline: text,
+        body: text,
+        cta: text,
+      })
+    )
+    .min(1),
+})
+
+export const ugcScriptsOutputSchema = z.object({
+  scripts: z
+    .array(
+      z.object({
+        script_name: text,
+        hook: text,
+        problem: text,
+        discovery: text,
+        results: text,
+        cta: text,
+        b_roll_notes: z.array(z.string()).default([]),
+        tone: z.string().default(''),
+      })
+    )
+    .min(1),
+})
+
+export const landingPageOutputSchema = z.object({
+  page_concepts: z
+    .array(
+      z.object({
+        concept_name: text,
+        hero: z.object({
+          headline: text,
+          subheadline: z.string().default(''),
+          cta_text: text,
+        }),
+        problem_section: text,
+        solution_section: text,
+        benefits: z.array(z.object({ title: text, description: z.string() })).default([]),
+        social_proof_ideas: z.array(z.string()).default([]),
+        faq: z.array(z.object({ question: text, answer: text })).default([]),
+        final_cta: z.object({
+          headline: text,
+          cta_text: text,
+        }),
+      })
+    )
+    .min(1),
+})
+
+export const advertorialOutputSchema = z.object({
+  advertorials: z
+    .array(
+      z.object({
+        concept_name: text,
+        headline: text,
+        lead: text,
+        story_problem: text,
+        research_discovery: text,
+        solution_intro: text,
+        proof_section: text,
+        cta: text,
+        pull_quotes: z.array(z.string()).default([]),
+      })
+    )
+    .min(1),
+})
+
+export type OrganicStaticOutput = z.infer<typeof organicStaticOutputSchema>
+export type UgcScriptsOutput = z.infer<typeof ugcScriptsOutputSchema>
+export type LandingPageOutput = z.infer<typeof landingPageOutputSchema>
+export type AdvertorialOutput = z.infer<typeof advertorialOutputSchema>
+
+/**
+ * Common shape every output format normalizes into. `headline/body/cta` keep
+ * the history view and older clients working; `details` holds the full item.
+ */
+export interface GeneratedConcept {
+  concept_name: string
+  headline: string
+  body: string
+  cta: string
+  details: Record<string, unknown>
+  copy_variants: CopyVariant[]
+}
+
+interface OutputFormat<T> {
+  schema: z.ZodType<T>
+  description: string
+  normalize: (output: T) => GeneratedConcept[]
+}
+
+function defineFormat<T>(format: OutputFormat<T>) {
+  return format
+}
+
+const OUTPUT_FORMATS = {
+  organic_static: defineFormat<OrganicStaticOutput>({
+    schema: organicStaticOutputSchema,
+    description: 'Static ad concepts',
+    normalize: (output) =>
+      output.concepts.map((concept) => ({
+        concept_name: concept.concept_name,
+        headline: concept.headline,
+        body: concept.body,
+        cta: concept.cta,
+        details: concept,
+        copy_variants: [{ headline: concept.headline, body: concept.body, cta: concept.cta }],
+      })),
+  }),
+  ugc_video_scripts: defineFormat<UgcScriptsOutput>({
+    schema: ugcScriptsOutputSchema,
+    description: 'UGC video scripts',
+    normalize: (output) =>
+      output.scripts.map((script) => {
+        const body = [script.problem, script.discovery, script.results].join('\n\n')
+        return {
+          concept_name: script.script_name,
+          headline: script.hook,
+          body,
+          cta: script.cta,
+          details: script,
+          copy_variants: [{ hook: script.hook, body, cta: script.cta }],
+        }
+      }),
+  }),
+  landing_page_copy: defineFormat<LandingPageOutput>({
+    schema: landingPageOutputSchema,
+    description: 'Landing page concepts',
+    normalize: (output) =>
+      output.page_concepts.map((page) => ({
+        concept_name: page.concept_name,
+        headline: page.hero.headline,
+        body: page.solution_section,
+        cta: page.hero.cta_text,
+        details: page,
+        copy_variants: [
+          { headline: page.hero.headline, body: page.problem_section, cta: page.hero.cta_text },
+          { headline: page.final_cta.headline, body: page.solution_section, cta: page.final_cta.cta_text },
+        ],
+      })),
+  }),
+  advertorial_copy: defineFormat<AdvertorialOutput>({
+    schema: advertorialOutputSchema,
+    description: 'Advertorials',
+    normalize: (output) =>
+      output.advertorials.map((article) => ({
+        concept_name: article.concept_name,
+        headline: article.headline,
+        body: article.lead,
+        cta: article.cta,
+        details: article,
+        copy_variants: [{ headline: article.headline, body: article.lead, cta: article.cta }],
+      })),
+  }),
+} satisfies Record<FeatureType, unknown>
+
+export type GenerationContentType = FeatureType
+
+export const SUBMIT_GENERATION_TOOL = 'submit_generation'
+
+export function resolveGenerationContentType(contentType?: string | null): GenerationContentType {
+  return contentType && contentType in OUTPUT_FORMATS
+    ? (contentType as GenerationContentType)
+    : 'organic_static'
+}
+
+function getFormat(contentType: GenerationContentType) {
+  return OUTPUT_FORMATS[contentType] as OutputFormat<unknown>
+}
+
+/**
+ * Anthropic tool definition whose input_schema mirrors the zod schema.
+ */
+export function getGenerationTool(contentType: GenerationContentType) {
+  const format = getFormat(contentType)
+  const inputSchema = z.toJSONSchema(format.schema, { io: 'input' }) as Record<string, unknown>
+  delete inputSchema.$schema
+  return {
+    name: SUBMIT_GENERATION_TOOL,
+    description: `Submit the generated ${format.description.toLowerCase()}. Follow the OUTPUT FORMAT section exactly.`,
+    input_schema: inputSchema as { type: 'object'; [key: string]: unknown },
+  }
+}
+
+export type GenerationValidation =
+  | { success: true; output: unknown; concepts: GeneratedConcept[] }
+  | { success: false; issues: string[] }
+
+export function validateGenerationOutput(
+  contentType: GenerationContentType,
+  value: unknown
+): GenerationValidation {
+  const format = getFormat(contentType)
+  const parsed = format.schema.safeParse(value)
+  if (!parsed.success) {
+    return {
+      success: false,
+      issues: parsed.error.issues.slice(0, 12).map((issue) => {
+        const path = issue.path.map(String).join('.')
+        return path ? `${path}: ${issue.message}` : issue.message
+      }),
+    }
+  }
+  return { success: true, output: parsed.data, concepts: format.normalize(parsed.data) }
+}
+
+/**
+ * Fallback for replies that skipped the tool and answered in prose.
+ */
+export function extractJsonFromText(value: string): unknown {
+  const match =
+    value.match(/```json\s*([\s\S]*?)\s*```/) || value.match(/```\s*([\s\S]*?)\s*```/)
+  const candidate = (match?.[1] || value).trim()
+  try {
+    return JSON.parse(candidate)
+  } catch {
+    return null
+  }
+}
@@ -1,5 +1,6 @@
 import { sql } from '@/lib/db'
 import { DEFAULT_PROMPT_BLOCKS } from '@/lib/prompt-defaults'
+import { loadPromptBlocks, type PromptBlockRow } from '@/lib/agent/compiled-context'
 
 // Re-export for backwards compatibility
 export { DEFAULT_PROMPT_BLOCKS }
@@ -12,6 +13,7 @@ export { DEFAULT_PROMPT_BLOCKS }
 
 interface AssemblyContext {
   productId: string
+  userId?: string // Enables user-scoped prompt block overrides
   avatarIds: string[]
   pitchId?: string
   contentType?: string
@@ -52,38 +54,15 @@ interface Product {
   }
 }
 
-interface PromptBlock {
-  id: string
-  name: string
-  type: string
-  scope: string
-  content: string
-  is_active: boolean
-  metadata?: { key?: string }
-}
-
+// The exported `promptAssembler` is shared by concurrent requests, so the
+// per-request prompt blocks are passed down rather than kept on the instance.
 export class PromptAssembler {
-  private promptBlocks: Map<string, PromptBlock> = new Map()
-
   async assemble(context: AssemblyContext): Promise<AssembledPrompt> {
-    // Fetch all active prompt blocks
-    const blocks = await sql`
-      SELECT *
-      FROM prompt_blocks
-      WHERE is_active = true
-        AND scope = 'global'
-      ORDER BY updated_at ASC, created_at ASC
-    ` as PromptBlock[]
-
-    // Store blocks by metadata.key for easy lookup
-    this.promptBlocks.clear()
-    if (blocks) {
-      blocks.forEach(block => {
-        // Use metadata.key if available, otherwise use type
-        const key = (block.metadata as { key?: string })?.key || block.type
-        this.promptBlocks.set(key, block)
-      })
-    }
+    // Resolve prompt blocks: user override > product > brand > global
+    const promptBlocks = await loadPromptBlocks({
+      userId: context.userId,
+      productId: context.productId,
+    })
 
     // Fetch product with brand
     const productRows = await sql`
@@ -147,6 +126,7 @@ export class PromptAssembler {
     const numConcepts = context.numConcepts || 3
 
     const systemPrompt = this.buildSystemPrompt(
+      promptBlocks,
       product as Product,
       avatars as Avatar[],
       zoomBehavior,
@@ -169,13 +149,17 @@ export class PromptAssembler {
     }
   }
 
-  private getBlock(type: string, overrides?: Record<string, string>): string {
+  private getBlock(
+    promptBlocks: Map<string, PromptBlockRow>,
+    type: string,
+    overrides?: Record<string, string>
+  ): string {
     // Check for override first (one-off changes)
     if (overrides && overrides[type]) {
       return overrides[type]
     }
     // Then check database blocks
-    const block = this.promptBlocks.get(type)
+    const block = promptBlocks.get(type)
     if (block) {
       return block.content
     }
@@ -185,6 +169,7 @@ export class PromptAssembler {
   }
 
   private buildSystemPrompt(
+    promptBlocks: Map<string, PromptBlockRow>,
     product: Product,
     avatars: Avatar[],
     zoomBehavior: 'intersection' | 'deep_dive',
@@ -196,23 +181,23 @@ export class PromptAssembler {
 
     // === LAYER 1: CONTENT TYPE RULES ===
     // Fetch content type template from database (via getBlock which falls back to defaults)
-    const contentTypeBlock = this.getBlock(contentType, overrides)
+    const contentTypeBlock = this.getBlock(promptBlocks, contentType, overrides)
     if (contentTypeBlock) {
       sections.push(contentTypeBlock)
     } else {
       // Fall back to organic_static if content type not found
-      sections.push(this.getBlock('organic_static', overrides))
+      sections.push(this.getBlock(promptBlocks, 'organic_static', overrides))
     }
 
     // === LAYER 2: OUTPUT FORMAT (content-type specific) ===
     const outputFormatKey = `output_format_${contentType}`
-    const outputFormat = this.getBlock(outputFormatKey, overrides)
+    const outputFormat = this.getBlock(promptBlocks, outputFormatKey, overrides)
     if (outputFormat) {
       sections.push(outputFormat)
     }
 
     // === LAYER 3: WRITING RULES ===
-    sections.push(this.getBlock('writing_rules', overrides))
+    sections.push(this.getBlock(promptBlocks, 'writing_rules', overrides))
 
     // === LAYER 4: PRODUCT CONTEXT ===
     sections.push(this.formatProductContext(product))
@@ -237,11 +222,11 @@ ${product.brands.voice_guidelines}`)
 
     // === LAYER 8: ZOOM BEHAVIOR INSTRUCTION ===
     if (zoomBehavior === 'intersection') {
-      let zoomContent = this.getBlock('zoom_broad', overrides)
+      let zoomContent = this.getBlock(promptBlocks, 'zoom_broad', overrides)
       zoomContent = zoomContent.replace('{{count}}', String(avatars.length))
       sections.push(zoomContent)
     } else {
-      sections.push(this.getBlock('zoom_deep', overrides))
+      sections.push(this.getBlock(promptBlocks, 'zoom_deep', overrides))
     }
 
     return sections.join('\n\n---\n')
@@ -0,0 +1,43 @@
+// ============================================================================
+// SWIPE SHOT LISTS
+// The media worker stores Whisper segments and one shot per detected scene
+// (keyframe in R2 + the spoken line) on video swipes. These helpers format
+// them for the detail page and the agent.
+// ============================================================================
+
+export type TranscriptSegment = {
+  start: number
+  end: number
+  text: string
+}
+
+export type SwipeShot = {
+  index: number
+  start: number
+  end: number
+  frame_key: string | null
+  text: string
+}
+
+export function formatTimestamp(seconds: number) {
+  const total = Math.max(0, Math.floor(Number(seconds) || 0))
+  const minutes = Math.floor(total / 60)
+  return `${minutes}:${String(total % 60).padStart(2, '0')}`
+}
+
+export function getSwipeShots(value: unknown): SwipeShot[] {
+  return Array.isArray(value) ? (value as SwipeShot[]) : []
+}
+
+/**
+ * One line per shot, e.g. "Shot 3 [0:07-0:11]: \"spoken line\"". Shots with
+ * no speech are kept so the structure of the ad stays visible.
+ */
+export function formatShotList(shots: SwipeShot[]) {
+  return shots
+    .map((shot) => {
+      const line = shot.text ? `"${shot.text}"` : '(no dialogue)'
+      return `Shot ${shot.index + 1} [${formatTimestamp(shot.start)}-${formatTimestamp(shot.end)}]: ${line}`
+    })
+    .join('\n')
+}
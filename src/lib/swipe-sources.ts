@@ -0,0 +1,47 @@
+import * as shared from '../../services/media-worker/src/swipe-sources.js'
+
+// Typed view over the classifier shared with the media worker.
+
+export type SwipeUrlSource =
+  | 'meta_ad_library'
+  | 'facebook_reel'
+  | 'facebook_post'
+  | 'tiktok_ad'
+  | 'tiktok_video'
+  | 'youtube_short'
+
+export type SwipeUrlInfo =
+  | { supported: true; source: SwipeUrlSource }
+  | { supported: false; source: '' }
+
+export const SWIPE_URL_SOURCES = shared.SWIPE_SOURCES as SwipeUrlSource[]
+
+export const SUPPORTED_SWIPE_URLS_LABEL: string = shared.SUPPORTED_SWIPE_URLS_LABEL
+
+export function classifySwipeUrl(url: string): SwipeUrlInfo {
+  return shared.classifySwipeUrl(url) as SwipeUrlInfo
+}
+
+export function isSupportedSwipeUrl(url: string): boolean {
+  return shared.isSupportedSwipeUrl(url)
+}
+
+export function extractSwipeUrls(text: string): string[] {
+  return shared.extractSwipeUrls(text)
+}
+
+// Uploaded swipes skip scraping and go straight to transcription/summarization.
+export const SWIPE_UPLOAD_MAX_MB = 250
+
+export function isSwipeUploadMime(mime: string) {
+  return mime.startsWith('video/') || mime.startsWith('image/')
+}
+
+export function isDirectMediaUrl(url: string) {
+  try {
+    const u = new URL(url)
+    return /\.(mp4|mov|m4v|webm|png|jpe?g|gif|webp)$/i.test(u.pathname)
+  } catch {
+    return false
+  }
+}
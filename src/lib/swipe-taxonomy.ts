@@ -0,0 +1,50 @@
+import * as shared from '../../services/media-worker/src/swipe-taxonomy.js'
+
+// Typed view over the swipe tag taxonomy shared with the media worker.
+
+export type SwipeTagKey =
+  | 'hook_type'
+  | 'angle'
+  | 'format'
+  | 'awareness_level'
+  | 'sophistication_stage'
+  | 'emotional_driver'
+  | 'cta_style'
+
+export type SwipeTags = Partial<Record<SwipeTagKey, string>>
+
+export type SwipeTagDimension = {
+  key: SwipeTagKey
+  label: string
+  description: string
+  options: Array<{ value: string; label: string }> | null
+}
+
+export const SWIPE_TAG_DIMENSIONS = shared.SWIPE_TAG_DIMENSIONS as SwipeTagDimension[]
+
+export const SWIPE_TAG_KEYS = shared.SWIPE_TAG_KEYS as SwipeTagKey[]
+
+export function normalizeSwipeTags(raw: unknown): SwipeTags {
+  return shared.normalizeSwipeTags(raw) as SwipeTags
+}
+
+export function swipeTagLabel(key: string, value: string): string {
+  return shared.swipeTagLabel(key, value)
+}
+
+export function describeSwipeTaxonomy(): string {
+  return shared.describeSwipeTaxonomy()
+}
+
+/**
+ * Tag filters from query params (?format=talking_head&hook_type=question),
+ * normalized to the stored shape for a `tags @> filter` lookup.
+ */
+export function swipeTagFiltersFromParams(params: URLSearchParams): SwipeTags {
+  const raw: Record<string, string> = {}
+  for (const key of SWIPE_TAG_KEYS) {
+    const value = params.get(key)
+    if (value) raw[key] = value
+  }
+  return normalizeSwipeTags(raw)
+}
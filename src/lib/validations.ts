@@ -1,4 +1,6 @@
 import { z } from 'zod'
+import { FEATURE_TYPES } from '@/lib/content-types'
+import { agentSupportsModel, isKnownModel, LLM_AGENT_IDS, type LlmAgentId } from '@/lib/model-registry'
 
 // ============================================================================
 // ORGANIZATION SCHEMAS
@@ -60,6 +62,25 @@ export const updateAvatarSchema = z.object({
   is_active: z.boolean().optional(),
 })
 
+// ============================================================================
+// PITCH SCHEMAS (Positionings)
+// ============================================================================
+
+export const createPitchSchema = z.object({
+  product_id: z.string().uuid(),
+  name: z.string().min(1).max(100),
+  content: z.string().min(1),
+  type: z.string().optional(),
+  is_active: z.boolean().optional(),
+})
+
+export const updatePitchSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  content: z.string().min(1).optional(),
+  type: z.string().optional(),
+  is_active: z.boolean().optional(),
+})
+
 // ============================================================================
 // PROMPT BLOCK SCHEMAS
 // ============================================================================
@@ -103,13 +124,7 @@ export const updatePromptBlockSchema = z.object({
 // GENERATION RUN SCHEMAS
 // ============================================================================
 
-export const featureTypeEnum = z.enum([
-  'static_organic_ads',
-  'scripts',
-  'landing_pages',
-  'email_sequences',
-  'social_posts',
-])
+export const featureTypeEnum = z.enum(FEATURE_TYPES)
 
 export const generationConfigSchema = z.object({
   avatar_ids: z.array(z.string().uuid()).min(1, 'At least one avatar is required'),
@@ -142,6 +157,74 @@ export const createAssetSchema = z.object({
   metadata: z.record(z.string(), z.unknown()).optional(),
 })
 
+// ============================================================================
+// COMPETITOR WATCHLIST SCHEMAS
+// ============================================================================
+
+export const watchlistKindEnum = z.enum(['page', 'search'])
+
+const watchlistFields = {
+  name: z.string().min(1, 'Name is required').max(100),
+  // Ad Library country code, or ALL
+  country: z.string().regex(/^[A-Za-z]{2,3}$/, 'Country must be a 2-letter code or ALL').optional(),
+  poll_interval_hours: z.number().int().min(1).max(720).optional(),
+  is_active: z.boolean().optional(),
+}
+
+export const createWatchlistSchema = z
+  .object({
+    product_id: z.string().uuid(),
+    kind: watchlistKindEnum,
+    // Page id or an Ad Library URL carrying view_all_page_id
+    page_id: z.string().max(500).optional(),
+    search_terms: z.string().max(200).optional(),
+    ...watchlistFields,
+  })
+  .refine((value) => (value.kind === 'page' ? Boolean(value.page_id?.trim()) : Boolean(value.search_terms?.trim())), {
+    message: 'page watchlists need page_id, search watchlists need search_terms',
+  })
+
+export const updateWatchlistSchema = z.object({
+  name: watchlistFields.name.optional(),
+  search_terms: z.string().min(1).max(200).optional(),
+  country: watchlistFields.country,
+  poll_interval_hours: watchlistFields.poll_interval_hours,
+  is_active: watchlistFields.is_active,
+})
+
+// ============================================================================
+// LLM BUDGET SCHEMAS
+// ============================================================================
+
+export const llmBudgetSchema = z.object({
+  organization_id: z.string().uuid(),
+  // null removes the budget; usage is still metered
+  monthly_budget_usd: z.number().positive().max(1_000_000).nullable(),
+  warn_at_percent: z.number().int().min(1).max(100).optional(),
+  hard_stop: z.boolean().optional(),
+})
+
+// ============================================================================
+// MODEL SETTINGS SCHEMAS
+// ============================================================================
+
+const modelIdSchema = z.string().refine(isKnownModel, { message: 'Unknown model' })
+
+export const modelSettingsSchema = z.object({
+  organization_id: z.string().uuid(),
+  default_model: modelIdSchema.nullable(),
+  agent_models: z
+    .record(z.string(), modelIdSchema)
+    .refine((value) => Object.keys(value).every((key) => LLM_AGENT_IDS.includes(key as LlmAgentId)), {
+      message: 'Unknown agent',
+    })
+    .refine(
+      (value) => Object.entries(value).every(([key, model]) => agentSupportsModel(key as LlmAgentId, model)),
+      { message: 'Model provider not supported by this agent' }
+    ),
+  skill_models: z.record(z.string().min(1).max(100), modelIdSchema),
+})
+
 // ============================================================================
 // TYPE EXPORTS
 // ============================================================================
@@ -154,11 +237,17 @@ export type CreateProduct = z.infer<typeof createProductSchema>
 export type UpdateProduct = z.infer<typeof updateProductSchema>
 export type CreateAvatar = z.infer<typeof createAvatarSchema>
 export type UpdateAvatar = z.infer<typeof updateAvatarSchema>
+export type CreatePitch = z.infer<typeof createPitchSchema>
+export type UpdatePitch = z.infer<typeof updatePitchSchema>
 export type CreatePromptBlock = z.infer<typeof createPromptBlockSchema>
 export type UpdatePromptBlock = z.infer<typeof updatePromptBlockSchema>
 export type CreateGenerationRun = z.infer<typeof createGenerationRunSchema>
 export type GenerationConfig = z.infer<typeof generationConfigSchema>
 export type CreateAsset = z.infer<typeof createAssetSchema>
+export type CreateWatchlist = z.infer<typeof createWatchlistSchema>
+export type UpdateWatchlist = z.infer<typeof updateWatchlistSchema>
+export type LlmBudgetInput = z.infer<typeof llmBudgetSchema>
+export type ModelSettingsInput = z.infer<typeof modelSettingsSchema>
 
 // ============================================================================
 // USER MANAGEMENT SCHEMAS
@@ -0,0 +1,93 @@
+// ============================================================================
+// WORD DIFF
+// Word-level diff for the canvas revision history. Whitespace runs are kept as
+// their own tokens so the output re-joins to the exact original texts.
+// ============================================================================
+
+export type WordDiffPart = { type: 'equal' | 'insert' | 'delete'; text: string }
+
+// LCS table size guard; larger diffs fall back to a whole-block replace
+const MAX_DIFF_CELLS = 4_000_000
+
+function tokenize(text: string) {
+  return text.split(/(\s+)/).filter((token) => token.length > 0)
+}
+
+function pushPart(parts: WordDiffPart[], type: WordDiffPart['type'], text: string) {
+  if (!text) return
+  const last = parts[parts.length - 1]
+  if (last && last.type === type) last.text += text
+  else parts.push({ type, text })
+}
+
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  const a = tokenize(before)
+  const b = tokenize(after)
+
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix += 1
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1
+  }
+
+  const parts: WordDiffPart[] = []
+  pushPart(parts, 'equal', a.slice(0, prefix).join(''))
+
+  const midA = a.slice(prefix, a.length - suffix)
+  const midB = b.slice(prefix, b.length - suffix)
+  const n = midA.length
+  const m = midB.length
+
+  if (n * m > MAX_DIFF_CELLS) {
+    pushPart(parts, 'delete', midA.join(''))
+    pushPart(parts, 'insert', midB.join(''))
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const width = m + 1
+    const lcs = new Uint32Array((n + 1) * width)
+    for (let i = n - 1; i >= 0; i -= 1) {
+      for (let j = m - 1; j >= 0; j -= 1) {
+        lcs[i * width + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+      }
+    }
+    let i = 0
+    let j = 0
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        pushPart(parts, 'equal', midA[i])
+        i += 1
+        j += 1
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        pushPart(parts, 'delete', midA[i])
+        i += 1
+      } else {
+        pushPart(parts, 'insert', midB[j])
+        j += 1
+      }
+    }
+    pushPart(parts, 'delete', midA.slice(i).join(''))
+    pushPart(parts, 'insert', midB.slice(j).join(''))
+  }
+
+  pushPart(parts, 'equal', a.slice(a.length - suffix).join(''))
+  return parts
+}
+
+export function countWordChanges(parts: WordDiffPart[]) {
+  let added = 0
+  let removed = 0
+  for (const part of parts) {
+    const words = part.text.split(/\s+/).filter(Boolean).length
+    if (part.type === 'insert') added += words
+    if (part.type === 'delete') removed += words
+  }
+  return { added, removed }
+}
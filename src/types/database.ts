@@ -1,3 +1,5 @@
+import type { FeatureType } from '@/lib/content-types'
+
 export type Json =
   | string
   | number
@@ -50,11 +52,7 @@ export type PromptBlockScope =
 // GENERATION RUN TYPES
 // ============================================================================
 
-export type FeatureType =
-  | 'organic_static'
-  | 'ugc_video_scripts'
-  | 'landing_page_copy'
-  | 'advertorial_copy'
+export type { FeatureType }
 
 export type GenerationStatus =
   | 'pending'
@@ -92,6 +90,17 @@ export interface ConceptCardData {
   copy_variants: CopyVariant[]
 }
 
+// concept_card rows written by /api/generate (validated against output_format_*)
+export interface ConceptCardContent {
+  content_type: string
+  concept_name: string
+  headline: string
+  body: string
+  cta: string
+  // Full validated item for the content type (script beats, page sections, ...)
+  details: Record<string, unknown>
+}
+
 export interface CopyVariant {
   headline?: string
   body: string
@@ -0,0 +1,31 @@
+-- ============================================================================
+-- Migration: Agent proposals (avatar / positioning writes awaiting confirmation)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS agent_proposals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    thread_id UUID NOT NULL REFERENCES agent_threads(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL, -- avatar | pitch
+    action TEXT NOT NULL, -- create | update
+    target_id UUID,
+    payload JSONB NOT NULL DEFAULT '{}',
+    rationale TEXT,
+    status TEXT NOT NULL DEFAULT 'pending', -- pending | confirmed | rejected
+    result_id UUID,
+    resolved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_proposals_thread_status ON agent_proposals(thread_id, status);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'update_agent_proposals_updated_at') THEN
+    CREATE TRIGGER update_agent_proposals_updated_at
+      BEFORE UPDATE ON agent_proposals
+      FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
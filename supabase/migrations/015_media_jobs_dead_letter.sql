@@ -0,0 +1,13 @@
+-- ============================================================================
+-- Migration: media_jobs retry/dead-letter support
+-- ============================================================================
+-- status: queued | running | completed | failed | dead
+--   failed = superseded by a manual retry
+--   dead   = exhausted its per-type max attempts; only a manual requeue revives it
+
+COMMENT ON COLUMN media_jobs.status IS 'queued | running | completed | failed | dead';
+
+-- Stale-lock reaper scans running jobs by lock age
+CREATE INDEX IF NOT EXISTS idx_media_jobs_running_locked_at
+  ON media_jobs(locked_at)
+  WHERE status = 'running';
@@ -0,0 +1,5 @@
+-- ============================================================================
+-- Migration: admin-cancelled media jobs
+-- ============================================================================
+
+COMMENT ON COLUMN media_jobs.status IS 'queued | running | completed | failed | dead | cancelled';
@@ -0,0 +1,32 @@
+-- ============================================================================
+-- Migration: align generation_runs.feature_type with the app's content types
+-- ============================================================================
+-- The original enum (static_organic_ads, scripts, ...) never matched the ids
+-- used by the UI and prompt blocks. Rebuild it with those ids and map existing
+-- rows, preferring config->>'content_type' when it was recorded.
+
+ALTER TYPE feature_type RENAME TO feature_type_legacy;
+
+CREATE TYPE feature_type AS ENUM (
+    'organic_static',
+    'ugc_video_scripts',
+    'landing_page_copy',
+    'advertorial_copy'
+);
+
+ALTER TABLE generation_runs
+  ALTER COLUMN feature_type TYPE feature_type
+  USING (
+    CASE
+      WHEN config->>'content_type' IN ('organic_static', 'ugc_video_scripts', 'landing_page_copy', 'advertorial_copy')
+        THEN config->>'content_type'
+      WHEN feature_type::text = 'scripts' THEN 'ugc_video_scripts'
+      WHEN feature_type::text = 'landing_pages' THEN 'landing_page_copy'
+      ELSE 'organic_static'
+    END
+  )::feature_type;
+
+DROP TYPE feature_type_legacy;
+
+COMMENT ON COLUMN generation_runs.status IS
+  'pending (created) -> running (model call in flight) -> completed | failed (error_message set)';
@@ -0,0 +1,28 @@
+-- ============================================================================
+-- Migration: embeddings for semantic search
+-- ============================================================================
+-- One vector per (subject, provider, model). Dimensions differ by provider
+-- (OpenAI vs the local hashing provider), so the column is untyped and every
+-- query filters on provider + model. content_hash lets search re-embed only
+-- rows whose text changed.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS embeddings (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  subject_type text NOT NULL,
+  subject_id uuid NOT NULL,
+  provider text NOT NULL,
+  model text NOT NULL,
+  dims integer NOT NULL,
+  content_hash text NOT NULL,
+  embedding vector NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT embeddings_subject_type_check CHECK (subject_type IN ('research_item', 'swipe', 'avatar')),
+  CONSTRAINT embeddings_subject_model_key UNIQUE (subject_type, subject_id, provider, model)
+);
+
+CREATE INDEX IF NOT EXISTS embeddings_product_model_idx
+  ON embeddings (product_id, provider, model, subject_type);
@@ -0,0 +1,27 @@
+-- ============================================================================
+-- Migration: research provenance for synthesized avatars and positionings
+-- ============================================================================
+-- Records which research items (and which quote spans inside them) an applied
+-- avatar or pitch was synthesized from. target_id is polymorphic, so rows are
+-- removed by the avatar/pitch delete routes rather than a foreign key.
+
+CREATE TABLE IF NOT EXISTS research_provenance (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  target_type text NOT NULL,
+  target_id uuid NOT NULL,
+  research_item_id uuid NOT NULL REFERENCES research_items(id) ON DELETE CASCADE,
+  quote text,
+  quote_start integer,
+  quote_end integer,
+  source text NOT NULL DEFAULT 'research_synthesis',
+  created_by uuid REFERENCES app_users(id),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT research_provenance_target_type_check CHECK (target_type IN ('avatar', 'pitch'))
+);
+
+CREATE INDEX IF NOT EXISTS research_provenance_target_idx
+  ON research_provenance (target_type, target_id);
+
+CREATE INDEX IF NOT EXISTS research_provenance_item_idx
+  ON research_provenance (research_item_id);
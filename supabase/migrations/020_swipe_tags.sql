@@ -0,0 +1,11 @@
+-- ============================================================================
+-- Migration: structured swipe tags
+-- ============================================================================
+-- The swipe summarizer tags each swipe along a fixed taxonomy (hook type,
+-- angle, format, awareness level, sophistication stage, emotional driver, CTA
+-- style), defined in services/media-worker/src/swipe-taxonomy.js. Tags are a
+-- flat { dimension: value } object so filters are a single containment check.
+
+ALTER TABLE swipes ADD COLUMN IF NOT EXISTS tags JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_swipes_tags ON swipes USING GIN (tags jsonb_path_ops);
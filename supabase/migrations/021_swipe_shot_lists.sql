@@ -0,0 +1,11 @@
+-- ============================================================================
+-- Migration: timestamped transcripts and shot lists for video swipes
+-- ============================================================================
+-- transcript_segments: Whisper segments, [{ start, end, text }] in seconds.
+-- shots: one entry per detected scene, [{ index, start, end, frame_key, text }],
+-- where frame_key is the scene's keyframe in R2 and text is the spoken line(s)
+-- whose segments fall inside the scene. Both stay NULL for image swipes and
+-- videos ingested before this migration.
+
+ALTER TABLE swipes ADD COLUMN IF NOT EXISTS transcript_segments JSONB;
+ALTER TABLE swipes ADD COLUMN IF NOT EXISTS shots JSONB;
@@ -0,0 +1,76 @@
+-- ============================================================================
+-- Migration: competitor advertiser watchlists
+-- ============================================================================
+-- A watchlist is a competitor advertiser (Ad Library page id) or keyword
+-- search tracked for a product. The media worker polls due watchlists, records
+-- each run, and tracks every discovered ad with first/last seen timestamps so
+-- long-running (likely winning) ads stand out. New ads become swipes through
+-- the regular ingest_meta_ad pipeline.
+
+CREATE TABLE IF NOT EXISTS competitor_watchlists (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  kind text NOT NULL,
+  page_id text,
+  search_terms text,
+  country text NOT NULL DEFAULT 'ALL',
+  poll_interval_hours integer NOT NULL DEFAULT 24,
+  is_active boolean NOT NULL DEFAULT true,
+  next_poll_at timestamptz NOT NULL DEFAULT now(),
+  last_polled_at timestamptz,
+  last_error text,
+  created_by uuid REFERENCES app_users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT competitor_watchlists_kind_check CHECK (kind IN ('page', 'search')),
+  CONSTRAINT competitor_watchlists_target_check CHECK (
+    (kind = 'page' AND page_id IS NOT NULL) OR (kind = 'search' AND search_terms IS NOT NULL)
+  ),
+  CONSTRAINT competitor_watchlists_interval_check CHECK (poll_interval_hours BETWEEN 1 AND 720)
+);
+
+CREATE INDEX IF NOT EXISTS competitor_watchlists_product_idx
+  ON competitor_watchlists (product_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS competitor_watchlists_due_idx
+  ON competitor_watchlists (next_poll_at)
+  WHERE is_active = true;
+
+CREATE TABLE IF NOT EXISTS competitor_watch_runs (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  watchlist_id uuid NOT NULL REFERENCES competitor_watchlists(id) ON DELETE CASCADE,
+  job_id uuid REFERENCES media_jobs(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'running',
+  ads_seen integer NOT NULL DEFAULT 0,
+  new_ads integer NOT NULL DEFAULT 0,
+  ads_stopped integer NOT NULL DEFAULT 0,
+  error_message text,
+  started_at timestamptz DEFAULT now(),
+  finished_at timestamptz,
+  CONSTRAINT competitor_watch_runs_status_check CHECK (status IN ('running', 'completed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS competitor_watch_runs_watchlist_idx
+  ON competitor_watch_runs (watchlist_id, started_at DESC);
+
+-- One row per ad per watchlist. is_active flips off when a run no longer
+-- finds the ad; last_seen_at - first_seen_at is how long it has been running.
+CREATE TABLE IF NOT EXISTS competitor_ads (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  watchlist_id uuid NOT NULL REFERENCES competitor_watchlists(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  ad_archive_id text NOT NULL,
+  source_url text NOT NULL,
+  started_running_on date,
+  swipe_id uuid REFERENCES swipes(id) ON DELETE SET NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  first_seen_at timestamptz NOT NULL DEFAULT now(),
+  last_seen_at timestamptz NOT NULL DEFAULT now(),
+  first_seen_run_id uuid REFERENCES competitor_watch_runs(id) ON DELETE SET NULL,
+  last_seen_run_id uuid REFERENCES competitor_watch_runs(id) ON DELETE SET NULL,
+  CONSTRAINT competitor_ads_watchlist_ad_key UNIQUE (watchlist_id, ad_archive_id)
+);
+
+CREATE INDEX IF NOT EXISTS competitor_ads_watchlist_seen_idx
+  ON competitor_ads (watchlist_id, is_active, first_seen_at);
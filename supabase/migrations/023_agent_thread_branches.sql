@@ -0,0 +1,14 @@
+-- ============================================================================
+-- Migration: agent thread branches
+-- ============================================================================
+-- A branch is a new thread forked from a message in another thread: it gets a
+-- copy of the parent's context and of the messages up to that point, plus the
+-- canvas draft as it stood then. The parent link lets the library show threads
+-- as a tree. Deleting a parent keeps its branches (they become roots).
+
+ALTER TABLE agent_threads
+  ADD COLUMN IF NOT EXISTS parent_thread_id UUID REFERENCES agent_threads(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS branched_from_message_id UUID REFERENCES agent_messages(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_agent_threads_parent ON agent_threads(parent_thread_id)
+  WHERE parent_thread_id IS NOT NULL;
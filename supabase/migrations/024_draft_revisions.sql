@@ -0,0 +1,23 @@
+-- ============================================================================
+-- Migration: canvas draft revisions
+-- ============================================================================
+-- agent_threads.draft_content only holds the latest canvas. Every save that
+-- changes a version tab also records a revision here: who made it (user edit,
+-- AI draft, inline edit, restore), which tab it touched and when. Consecutive
+-- typing by the same user is folded into one revision (see updated_at).
+
+CREATE TABLE IF NOT EXISTS draft_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    thread_id UUID NOT NULL REFERENCES agent_threads(id) ON DELETE CASCADE,
+    tab_index INTEGER NOT NULL DEFAULT 0,
+    content TEXT NOT NULL DEFAULT '',
+    source TEXT NOT NULL,
+    created_by UUID REFERENCES app_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT draft_revisions_source_check CHECK (source IN ('user_edit', 'ai_draft', 'inline_edit', 'restore')),
+    CONSTRAINT draft_revisions_tab_check CHECK (tab_index >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_draft_revisions_thread_tab
+  ON draft_revisions(thread_id, tab_index, created_at DESC);
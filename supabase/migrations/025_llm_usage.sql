@@ -0,0 +1,41 @@
+-- ============================================================================
+-- Migration: LLM usage ledger and organization budgets
+-- ============================================================================
+-- Every Anthropic/OpenAI call made with an organization's keys (app routes and
+-- the media worker) appends a row with the token usage the SDK reported and
+-- the estimated cost. Monthly budgets read month-to-date spend from here.
+
+CREATE TABLE IF NOT EXISTS llm_usage_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES app_users(id) ON DELETE SET NULL,
+    product_id UUID REFERENCES products(id) ON DELETE SET NULL,
+    feature TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0,
+    cache_read_input_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+    request_id TEXT,
+    metadata JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT llm_usage_events_provider_check CHECK (provider IN ('anthropic', 'openai'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_events_org_created
+  ON llm_usage_events(organization_id, created_at DESC);
+
+-- One budget per organization. NULL monthly_budget_usd means no limit.
+CREATE TABLE IF NOT EXISTS organization_llm_budgets (
+    organization_id UUID PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+    monthly_budget_usd NUMERIC(12, 2),
+    warn_at_percent INTEGER NOT NULL DEFAULT 80,
+    hard_stop BOOLEAN NOT NULL DEFAULT true,
+    updated_by UUID REFERENCES app_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT organization_llm_budgets_amount_check CHECK (monthly_budget_usd IS NULL OR monthly_budget_usd >= 0),
+    CONSTRAINT organization_llm_budgets_warn_check CHECK (warn_at_percent BETWEEN 1 AND 100)
+);
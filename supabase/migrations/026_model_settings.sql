@@ -0,0 +1,18 @@
+-- ============================================================================
+-- Migration: Per-organization model selection
+-- ============================================================================
+-- Model ids come from the registry in services/media-worker/src/model-registry.js.
+-- A call resolves skill override -> agent override -> default_model -> the
+-- deployment default for that agent.
+
+CREATE TABLE IF NOT EXISTS organization_model_settings (
+    organization_id UUID PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+    default_model TEXT,
+    -- { "<agent id>": "<model id>" }
+    agent_models JSONB NOT NULL DEFAULT '{}',
+    -- { "<skill key>": "<model id>" }, only used by skill-aware agents
+    skill_models JSONB NOT NULL DEFAULT '{}',
+    updated_by UUID REFERENCES app_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
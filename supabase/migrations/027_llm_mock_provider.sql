@@ -0,0 +1,11 @@
+-- ============================================================================
+-- Migration: Allow the mock LLM provider in the usage ledger
+-- ============================================================================
+-- With LLM_PROVIDER=mock, app routes answer from fixtures instead of calling
+-- Anthropic or OpenAI. Those calls are still metered (at zero cost) so demos
+-- and tests exercise the same ledger path.
+
+ALTER TABLE llm_usage_events DROP CONSTRAINT IF EXISTS llm_usage_events_provider_check;
+
+ALTER TABLE llm_usage_events
+  ADD CONSTRAINT llm_usage_events_provider_check CHECK (provider IN ('anthropic', 'openai', 'mock'));
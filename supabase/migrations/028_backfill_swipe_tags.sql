@@ -0,0 +1,16 @@
+-- ============================================================================
+-- Migration: backfill swipe tags
+-- ============================================================================
+-- Swipes summarized before 020_swipe_tags have an empty `tags` object and never
+-- show up in tag filters. Queue one `backfill_swipe_tags` media job; the worker
+-- re-tags ready swipes from their stored transcript or ad copy, 25 at a time,
+-- and queues the next page itself.
+
+INSERT INTO media_jobs (type, status, input)
+SELECT 'backfill_swipe_tags', 'queued', '{}'::jsonb
+WHERE EXISTS (SELECT 1 FROM swipes WHERE status = 'ready' AND tags = '{}'::jsonb)
+  AND NOT EXISTS (
+    SELECT 1 FROM media_jobs
+    WHERE type = 'backfill_swipe_tags'
+      AND status IN ('queued', 'running')
+  );